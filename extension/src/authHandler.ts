@@ -29,10 +29,18 @@ export function registerAuthHandler(
           const githubUsername = user?.user_metadata?.user_name || 'Unknown';
           const avatarUrl = user?.user_metadata?.avatar_url || '';
 
-          // Create or update profile
+          // Create or update profile, then settle local gold and XP against it
           await profileSync.createInitialProfile(githubUsername, avatarUrl);
+          await profileSync.hydrateLocalStateFromCloud();
           await profileSync.syncProfileToCloud();
 
+          const migrated = await profileSync.migrateLocalEconomy();
+          if (migrated) {
+            vscode.window.showInformationMessage(
+              `Moved ${migrated.quests} quest(s) and ${migrated.workers} worker(s) to your account.`
+            );
+          }
+
           const friendCode = await profileSync.getMyFriendCode();
 
           vscode.window.showInformationMessage(
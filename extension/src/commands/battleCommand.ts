@@ -2,7 +2,9 @@ import * as vscode from 'vscode';
 import { generateBattleHTML } from '../webview/battleUI';
 import { getNonce } from '../webview/webviewUtils';
 import { BattleAnimationPlayer } from '../webview/battlePlayer';
-import type { BattleAction, CharacterClass } from '../types';
+import { STATUS_EFFECTS } from '../config/classConfig';
+import { describeTick } from '../services/statusEffects';
+import type { BattleAction, BattleFighter, BattleResult, BattleRewards, CharacterClass, StatusEffectSnapshot } from '../types';
 
 export interface BattleData {
   fighter1: {
@@ -27,6 +29,30 @@ export interface BattleData {
   };
 }
 
+/**
+ * Battle panel data for an engine result, with `fighter1Id` on the left
+ */
+export function battleDataFromResult(result: BattleResult, fighter1Id: string, rewards: BattleRewards = result.rewards): BattleData {
+  const [left, right] = result.winner.id === fighter1Id
+    ? [result.winner, result.loser]
+    : [result.loser, result.winner];
+  const side = (fighter: BattleFighter) => ({
+    id: fighter.id,
+    name: fighter.name,
+    class: fighter.class as CharacterClass,
+    level: fighter.level,
+    maxHp: fighter.stats.maxHp,
+  });
+
+  return {
+    fighter1: side(left),
+    fighter2: side(right),
+    actions: result.actions,
+    winnerId: result.winner.id,
+    rewards,
+  };
+}
+
 export async function showBattlePanel(
   context: vscode.ExtensionContext,
   battleData: BattleData
@@ -53,6 +79,15 @@ export async function showBattlePanel(
     panel.webview.cspSource
   );
 
+  const statusIcons = (effects: StatusEffectSnapshot[] = []) => effects.map(e => ({
+    icon: STATUS_EFFECTS[e.type].icon,
+    name: STATUS_EFFECTS[e.type].name,
+    kind: STATUS_EFFECTS[e.type].kind,
+    stacks: e.stacks,
+    turnsLeft: e.turnsLeft
+  }));
+  let lastTicked: BattleAction | null = null;
+
   // Create animation player
   const player = new BattleAnimationPlayer(
     battleData.actions,
@@ -90,6 +125,63 @@ export async function showBattlePanel(
       });
 
       const action = state.getCurrentAction();
+      const actor = action?.actorId === f1.id ? f1 : f2;
+
+      panel.webview.postMessage({
+        type: 'updateStatus',
+        fighterId: 1,
+        effects: statusIcons(action?.statusEffects?.[f1.id])
+      });
+
+      panel.webview.postMessage({
+        type: 'updateStatus',
+        fighterId: 2,
+        effects: statusIcons(action?.statusEffects?.[f2.id])
+      });
+
+      if (action?.actionType === 'status' && action.statusEffect) {
+        // Status ticks are announced once and skip the hit log below
+        if (action !== lastTicked) {
+          lastTicked = action;
+          const bearerName = action.actorId === f1.id ? battleData.fighter1.name : battleData.fighter2.name;
+
+          if (action.damage > 0) {
+            panel.webview.postMessage({
+              type: 'showDamage',
+              targetId: action.actorId === f1.id ? 1 : 2,
+              damage: action.damage,
+              isCrit: false,
+              isHeal: action.isHeal === true
+            });
+          }
+
+          panel.webview.postMessage({
+            type: 'addLogEntry',
+            text: `${STATUS_EFFECTS[action.statusEffect].icon} ${describeTick(bearerName, { type: action.statusEffect, amount: action.damage })}`,
+            isCrit: false
+          });
+        }
+        return;
+      }
+
+      if (action?.abilityName && (actor.state === 'casting' || actor.state === 'defending')) {
+        const actorName = action.actorId === f1.id ? battleData.fighter1.name : battleData.fighter2.name;
+
+        panel.webview.postMessage({
+          type: 'showAbility',
+          fighterId: action.actorId === f1.id ? 1 : 2,
+          name: action.abilityName
+        });
+
+        if (action.actionType === 'defend') {
+          panel.webview.postMessage({
+            type: 'addLogEntry',
+            text: `${actorName} raises ${action.abilityName}!`,
+            isCrit: false
+          });
+        }
+      }
+
       if (action && action.damage > 0) {
         const targetId = action.targetId === f1.id ? 1 : 2;
 
@@ -105,7 +197,13 @@ export async function showBattlePanel(
 
         panel.webview.postMessage({
           type: 'addLogEntry',
-          text: `${attackerName} hits ${defenderName} for ${action.damage} damage!`,
+          text: (action.abilityName || action.skillName
+            ? `${attackerName} uses ${action.abilityName ?? action.skillName} on ${defenderName} for ${action.damage} damage!`
+            : `${attackerName} hits ${defenderName} for ${action.damage} damage!`) +
+            (action.blocked ? ` (${action.blocked} blocked)` : '') +
+            (action.appliedEffects?.length
+              ? ` ${action.appliedEffects.map(type => STATUS_EFFECTS[type].icon).join('')}`
+              : ''),
           isCrit: action.isCrit
         });
       }
@@ -1,33 +1,27 @@
 import * as vscode from 'vscode';
-import { SupabaseClientService } from '../services/supabaseClient';
-import { QuestService } from '../services/questService';
+import { QuestService, isQuestTier } from '../services/questService';
 import { WorkerService } from '../services/workerService';
+import { LocalStateManager } from '../services/localStateManager';
+import { nextMilestone } from '../services/streakTracker';
+import { STREAK_CONFIG, QUEST_REROLL_COST } from '../config/classConfig';
 
 export interface EconomyServices {
-  supabaseClient: SupabaseClientService;
   questService: QuestService;
   workerService: WorkerService;
+  stateManager: LocalStateManager;
 }
 
 export function registerEconomyCommands(
   context: vscode.ExtensionContext,
   services: EconomyServices
 ): vscode.Disposable[] {
-  const { supabaseClient, questService, workerService } = services;
+  const { questService, workerService, stateManager } = services;
 
-  // gitrpg.showQuests - Show daily quests and claim rewards
+  // gitrpg.showQuests - Show quests, claim rewards and reroll
+  // Quests and workers are kept locally until an account is connected
   const showQuestsCmd = vscode.commands.registerCommand('gitrpg.showQuests', async () => {
-    if (!supabaseClient.isAuthenticated()) {
-      vscode.window.showWarningMessage('Connect your account first to see quests!', 'Connect').then((action) => {
-        if (action === 'Connect') {
-          vscode.commands.executeCommand('gitrpg.connectAccount');
-        }
-      });
-      return;
-    }
-
-    // Refresh daily quests if needed
-    const quests = await questService.refreshDailyQuestsIfNeeded();
+    // Refresh daily, weekly and monthly quests if needed
+    const quests = await questService.refreshQuestsIfNeeded();
 
     if (quests.length === 0) {
       vscode.window.showInformationMessage('No active quests. Check back tomorrow for new daily quests!');
@@ -35,14 +29,14 @@ export function registerEconomyCommands(
     }
 
     const items = quests.map(q => ({
-      label: `${q.status === 'completed' ? '✅' : '📋'} ${q.title}`,
+      label: `${q.status === 'completed' ? '✅' : '📋'} ${q.title} [${q.quest_type}]`,
       description: `${q.requirement_current}/${q.requirement_target} - ${q.reward_xp} XP, ${q.reward_gold} Gold`,
       detail: q.description,
       quest: q
     }));
 
     const selected = await vscode.window.showQuickPick(items, {
-      placeHolder: 'Your Daily Quests'
+      placeHolder: 'Your Quests'
     });
 
     if (selected && selected.quest.status === 'completed') {
@@ -56,20 +50,25 @@ export function registerEconomyCommands(
           vscode.window.showInformationMessage(`Claimed ${rewards.xp} XP and ${rewards.gold} Gold!`);
         }
       }
+    } else if (selected && selected.quest.status === 'active' && isQuestTier(selected.quest.quest_type)) {
+      const cost = QUEST_REROLL_COST[selected.quest.quest_type];
+      const action = await vscode.window.showQuickPick([`Reroll (${cost} gold)`, 'Cancel'], {
+        placeHolder: `${selected.quest.title} - one reroll per day`
+      });
+
+      if (action?.startsWith('Reroll')) {
+        const result = await questService.rerollQuest(selected.quest.id);
+        if (result.success) {
+          vscode.window.showInformationMessage(`New quest: ${result.quest?.title}`);
+        } else {
+          vscode.window.showErrorMessage(result.error || 'Failed to reroll quest');
+        }
+      }
     }
   });
 
   // gitrpg.showWorkers - Manage workers (view, buy, upgrade)
   const showWorkersCmd = vscode.commands.registerCommand('gitrpg.showWorkers', async () => {
-    if (!supabaseClient.isAuthenticated()) {
-      vscode.window.showWarningMessage('Connect your account first to manage workers!', 'Connect').then((action) => {
-        if (action === 'Connect') {
-          vscode.commands.executeCommand('gitrpg.connectAccount');
-        }
-      });
-      return;
-    }
-
     const summary = await workerService.getWorkerSummary();
     const workers = await workerService.getWorkers();
 
@@ -121,11 +120,6 @@ export function registerEconomyCommands(
 
   // gitrpg.collectGold - Collect gold from workers
   const collectGoldCmd = vscode.commands.registerCommand('gitrpg.collectGold', async () => {
-    if (!supabaseClient.isAuthenticated()) {
-      vscode.window.showWarningMessage('Connect your account first!');
-      return;
-    }
-
     const result = await workerService.collectAllGold();
     if (result.success) {
       vscode.window.showInformationMessage(`Collected ${result.goldCollected} gold from workers!`);
@@ -134,9 +128,36 @@ export function registerEconomyCommands(
     }
   });
 
+  // gitrpg.showStreak - Show the coding streak and buy streak freezes
+  const showStreakCmd = vscode.commands.registerCommand('gitrpg.showStreak', async () => {
+    const streak = stateManager.getStreak();
+    const milestone = nextMilestone(streak.current);
+
+    const options = [
+      `🔥 Current streak: ${streak.current} day(s) (longest ${streak.longest})`,
+      `🎯 Next milestone: ${milestone ? `${milestone} days` : 'all reached'}`,
+      `🧊 Buy Streak Freeze (${STREAK_CONFIG.freezeCost} gold) - ${streak.freezes}/${STREAK_CONFIG.maxFreezes} owned`,
+      ...streak.frozenDates.slice(-5).reverse().map(date => `❄️ Freeze used on ${date}`)
+    ];
+
+    const selected = await vscode.window.showQuickPick(options, {
+      placeHolder: 'Coding Streak'
+    });
+
+    if (selected?.startsWith('🧊 Buy')) {
+      const result = await stateManager.purchaseStreakFreeze();
+      if (result.success) {
+        vscode.window.showInformationMessage('Streak freeze purchased! It will cover one missed day.');
+      } else {
+        vscode.window.showErrorMessage(result.error || 'Failed to purchase streak freeze');
+      }
+    }
+  });
+
   return [
     showQuestsCmd,
     showWorkersCmd,
-    collectGoldCmd
+    collectGoldCmd,
+    showStreakCmd
   ];
 }
@@ -3,10 +3,13 @@ import { registerBattleCommand } from './battleCommand';
 import { registerCharacterCommands } from './characterCommands';
 import { registerSocialCommands, SocialServices } from './socialCommands';
 import { registerEconomyCommands, EconomyServices } from './economyCommands';
+import { registerTrackingCommands, TrackingServices } from './trackingCommands';
+import { registerInventoryCommands, InventoryServices } from './inventoryCommands';
+import { registerTalentCommands, TalentServices } from './talentCommands';
 import { LocalStateManager } from '../services/localStateManager';
 import { GitTrackingService } from '../services/gitTrackingService';
 
-export interface AllServices extends SocialServices, EconomyServices {
+export interface AllServices extends SocialServices, EconomyServices, TrackingServices, InventoryServices, TalentServices {
   stateManager: LocalStateManager;
   gitTracker: GitTrackingService;
 }
@@ -29,6 +32,9 @@ export function registerAllCommands(
     ...registerCharacterCommands(context, services.stateManager),
     ...registerSocialCommands(context, services),
     ...registerEconomyCommands(context, services),
+    ...registerTrackingCommands(context, services),
+    ...registerInventoryCommands(context, services),
+    ...registerTalentCommands(context, services),
     registerBattleCommand(context),
     checkCommitsCmd,
     showLogCmd,
@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+import { InventoryService, OwnedItem, describeModifiers, formatItem } from '../services/inventoryService';
+import type { ItemSlot } from '../types';
+
+export interface InventoryServices {
+  inventoryService: InventoryService;
+}
+
+function toQuickPickItem(item: OwnedItem) {
+  return {
+    label: `${item.equipped ? '✅ ' : ''}${formatItem(item)}${item.count > 1 ? ` x${item.count}` : ''}`,
+    description: `${item.slot} - ${describeModifiers(item.modifiers)}`,
+    detail: item.description,
+    item
+  };
+}
+
+export function registerInventoryCommands(
+  context: vscode.ExtensionContext,
+  services: InventoryServices
+): vscode.Disposable[] {
+  const { inventoryService } = services;
+
+  const equip = async (item: OwnedItem) => {
+    const result = await inventoryService.equip(item.id);
+    if (result.success) {
+      vscode.window.showInformationMessage(`Equipped ${formatItem(item)}`);
+    } else {
+      vscode.window.showErrorMessage(result.error || 'Failed to equip item');
+    }
+  };
+
+  const unequip = async (slot: ItemSlot) => {
+    await inventoryService.unequip(slot);
+    vscode.window.showInformationMessage(`Unequipped your ${slot}`);
+  };
+
+  // gitrpg.showInventory - List owned items; pick one to equip or unequip it
+  const showInventoryCmd = vscode.commands.registerCommand('gitrpg.showInventory', async () => {
+    const items = inventoryService.getInventory();
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('Your inventory is empty. Defeat bosses and claim quests to find loot!');
+      return;
+    }
+
+    const stats = inventoryService.getBattleStats();
+    const selected = await vscode.window.showQuickPick(items.map(toQuickPickItem), {
+      placeHolder: `Battle stats: ${stats.maxHp} HP, ${stats.attack} ATK, ${stats.defense} DEF, ${stats.speed} SPD`
+    });
+    if (!selected) return;
+
+    if (selected.item.equipped) {
+      await unequip(selected.item.slot);
+    } else {
+      await equip(selected.item);
+    }
+  });
+
+  // gitrpg.equipItem - Equip an owned item that isn't worn yet
+  const equipItemCmd = vscode.commands.registerCommand('gitrpg.equipItem', async () => {
+    const items = inventoryService.getInventory().filter(i => !i.equipped);
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('No unequipped items to wear.');
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(items.map(toQuickPickItem), {
+      placeHolder: 'Choose an item to equip'
+    });
+    if (selected) {
+      await equip(selected.item);
+    }
+  });
+
+  // gitrpg.unequipItem - Take off a worn item
+  const unequipItemCmd = vscode.commands.registerCommand('gitrpg.unequipItem', async () => {
+    const equipped = inventoryService.getEquippedItems();
+    if (equipped.length === 0) {
+      vscode.window.showInformationMessage('Nothing is equipped.');
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      equipped.map(item => ({ label: formatItem(item), description: item.slot, item })),
+      { placeHolder: 'Choose an item to unequip' }
+    );
+    if (selected) {
+      await unequip(selected.item.slot);
+    }
+  });
+
+  return [showInventoryCmd, equipItemCmd, unequipItemCmd];
+}
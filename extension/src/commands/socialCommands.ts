@@ -4,7 +4,11 @@ import { ProfileSyncService } from '../services/profileSyncService';
 import { FriendsService } from '../services/friendsService';
 import { PvpBattleService } from '../services/pvpBattleService';
 import { CoopBattleService } from '../services/coopBattleService';
+import { RankedService } from '../services/rankedService';
+import { TournamentService, TOURNAMENT_FORMAT_NAMES, type TournamentFormat } from '../services/tournamentService';
+import { TOURNAMENT_CONFIG } from '../config/classConfig';
 import { BOSS_DEFINITIONS, getBossEmoji } from '../services/bossService';
+import { battleDataFromResult, showBattlePanel } from './battleCommand';
 
 export interface SocialServices {
   supabaseClient: SupabaseClientService;
@@ -12,13 +16,27 @@ export interface SocialServices {
   friendsService: FriendsService;
   pvpBattleService: PvpBattleService;
   coopBattleService: CoopBattleService;
+  rankedService: RankedService;
+  tournamentService: TournamentService;
 }
 
 export function registerSocialCommands(
   context: vscode.ExtensionContext,
   services: SocialServices
 ): vscode.Disposable[] {
-  const { supabaseClient, profileSync, friendsService, pvpBattleService, coopBattleService } = services;
+  const { supabaseClient, profileSync, friendsService, pvpBattleService, coopBattleService, rankedService, tournamentService } = services;
+
+  // Fight an opponent's ghost and play the battle back
+  const fightGhost = async (opponentId: string, opponentName: string) => {
+    const outcome = await pvpBattleService.fightGhost(opponentId);
+    if (!outcome.success || !outcome.result) {
+      vscode.window.showErrorMessage(outcome.error || `Failed to fight ${opponentName}'s ghost`);
+      return;
+    }
+
+    const user = supabaseClient.getCurrentUser();
+    await showBattlePanel(context, battleDataFromResult(outcome.result, user?.id ?? '', outcome.earned));
+  };
 
   // gitrpg.connectAccount - Connect/link GitHub account via OAuth
   const connectAccountCmd = vscode.commands.registerCommand('gitrpg.connectAccount', async () => {
@@ -96,7 +114,7 @@ export function registerSocialCommands(
           await friendsService.declineFriendRequest(selected.friend.id);
         }
       } else {
-        const action = await vscode.window.showQuickPick(['Challenge to Battle', 'Remove Friend'], {
+        const action = await vscode.window.showQuickPick(['Challenge to Battle', 'Fight Their Ghost', 'Remove Friend'], {
           placeHolder: selected.friend.displayName
         });
         if (action === 'Challenge to Battle') {
@@ -106,6 +124,8 @@ export function registerSocialCommands(
           } else {
             vscode.window.showErrorMessage(result.error || 'Failed to send challenge');
           }
+        } else if (action === 'Fight Their Ghost') {
+          await fightGhost(selected.friend.id, selected.friend.displayName);
         } else if (action === 'Remove Friend') {
           await friendsService.removeFriend(selected.friend.id);
           vscode.window.showInformationMessage(`Removed ${selected.friend.displayName} from friends`);
@@ -114,6 +134,107 @@ export function registerSocialCommands(
     }
   });
 
+  // gitrpg.fightGhost - Battle the stored stats of a friend or ladder player
+  const fightGhostCmd = vscode.commands.registerCommand('gitrpg.fightGhost', async () => {
+    if (!supabaseClient.isAuthenticated()) {
+      vscode.window.showWarningMessage('Connect your account first!');
+      return;
+    }
+
+    const friends = (await friendsService.getFriends()).filter(f => f.status === 'accepted');
+    const ladder = await rankedService.getLadderView();
+    const rivals = (ladder?.entries ?? []).filter(e => !e.isMe && !friends.some(f => f.id === e.userId));
+
+    const items = [
+      ...friends.map(f => ({
+        label: `$(person) ${f.displayName}`,
+        description: `Lv.${f.level} ${f.characterClass}`,
+        detail: 'Friend',
+        opponentId: f.id,
+        name: f.displayName,
+      })),
+      ...rivals.map(e => ({
+        label: `$(organization) ${e.name}`,
+        description: `Lv.${e.level} ${e.characterClass}`,
+        detail: `#${e.rank} on the ladder · ${e.division.icon} ${e.division.name} ${e.rating}`,
+        opponentId: e.userId,
+        name: e.name,
+      })),
+    ];
+
+    if (items.length === 0) {
+      vscode.window.showInformationMessage('No ghosts to fight yet! Add friends or wait for the ladder to fill up.');
+      return;
+    }
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Whose ghost do you want to fight?'
+    });
+    if (selected) {
+      await fightGhost(selected.opponentId, selected.name);
+    }
+  });
+
+  // gitrpg.createTournament - Start a bracket or league with friends
+  const createTournamentCmd = vscode.commands.registerCommand('gitrpg.createTournament', async () => {
+    if (!supabaseClient.isAuthenticated()) {
+      vscode.window.showWarningMessage('Connect your account first!');
+      return;
+    }
+
+    const friends = (await friendsService.getFriends()).filter(f => f.status === 'accepted');
+    if (friends.length < TOURNAMENT_CONFIG.minPlayers - 1) {
+      vscode.window.showInformationMessage(`You need at least ${TOURNAMENT_CONFIG.minPlayers - 1} friends to run a tournament.`);
+      return;
+    }
+
+    const formatDetails: Record<TournamentFormat, string> = {
+      single_elimination: 'Lose once and you are out',
+      double_elimination: 'Lose twice and you are out, with a losers bracket',
+      round_robin: 'Everyone fights everyone, most wins takes it',
+    };
+    const format = await vscode.window.showQuickPick(
+      (Object.keys(formatDetails) as TournamentFormat[]).map(id => ({
+        label: TOURNAMENT_FORMAT_NAMES[id],
+        detail: formatDetails[id],
+        id,
+      })),
+      { placeHolder: 'Choose a format' }
+    );
+    if (!format) return;
+
+    const picked = await vscode.window.showQuickPick(
+      friends.map(f => ({
+        label: f.displayName,
+        description: `Lv.${f.level} ${f.characterClass}`,
+        friendId: f.id,
+      })),
+      { placeHolder: `Pick up to ${TOURNAMENT_CONFIG.maxPlayers - 1} friends to invite`, canPickMany: true }
+    );
+    if (!picked) return;
+
+    const name = await vscode.window.showInputBox({
+      prompt: 'Tournament name',
+      value: 'Team Tournament',
+      validateInput: value => (value.trim() ? null : 'Enter a name')
+    });
+    if (!name) return;
+
+    const result = await tournamentService.createTournament(name.trim(), format.id, picked.map(p => p.friendId));
+    if (!result.success) {
+      vscode.window.showErrorMessage(result.error || 'Failed to create tournament');
+      return;
+    }
+
+    const action = await vscode.window.showInformationMessage(
+      `${name.trim()} is set up with ${picked.length + 1} players!`,
+      'View Bracket'
+    );
+    if (action === 'View Bracket') {
+      vscode.commands.executeCommand('gitrpg.showTournaments');
+    }
+  });
+
   // gitrpg.addFriend - Add friend by code
   const addFriendCmd = vscode.commands.registerCommand('gitrpg.addFriend', async () => {
     if (!supabaseClient.isAuthenticated()) {
@@ -225,6 +346,8 @@ export function registerSocialCommands(
   return [
     connectAccountCmd,
     showFriendsCmd,
+    fightGhostCmd,
+    createTournamentCmd,
     addFriendCmd,
     showFriendCodeCmd,
     viewDailyBossCmd,
@@ -0,0 +1,75 @@
+import * as vscode from 'vscode';
+import { TalentService, TalentStatus } from '../services/talentService';
+
+export interface TalentServices {
+  talentService: TalentService;
+}
+
+function toQuickPickItem(talent: TalentStatus) {
+  return {
+    label: `${talent.icon} ${talent.name} ${talent.rank}/${talent.maxRank}`,
+    description: talent.learnable ? (talent.skill ? 'Skill' : 'Passive') : talent.blocker ?? '',
+    detail: talent.description,
+    talent
+  };
+}
+
+export function registerTalentCommands(
+  context: vscode.ExtensionContext,
+  services: TalentServices
+): vscode.Disposable[] {
+  const { talentService } = services;
+
+  const respec = async () => {
+    const cost = talentService.getRespecCost();
+    const confirm = await vscode.window.showWarningMessage(
+      `Reset all talents for ${cost} gold?`,
+      { modal: true },
+      'Reset Talents'
+    );
+    if (confirm !== 'Reset Talents') return;
+
+    const result = await talentService.respec();
+    if (result.success) {
+      vscode.window.showInformationMessage('Talents reset. Your points are ready to spend again.');
+    } else {
+      vscode.window.showErrorMessage(result.error || 'Failed to reset talents');
+    }
+  };
+
+  // gitrpg.showTalents - Show the class tree; pick a talent to learn its next rank
+  const showTalentsCmd = vscode.commands.registerCommand('gitrpg.showTalents', async () => {
+    const points = talentService.getPoints();
+    const respecItem = {
+      label: '$(refresh) Reset Talents',
+      description: `${talentService.getRespecCost()} gold`,
+      detail: 'Refund every point in this tree',
+      talent: null
+    };
+
+    const selected = await vscode.window.showQuickPick(
+      [...talentService.getTree().map(toQuickPickItem), ...(points.spent > 0 ? [respecItem] : [])],
+      { placeHolder: `${points.available} of ${points.total} talent points available` }
+    );
+    if (!selected) return;
+
+    if (!selected.talent) {
+      await respec();
+      return;
+    }
+
+    const result = await talentService.learn(selected.talent.id);
+    if (result.success) {
+      vscode.window.showInformationMessage(
+        `Learned ${selected.talent.name} rank ${selected.talent.rank + 1}!`
+      );
+    } else {
+      vscode.window.showErrorMessage(result.error || 'Failed to learn talent');
+    }
+  });
+
+  // gitrpg.respecTalents - Reset the current class tree for gold
+  const respecTalentsCmd = vscode.commands.registerCommand('gitrpg.respecTalents', respec);
+
+  return [showTalentsCmd, respecTalentsCmd];
+}
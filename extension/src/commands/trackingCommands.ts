@@ -0,0 +1,263 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GitTrackingService } from '../services/gitTrackingService';
+import { LocalStateManager } from '../services/localStateManager';
+import type { AuthorIdentityKind } from '../services/authorIdentity';
+import { loadHistoryImportOptions, buildHistoryImportPreview } from '../services/historyImport';
+import { loadTrackingRules, saveExcludeList, evaluateRepo } from '../services/repoTrackingRules';
+
+export interface TrackingServices {
+  gitTracker: GitTrackingService;
+  stateManager: LocalStateManager;
+}
+
+const IDENTITY_LABELS: Record<AuthorIdentityKind, string> = {
+  emails: 'Email',
+  names: 'Name',
+  githubUsernames: 'GitHub username',
+};
+
+export function registerTrackingCommands(
+  context: vscode.ExtensionContext,
+  services: TrackingServices
+): vscode.Disposable[] {
+  const { gitTracker, stateManager } = services;
+
+  // gitrpg.installCommitHooks - Add the optional post-commit marker hook to tracked repos
+  const installHooksCmd = vscode.commands.registerCommand('gitrpg.installCommitHooks', () => {
+    const { installed, failed } = gitTracker.installCommitHooks();
+    if (failed > 0) {
+      vscode.window.showWarningMessage(`Installed post-commit hooks in ${installed} repos (${failed} failed - see log)`);
+    } else {
+      vscode.window.showInformationMessage(`Installed post-commit hooks in ${installed} repos`);
+    }
+  });
+
+  // gitrpg.uninstallCommitHooks - Remove the GitRPG line from post-commit hooks
+  const uninstallHooksCmd = vscode.commands.registerCommand('gitrpg.uninstallCommitHooks', () => {
+    const removed = gitTracker.uninstallCommitHooks();
+    vscode.window.showInformationMessage(`Removed post-commit hooks from ${removed} repos`);
+  });
+
+  // gitrpg.manageTrackedRepos - Toggle which discovered repos earn XP
+  const manageTrackedReposCmd = vscode.commands.registerCommand('gitrpg.manageTrackedRepos', async () => {
+    const candidates = gitTracker.getRepoCandidates();
+
+    if (candidates.length === 0) {
+      vscode.window.showInformationMessage('No git repositories discovered yet. Open a repo folder first.');
+      return;
+    }
+
+    const items = candidates.map(({ repoPath, decision }) => ({
+      label: path.basename(repoPath),
+      description: decision.xpMultiplier !== 1 ? `x${decision.xpMultiplier} XP` : undefined,
+      detail: decision.tracked ? repoPath : `${repoPath} — ${decision.reason}`,
+      picked: decision.tracked,
+      repoPath,
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: 'Checked repositories earn XP (changes are saved to gitrpg.tracking.exclude)'
+    });
+
+    if (!selected) {
+      return;
+    }
+
+    const rules = loadTrackingRules();
+    const selectedPaths = new Set(selected.map(item => item.repoPath));
+    let exclude = [...rules.exclude];
+
+    for (const { repoPath, decision } of candidates) {
+      if (selectedPaths.has(repoPath)) {
+        // Re-enable: drop an exact-path exclusion if there is one
+        exclude = exclude.filter(pattern => pattern !== repoPath);
+      } else if (decision.tracked) {
+        exclude.push(repoPath);
+      }
+    }
+
+    await saveExcludeList(exclude);
+
+    // Repos still blocked by a glob or remote rule can't be re-enabled from here
+    const stillExcluded = [...selectedPaths].filter(repoPath =>
+      !evaluateRepo(repoPath, { ...rules, exclude }).tracked
+    );
+    if (stillExcluded.length > 0) {
+      vscode.window.showWarningMessage(
+        `${stillExcluded.map(p => path.basename(p)).join(', ')} still excluded by a pattern in gitrpg.tracking settings`,
+        'Open Settings'
+      ).then(action => {
+        if (action === 'Open Settings') {
+          vscode.commands.executeCommand('workbench.action.openSettings', 'gitrpg.tracking');
+        }
+      });
+    }
+
+    await gitTracker.refreshTrackingRules();
+    vscode.window.showInformationMessage(`Tracking ${gitTracker.getRepoCandidates().filter(c => c.decision.tracked).length} repositories`);
+  });
+
+  // gitrpg.manageIdentities - Choose which emails/names/GitHub accounts count as you
+  const manageIdentitiesCmd = vscode.commands.registerCommand('gitrpg.manageIdentities', async () => {
+    const identities = stateManager.getIdentities();
+    const kinds = Object.keys(IDENTITY_LABELS) as AuthorIdentityKind[];
+
+    type IdentityItem = vscode.QuickPickItem & {
+      action: 'remove' | 'add' | 'detect';
+      identityKind?: AuthorIdentityKind;
+      value?: string;
+    };
+
+    const items: IdentityItem[] = [];
+    for (const kind of kinds) {
+      for (const value of identities[kind]) {
+        items.push({ label: `$(trash) ${value}`, description: IDENTITY_LABELS[kind], action: 'remove', identityKind: kind, value });
+      }
+    }
+    for (const kind of kinds) {
+      items.push({ label: `$(add) Add ${IDENTITY_LABELS[kind].toLowerCase()}...`, action: 'add', identityKind: kind });
+    }
+    items.push({ label: '$(search) Detect from git config', action: 'detect' });
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Commits by any of these identities earn XP (select one to remove it)'
+    });
+
+    if (!selected) {
+      return;
+    }
+
+    if (selected.action === 'remove' && selected.identityKind && selected.value) {
+      await stateManager.removeIdentity(selected.identityKind, selected.value);
+      vscode.window.showInformationMessage(`Removed ${selected.value}`);
+    } else if (selected.action === 'add' && selected.identityKind) {
+      const kind = selected.identityKind;
+      const value = await vscode.window.showInputBox({
+        prompt: kind === 'githubUsernames'
+          ? 'GitHub username (matches <id>+<user>@users.noreply.github.com commits)'
+          : `Author ${IDENTITY_LABELS[kind].toLowerCase()} as it appears in git log`,
+        validateInput: (input) => {
+          if (!input.trim()) return `${IDENTITY_LABELS[kind]} cannot be empty`;
+          if (kind === 'emails' && !input.includes('@')) return 'Enter a valid email address';
+          return null;
+        }
+      });
+      if (!value) {
+        return;
+      }
+      if (await stateManager.addIdentity(kind, value)) {
+        vscode.window.showInformationMessage(`Commits by ${value.trim()} will now earn XP`);
+      } else {
+        vscode.window.showInformationMessage(`${value.trim()} is already one of your identities`);
+      }
+    } else if (selected.action === 'detect') {
+      const added = await gitTracker.detectIdentities();
+      vscode.window.showInformationMessage(
+        added > 0 ? `Added ${added} identities from git config` : 'No new identities found in git config'
+      );
+    }
+  });
+
+  // gitrpg.importHistory - Backfill XP from commits made before GitRPG was installed
+  const importHistoryCmd = vscode.commands.registerCommand('gitrpg.importHistory', async () => {
+    if (stateManager.hasImportedHistory()) {
+      vscode.window.showInformationMessage('Commit history has already been imported for this character.');
+      return;
+    }
+
+    const options = loadHistoryImportOptions();
+    const preview = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: 'GitRPG: Reading commit history...' },
+      async () => buildHistoryImportPreview(
+        await gitTracker.collectHistory(),
+        stateManager.getCharacter(),
+        options
+      )
+    );
+
+    if (preview.totalCommits === 0) {
+      vscode.window.showInformationMessage('No past commits by you were found in tracked repositories.');
+      return;
+    }
+
+    const since = preview.oldestCommitDate ? new Date(preview.oldestCommitDate).toLocaleDateString() : 'the start';
+    const adjustments = [
+      options.halfLifeDays > 0 ? `XP halves every ${options.halfLifeDays} days of age` : null,
+      options.maxAgeDays > 0 ? `commits older than ${options.maxAgeDays} days skipped` : null,
+      preview.capped ? `capped at ${options.maxTotalXp} XP` : null,
+    ].filter(Boolean);
+    const topRepos = preview.repos.slice(0, 5)
+      .map(r => `  ${path.basename(r.repoPath)}: ${r.commits} commits, ${r.xp} XP`);
+    if (preview.repos.length > 5) {
+      topRepos.push(`  ...and ${preview.repos.length - 5} more`);
+    }
+
+    const detail = [
+      `${preview.totalCommits} commits across ${preview.repos.length} repos since ${since}.`,
+      `+${preview.totalXp} XP (${preview.rawXp} before adjustments${adjustments.length ? `: ${adjustments.join(', ')}` : ''}).`,
+      `Level ${preview.currentLevel} → ${preview.projectedLevel}` +
+        (preview.projectedGold > 0 ? `, +${preview.projectedGold} gold` : ''),
+      '',
+      ...topRepos,
+      '',
+      'History can only be imported once.',
+    ].join('\n');
+
+    const choice = await vscode.window.showInformationMessage(
+      'Import commit history?',
+      { modal: true, detail },
+      'Import'
+    );
+
+    if (choice !== 'Import') {
+      return;
+    }
+
+    await stateManager.importHistory(preview);
+    vscode.window.showInformationMessage(
+      `📜 Imported ${preview.totalCommits} commits: +${preview.totalXp} XP, now Level ${stateManager.getCharacter().level}!`
+    );
+  });
+
+  // gitrpg.showActivityHistory - Browse the per-commit XP ledger
+  const showActivityHistoryCmd = vscode.commands.registerCommand('gitrpg.showActivityHistory', async () => {
+    const ledger = stateManager.getLedger();
+    const recent = ledger.query({ limit: 200 });
+
+    if (ledger.size === 0) {
+      vscode.window.showInformationMessage('No XP-earning commits recorded yet.');
+      return;
+    }
+
+    const items: Array<vscode.QuickPickItem & { openFile?: boolean }> = [
+      { label: '$(file) Open ledger file', description: `${ledger.size} entries`, openFile: true },
+      ...recent.map(entry => ({
+        label: `$(git-commit) ${entry.hash.substring(0, 7)}  +${entry.xpAwarded} XP`,
+        description: entry.repo ? path.basename(entry.repo) : entry.source,
+        detail: `${new Date(entry.timestamp).toLocaleString()} · +${entry.linesAdded}/-${entry.linesRemoved} in ${entry.filesChanged} files · ${entry.source}`,
+      })),
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: 'Most recent XP awards',
+      matchOnDescription: true,
+      matchOnDetail: true,
+    });
+
+    if (selected?.openFile) {
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.file(ledger.getFilePath()));
+      await vscode.window.showTextDocument(doc, { preview: true });
+    }
+  });
+
+  return [
+    showActivityHistoryCmd,
+    installHooksCmd,
+    uninstallHooksCmd,
+    manageTrackedReposCmd,
+    manageIdentitiesCmd,
+    importHistoryCmd,
+  ];
+}
@@ -7,6 +7,23 @@ import {
   QuestTemplate,
   WorkerConfig,
   BossDefinition,
+  CommitCategory,
+  ActivityEvent,
+  ActivityEventKind,
+  AchievementDefinition,
+  QuestTier,
+  QuestChain,
+  ItemDefinition,
+  ItemRarity,
+  LootSource,
+  LootTable,
+  ShopItem,
+  RankedDivision,
+  TalentDefinition,
+  ClassAbility,
+  BattleResource,
+  StatusEffectDefinition,
+  StatusEffectType,
 } from '../types/index';
 
 // Re-export CharacterClass for convenience
@@ -60,6 +77,88 @@ export const CLASS_BASE_STATS: Record<CharacterClass, CharacterStats> = {
   },
 };
 
+// ============================================================================
+// STATUS EFFECTS
+// ============================================================================
+
+/**
+ * Every status effect and how reapplying it stacks
+ */
+export const STATUS_EFFECTS: Record<StatusEffectType, StatusEffectDefinition> = {
+  poison: { type: 'poison', name: 'Poison', icon: '🧪', kind: 'debuff', stacking: 'intensity', maxStacks: 5 },
+  burn: { type: 'burn', name: 'Burn', icon: '🔥', kind: 'debuff', stacking: 'refresh', maxStacks: 1 },
+  stun: { type: 'stun', name: 'Stun', icon: '💫', kind: 'debuff', stacking: 'ignore', maxStacks: 1 },
+  shield: { type: 'shield', name: 'Shield', icon: '🛡️', kind: 'buff', stacking: 'refresh', maxStacks: 1 },
+  enrage: { type: 'enrage', name: 'Enrage', icon: '💢', kind: 'buff', stacking: 'refresh', maxStacks: 1 },
+  regen: { type: 'regen', name: 'Regen', icon: '💚', kind: 'buff', stacking: 'extend', maxStacks: 1 },
+};
+
+// ============================================================================
+// CLASS ABILITIES
+// ============================================================================
+
+/**
+ * Mana or energy each class starts a battle with and regains every turn
+ */
+export const BATTLE_RESOURCES: Record<CharacterClass, BattleResource> = {
+  Warrior: { type: 'energy', max: 60, regenPerTurn: 10 },
+  Mage: { type: 'mana', max: 100, regenPerTurn: 12 },
+  Rogue: { type: 'energy', max: 80, regenPerTurn: 15 },
+  Archer: { type: 'energy', max: 80, regenPerTurn: 12 },
+};
+
+/**
+ * The ability each class uses in battle
+ */
+export const CLASS_ABILITIES: Record<CharacterClass, ClassAbility> = {
+  Warrior: {
+    id: 'shield_block',
+    name: 'Shield Block',
+    icon: '🛡️',
+    description: 'Raise a shield that absorbs 60% of the next hit',
+    actionType: 'defend',
+    cost: 30,
+    cooldown: 3,
+    damageMultiplier: 0,
+    blockFraction: 0.6,
+  },
+  Mage: {
+    id: 'fireball',
+    name: 'Fireball',
+    icon: '🔥',
+    description: 'Hurl a fireball for 150% damage that ignores defense and burns',
+    actionType: 'spell',
+    cost: 40,
+    cooldown: 2,
+    damageMultiplier: 1.5,
+    ignoreDefense: true,
+    effects: [{ type: 'burn', target: 'target', duration: 3, potency: 0.2 }],
+  },
+  Rogue: {
+    id: 'backstab',
+    name: 'Backstab',
+    icon: '🗡️',
+    description: 'Strike from the shadows for a guaranteed critical hit that poisons',
+    actionType: 'spell',
+    cost: 45,
+    cooldown: 3,
+    damageMultiplier: 1,
+    guaranteedCrit: true,
+    effects: [{ type: 'poison', target: 'target', duration: 3, potency: 0.1 }],
+  },
+  Archer: {
+    id: 'volley',
+    name: 'Volley',
+    icon: '🏹',
+    description: 'Loose three arrows for 60% damage each',
+    actionType: 'spell',
+    cost: 40,
+    cooldown: 3,
+    damageMultiplier: 0.6,
+    hits: 3,
+  },
+};
+
 // ============================================================================
 // LEVELING SYSTEM
 // ============================================================================
@@ -92,6 +191,30 @@ export function xpForLevel(level: number): number {
   return Math.floor(LEVEL_CONFIG.baseXp * Math.pow(LEVEL_CONFIG.xpGrowthRate, level - 1));
 }
 
+/**
+ * Total XP earned by a character at `level` with `xp` towards the next one
+ */
+export function cumulativeXp(level: number, xp: number): number {
+  let total = xp;
+  for (let l = 1; l < level; l++) {
+    total += xpForLevel(l + 1);
+  }
+  return total;
+}
+
+/**
+ * Level a character starting at level 1 reaches with `totalXp`
+ */
+export function levelForCumulativeXp(totalXp: number): number {
+  let level = 1;
+  let remaining = totalXp;
+  while (remaining >= xpForLevel(level + 1)) {
+    remaining -= xpForLevel(level + 1);
+    level++;
+  }
+  return level;
+}
+
 /**
  * Calculate stats for a character at a specific level.
  * HP scales at 10% per level, attack/defense at 8% per level.
@@ -112,6 +235,60 @@ export function calculateStatsForLevel(baseStats: CharacterStats, level: number)
   };
 }
 
+// ============================================================================
+// TALENTS
+// ============================================================================
+
+/**
+ * Talent points and respec pricing
+ */
+export const TALENT_CONFIG = {
+  /** Points earned per level after the first */
+  pointsPerLevel: 1,
+  /** Flat gold cost of a respec */
+  respecBaseCost: 50,
+  /** Extra gold per point refunded */
+  respecCostPerPoint: 25,
+} as const;
+
+/**
+ * Talent tree for each class, roughly in unlock order
+ */
+export const TALENT_TREES: Record<CharacterClass, TalentDefinition[]> = {
+  Warrior: [
+    { id: 'iron_hide', name: 'Iron Hide', icon: '🛡️', description: '+2 defense per rank', maxRank: 5, requiredLevel: 2, modifiers: { defense: 2 } },
+    { id: 'vitality', name: 'Vitality', icon: '❤️', description: '+10 max HP per rank', maxRank: 5, requiredLevel: 2, modifiers: { maxHp: 10 } },
+    { id: 'brute_force', name: 'Brute Force', icon: '💪', description: '+2 attack per rank', maxRank: 3, requiredLevel: 5, modifiers: { attack: 2 } },
+    { id: 'heavy_blow', name: 'Heavy Blow', icon: '🔨', description: '8% chance per rank to deal 160% damage, half the time stunning', maxRank: 3, requiredLevel: 5, skill: { name: 'Heavy Blow', chancePerRank: 0.08, damageMultiplier: 1.6, effects: [{ type: 'stun', target: 'target', duration: 1, potency: 0, chance: 0.5 }] } },
+    { id: 'battle_hardened', name: 'Battle Hardened', icon: '🏰', description: '+15 max HP and +1 defense per rank', maxRank: 3, requiredLevel: 10, requires: 'vitality', modifiers: { maxHp: 15, defense: 1 } },
+    { id: 'whirlwind', name: 'Whirlwind', icon: '🌪️', description: '15% chance to deal 200% damage and enrage for 2 turns', maxRank: 1, requiredLevel: 15, requires: 'heavy_blow', skill: { name: 'Whirlwind', chancePerRank: 0.15, damageMultiplier: 2.0, effects: [{ type: 'enrage', target: 'self', duration: 3, potency: 0.25 }] } },
+  ],
+  Mage: [
+    { id: 'arcane_focus', name: 'Arcane Focus', icon: '🔮', description: '+2 attack per rank', maxRank: 5, requiredLevel: 2, modifiers: { attack: 2 } },
+    { id: 'mana_shield', name: 'Mana Shield', icon: '🫧', description: '+6 max HP and +1 defense per rank', maxRank: 5, requiredLevel: 2, modifiers: { maxHp: 6, defense: 1 } },
+    { id: 'spell_crit', name: 'Spell Mastery', icon: '✨', description: '+2% crit chance per rank', maxRank: 3, requiredLevel: 5, modifiers: { critChance: 0.02 } },
+    { id: 'arcane_bolt', name: 'Arcane Bolt', icon: '⚡', description: '8% chance per rank to deal 170% damage', maxRank: 3, requiredLevel: 5, skill: { name: 'Arcane Bolt', chancePerRank: 0.08, damageMultiplier: 1.7 } },
+    { id: 'critical_mass', name: 'Critical Mass', icon: '💥', description: '+10% crit damage per rank', maxRank: 3, requiredLevel: 10, requires: 'spell_crit', modifiers: { critDamage: 0.1 } },
+    { id: 'meteor', name: 'Meteor', icon: '☄️', description: '12% chance to deal 220% damage and burn', maxRank: 1, requiredLevel: 15, requires: 'arcane_bolt', skill: { name: 'Meteor', chancePerRank: 0.12, damageMultiplier: 2.2, effects: [{ type: 'burn', target: 'target', duration: 3, potency: 0.25 }] } },
+  ],
+  Rogue: [
+    { id: 'agility', name: 'Agility', icon: '💨', description: '+2 speed per rank', maxRank: 5, requiredLevel: 2, modifiers: { speed: 2 } },
+    { id: 'precision', name: 'Precision', icon: '🎯', description: '+2% crit chance per rank', maxRank: 5, requiredLevel: 2, modifiers: { critChance: 0.02 } },
+    { id: 'lethality', name: 'Lethality', icon: '🩸', description: '+15% crit damage per rank', maxRank: 3, requiredLevel: 5, modifiers: { critDamage: 0.15 } },
+    { id: 'quick_stab', name: 'Quick Stab', icon: '🔪', description: '10% chance per rank to deal 150% damage and poison', maxRank: 3, requiredLevel: 5, skill: { name: 'Quick Stab', chancePerRank: 0.1, damageMultiplier: 1.5, effects: [{ type: 'poison', target: 'target', duration: 3, potency: 0.08 }] } },
+    { id: 'evasion', name: 'Evasion', icon: '🌫️', description: '+1 defense and +1 speed per rank', maxRank: 3, requiredLevel: 10, requires: 'agility', modifiers: { defense: 1, speed: 1 } },
+    { id: 'assassinate', name: 'Assassinate', icon: '🗡️', description: '10% chance to deal 250% damage', maxRank: 1, requiredLevel: 15, requires: 'quick_stab', skill: { name: 'Assassinate', chancePerRank: 0.1, damageMultiplier: 2.5 } },
+  ],
+  Archer: [
+    { id: 'steady_aim', name: 'Steady Aim', icon: '🏹', description: '+2 attack per rank', maxRank: 5, requiredLevel: 2, modifiers: { attack: 2 } },
+    { id: 'eagle_eye', name: 'Eagle Eye', icon: '🦅', description: '+2% crit chance per rank', maxRank: 5, requiredLevel: 2, modifiers: { critChance: 0.02 } },
+    { id: 'fleet_foot', name: 'Fleet Foot', icon: '🦶', description: '+1.5 speed per rank', maxRank: 3, requiredLevel: 5, modifiers: { speed: 1.5 } },
+    { id: 'power_shot', name: 'Power Shot', icon: '🎯', description: '8% chance per rank to deal 170% damage', maxRank: 3, requiredLevel: 5, skill: { name: 'Power Shot', chancePerRank: 0.08, damageMultiplier: 1.7 } },
+    { id: 'thick_leather', name: 'Thick Leather', icon: '🦺', description: '+2 defense and +5 max HP per rank', maxRank: 3, requiredLevel: 10, requires: 'fleet_foot', modifiers: { defense: 2, maxHp: 5 } },
+    { id: 'rain_of_arrows', name: 'Rain of Arrows', icon: '🌧️', description: '12% chance to deal 200% damage and regenerate while the arrows fall', maxRank: 1, requiredLevel: 15, requires: 'power_shot', skill: { name: 'Rain of Arrows', chancePerRank: 0.12, damageMultiplier: 2.0, effects: [{ type: 'regen', target: 'self', duration: 3, potency: 0.04 }] } },
+  ],
+};
+
 // ============================================================================
 // XP CALCULATION
 // ============================================================================
@@ -133,8 +310,320 @@ export const XP_CONFIG = {
   maxLinesPerCommit: 500,
 } as const;
 
+/**
+ * Calculate XP for a batch of git activity using XP_CONFIG.
+ * Lines are capped at maxLinesPerCommit per commit in the batch.
+ */
+export function calculateActivityXp(
+  commits: number,
+  linesAdded: number,
+  linesRemoved: number,
+  filesChanged: number
+): number {
+  const cappedAdded = Math.min(linesAdded, XP_CONFIG.maxLinesPerCommit * commits);
+  const cappedRemoved = Math.min(linesRemoved, XP_CONFIG.maxLinesPerCommit * commits);
+
+  return Math.floor(
+    commits * XP_CONFIG.xpPerCommit +
+    cappedAdded * XP_CONFIG.xpPerLineAdded +
+    cappedRemoved * XP_CONFIG.xpPerLineRemoved +
+    filesChanged * XP_CONFIG.xpPerFile
+  );
+}
+
+/**
+ * Flat XP bonus per commit for each Conventional Commit category,
+ * on top of the line/file XP.
+ */
+export const COMMIT_CATEGORY_BONUS: Record<CommitCategory, number> = {
+  feat: 15,
+  fix: 12,
+  test: 10,
+  perf: 10,
+  refactor: 8,
+  docs: 5,
+};
+
+/** XP bonus for a commit with at least one Co-authored-by trailer */
+export const CO_AUTHOR_BONUS_XP = 5;
+
+/**
+ * Bonus XP a commit earns from its parsed message
+ */
+export function calculateCommitBonusXp(category: CommitCategory | null, coAuthored: boolean): number {
+  return (category ? COMMIT_CATEGORY_BONUS[category] : 0) + (coAuthored ? CO_AUTHOR_BONUS_XP : 0);
+}
+
+/**
+ * XP shared with friends credited via Co-authored-by.
+ */
+export const CO_AUTHOR_GRANT_CONFIG = {
+  /** Fraction of the author's commit XP each co-author receives */
+  xpShare: 0.5,
+  /** Upper bound on a single grant */
+  maxGrantXp: 100,
+} as const;
+
+/**
+ * Thresholds for the commit-farming heuristics.
+ * Weights multiply a commit's XP; dailySoftCapXp can be overridden in settings.
+ */
+export const ANTI_GAMING_CONFIG = {
+  /** How far back awarded commits are compared against (hours) */
+  historyWindowHours: 24,
+  /** Commits with at most this many changed lines count as "tiny" */
+  tinyCommitLines: 3,
+  /** Sliding window for detecting bursts of tiny commits (minutes) */
+  burstWindowMinutes: 10,
+  /** Tiny commits allowed per window before the burst penalty applies */
+  burstThreshold: 5,
+  /** XP weight for tiny commits beyond the burst threshold */
+  burstWeight: 0.25,
+  /** XP weight for a commit reusing a recent commit message */
+  duplicateMessageWeight: 0.5,
+  /** Daily commit XP after which further XP is reduced (0 = no cap) */
+  dailySoftCapXp: 1500,
+  /** Fraction of XP kept above the daily soft cap */
+  softCapWeight: 0.25,
+} as const;
+
+/**
+ * Defaults for the opt-in "Import History" backfill.
+ * Each can be overridden via the gitrpg.historyImport settings.
+ */
+export const HISTORY_IMPORT_CONFIG = {
+  /** Days after which a commit's XP is halved (0 = no decay) */
+  halfLifeDays: 180,
+  /** Ignore commits older than this many days (0 = no limit) */
+  maxAgeDays: 0,
+  /** Upper bound on total imported XP (0 = uncapped) */
+  maxTotalXp: 5000,
+} as const;
+
+/**
+ * XP and throttling for activity events (test runs, cleared errors, lint fixes, PR reviews).
+ * XP is baseXp + xpPerUnit per error/warning, capped at maxXp per event.
+ * Cooldowns apply per file or pull request (per kind for test runs); dailyLimit caps events per day.
+ */
+export const ACTIVITY_EVENT_CONFIG: Record<ActivityEventKind, {
+  baseXp: number;
+  xpPerUnit: number;
+  maxXp: number;
+  cooldownMinutes: number;
+  dailyLimit: number;
+}> = {
+  test_run: { baseXp: 5, xpPerUnit: 0, maxXp: 5, cooldownMinutes: 5, dailyLimit: 10 },
+  diagnostics_cleared: { baseXp: 2, xpPerUnit: 1, maxXp: 8, cooldownMinutes: 10, dailyLimit: 20 },
+  lint_fix: { baseXp: 0, xpPerUnit: 1, maxXp: 5, cooldownMinutes: 5, dailyLimit: 30 },
+  review_given: { baseXp: 15, xpPerUnit: 0, maxXp: 15, cooldownMinutes: 0, dailyLimit: 10 },
+};
+
+/**
+ * XP for a single activity event, before throttling
+ */
+export function calculateEventXp(event: ActivityEvent): number {
+  const config = ACTIVITY_EVENT_CONFIG[event.kind];
+  const units = event.kind === 'diagnostics_cleared' ? event.errorsCleared
+    : event.kind === 'lint_fix' ? event.warningsFixed
+    : 0;
+  return Math.min(config.maxXp, config.baseXp + config.xpPerUnit * Math.max(0, units));
+}
+
+// ============================================================================
+// STREAK CONFIGURATION
+// ============================================================================
+
+/**
+ * Streak milestones, streak quests and streak freezes.
+ */
+export const STREAK_CONFIG = {
+  /** Gold awarded the first time a streak reaches each length (days) */
+  milestones: [
+    { days: 3, gold: 25 },
+    { days: 7, gold: 75 },
+    { days: 14, gold: 150 },
+    { days: 30, gold: 400 },
+    { days: 60, gold: 800 },
+    { days: 100, gold: 1500 },
+  ],
+  /** Gold price of one streak freeze */
+  freezeCost: 150,
+  /** Most streak freezes that can be held at once */
+  maxFreezes: 2,
+  /** Streak quest rewards per day of the target */
+  questXpPerDay: 15,
+  questGoldPerDay: 5,
+} as const;
+
+// ============================================================================
+// ACHIEVEMENTS
+// ============================================================================
+
+/**
+ * Achievement catalog. Each unlocks once its metric reaches the target and
+ * pays its gold reward once.
+ */
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: 'first_commit', name: 'First Blood', description: 'Earn XP for your first commit', icon: '🗡️', metric: 'total_commits', target: 1, goldReward: 10 },
+  { id: 'commits_100', name: 'Centurion', description: 'Earn XP for 100 commits', icon: '🛡️', metric: 'total_commits', target: 100, goldReward: 100 },
+  { id: 'commits_1000', name: 'Commit Legend', description: 'Earn XP for 1000 commits', icon: '👑', metric: 'total_commits', target: 1000, goldReward: 500 },
+  { id: 'level_10', name: 'Seasoned Hero', description: 'Reach level 10', icon: '⭐', metric: 'level', target: 10, goldReward: 100 },
+  { id: 'level_25', name: 'Veteran', description: 'Reach level 25', icon: '🌟', metric: 'level', target: 25, goldReward: 300 },
+  { id: 'streak_10', name: 'On Fire', description: 'Keep a 10-day coding streak', icon: '🔥', metric: 'longest_streak', target: 10, goldReward: 100 },
+  { id: 'streak_30', name: 'Unstoppable', description: 'Keep a 30-day coding streak', icon: '☄️', metric: 'longest_streak', target: 30, goldReward: 400 },
+  { id: 'first_boss_kill', name: 'Boss Slayer', description: 'Defeat a boss', icon: '🐉', metric: 'boss_kills', target: 1, goldReward: 50 },
+  { id: 'boss_kills_10', name: 'Raid Veteran', description: 'Defeat 10 bosses', icon: '🏰', metric: 'boss_kills', target: 10, goldReward: 250 },
+  { id: 'first_pvp_win', name: 'Duelist', description: 'Win a PvP battle', icon: '⚔️', metric: 'pvp_wins', target: 1, goldReward: 50 },
+  { id: 'giant_slayer', name: 'Giant Slayer', description: 'Defeat a higher-level friend in PvP', icon: '🪨', metric: 'higher_level_pvp_wins', target: 1, goldReward: 100 },
+  { id: 'class_master', name: 'Jack of All Trades', description: 'Reach level 10 with every class', icon: '🎭', metric: 'classes_mastered', target: 4, goldReward: 500 },
+];
+
+/** Level a class must reach to count towards classes_mastered */
+export const CLASS_MASTERY_LEVEL = 10;
+
+// ============================================================================
+// ITEMS AND LOOT
+// ============================================================================
+
+/**
+ * Display name and colour for each rarity tier
+ */
+export const ITEM_RARITIES: Record<ItemRarity, { name: string; color: string }> = {
+  common: { name: 'Common', color: '#9d9d9d' },
+  uncommon: { name: 'Uncommon', color: '#1eff00' },
+  rare: { name: 'Rare', color: '#0070dd' },
+  epic: { name: 'Epic', color: '#a335ee' },
+  legendary: { name: 'Legendary', color: '#ff8000' },
+};
+
+/**
+ * Item catalog. Every item fits one slot; rarer items give more stats.
+ */
+export const ITEMS: ItemDefinition[] = [
+  // Weapons
+  { id: 'rusty_keyboard', name: 'Rusty Keyboard', slot: 'weapon', rarity: 'common', icon: '⌨️', description: 'Sticky keys, but it still hits', modifiers: { attack: 2 } },
+  { id: 'wooden_stylus', name: 'Wooden Stylus', slot: 'weapon', rarity: 'common', icon: '🖊️', description: 'Light and quick in the hand', modifiers: { attack: 1, speed: 1 } },
+  { id: 'linter_blade', name: 'Linter Blade', slot: 'weapon', rarity: 'uncommon', icon: '🗡️', description: 'Finds every weak spot', modifiers: { attack: 4, critChance: 0.02 } },
+  { id: 'refactor_hammer', name: 'Refactor Hammer', slot: 'weapon', rarity: 'rare', icon: '🔨', description: 'Breaks things apart cleanly', modifiers: { attack: 7 } },
+  { id: 'debugger_bow', name: 'Debugger Bow', slot: 'weapon', rarity: 'rare', icon: '🏹', description: 'Never misses a breakpoint', modifiers: { attack: 5, speed: 2, critChance: 0.03 } },
+  { id: 'compiler_staff', name: 'Staff of the Compiler', slot: 'weapon', rarity: 'epic', icon: '🪄', description: 'Turns intent into raw power', modifiers: { attack: 10, critDamage: 0.2 } },
+  { id: 'merge_excalibur', name: 'Merge Excalibur', slot: 'weapon', rarity: 'legendary', icon: '⚔️', description: 'Resolves any conflict', modifiers: { attack: 15, critChance: 0.05, critDamage: 0.3 } },
+  // Armor
+  { id: 'hoodie', name: 'Comfy Hoodie', slot: 'armor', rarity: 'common', icon: '🧥', description: 'Warm, if not very protective', modifiers: { maxHp: 10 } },
+  { id: 'leather_vest', name: 'Leather Vest', slot: 'armor', rarity: 'common', icon: '🦺', description: 'Basic protection for new heroes', modifiers: { defense: 2 } },
+  { id: 'type_mail', name: 'Strictly Typed Mail', slot: 'armor', rarity: 'uncommon', icon: '🛡️', description: 'Catches blows before runtime', modifiers: { defense: 3, maxHp: 15 } },
+  { id: 'test_plate', name: 'Test Coverage Plate', slot: 'armor', rarity: 'rare', icon: '🧱', description: 'Covers every line', modifiers: { defense: 6, maxHp: 25 } },
+  { id: 'ci_cloak', name: 'Cloak of Continuous Integration', slot: 'armor', rarity: 'epic', icon: '🧙', description: 'Always green, always ready', modifiers: { defense: 8, maxHp: 40, speed: 2 } },
+  { id: 'monorepo_aegis', name: 'Aegis of the Monorepo', slot: 'armor', rarity: 'legendary', icon: '🏛️', description: 'Holds everything together', modifiers: { defense: 12, maxHp: 60 } },
+];
+
+/**
+ * Drop odds per loot source. Rarity weights are relative within a table.
+ */
+export const LOOT_TABLES: Record<LootSource, LootTable> = {
+  boss: { dropChance: 1, rarityWeights: { common: 30, uncommon: 35, rare: 22, epic: 10, legendary: 3 } },
+  daily_quest: { dropChance: 0.2, rarityWeights: { common: 70, uncommon: 25, rare: 5, epic: 0, legendary: 0 } },
+  weekly_quest: { dropChance: 0.5, rarityWeights: { common: 40, uncommon: 40, rare: 17, epic: 3, legendary: 0 } },
+  monthly_quest: { dropChance: 1, rarityWeights: { common: 0, uncommon: 40, rare: 40, epic: 17, legendary: 3 } },
+  chain_quest: { dropChance: 0.5, rarityWeights: { common: 30, uncommon: 40, rare: 25, epic: 5, legendary: 0 } },
+};
+
+// ============================================================================
+// SHOP
+// ============================================================================
+
+/**
+ * Gold shop catalog
+ */
+export const SHOP_ITEMS: ShopItem[] = [
+  // XP boost potions
+  { id: 'xp_potion_small', name: 'Minor Focus Potion', category: 'potion', price: 60, icon: '🧪', description: '+25% XP for 1 hour', effect: { kind: 'xp_boost', multiplier: 1.25, durationMinutes: 60 } },
+  { id: 'xp_potion_large', name: 'Major Focus Potion', category: 'potion', price: 200, icon: '⚗️', description: '+50% XP for 2 hours', effect: { kind: 'xp_boost', multiplier: 1.5, durationMinutes: 120 } },
+  // Battle consumables
+  { id: 'health_tonic', name: 'Health Tonic', category: 'consumable', price: 40, icon: '❤️', description: '+30 max HP in your next battle', effect: { kind: 'battle_buff', modifiers: { maxHp: 30 } } },
+  { id: 'whetstone', name: 'Whetstone', category: 'consumable', price: 40, icon: '🪨', description: '+5 attack in your next battle', effect: { kind: 'battle_buff', modifiers: { attack: 5 } } },
+  { id: 'iron_skin', name: 'Iron Skin Elixir', category: 'consumable', price: 40, icon: '🛡️', description: '+5 defense in your next battle', effect: { kind: 'battle_buff', modifiers: { defense: 5 } } },
+  { id: 'lucky_charm', name: 'Lucky Charm', category: 'consumable', price: 60, icon: '🍀', description: '+10% crit chance in your next battle', effect: { kind: 'battle_buff', modifiers: { critChance: 0.1 } } },
+  // Sprite recolors
+  { id: 'recolor_crimson', name: 'Crimson Dye', category: 'recolor', price: 250, icon: '🟥', description: 'Recolor your sprite crimson', effect: { kind: 'recolor', hue: 320 } },
+  { id: 'recolor_emerald', name: 'Emerald Dye', category: 'recolor', price: 250, icon: '🟩', description: 'Recolor your sprite emerald', effect: { kind: 'recolor', hue: 90 } },
+  { id: 'recolor_azure', name: 'Azure Dye', category: 'recolor', price: 250, icon: '🟦', description: 'Recolor your sprite azure', effect: { kind: 'recolor', hue: 180 } },
+  // Name badges
+  { id: 'badge_bug_squasher', name: 'Bug Squasher', category: 'badge', price: 150, icon: '🐛', description: 'Show "Bug Squasher" beside your name', effect: { kind: 'badge', title: 'Bug Squasher' } },
+  { id: 'badge_ship_it', name: 'Ship It', category: 'badge', price: 150, icon: '🚀', description: 'Show "Ship It" beside your name', effect: { kind: 'badge', title: 'Ship It' } },
+  { id: 'badge_night_owl', name: 'Night Owl', category: 'badge', price: 300, icon: '🦉', description: 'Show "Night Owl" beside your name', effect: { kind: 'badge', title: 'Night Owl' } },
+  { id: 'badge_10x', name: '10x Developer', category: 'badge', price: 1000, icon: '💎', description: 'Show "10x Developer" beside your name', effect: { kind: 'badge', title: '10x Developer' } },
+];
+
+// ============================================================================
+// RANKED LADDER
+// ============================================================================
+
+/**
+ * Glicko rating and season settings for ranked PvP
+ */
+export const RANKED_CONFIG = {
+  /** Rating and deviation of a player's first ranked battle */
+  initialRating: 1500,
+  initialDeviation: 350,
+  /** Deviation never shrinks below this, so ratings keep moving */
+  minDeviation: 50,
+  /** Deviation regained per day without a ranked battle (Glicko c) */
+  deviationGrowthPerDay: 15,
+  /** First day of season 1 and the length of every season */
+  seasonEpoch: '2025-01-06',
+  seasonLengthDays: 56,
+  /** Share of the distance to the initial rating kept into a new season */
+  seasonCarryOver: 0.5,
+  /** Deviation a new season starts from at least */
+  seasonDeviation: 200,
+  /** Players shown on the ladder */
+  ladderSize: 20,
+  /** Rating changes shown under the ladder */
+  recentDeltas: 5,
+} as const;
+
+/**
+ * Ladder divisions, lowest first
+ */
+export const RANKED_DIVISIONS: RankedDivision[] = [
+  { id: 'bronze', name: 'Bronze', icon: '🥉', minRating: 0, seasonRewardGold: 50 },
+  { id: 'silver', name: 'Silver', icon: '🥈', minRating: 1400, seasonRewardGold: 100 },
+  { id: 'gold', name: 'Gold', icon: '🥇', minRating: 1550, seasonRewardGold: 200 },
+  { id: 'platinum', name: 'Platinum', icon: '💠', minRating: 1700, seasonRewardGold: 350 },
+  { id: 'diamond', name: 'Diamond', icon: '💎', minRating: 1850, seasonRewardGold: 500 },
+  { id: 'master', name: 'Master', icon: '👑', minRating: 2000, seasonRewardGold: 800 },
+];
+
+// ============================================================================
+// GHOST BATTLES
+// ============================================================================
+
+/**
+ * Battles against another player's stored stats while they're away
+ */
+export const GHOST_CONFIG = {
+  /** Ghost battles a player can start per day (UTC) */
+  dailyLimit: 5,
+  /** Share of the usual PvP rewards the attacker earns; the ghost's owner earns nothing */
+  rewardShare: 0.5,
+} as const;
+
 // ============================================================================
-// DAILY QUEST TEMPLATES
+// TOURNAMENTS
+// ============================================================================
+
+/**
+ * Friend tournament limits
+ */
+export const TOURNAMENT_CONFIG = {
+  /** Players in a tournament, organizer included */
+  minPlayers: 3,
+  maxPlayers: 16,
+} as const;
+
+// ============================================================================
+// QUEST TEMPLATES
 // ============================================================================
 
 /**
@@ -167,6 +656,204 @@ export const DAILY_QUEST_TEMPLATES: QuestTemplate[] = [
     xp: 40,
     gold: 20,
   },
+  {
+    title: 'Bug Squasher',
+    description: 'Fix {target} bugs (fix: commits)',
+    type: 'bugs_fixed',
+    targetRange: [2, 4],
+    xp: 60,
+    gold: 30,
+  },
+  {
+    title: 'Test Pilot',
+    description: 'Write tests in {target} commits (test: commits)',
+    type: 'test_commits',
+    targetRange: [1, 3],
+    xp: 50,
+    gold: 25,
+  },
+  {
+    title: 'Feature Forge',
+    description: 'Ship {target} features (feat: commits)',
+    type: 'features_shipped',
+    targetRange: [1, 3],
+    xp: 60,
+    gold: 30,
+  },
+  {
+    title: 'Green Build',
+    description: 'Get {target} passing test runs',
+    type: 'test_runs',
+    targetRange: [2, 5],
+    xp: 40,
+    gold: 20,
+  },
+  {
+    title: 'Error Exterminator',
+    description: 'Clear all errors from {target} files',
+    type: 'errors_fixed',
+    targetRange: [2, 5],
+    xp: 40,
+    gold: 20,
+  },
+  {
+    title: 'Arena Regular',
+    description: 'Win {target} PvP battles',
+    type: 'pvp_wins',
+    targetRange: [1, 3],
+    xp: 60,
+    gold: 30,
+  },
+  {
+    title: 'Raid Party',
+    description: 'Defeat the daily boss with a friend',
+    type: 'coop_boss_wins',
+    targetRange: [1, 1],
+    xp: 75,
+    gold: 40,
+  },
+  {
+    title: 'Battle Hardened',
+    description: 'Win {target} battles (PvP or boss)',
+    type: 'battles_won',
+    targetRange: [2, 3],
+    xp: 60,
+    gold: 30,
+  },
+  {
+    title: 'Code Critic',
+    description: 'Review {target} pull requests',
+    type: 'reviews_given',
+    targetRange: [1, 3],
+    xp: 50,
+    gold: 25,
+  },
+];
+
+/**
+ * Weekly quest pool: bigger targets, counted over the ISO week (Monday start, UTC).
+ */
+export const WEEKLY_QUEST_TEMPLATES: QuestTemplate[] = [
+  {
+    title: 'Weekly Grind',
+    description: 'Make {target} commits this week',
+    type: 'commits',
+    targetRange: [15, 30],
+    xp: 200,
+    gold: 100,
+  },
+  {
+    title: 'Line Smith',
+    description: 'Add {target} lines of code this week',
+    type: 'lines_added',
+    targetRange: [500, 1500],
+    xp: 250,
+    gold: 120,
+  },
+  {
+    title: 'Bug Bounty',
+    description: 'Land {target} fix: commits this week',
+    type: 'bugs_fixed',
+    targetRange: [5, 10],
+    xp: 220,
+    gold: 110,
+  },
+  {
+    title: 'Test Campaign',
+    description: 'Land {target} test: commits this week',
+    type: 'test_commits',
+    targetRange: [3, 8],
+    xp: 200,
+    gold: 100,
+  },
+  {
+    title: 'Feature Week',
+    description: 'Ship {target} features (feat: commits) this week',
+    type: 'features_shipped',
+    targetRange: [3, 6],
+    xp: 240,
+    gold: 120,
+  },
+];
+
+/**
+ * Monthly quest pool, counted over the calendar month (UTC).
+ */
+export const MONTHLY_QUEST_TEMPLATES: QuestTemplate[] = [
+  {
+    title: 'Monthly Marathon',
+    description: 'Make {target} commits this month',
+    type: 'commits',
+    targetRange: [60, 120],
+    xp: 800,
+    gold: 400,
+  },
+  {
+    title: 'Codex Author',
+    description: 'Add {target} lines of code this month',
+    type: 'lines_added',
+    targetRange: [3000, 8000],
+    xp: 1000,
+    gold: 500,
+  },
+  {
+    title: 'Exterminator',
+    description: 'Land {target} fix: commits this month',
+    type: 'bugs_fixed',
+    targetRange: [20, 40],
+    xp: 900,
+    gold: 450,
+  },
+  {
+    title: 'Refactor Season',
+    description: 'Land {target} refactor: commits this month',
+    type: 'refactor_commits',
+    targetRange: [10, 20],
+    xp: 800,
+    gold: 400,
+  },
+];
+
+/**
+ * Gold cost to reroll one quest (one reroll per day across all tiers).
+ */
+export const QUEST_REROLL_COST: Record<QuestTier, number> = {
+  daily: 25,
+  weekly: 75,
+  monthly: 150,
+};
+
+/**
+ * Quest chains. Progress for each step counts from when it unlocked.
+ */
+export const QUEST_CHAINS: QuestChain[] = [
+  {
+    id: 'bug_hunter',
+    name: 'Bug Hunter',
+    steps: [
+      { description: 'Land your first fix: commit', type: 'bugs_fixed', target: 1, xp: 50, gold: 25 },
+      { description: 'Land {target} more fix: commits', type: 'bugs_fixed', target: 5, xp: 150, gold: 75 },
+      { description: 'Land {target} more fix: commits', type: 'bugs_fixed', target: 15, xp: 400, gold: 200 },
+    ],
+  },
+  {
+    id: 'shipwright',
+    name: 'Shipwright',
+    steps: [
+      { description: 'Ship your first feat: commit', type: 'features_shipped', target: 1, xp: 50, gold: 25 },
+      { description: 'Ship {target} more features', type: 'features_shipped', target: 5, xp: 150, gold: 75 },
+      { description: 'Ship {target} more features', type: 'features_shipped', target: 15, xp: 400, gold: 200 },
+    ],
+  },
+  {
+    id: 'green_guardian',
+    name: 'Guardian of Green',
+    steps: [
+      { description: 'Land your first test: commit', type: 'test_commits', target: 1, xp: 50, gold: 25 },
+      { description: 'Land {target} more test: commits', type: 'test_commits', target: 5, xp: 150, gold: 75 },
+      { description: 'Land {target} more test: commits', type: 'test_commits', target: 15, xp: 400, gold: 200 },
+    ],
+  },
 ];
 
 // ============================================================================
@@ -207,8 +894,11 @@ export const BOSS_DEFINITIONS: Record<string, BossDefinition> = {
     baseAttack: 45,
     baseDefense: 20,
     baseSpeed: 30,
-    specialTrait: 'Can land critical hits',
+    specialTrait: 'Fire breath burns its target',
     description: 'A fearsome fire-breathing beast',
+    traits: [
+      { trigger: 'on_hit', effect: { type: 'burn', target: 'target', duration: 3, potency: 0.15, chance: 0.5 } },
+    ],
   },
   golem: {
     id: 'golem',
@@ -217,8 +907,11 @@ export const BOSS_DEFINITIONS: Record<string, BossDefinition> = {
     baseAttack: 25,
     baseDefense: 40,
     baseSpeed: 10,
-    specialTrait: 'High defense, slow',
+    specialTrait: 'High defense, slow; slams can stun',
     description: 'An ancient stone guardian',
+    traits: [
+      { trigger: 'on_hit', effect: { type: 'stun', target: 'target', duration: 1, potency: 0, chance: 0.25 } },
+    ],
   },
   shadow_knight: {
     id: 'shadow_knight',
@@ -227,8 +920,11 @@ export const BOSS_DEFINITIONS: Record<string, BossDefinition> = {
     baseAttack: 35,
     baseDefense: 30,
     baseSpeed: 35,
-    specialTrait: 'Balanced and fast',
+    specialTrait: 'Balanced and fast; enrages below half HP',
     description: 'A dark warrior from the void',
+    traits: [
+      { trigger: 'below_half_hp', effect: { type: 'enrage', target: 'self', duration: 3, potency: 0.4 } },
+    ],
   },
   slime_king: {
     id: 'slime_king',
@@ -237,8 +933,11 @@ export const BOSS_DEFINITIONS: Record<string, BossDefinition> = {
     baseAttack: 15,
     baseDefense: 15,
     baseSpeed: 20,
-    specialTrait: 'Massive HP pool',
+    specialTrait: 'Massive HP pool; toxic slime poisons',
     description: 'The royal blob of goo',
+    traits: [
+      { trigger: 'on_hit', effect: { type: 'poison', target: 'target', duration: 4, potency: 0.2 } },
+    ],
   },
   necromancer: {
     id: 'necromancer',
@@ -257,8 +956,12 @@ export const BOSS_DEFINITIONS: Record<string, BossDefinition> = {
     baseAttack: 30,
     baseDefense: 35,
     baseSpeed: 15,
-    specialTrait: "Nature's protector",
+    specialTrait: "Nature's protector: regenerates and raises bark shields",
     description: 'Ancient spirit of the woods',
+    traits: [
+      { trigger: 'battle_start', effect: { type: 'regen', target: 'self', duration: 10, potency: 0.02 } },
+      { trigger: 'every_n_turns', everyTurns: 4, effect: { type: 'shield', target: 'self', duration: 2, potency: 0.05 } },
+    ],
   },
 };
 
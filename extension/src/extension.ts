@@ -2,22 +2,34 @@ import * as vscode from 'vscode';
 import { registerAllCommands, AllServices } from './commands';
 import { LocalStateManager } from './services/localStateManager';
 import { GitTrackingService } from './services/gitTrackingService';
+import { ActivityPipeline } from './services/activityPipeline';
+import { TestRunSource, DiagnosticsClearedSource, LintFixSource, PullRequestReviewSource } from './services/activitySources';
 import { SupabaseClientService } from './services/supabaseClient';
 import { ProfileSyncService } from './services/profileSyncService';
+import { pullCloudWallet } from './services/economyStore';
 import { FriendsService } from './services/friendsService';
 import { PvpBattleService } from './services/pvpBattleService';
+import { RankedService } from './services/rankedService';
+import { TournamentService } from './services/tournamentService';
 import { CoopBattleService } from './services/coopBattleService';
 import { getBossEmoji } from './services/bossService';
 import { QuestService } from './services/questService';
 import { WorkerService } from './services/workerService';
+import { CoAuthorService } from './services/coAuthorService';
+import { AchievementService } from './services/achievementService';
+import { InventoryService } from './services/inventoryService';
+import { ShopService } from './services/shopService';
+import { TalentService } from './services/talentService';
 import { registerAuthHandler } from './authHandler';
 import { DashboardPanel, DashboardServices } from './webview/dashboard/DashboardPanel';
 import { SidebarProvider } from './webview/sidebar/SidebarProvider';
 import { StatusBarManager } from './statusbar/StatusBarManager';
+import type { BattleOutcome } from './types';
 
 let statusBarManager: StatusBarManager;
 let stateManager: LocalStateManager;
 let gitTracker: GitTrackingService;
+let activityPipeline: ActivityPipeline;
 let supabaseClient: SupabaseClientService;
 let profileSync: ProfileSyncService;
 let friendsService: FriendsService;
@@ -25,6 +37,13 @@ let pvpBattleService: PvpBattleService;
 let coopBattleService: CoopBattleService;
 let questService: QuestService;
 let workerService: WorkerService;
+let coAuthorService: CoAuthorService;
+let achievementService: AchievementService;
+let inventoryService: InventoryService;
+let shopService: ShopService;
+let talentService: TalentService;
+let rankedService: RankedService;
+let tournamentService: TournamentService;
 
 export async function activate(context: vscode.ExtensionContext) {
   console.log('GitRPG extension is now active!');
@@ -43,14 +62,82 @@ export async function activate(context: vscode.ExtensionContext) {
   coopBattleService = new CoopBattleService(supabaseClient);
   questService = new QuestService(supabaseClient, stateManager);
   workerService = new WorkerService(supabaseClient, stateManager);
+  coAuthorService = new CoAuthorService(supabaseClient, friendsService, stateManager);
+  achievementService = new AchievementService(stateManager, supabaseClient);
+  inventoryService = new InventoryService(stateManager, supabaseClient);
+  shopService = new ShopService(stateManager, supabaseClient);
+  talentService = new TalentService(stateManager);
+  rankedService = new RankedService(supabaseClient);
+  tournamentService = new TournamentService(supabaseClient, friendsService);
   gitTracker.setQuestService(questService);
+  gitTracker.setCoAuthorService(coAuthorService);
+  questService.setInventoryService(inventoryService);
+
+  // Battle wins count towards achievements and social quests; boss wins drop loot.
+  // Boss rewards are earned here; PvP rewards were granted by the server.
+  const recordBattleOutcome = async (outcome: BattleOutcome) => {
+    if (outcome.rewards) {
+      await stateManager.addXp(outcome.rewards.xp);
+      await stateManager.addGold(outcome.rewards.gold);
+    }
+    if (outcome.kind === 'pvp') {
+      await pullCloudWallet(supabaseClient, stateManager);
+    }
+    await stateManager.recordBattleResult(outcome);
+    await questService.updateTodayProgress();
+    if (outcome.kind === 'boss' && outcome.won) {
+      await inventoryService.grantLoot('boss');
+    }
+  };
+  pvpBattleService.onBattleOutcome(recordBattleOutcome);
+  coopBattleService.onBattleOutcome(recordBattleOutcome);
+
+  // Consumables readied in the shop are used up by the next battle: boss
+  // fights take them here, PvP and ghost battles on the server
+  pvpBattleService.setBattleBuffs(shopService);
+  coopBattleService.setBattleBuffProvider(() => shopService.takeBattleBuff());
+
+  // Earn XP from editor activity besides commits
+  activityPipeline = new ActivityPipeline(stateManager, (message) => gitTracker.log(message));
+  activityPipeline.setQuestService(questService);
+  activityPipeline.register(new TestRunSource());
+  activityPipeline.register(new DiagnosticsClearedSource());
+  activityPipeline.register(new LintFixSource());
+  activityPipeline.register(new PullRequestReviewSource());
+  context.subscriptions.push(activityPipeline);
 
   // Register OAuth callback handler
   registerAuthHandler(context, supabaseClient, profileSync);
 
-  // Hydrate local state from cloud (reconcile gold)
+  // Adopt the account's gold and XP, then move offline quests and workers into it
   if (supabaseClient.isAuthenticated()) {
     await profileSync.hydrateLocalStateFromCloud();
+    await profileSync.migrateLocalEconomy();
+    await achievementService.syncWithCloud();
+    await inventoryService.syncWithCloud();
+    await shopService.syncWithCloud();
+
+    // Tell us how our ghost fared while we were away
+    const defenses = await pvpBattleService.getUnseenGhostDefenses();
+    if (defenses.length > 0) {
+      const wins = defenses.filter(d => d.won).length;
+      vscode.window.showInformationMessage(
+        `👻 Your ghost fought ${defenses.length} battle(s) while you were away ` +
+        `(latest: ${defenses[defenses.length - 1].attackerName}) and won ${wins}!`
+      );
+      await pvpBattleService.markGhostDefensesSeen(defenses.map(d => d.battleId));
+    }
+
+    // Count challenges we sent that were fought while we were away
+    await pvpBattleService.collectChallengeResults();
+
+    // Collect XP friends shared with us for pairing on their commits
+    const claimed = await coAuthorService.claimPendingGrants();
+    if (claimed && claimed.result.xpEarned > 0) {
+      vscode.window.showInformationMessage(
+        `🤝 +${claimed.result.xpEarned} XP from ${claimed.grants.length} co-authored commit(s)!`
+      );
+    }
   }
 
   // Subscribe to notifications if authenticated
@@ -118,6 +205,10 @@ export async function activate(context: vscode.ExtensionContext) {
   statusBarManager = new StatusBarManager(stateManager);
   context.subscriptions.push(statusBarManager);
 
+  // Unlock achievements as progress is made
+  achievementService.start();
+  context.subscriptions.push(achievementService);
+
   // Sync profile to cloud when character updates
   stateManager.onStateChange(async () => {
     if (supabaseClient.isAuthenticated()) {
@@ -135,6 +226,10 @@ export async function activate(context: vscode.ExtensionContext) {
     pvpBattleService,
     coopBattleService,
     gitTracker,
+    achievementService,
+    shopService,
+    rankedService,
+    tournamentService,
   };
 
   // Register commands that show the dashboard panel
@@ -150,6 +245,22 @@ export async function activate(context: vscode.ExtensionContext) {
     DashboardPanel.createOrShow(context, dashboardServices, 'battle');
   });
 
+  const showAchievementsCmd = vscode.commands.registerCommand('gitrpg.showAchievements', () => {
+    DashboardPanel.createOrShow(context, dashboardServices, 'achievements');
+  });
+
+  const openShopCmd = vscode.commands.registerCommand('gitrpg.openShop', () => {
+    DashboardPanel.createOrShow(context, dashboardServices, 'shop');
+  });
+
+  const showLadderCmd = vscode.commands.registerCommand('gitrpg.showLadder', () => {
+    DashboardPanel.createOrShow(context, dashboardServices, 'ladder');
+  });
+
+  const showTournamentsCmd = vscode.commands.registerCommand('gitrpg.showTournaments', () => {
+    DashboardPanel.createOrShow(context, dashboardServices, 'tournaments');
+  });
+
   // Create AllServices object for command registration
   const allServices: AllServices = {
     stateManager,
@@ -161,6 +272,10 @@ export async function activate(context: vscode.ExtensionContext) {
     coopBattleService,
     questService,
     workerService,
+    inventoryService,
+    talentService,
+    rankedService,
+    tournamentService,
   };
 
   // Register all modular commands
@@ -170,6 +285,10 @@ export async function activate(context: vscode.ExtensionContext) {
     showDashboardCmd,
     showCharacterCmd,
     startBattleCmd,
+    showAchievementsCmd,
+    openShopCmd,
+    showLadderCmd,
+    showTournamentsCmd,
     ...allCommands
   );
 
@@ -182,13 +301,43 @@ export async function activate(context: vscode.ExtensionContext) {
   // Start git tracking
   gitTracker.start();
 
+  // Offer to backfill existing commit history for brand new characters
+  if (stateManager.shouldOfferHistoryImport()) {
+    vscode.window.showInformationMessage(
+      'Start GitRPG with XP from your existing commit history?',
+      'Preview Import', 'Not Now'
+    ).then(async (action) => {
+      if (action === 'Preview Import') {
+        vscode.commands.executeCommand('gitrpg.importHistory');
+      } else if (action === 'Not Now') {
+        await stateManager.dismissHistoryImport();
+      }
+    });
+  }
+
+  // Re-apply repository include/exclude rules and sharing choices when settings change
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (event.affectsConfiguration('gitrpg.tracking')) {
+        gitTracker.refreshTrackingRules();
+      }
+      // Publish or withdraw git emails as soon as the opt-in changes
+      if (event.affectsConfiguration('gitrpg.friends.shareGitEmails') && supabaseClient.isAuthenticated()) {
+        profileSync.syncProfileToCloud();
+      }
+    })
+  );
+
   // Stop tracking when extension deactivates
   context.subscriptions.push({
     dispose: () => gitTracker.stop()
   });
 
-  // Check for commits when a file is saved
+  // Check for commits when a file is saved (only needed when refs aren't being watched)
   vscode.workspace.onDidSaveTextDocument(() => {
+    if (gitTracker.isWatching()) {
+      return;
+    }
     // Small delay to let git process the save
     setTimeout(() => {
       gitTracker.checkForNewCommits();
@@ -0,0 +1,189 @@
+import * as vscode from 'vscode';
+import type { SupabaseClientService, DbUserAchievement } from './supabaseClient';
+import type { LocalStateManager } from './localStateManager';
+import { ACHIEVEMENTS, CLASS_MASTERY_LEVEL } from '../config/classConfig';
+import type {
+  AchievementDefinition,
+  AchievementMetric,
+  AchievementState,
+  AchievementStats,
+  AchievementStatus,
+} from '../types';
+
+export type { AchievementDefinition, AchievementMetric, AchievementState, AchievementStatus } from '../types';
+
+export function emptyAchievementState(): AchievementState {
+  return {
+    unlocked: {},
+    stats: { bossKills: 0, pvpWins: 0, higherLevelPvpWins: 0, classXp: {}, classLevels: {} },
+  };
+}
+
+/**
+ * Current value of every achievement metric
+ */
+export function collectAchievementMetrics(input: {
+  lifetimeCommits: number;
+  level: number;
+  longestStreak: number;
+  stats: AchievementStats;
+}): Record<AchievementMetric, number> {
+  return {
+    total_commits: input.lifetimeCommits,
+    level: input.level,
+    longest_streak: input.longestStreak,
+    boss_kills: input.stats.bossKills,
+    pvp_wins: input.stats.pvpWins,
+    higher_level_pvp_wins: input.stats.higherLevelPvpWins,
+    classes_mastered: Object.values(input.stats.classLevels)
+      .filter(level => (level ?? 0) >= CLASS_MASTERY_LEVEL).length,
+  };
+}
+
+/**
+ * Achievements whose target is met but aren't unlocked yet
+ */
+export function findNewAchievements(
+  metrics: Record<AchievementMetric, number>,
+  unlocked: Record<string, string>,
+  catalog: AchievementDefinition[] = ACHIEVEMENTS
+): AchievementDefinition[] {
+  return catalog.filter(a => !unlocked[a.id] && metrics[a.metric] >= a.target);
+}
+
+export class AchievementService implements vscode.Disposable {
+  private unsubscribeFromState: (() => void) | null = null;
+  private evaluating: Promise<AchievementDefinition[]> | null = null;
+  private reevaluate = false;
+
+  constructor(private stateManager: LocalStateManager, private supabase: SupabaseClientService) {}
+
+  /**
+   * Evaluate whenever local state changes (XP, levels, streaks, battle results)
+   */
+  start(): void {
+    this.unsubscribeFromState = this.stateManager.onStateChange(() => {
+      void this.evaluate();
+    });
+    void this.evaluate();
+  }
+
+  private getMetrics(): Record<AchievementMetric, number> {
+    return collectAchievementMetrics({
+      lifetimeCommits: this.stateManager.getLifetimeCommits(),
+      level: this.stateManager.getCharacter().level,
+      longestStreak: this.stateManager.getStreak().longest,
+      stats: this.stateManager.getAchievementState().stats,
+    });
+  }
+
+  /**
+   * Every achievement with progress towards its target, for the gallery
+   */
+  getAchievements(): AchievementStatus[] {
+    const metrics = this.getMetrics();
+    const { unlocked } = this.stateManager.getAchievementState();
+    return ACHIEVEMENTS.map(a => ({
+      ...a,
+      progress: Math.min(metrics[a.metric], a.target),
+      unlockedAt: unlocked[a.id] ?? null,
+    }));
+  }
+
+  /**
+   * Unlock any newly earned achievements, pay their gold, toast and persist them
+   */
+  async evaluate(): Promise<AchievementDefinition[]> {
+    // Changes made while evaluating (including our own unlocks) get one more pass
+    if (this.evaluating) {
+      this.reevaluate = true;
+      return [];
+    }
+
+    this.evaluating = (async () => {
+      const newlyUnlocked = findNewAchievements(this.getMetrics(), this.stateManager.getAchievementState().unlocked);
+      if (newlyUnlocked.length === 0) return [];
+
+      await this.stateManager.unlockAchievements(newlyUnlocked);
+
+      // One toast per batch so existing players aren't flooded on first run
+      const gold = newlyUnlocked.reduce((sum, a) => sum + a.goldReward, 0);
+      const names = newlyUnlocked.map(a => `${a.icon} ${a.name}`).join(', ');
+      vscode.window.showInformationMessage(
+        newlyUnlocked.length === 1
+          ? `🏆 Achievement unlocked: ${names}! +${gold} Gold`
+          : `🏆 ${newlyUnlocked.length} achievements unlocked: ${names}! +${gold} Gold`,
+        'View Achievements'
+      ).then(selection => {
+        if (selection === 'View Achievements') {
+          vscode.commands.executeCommand('gitrpg.showAchievements');
+        }
+      });
+
+      await this.pushToCloud(newlyUnlocked.map(a => a.id));
+      return newlyUnlocked;
+    })();
+
+    try {
+      return await this.evaluating;
+    } finally {
+      this.evaluating = null;
+      if (this.reevaluate) {
+        this.reevaluate = false;
+        void this.evaluate();
+      }
+    }
+  }
+
+  private async pushToCloud(ids: string[]): Promise<void> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user || ids.length === 0) return;
+
+    const { unlocked } = this.stateManager.getAchievementState();
+    const { error } = await this.supabase.getClient()
+      .from('user_achievements')
+      .upsert(
+        ids.map(id => ({ user_id: user.id, achievement_id: id, unlocked_at: unlocked[id] })),
+        { onConflict: 'user_id,achievement_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Error saving achievements:', error);
+    }
+  }
+
+  /**
+   * Merge unlocks from other machines and upload local ones the cloud is missing
+   */
+  async syncWithCloud(): Promise<void> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) return;
+
+    const { data, error } = await this.supabase.getClient()
+      .from('user_achievements')
+      .select('achievement_id, unlocked_at')
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error fetching achievements:', error);
+      return;
+    }
+
+    const cloud: Record<string, string> = {};
+    for (const row of (data || []) as Pick<DbUserAchievement, 'achievement_id' | 'unlocked_at'>[]) {
+      cloud[row.achievement_id] = row.unlocked_at;
+    }
+
+    await this.stateManager.restoreAchievements(cloud);
+
+    const local = this.stateManager.getAchievementState().unlocked;
+    await this.pushToCloud(Object.keys(local).filter(id => !cloud[id]));
+  }
+
+  dispose(): void {
+    if (this.unsubscribeFromState) {
+      this.unsubscribeFromState();
+      this.unsubscribeFromState = null;
+    }
+  }
+}
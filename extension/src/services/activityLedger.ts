@@ -0,0 +1,150 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ActivityLedgerEntry, ActivitySource } from '../types';
+
+export type { ActivityLedgerEntry, ActivitySource } from '../types';
+
+export const LEDGER_FILE = 'activity-ledger.jsonl';
+
+/**
+ * Append-only record of every commit that earned XP, one JSON object per line.
+ * Lives in the extension's globalStorage so it can grow without bloating
+ * globalState; in-memory indexes keyed by hash and patch id make dedupe O(1).
+ */
+export class ActivityLedger {
+  private filePath: string;
+  private entries: ActivityLedgerEntry[] = [];
+  private index: Map<string, ActivityLedgerEntry> = new Map();
+  private patchIds: Set<string> = new Set();
+  private sourceCounts: Map<ActivitySource, number> = new Map();
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(storageDir: string) {
+    this.filePath = path.join(storageDir, LEDGER_FILE);
+    this.load();
+  }
+
+  private load(): void {
+    let content: string;
+    try {
+      content = fs.readFileSync(this.filePath, 'utf-8');
+    } catch {
+      return; // No ledger yet
+    }
+
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        this.addToIndex(JSON.parse(line) as ActivityLedgerEntry);
+      } catch {
+        // Skip a torn line (e.g. VS Code quit mid-write)
+        console.error('Skipping malformed activity ledger line');
+      }
+    }
+  }
+
+  private addToIndex(entry: ActivityLedgerEntry): boolean {
+    if (this.isRecorded(entry)) return false;
+    this.entries.push(entry);
+    this.index.set(entry.hash, entry);
+    if (entry.patchId) this.patchIds.add(entry.patchId);
+    this.sourceCounts.set(entry.source, (this.sourceCounts.get(entry.source) ?? 0) + 1);
+    return true;
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  has(hash: string): boolean {
+    return this.index.has(hash);
+  }
+
+  /**
+   * Whether this commit, or a rebased or cherry-picked copy of the same
+   * change, is already recorded
+   */
+  isRecorded(commit: { hash: string; patchId?: string }): boolean {
+    return this.index.has(commit.hash) || (!!commit.patchId && this.patchIds.has(commit.patchId));
+  }
+
+  get(hash: string): ActivityLedgerEntry | undefined {
+    return this.index.get(hash);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Number of entries recorded from any of the given sources
+   */
+  countBySource(...sources: ActivitySource[]): number {
+    return sources.reduce((sum, source) => sum + (this.sourceCounts.get(source) ?? 0), 0);
+  }
+
+  /**
+   * Record entries. The index updates immediately; the file write is queued
+   * so concurrent appends land in order. Already-recorded hashes and patch
+   * ids are ignored.
+   */
+  async append(entries: ActivityLedgerEntry[]): Promise<ActivityLedgerEntry[]> {
+    const added = entries.filter(e => this.addToIndex(e));
+    if (added.length === 0) return [];
+
+    const lines = added.map(e => JSON.stringify(e)).join('\n') + '\n';
+
+    this.writeQueue = this.writeQueue.then(async () => {
+      try {
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+        // Start on a new line if a torn write left the last one unfinished
+        const separator = await this.endsMidLine() ? '\n' : '';
+        await fs.promises.appendFile(this.filePath, separator + lines, 'utf-8');
+      } catch (error) {
+        console.error('Failed to write activity ledger:', error);
+      }
+    });
+    await this.writeQueue;
+
+    return added;
+  }
+
+  private async endsMidLine(): Promise<boolean> {
+    let file: fs.promises.FileHandle;
+    try {
+      file = await fs.promises.open(this.filePath, 'r');
+    } catch {
+      return false; // No ledger yet
+    }
+
+    try {
+      const { size } = await file.stat();
+      if (size === 0) return false;
+      const last = Buffer.alloc(1);
+      await file.read(last, 0, 1, size - 1);
+      return last.toString('utf-8') !== '\n';
+    } finally {
+      await file.close();
+    }
+  }
+
+  /**
+   * Query entries, newest first
+   */
+  query(filter: { repo?: string; source?: ActivitySource; since?: Date; limit?: number } = {}): ActivityLedgerEntry[] {
+    const since = filter.since?.toISOString();
+    const results: ActivityLedgerEntry[] = [];
+
+    for (let i = this.entries.length - 1; i >= 0; i--) {
+      const entry = this.entries[i];
+      if (filter.repo !== undefined && entry.repo !== filter.repo) continue;
+      if (filter.source !== undefined && entry.source !== filter.source) continue;
+      if (since !== undefined && entry.recordedAt < since) continue;
+
+      results.push(entry);
+      if (filter.limit !== undefined && results.length >= filter.limit) break;
+    }
+
+    return results;
+  }
+}
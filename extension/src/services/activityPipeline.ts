@@ -0,0 +1,151 @@
+import * as vscode from 'vscode';
+import type { ActivityEvent, ActivityEventKind, ActivityResult } from '../types';
+import { ACTIVITY_EVENT_CONFIG, calculateEventXp } from '../config/classConfig';
+import type { LocalStateManager } from './localStateManager';
+import type { QuestService } from './questService';
+
+export type { ActivityEvent, ActivityEventKind } from '../types';
+
+/**
+ * Something in the editor that produces activity events, e.g. finished test runs
+ */
+export interface ActivitySourceProvider {
+  readonly id: string;
+  start(emit: (event: ActivityEvent) => void): vscode.Disposable;
+}
+
+// Setting under gitrpg.activitySources that enables each kind
+const KIND_SETTINGS: Record<ActivityEventKind, string> = {
+  test_run: 'tests',
+  diagnostics_cleared: 'diagnostics',
+  lint_fix: 'lint',
+  review_given: 'reviews',
+};
+
+/**
+ * Read the `gitrpg.activitySources` settings
+ */
+export function loadActivitySourceSettings(): Record<ActivityEventKind, boolean> {
+  const config = vscode.workspace.getConfiguration('gitrpg.activitySources');
+  return {
+    test_run: config.get<boolean>(KIND_SETTINGS.test_run, true),
+    diagnostics_cleared: config.get<boolean>(KIND_SETTINGS.diagnostics_cleared, true),
+    lint_fix: config.get<boolean>(KIND_SETTINGS.lint_fix, true),
+    // Off by default: polls GitHub with the signed-in account
+    review_given: config.get<boolean>(KIND_SETTINGS.review_given, false),
+  };
+}
+
+export function describeActivityEvent(event: ActivityEvent): string {
+  switch (event.kind) {
+    case 'test_run':
+      return `tests passed (${event.label})`;
+    case 'diagnostics_cleared':
+      return `cleared ${event.errorsCleared} error(s) in ${vscode.workspace.asRelativePath(event.file)}`;
+    case 'lint_fix':
+      return `fixed ${event.warningsFixed} lint warning(s) in ${vscode.workspace.asRelativePath(event.file)}`;
+    case 'review_given':
+      return `reviewed ${event.pullRequest}`;
+  }
+}
+
+// Cooldowns are tracked per kind for test runs, per file or pull request otherwise
+function throttleKey(event: ActivityEvent): string {
+  switch (event.kind) {
+    case 'test_run':
+      return event.kind;
+    case 'review_given':
+      return `${event.kind}:${event.pullRequest}`;
+    default:
+      return `${event.kind}:${event.file}`;
+  }
+}
+
+/**
+ * Common path from activity sources to XP and quest progress. Events are
+ * throttled per file or pull request (per kind for test runs) and capped per day before
+ * they reach LocalStateManager.addActivity.
+ */
+export class ActivityPipeline implements vscode.Disposable {
+  private disposables: vscode.Disposable[] = [];
+  private lastAwardedAt = new Map<string, number>();
+  private questService: QuestService | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private stateManager: LocalStateManager,
+    private log: (message: string) => void = () => {}
+  ) {}
+
+  setQuestService(questService: QuestService): void {
+    this.questService = questService;
+  }
+
+  register(source: ActivitySourceProvider): void {
+    this.disposables.push(source.start((event) => {
+      void this.emit(event);
+    }));
+  }
+
+  /**
+   * Award an event. Events are processed one at a time so daily limits hold
+   * when several arrive together. Resolves to null when nothing was awarded.
+   */
+  emit(event: ActivityEvent, now: number = Date.now()): Promise<ActivityResult | null> {
+    const next = this.queue.then(() => this.process(event, now));
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async process(event: ActivityEvent, now: number): Promise<ActivityResult | null> {
+    if (!loadActivitySourceSettings()[event.kind]) {
+      return null;
+    }
+
+    const config = ACTIVITY_EVENT_CONFIG[event.kind];
+    if (this.stateManager.getTodayStats().events[event.kind] >= config.dailyLimit) {
+      return null;
+    }
+
+    const key = throttleKey(event);
+    const last = this.lastAwardedAt.get(key);
+    if (last !== undefined && now - last < config.cooldownMinutes * 60000) {
+      return null;
+    }
+
+    const xp = calculateEventXp(event);
+    if (xp <= 0) {
+      return null;
+    }
+    this.lastAwardedAt.set(key, now);
+
+    try {
+      const result = await this.stateManager.addActivity(0, 0, 0, 0, 1, {
+        bonusXp: xp,
+        events: { [event.kind]: 1 },
+      });
+      this.log(`Earned ${result.xpEarned} XP: ${describeActivityEvent(event)} [${event.source}]`);
+
+      if (this.questService) {
+        await this.questService.updateTodayProgress();
+      }
+
+      if (result.leveledUp) {
+        vscode.window.showInformationMessage(
+          `🎉 Level Up! ${this.stateManager.getCharacter().name} is now Level ${result.newLevel}!`
+        );
+      } else {
+        vscode.window.setStatusBarMessage(`⚔️ +${result.xpEarned} XP: ${describeActivityEvent(event)}`, 4000);
+      }
+      return result;
+    } catch (error) {
+      console.error('Error recording activity event:', error);
+      return null;
+    }
+  }
+
+  dispose(): void {
+    this.disposables.forEach(d => d.dispose());
+    this.disposables = [];
+  }
+}
@@ -0,0 +1,232 @@
+import * as vscode from 'vscode';
+import type { ActivityEvent } from '../types';
+import { loadActivitySourceSettings, type ActivitySourceProvider } from './activityPipeline';
+
+// Shell commands that run a test suite
+const TEST_COMMAND = new RegExp([
+  '\\b(?:npm|pnpm|yarn|bun)\\s+(?:run\\s+)?test\\b',
+  '\\b(?:npx\\s+)?(?:jest|vitest|mocha|ava|pytest|tox|phpunit|rspec)\\b',
+  '\\b(?:go|cargo|dotnet|mix|deno|swift)\\s+test\\b',
+  '\\bgradlew?\\s+(?:\\S+\\s+)*test\\b',
+  '\\bmvn\\s+(?:\\S+\\s+)*(?:test|verify)\\b',
+].join('|'));
+
+// Diagnostic sources treated as linters rather than compilers
+export const LINT_SOURCES = [
+  'eslint', 'stylelint', 'biome', 'ruff', 'pylint', 'flake8', 'mypy', 'rubocop',
+  'golangci-lint', 'staticcheck', 'clippy', 'markdownlint', 'shellcheck', 'hadolint'
+];
+
+// Minutes between GitHub searches for newly reviewed pull requests
+const REVIEW_POLL_MINUTES = 15;
+
+// How far back the review search looks; older PRs are already known
+const REVIEW_LOOKBACK_DAYS = 7;
+
+export function isTestCommand(commandLine: string): boolean {
+  return TEST_COMMAND.test(commandLine);
+}
+
+export function isLintDiagnostic(diagnostic: Pick<vscode.Diagnostic, 'source'>): boolean {
+  return !!diagnostic.source && LINT_SOURCES.includes(diagnostic.source.toLowerCase());
+}
+
+/**
+ * Errors reported by compilers and language servers, excluding linters
+ */
+export function countErrors(diagnostics: readonly Pick<vscode.Diagnostic, 'severity' | 'source'>[]): number {
+  return diagnostics.filter(d => d.severity === vscode.DiagnosticSeverity.Error && !isLintDiagnostic(d)).length;
+}
+
+/**
+ * Problems of any severity reported by linters
+ */
+export function countLintProblems(diagnostics: readonly Pick<vscode.Diagnostic, 'severity' | 'source'>[]): number {
+  return diagnostics.filter(isLintDiagnostic).length;
+}
+
+/**
+ * Passing test runs, from tasks in the Test group (or named like tests) and
+ * from test commands run in terminals with shell integration
+ */
+export class TestRunSource implements ActivitySourceProvider {
+  readonly id = 'tests';
+
+  start(emit: (event: ActivityEvent) => void): vscode.Disposable {
+    const disposables: vscode.Disposable[] = [
+      vscode.tasks.onDidEndTaskProcess((e) => {
+        const task = e.execution.task;
+        const isTestTask = task.group?.id === vscode.TaskGroup.Test.id || /\btests?\b/i.test(task.name);
+        if (e.exitCode === 0 && isTestTask) {
+          emit({ kind: 'test_run', source: this.id, label: task.name });
+        }
+      })
+    ];
+
+    // Shell integration events need VS Code 1.93+
+    if (vscode.window.onDidEndTerminalShellExecution) {
+      disposables.push(vscode.window.onDidEndTerminalShellExecution((e) => {
+        const commandLine = e.execution.commandLine.value;
+        if (e.exitCode === 0 && isTestCommand(commandLine)) {
+          emit({ kind: 'test_run', source: this.id, label: commandLine.trim() });
+        }
+      }));
+    }
+
+    return vscode.Disposable.from(...disposables);
+  }
+}
+
+interface DiagnosticSnapshot {
+  count: number;
+  version: number;
+}
+
+/**
+ * Watch a per-file diagnostic count and report drops. Only open documents
+ * whose text changed since the last count qualify, so diagnostics vanishing
+ * because a file closed or a language server restarted earn nothing.
+ */
+function watchDiagnosticDrops(
+  count: (diagnostics: readonly vscode.Diagnostic[]) => number,
+  onDrop: (uri: vscode.Uri, before: number, after: number) => void
+): vscode.Disposable {
+  const snapshots = new Map<string, DiagnosticSnapshot>();
+  const openDocument = (uri: vscode.Uri) =>
+    vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+
+  for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+    const doc = openDocument(uri);
+    if (doc) {
+      snapshots.set(uri.toString(), { count: count(diagnostics), version: doc.version });
+    }
+  }
+
+  return vscode.Disposable.from(
+    vscode.languages.onDidChangeDiagnostics((e) => {
+      for (const uri of e.uris) {
+        const key = uri.toString();
+        const doc = uri.scheme === 'file' ? openDocument(uri) : undefined;
+        if (!doc) {
+          snapshots.delete(key);
+          continue;
+        }
+
+        const current = count(vscode.languages.getDiagnostics(uri));
+        const previous = snapshots.get(key);
+        snapshots.set(key, { count: current, version: doc.version });
+
+        if (previous && current < previous.count && doc.version !== previous.version) {
+          onDrop(uri, previous.count, current);
+        }
+      }
+    }),
+    vscode.workspace.onDidCloseTextDocument((doc) => {
+      snapshots.delete(doc.uri.toString());
+    })
+  );
+}
+
+/**
+ * Files whose errors went from some to none
+ */
+export class DiagnosticsClearedSource implements ActivitySourceProvider {
+  readonly id = 'diagnostics';
+
+  start(emit: (event: ActivityEvent) => void): vscode.Disposable {
+    return watchDiagnosticDrops(countErrors, (uri, before, after) => {
+      if (after === 0) {
+        emit({ kind: 'diagnostics_cleared', source: this.id, file: uri.fsPath, errorsCleared: before });
+      }
+    });
+  }
+}
+
+/**
+ * Linter problems fixed in a file
+ */
+export class LintFixSource implements ActivitySourceProvider {
+  readonly id = 'lint';
+
+  start(emit: (event: ActivityEvent) => void): vscode.Disposable {
+    return watchDiagnosticDrops(countLintProblems, (uri, before, after) => {
+      emit({ kind: 'lint_fix', source: this.id, file: uri.fsPath, warningsFixed: before - after });
+    });
+  }
+}
+
+/**
+ * Pull request from the GitHub issue search API
+ */
+export interface ReviewedPullRequest {
+  id: number;
+  number: number;
+  title: string;
+  repository_url: string; // https://api.github.com/repos/<owner>/<name>
+}
+
+/**
+ * Review events for pull requests not seen in earlier searches; marks them seen
+ */
+export function newReviewEvents(items: ReviewedPullRequest[], seen: Set<number>, source: string): ActivityEvent[] {
+  const events: ActivityEvent[] = [];
+  for (const pr of items) {
+    if (seen.has(pr.id)) continue;
+    seen.add(pr.id);
+    const repo = pr.repository_url.split('/repos/')[1] ?? pr.repository_url;
+    events.push({ kind: 'review_given', source, pullRequest: `${repo}#${pr.number}`, title: pr.title });
+  }
+  return events;
+}
+
+async function searchReviewedPullRequests(login: string, token: string): Promise<ReviewedPullRequest[]> {
+  const since = new Date(Date.now() - REVIEW_LOOKBACK_DAYS * 86400000).toISOString().slice(0, 10);
+  const query = `type:pr reviewed-by:${login} -author:${login} updated:>=${since}`;
+  const response = await fetch(
+    `https://api.github.com/search/issues?q=${encodeURIComponent(query)}&sort=updated&per_page=50`,
+    { headers: { Authorization: `Bearer ${token}`, Accept: 'application/vnd.github+json' } }
+  );
+  if (!response.ok) {
+    throw new Error(`GitHub search failed: ${response.status}`);
+  }
+  const body = await response.json() as { items?: ReviewedPullRequest[] };
+  return body.items ?? [];
+}
+
+/**
+ * Pull requests reviewed on GitHub, found by polling the search API with the
+ * GitHub account VS Code is signed in to. The first search only records what
+ * was already reviewed, so reviews from before activation earn nothing.
+ */
+export class PullRequestReviewSource implements ActivitySourceProvider {
+  readonly id = 'github-reviews';
+  private seen: Set<number> | null = null;
+
+  start(emit: (event: ActivityEvent) => void): vscode.Disposable {
+    const poll = () => {
+      void this.poll(emit);
+    };
+    const timer = setInterval(poll, REVIEW_POLL_MINUTES * 60000);
+    poll();
+    return new vscode.Disposable(() => clearInterval(timer));
+  }
+
+  private async poll(emit: (event: ActivityEvent) => void): Promise<void> {
+    if (!loadActivitySourceSettings().review_given) return;
+
+    try {
+      // Never prompts; the source stays idle until the user signs in to GitHub
+      const session = await vscode.authentication.getSession('github', ['repo'], { silent: true });
+      if (!session) return;
+
+      const items = await searchReviewedPullRequests(session.account.label, session.accessToken);
+      if (!this.seen) {
+        this.seen = new Set(items.map(pr => pr.id));
+        return;
+      }
+      newReviewEvents(items, this.seen, this.id).forEach(emit);
+    } catch (error) {
+      console.error('Error checking pull request reviews:', error);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import type { AuthorIdentities, AuthorIdentityKind } from '../types';
+
+export type { AuthorIdentities, AuthorIdentityKind } from '../types';
+
+const GITHUB_NOREPLY_DOMAIN = 'users.noreply.github.com';
+
+export function emptyIdentities(): AuthorIdentities {
+  return { emails: [], names: [], githubUsernames: [] };
+}
+
+export function hasIdentities(identities: AuthorIdentities): boolean {
+  return identities.emails.length > 0 ||
+    identities.names.length > 0 ||
+    identities.githubUsernames.length > 0;
+}
+
+/**
+ * Trim an identity value; GitHub usernames also lose a leading `@`
+ */
+export function normalizeIdentity(kind: AuthorIdentityKind, value: string): string {
+  const trimmed = value.trim();
+  return kind === 'githubUsernames' ? trimmed.replace(/^@/, '') : trimmed;
+}
+
+/**
+ * Extract the username from a GitHub noreply address
+ * (`user@users.noreply.github.com` or `12345+user@users.noreply.github.com`)
+ */
+export function githubUsernameFromEmail(email: string): string | null {
+  const match = email.trim().match(/^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i);
+  return match?.[1] ?? null;
+}
+
+/**
+ * Whether a commit author matches any of the player's identities.
+ * Comparisons are case-insensitive; pass mailmap-resolved name/email (%aN / %aE).
+ */
+export function matchesAuthor(
+  author: { name: string; email: string },
+  identities: AuthorIdentities
+): boolean {
+  const email = author.email.trim().toLowerCase();
+  const name = author.name.trim().toLowerCase();
+
+  if (email && identities.emails.some(e => e.toLowerCase() === email)) {
+    return true;
+  }
+
+  if (name && identities.names.some(n => n.toLowerCase() === name)) {
+    return true;
+  }
+
+  if (email.endsWith(`@${GITHUB_NOREPLY_DOMAIN}`)) {
+    const username = githubUsernameFromEmail(email);
+    if (username && identities.githubUsernames.some(u => u.toLowerCase() === username)) {
+      return true;
+    }
+  }
+
+  return false;
+}
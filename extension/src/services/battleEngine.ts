@@ -3,22 +3,37 @@ import type {
   CharacterClass,
   BattleAction,
   BattleFighter,
+  BattleSkill,
+  ClassAbility,
   DamageResult,
+  StatusEffect,
+  StatusEffectApplication,
+  StatusEffectType,
   BattleResult,
   BattleRewards,
 } from '../types';
+import { BATTLE_RESOURCES, CLASS_ABILITIES } from '../config/classConfig';
+import { absorbWithShield, applyStatusEffect, enragedAttack, snapshotEffects, tickStatusEffects } from './statusEffects';
+import { createSeededRandom, generateBattleSeed, type RandomSource } from './battleRng';
 
 // Re-export types for backwards compatibility
 export type { BattleFighter, DamageResult, BattleResult, BattleRewards } from '../types';
 
+/**
+ * Bumped whenever a change to the engine would alter the actions a seed
+ * produces, so old battles aren't replayed on rules they weren't fought with
+ */
+export const BATTLE_ENGINE_VERSION = 1;
+
 // Damage formula: base = attack - (defense/2), with 10% variance
 export function calculateDamage(
   attacker: BattleFighter,
   defender: BattleFighter,
-  isCrit: boolean
+  isCrit: boolean,
+  random: RandomSource = Math.random
 ): DamageResult {
   const baseDamage = attacker.stats.attack - (defender.stats.defense / 2);
-  const variance = 0.9 + Math.random() * 0.2; // 90% to 110%
+  const variance = 0.9 + random() * 0.2; // 90% to 110%
   let damage = Math.floor(baseDamage * variance);
 
   if (isCrit) {
@@ -31,31 +46,90 @@ export function calculateDamage(
   return { damage, isCrit };
 }
 
-export function rollCrit(critChance: number): boolean {
-  return Math.random() < critChance;
+export function rollCrit(critChance: number, random: RandomSource = Math.random): boolean {
+  return random() < critChance;
+}
+
+/**
+ * Talent skill that replaces this attack, if any. Skills roll in order and
+ * the first to hit wins.
+ */
+export function rollSkill(skills: BattleSkill[] | undefined, random: RandomSource = Math.random): BattleSkill | null {
+  return skills?.find(skill => random() < skill.chance) ?? null;
 }
 
 export function determineTurnOrder(
   fighter1: BattleFighter,
-  fighter2: BattleFighter
+  fighter2: BattleFighter,
+  random: RandomSource = Math.random
 ): [BattleFighter, BattleFighter] {
   // Higher speed goes first, with small random factor
-  const speed1 = fighter1.stats.speed + Math.random() * 2;
-  const speed2 = fighter2.stats.speed + Math.random() * 2;
+  const speed1 = fighter1.stats.speed + random() * 2;
+  const speed2 = fighter2.stats.speed + random() * 2;
 
   return speed1 >= speed2 ? [fighter1, fighter2] : [fighter2, fighter1];
 }
 
+/**
+ * What the engine tracks for a fighter during one battle
+ */
+export interface CombatantState {
+  resource: number;       // Mana or energy on hand
+  cooldown: number;       // Own turns until the ability is ready again
+  blockFraction: number;  // Absorbed from the next hit taken
+  effects: StatusEffect[];
+}
+
+export function initialCombatantState(fighter: BattleFighter): CombatantState {
+  return {
+    resource: BATTLE_RESOURCES[fighter.class]?.max ?? 0,
+    cooldown: 0,
+    blockFraction: 0,
+    effects: [...(fighter.statusEffects ?? [])],
+  };
+}
+
+/**
+ * The AI's pick for this turn. Damage abilities fire whenever they're ready;
+ * defends are saved for when the fighter is hurt and not already shielded.
+ */
+export function chooseAction(
+  fighter: BattleFighter,
+  state: CombatantState,
+  ability: ClassAbility | undefined = CLASS_ABILITIES[fighter.class]
+): 'attack' | 'ability' {
+  if (!ability || state.cooldown > 0 || state.resource < ability.cost) {
+    return 'attack';
+  }
+  if (ability.actionType === 'defend') {
+    const hurt = fighter.currentHp <= fighter.stats.maxHp * 0.6;
+    return hurt && state.blockFraction === 0 ? 'ability' : 'attack';
+  }
+  return 'ability';
+}
+
 export class BattleEngine {
   private fighter1: BattleFighter;
   private fighter2: BattleFighter;
   private actions: BattleAction[] = [];
   private turn: number = 0;
+  private combatants = new Map<BattleFighter, CombatantState>();
+  private seed: number;
+  private random: RandomSource;
+
+  /**
+   * Every roll comes from `seed`, so the same seed and fighters always
+   * produce the same battle
+   */
+  constructor(fighter1: BattleFighter, fighter2: BattleFighter, seed: number = generateBattleSeed()) {
+    this.seed = seed;
+    this.random = createSeededRandom(seed);
 
-  constructor(fighter1: BattleFighter, fighter2: BattleFighter) {
     // Clone fighters to avoid mutating originals
     this.fighter1 = { ...fighter1, stats: { ...fighter1.stats } };
     this.fighter2 = { ...fighter2, stats: { ...fighter2.stats } };
+    this.combatants.set(this.fighter1, initialCombatantState(this.fighter1));
+    this.combatants.set(this.fighter2, initialCombatantState(this.fighter2));
   }
 
   runBattle(): BattleResult {
@@ -99,6 +173,8 @@ export class BattleEngine {
       loser,
       actions: this.actions,
       totalTurns: this.turn,
+      seed: this.seed,
+      engineVersion: BATTLE_ENGINE_VERSION,
       rewards: {
         xp: Math.floor(baseXp * (1 + levelBonus)),
         gold: Math.floor(baseGold * (1 + levelBonus))
@@ -107,37 +183,254 @@ export class BattleEngine {
   }
 
   private executeTurn(): void {
-    const [first, second] = determineTurnOrder(this.fighter1, this.fighter2);
+    const [first, second] = determineTurnOrder(this.fighter1, this.fighter2, this.random);
 
-    // First fighter attacks
-    this.executeAttack(first, second);
+    // First fighter acts
+    this.takeTurn(first, second);
 
-    // Check if battle is over
-    if (second.currentHp <= 0) return;
+    // Check if battle is over; damage over time can finish either fighter
+    if (first.currentHp <= 0 || second.currentHp <= 0) return;
 
-    // Second fighter attacks
-    this.executeAttack(second, first);
+    // Second fighter acts
+    this.takeTurn(second, first);
   }
 
-  private executeAttack(attacker: BattleFighter, defender: BattleFighter): void {
-    const isCrit = rollCrit(attacker.stats.critChance);
-    const { damage } = calculateDamage(attacker, defender, isCrit);
+  private takeTurn(actor: BattleFighter, opponent: BattleFighter): void {
+    const state = this.combatants.get(actor)!;
+    const stunned = this.tickEffects(actor, state);
+    if (actor.currentHp <= 0) return;
 
-    defender.currentHp = Math.max(0, defender.currentHp - damage);
+    const ability = CLASS_ABILITIES[actor.class];
+    if (stunned) {
+      state.cooldown = Math.max(0, state.cooldown - 1);
+    } else if (ability && chooseAction(actor, state, ability) === 'ability') {
+      state.resource -= ability.cost;
+      state.cooldown = ability.cooldown;
+      this.executeAbility(actor, opponent, ability);
+    } else {
+      state.cooldown = Math.max(0, state.cooldown - 1);
+      this.executeAttack(actor, opponent);
+    }
 
-    this.actions.push({
+    const resource = BATTLE_RESOURCES[actor.class];
+    if (resource) {
+      state.resource = Math.min(resource.max, state.resource + resource.regenPerTurn);
+    }
+  }
+
+  /**
+   * Fire the actor's damage and healing over time, logging each tick.
+   * Returns whether a stun costs them this turn.
+   */
+  private tickEffects(actor: BattleFighter, state: CombatantState): boolean {
+    const { effects, events, stunned } = tickStatusEffects(state.effects);
+    state.effects = effects;
+
+    for (const event of events) {
+      actor.currentHp = event.type === 'regen'
+        ? Math.min(actor.stats.maxHp, actor.currentHp + event.amount)
+        : Math.max(0, actor.currentHp - event.amount);
+
+      this.record({
+        turn: this.turn,
+        timestamp: new Date(),
+        actorId: actor.id,
+        actionType: 'status',
+        targetId: actor.id,
+        damage: event.amount,
+        isCrit: false,
+        resultingHp: actor.currentHp,
+        statusEffect: event.type,
+        ...(event.type === 'regen' && { isHeal: true })
+      });
+
+      if (actor.currentHp <= 0) break;
+    }
+    return stunned;
+  }
+
+  private executeAttack(attacker: BattleFighter, defender: BattleFighter): void {
+    const striker = this.withEnrage(attacker);
+    const skill = rollSkill(attacker.skills, this.random);
+    const isCrit = rollCrit(attacker.stats.critChance, this.random);
+    const { damage: baseDamage } = calculateDamage(striker, defender, isCrit, this.random);
+    const { damage, blocked } = this.applyHit(
+      defender,
+      skill ? Math.floor(baseDamage * skill.damageMultiplier) : baseDamage
+    );
+    const applied = this.applyEffects(attacker, defender, skill?.effects);
+
+    this.record({
       turn: this.turn,
       timestamp: new Date(),
       actorId: attacker.id,
-      actionType: 'attack',
+      actionType: skill ? 'spell' : 'attack',
       targetId: defender.id,
       damage,
       isCrit,
-      resultingHp: defender.currentHp
+      resultingHp: defender.currentHp,
+      ...(skill && { skillName: skill.name }),
+      ...(blocked > 0 && { blocked }),
+      ...(applied.length > 0 && { appliedEffects: applied })
     });
   }
 
+  private executeAbility(actor: BattleFighter, opponent: BattleFighter, ability: ClassAbility): void {
+    const record = {
+      turn: this.turn,
+      timestamp: new Date(),
+      actorId: actor.id,
+      actionType: ability.actionType,
+      abilityId: ability.id,
+      abilityName: ability.name,
+    };
+
+    if (ability.actionType === 'defend') {
+      this.combatants.get(actor)!.blockFraction = ability.blockFraction ?? 0;
+      const applied = this.applyEffects(actor, opponent, ability.effects);
+      this.record({
+        ...record,
+        targetId: actor.id,
+        damage: 0,
+        isCrit: false,
+        resultingHp: actor.currentHp,
+        ...(applied.length > 0 && { appliedEffects: applied })
+      });
+      return;
+    }
+
+    const striker = this.withEnrage(actor);
+    const target = ability.ignoreDefense
+      ? { ...opponent, stats: { ...opponent.stats, defense: 0 } }
+      : opponent;
+    const hits = ability.hits ?? 1;
+    let total = 0;
+    let anyCrit = false;
+    for (let i = 0; i < hits; i++) {
+      const isCrit = ability.guaranteedCrit || rollCrit(actor.stats.critChance, this.random);
+      const { damage } = calculateDamage(striker, target, isCrit, this.random);
+      total += Math.max(1, Math.floor(damage * ability.damageMultiplier));
+      anyCrit = anyCrit || isCrit;
+    }
+    const { damage, blocked } = this.applyHit(opponent, total);
+    const applied = this.applyEffects(actor, opponent, ability.effects);
+
+    this.record({
+      ...record,
+      targetId: opponent.id,
+      damage,
+      isCrit: anyCrit,
+      resultingHp: opponent.currentHp,
+      ...(hits > 1 && { hits }),
+      ...(blocked > 0 && { blocked }),
+      ...(applied.length > 0 && { appliedEffects: applied })
+    });
+  }
+
+  /**
+   * Deal damage, letting a raised block and then a shield absorb it first
+   */
+  private applyHit(defender: BattleFighter, damage: number): { damage: number; blocked: number } {
+    const state = this.combatants.get(defender)!;
+    const guarded = Math.floor(damage * state.blockFraction);
+    state.blockFraction = 0;
+
+    const shielded = absorbWithShield(state.effects, damage - guarded);
+    state.effects = shielded.effects;
+
+    defender.currentHp = Math.max(0, defender.currentHp - shielded.damage);
+    return { damage: shielded.damage, blocked: guarded + shielded.absorbed };
+  }
+
+  /**
+   * Apply a skill's effects to whoever they target, returning those that took
+   */
+  private applyEffects(
+    actor: BattleFighter,
+    opponent: BattleFighter,
+    applications: StatusEffectApplication[] = []
+  ): StatusEffectType[] {
+    const applied: StatusEffectType[] = [];
+    for (const application of applications) {
+      const bearer = application.target === 'self' ? actor : opponent;
+      if (bearer.currentHp <= 0) continue;
+
+      const state = this.combatants.get(bearer)!;
+      const before = state.effects;
+      state.effects = applyStatusEffect(before, application, actor.stats.attack, bearer.stats.maxHp, this.random);
+      if (state.effects !== before) {
+        applied.push(application.type);
+      }
+    }
+    return applied;
+  }
+
+  private withEnrage(fighter: BattleFighter): BattleFighter {
+    const { effects } = this.combatants.get(fighter)!;
+    const attack = enragedAttack(fighter.stats.attack, effects);
+    return attack === fighter.stats.attack ? fighter : { ...fighter, stats: { ...fighter.stats, attack } };
+  }
+
+  /**
+   * Log an action with both fighters' running effects, when there are any
+   */
+  private record(action: BattleAction): void {
+    const running = [this.fighter1, this.fighter2].filter(f => this.combatants.get(f)!.effects.length > 0);
+    if (running.length > 0) {
+      action.statusEffects = Object.fromEntries(
+        [this.fighter1, this.fighter2].map(f => [f.id, snapshotEffects(this.combatants.get(f)!.effects)])
+      );
+    }
+    this.actions.push(action);
+  }
+
   getActions(): BattleAction[] {
     return this.actions;
   }
 }
+
+/**
+ * Everything needed to re-run a battle: the seed, the engine version that
+ * ran it and the fighters exactly as they entered
+ */
+export interface BattleReplay {
+  seed: number;
+  engineVersion: number;
+  fighter1: BattleFighter;
+  fighter2: BattleFighter;
+}
+
+/**
+ * Re-run a stored battle. Throws if it was fought on another engine version,
+ * since its seed would no longer produce the same rolls.
+ */
+export function replayBattle(replay: BattleReplay): BattleResult {
+  if (replay.engineVersion !== BATTLE_ENGINE_VERSION) {
+    throw new Error(
+      `Battle was run on engine v${replay.engineVersion}; this is v${BATTLE_ENGINE_VERSION}`
+    );
+  }
+  return new BattleEngine(replay.fighter1, replay.fighter2, replay.seed).runBattle();
+}
+
+/**
+ * Key-order independent form of an action without its wall-clock timestamp,
+ * so logs read back from jsonb compare equal to fresh ones
+ */
+function canonicalAction(action: BattleAction): string {
+  const { timestamp, ...rest } = action;
+  return JSON.stringify(rest, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+}
+
+/**
+ * Whether replaying yields exactly the stored action list
+ */
+export function verifyReplay(replay: BattleReplay, actions: BattleAction[]): boolean {
+  const replayed = replayBattle(replay).actions;
+  return replayed.length === actions.length &&
+    replayed.every((action, i) => canonicalAction(action) === canonicalAction(actions[i]));
+}
@@ -0,0 +1,89 @@
+import { CLASS_BASE_STATS, calculateStatsForLevel, levelForCumulativeXp } from '../config/classConfig';
+import { applyEquipment, getItemDefinition } from './statModifiers';
+import { applyTalents, ranksEarned, talentSkills } from './talentService';
+import type { DbUser } from './supabaseClient';
+import type { BattleSkill, CharacterClass, ItemSlot } from '../types';
+
+/**
+ * Columns of a user record a battle reads that only the server writes
+ */
+export type EarnedFighterProfile = Pick<DbUser,
+  'character_class' | 'level' | 'stats_max_hp' | 'stats_attack' | 'stats_defense' | 'stats_speed' | 'stats_crit'
+  | 'talents' | 'equipped_weapon_id' | 'equipped_armor_id'>;
+
+/**
+ * What a battle may use of a character, worked out from what the server
+ * owns: the level from total_xp, stats from the class at that level, talents
+ * only if that level earned them and equipment only if it's among the ids of
+ * the player's user_items rows
+ */
+export function earnedFighterProfile(
+  user: Pick<DbUser, 'character_class' | 'total_xp'>,
+  talents: Record<string, number> | null,
+  equipped: Record<ItemSlot, string | null>,
+  ownedItemIds: string[]
+): EarnedFighterProfile {
+  const characterClass: CharacterClass = user.character_class in CLASS_BASE_STATS
+    ? user.character_class as CharacterClass
+    : 'Warrior';
+  const level = levelForCumulativeXp(user.total_xp ?? 0);
+  const stats = calculateStatsForLevel(CLASS_BASE_STATS[characterClass], level);
+  const owned = (slot: ItemSlot): string | null => {
+    const itemId = equipped[slot];
+    return itemId && ownedItemIds.includes(itemId) && getItemDefinition(itemId)?.slot === slot ? itemId : null;
+  };
+
+  return {
+    character_class: characterClass,
+    level,
+    stats_max_hp: stats.maxHp,
+    stats_attack: stats.attack,
+    stats_defense: stats.defense,
+    stats_speed: stats.speed,
+    stats_crit: stats.critChance,
+    talents: talents && ranksEarned(characterClass, talents, level) ? talents : null,
+    equipped_weapon_id: owned('weapon'),
+    equipped_armor_id: owned('armor'),
+  };
+}
+
+/**
+ * Convert a database user record to a BattleFighter for use in battles,
+ * with the user's equipped items applied
+ */
+export function dbUserToBattleFighter(user: DbUser, currentHp?: number): {
+  id: string;
+  name: string;
+  class: string;
+  level: number;
+  stats: {
+    maxHp: number;
+    attack: number;
+    defense: number;
+    speed: number;
+    critChance: number;
+    critDamage: number;
+  };
+  currentHp: number;
+  skills: BattleSkill[];
+} {
+  const characterClass = user.character_class as CharacterClass;
+  const stats = applyEquipment(applyTalents({
+    maxHp: user.stats_max_hp,
+    attack: user.stats_attack,
+    defense: user.stats_defense,
+    speed: user.stats_speed,
+    critChance: user.stats_crit,
+    critDamage: CLASS_BASE_STATS[characterClass]?.critDamage ?? 1.5,
+  }, characterClass, user.talents), [user.equipped_weapon_id, user.equipped_armor_id]);
+
+  return {
+    id: user.id,
+    name: user.display_name,
+    class: user.character_class,
+    level: user.level,
+    stats,
+    currentHp: currentHp ?? stats.maxHp,
+    skills: talentSkills(characterClass, user.talents),
+  };
+}
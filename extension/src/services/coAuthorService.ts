@@ -0,0 +1,116 @@
+import { SupabaseClientService, DbXpGrant } from './supabaseClient';
+import { FriendsService, Friend } from './friendsService';
+import { LocalStateManager } from './localStateManager';
+import { matchesAuthor } from './authorIdentity';
+import { parseCoAuthor } from './commitMessage';
+import { pushPendingWallet } from './economyStore';
+import { CO_AUTHOR_GRANT_CONFIG } from '../config/classConfig';
+import type { ActivityResult, CoAuthor } from '../types';
+
+/**
+ * A commit we were awarded XP for, with its raw Co-authored-by values
+ */
+export interface SharedCommit {
+  hash: string;
+  message: string;
+  coAuthors: string[];
+  xpAwarded: number;
+}
+
+/**
+ * Accepted friends credited as co-authors. A co-author matches a friend by
+ * git email (if they opted in to sharing it), GitHub noreply address, or a name
+ * equal to their GitHub username.
+ */
+export function matchCoAuthorsToFriends(coAuthors: CoAuthor[], friends: Friend[]): Friend[] {
+  return friends.filter(friend =>
+    friend.status === 'accepted' &&
+    coAuthors.some(coAuthor => matchesAuthor(coAuthor, {
+      emails: friend.emails,
+      names: [friend.username],
+      githubUsernames: [friend.username]
+    }))
+  );
+}
+
+/**
+ * XP a co-author receives for a commit that earned the author `xpAwarded`
+ */
+export function calculateGrantXp(xpAwarded: number): number {
+  return Math.min(CO_AUTHOR_GRANT_CONFIG.maxGrantXp, Math.floor(xpAwarded * CO_AUTHOR_GRANT_CONFIG.xpShare));
+}
+
+export class CoAuthorService {
+  constructor(
+    private supabase: SupabaseClientService,
+    private friendsService: FriendsService,
+    private stateManager: LocalStateManager
+  ) {}
+
+  /**
+   * Record XP grants for friends credited on our commits through the
+   * grant_co_author_xp RPC, which works out the XP from each commit's and
+   * checks the friendship. Returns how many grants were created.
+   */
+  async grantSharedXp(commits: SharedCommit[]): Promise<number> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) return 0;
+
+    const shared = commits.filter(c => c.coAuthors.length > 0 && calculateGrantXp(c.xpAwarded) > 0);
+    if (shared.length === 0) return 0;
+
+    // Grants come out of XP the server has credited us, so send ours first
+    await pushPendingWallet(this.supabase, this.stateManager);
+
+    const friends = await this.friendsService.getFriends();
+    let granted = 0;
+
+    for (const commit of shared) {
+      const coAuthors = commit.coAuthors
+        .map(parseCoAuthor)
+        .filter((c): c is CoAuthor => c !== null);
+
+      for (const friend of matchCoAuthorsToFriends(coAuthors, friends)) {
+        const { data, error } = await this.supabase.getClient()
+          .rpc('grant_co_author_xp', {
+            p_recipient_id: friend.id,
+            p_commit_hash: commit.hash,
+            p_commit_message: commit.message,
+            p_commit_xp: commit.xpAwarded,
+          });
+
+        if (error) {
+          console.error('Error recording co-author XP grant:', error);
+        } else if ((data as number) > 0) {
+          granted++;
+        }
+      }
+    }
+
+    return granted;
+  }
+
+  /**
+   * Claim XP friends have shared with us and apply it locally.
+   * The claim_xp_grants RPC marks grants claimed first so another window
+   * can't claim them twice.
+   */
+  async claimPendingGrants(): Promise<{ grants: DbXpGrant[]; result: ActivityResult } | null> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) return null;
+
+    const { data, error } = await this.supabase.getClient()
+      .rpc('claim_xp_grants');
+
+    if (error) {
+      console.error('Error claiming co-author XP grants:', error);
+      return null;
+    }
+
+    const grants = (data || []) as DbXpGrant[];
+    if (grants.length === 0) return null;
+
+    const result = await this.stateManager.claimSharedXp(grants);
+    return { grants, result };
+  }
+}
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import type { ActivityLedgerEntry, CommitFlag, CommitVerdict } from '../types';
+import type { GitCommit } from './gitTrackingService';
+import { ANTI_GAMING_CONFIG } from '../config/classConfig';
+
+export type { CommitFlag, CommitVerdict } from '../types';
+
+const REVERT_SUBJECT = /^Revert "(.+)"$/;
+
+/**
+ * Read the `gitrpg.antiGaming` settings
+ */
+export function loadAntiGamingSettings(): { enabled: boolean; dailySoftCapXp: number } {
+  const config = vscode.workspace.getConfiguration('gitrpg.antiGaming');
+  return {
+    enabled: config.get<boolean>('enabled', true),
+    dailySoftCapXp: Math.max(0, config.get<number>('dailySoftCapXp', ANTI_GAMING_CONFIG.dailySoftCapXp)),
+  };
+}
+
+/**
+ * Count changed lines in `git show -w --unified=0` output. Zero means the
+ * commit only touched whitespace.
+ */
+export function countNonWhitespaceChanges(diffOutput: string): number {
+  let count = 0;
+  for (const line of diffOutput.split('\n')) {
+    if (line.startsWith('Binary files')) {
+      count++;
+    } else if ((line.startsWith('+') && !line.startsWith('+++')) ||
+               (line.startsWith('-') && !line.startsWith('---'))) {
+      count++;
+    }
+  }
+  return count;
+}
+
+interface SeenCommit {
+  hash: string;
+  message: string;
+  time: number;
+  lines: number;
+}
+
+/**
+ * Flag or down-weight suspicious commits. `recent` is what the ledger already
+ * awarded inside the history window; `whitespaceOnly` holds hashes whose diff
+ * is empty once whitespace is ignored.
+ */
+export function analyzeCommits(
+  commits: GitCommit[],
+  recent: ActivityLedgerEntry[],
+  whitespaceOnly: Set<string> = new Set()
+): Map<string, CommitVerdict> {
+  const verdicts = new Map<string, CommitVerdict>();
+  const ordered = [...commits].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const seen: SeenCommit[] = recent
+    .filter(e => e.message !== undefined)
+    .map(e => ({
+      hash: e.hash,
+      message: e.message as string,
+      time: new Date(e.timestamp).getTime(),
+      lines: e.linesAdded + e.linesRemoved
+    }));
+
+  const flag = (hash: string, name: CommitFlag, weight: number, reason: string): void => {
+    const verdict = verdicts.get(hash) ?? { weight: 1, flags: [], reasons: [] };
+    if (verdict.flags.includes(name)) return;
+    verdict.weight *= weight;
+    verdict.flags.push(name);
+    verdict.reasons.push(reason);
+    verdicts.set(hash, verdict);
+  };
+
+  // Reverts that undo a commit from the same batch cancel both out
+  for (const commit of ordered) {
+    const reverted = commit.message.match(REVERT_SUBJECT)?.[1];
+    const original = reverted !== undefined
+      ? ordered.find(c => c !== commit && c.message === reverted && c.date <= commit.date)
+      : undefined;
+    if (original) {
+      flag(original.hash, 'revert', 0, `reverted by ${commit.hash.substring(0, 7)}`);
+    }
+  }
+
+  const burstWindowMs = ANTI_GAMING_CONFIG.burstWindowMinutes * 60000;
+
+  for (const commit of ordered) {
+    const time = commit.date.getTime();
+    const lines = commit.insertions + commit.deletions;
+
+    if (lines === 0 && commit.filesChanged === 0 && !commit.excludedFiles) {
+      flag(commit.hash, 'empty', 0, 'empty commit');
+    }
+
+    if (whitespaceOnly.has(commit.hash)) {
+      flag(commit.hash, 'whitespace', 0, 'whitespace-only changes');
+    }
+
+    const reverted = commit.message.match(REVERT_SUBJECT)?.[1];
+    if (reverted !== undefined &&
+        (seen.some(s => s.message === reverted) || ordered.some(c => c !== commit && c.message === reverted))) {
+      flag(commit.hash, 'revert', 0, `reverts "${reverted}"`);
+    }
+
+    // Amending keeps the author date, so an identical date + subject is a rewrite
+    const amended = seen.find(s => s.time === time && s.message === commit.message);
+    if (amended) {
+      flag(commit.hash, 'amend', 0, `amended copy of ${amended.hash.substring(0, 7)}`);
+    } else if (seen.some(s => s.message === commit.message)) {
+      flag(commit.hash, 'duplicate-message', ANTI_GAMING_CONFIG.duplicateMessageWeight, 'repeats a recent commit message');
+    }
+
+    if (lines <= ANTI_GAMING_CONFIG.tinyCommitLines) {
+      const tinyInWindow = seen.filter(s =>
+        s.lines <= ANTI_GAMING_CONFIG.tinyCommitLines && time - s.time >= 0 && time - s.time <= burstWindowMs
+      ).length;
+      if (tinyInWindow >= ANTI_GAMING_CONFIG.burstThreshold) {
+        flag(commit.hash, 'burst', ANTI_GAMING_CONFIG.burstWeight,
+          `${tinyInWindow + 1} tiny commits within ${ANTI_GAMING_CONFIG.burstWindowMinutes} minutes`);
+      }
+    }
+
+    seen.push({ hash: commit.hash, message: commit.message, time, lines });
+  }
+
+  return verdicts;
+}
+
+/**
+ * Reduce XP above the daily soft cap instead of cutting it off
+ */
+export function applySoftCap(xpToday: number, xp: number, dailySoftCapXp: number): number {
+  if (dailySoftCapXp <= 0 || xpToday + xp <= dailySoftCapXp) {
+    return xp;
+  }
+  const underCap = Math.max(0, dailySoftCapXp - xpToday);
+  return Math.floor(underCap + (xp - underCap) * ANTI_GAMING_CONFIG.softCapWeight);
+}
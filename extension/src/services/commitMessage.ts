@@ -0,0 +1,54 @@
+import type { CoAuthor, CommitCategory, CommitCategoryCounts, ParsedCommitMessage } from '../types';
+
+export type { CoAuthor, CommitCategory, ParsedCommitMessage } from '../types';
+
+const CONVENTIONAL_SUBJECT = /^(\w+)(?:\(([^)]*)\))?(!)?:\s*\S/;
+
+// Common spellings teams use for the rewarded types
+const TYPE_ALIASES: Record<string, CommitCategory> = {
+  feat: 'feat',
+  feature: 'feat',
+  fix: 'fix',
+  bugfix: 'fix',
+  hotfix: 'fix',
+  test: 'test',
+  tests: 'test',
+  docs: 'docs',
+  doc: 'docs',
+  refactor: 'refactor',
+  perf: 'perf',
+};
+
+export const COMMIT_CATEGORIES: CommitCategory[] = ['feat', 'fix', 'test', 'docs', 'refactor', 'perf'];
+
+export function emptyCategoryCounts(): CommitCategoryCounts {
+  return { feat: 0, fix: 0, test: 0, docs: 0, refactor: 0, perf: 0 };
+}
+
+/**
+ * Parse a `Name <email>` trailer value
+ */
+export function parseCoAuthor(value: string): CoAuthor | null {
+  const match = value.trim().match(/^(.*?)\s*<([^>]+)>$/);
+  if (!match) return null;
+  return { name: match[1].trim(), email: match[2].trim() };
+}
+
+/**
+ * Understand a commit subject (`type(scope)!: description`) and its
+ * Co-authored-by trailer values
+ */
+export function parseCommitMessage(subject: string, coAuthorTrailers: string[] = []): ParsedCommitMessage {
+  const match = subject.trim().match(CONVENTIONAL_SUBJECT);
+  const type = match ? match[1].toLowerCase() : null;
+
+  return {
+    type,
+    category: type ? TYPE_ALIASES[type] ?? null : null,
+    scope: match?.[2] || null,
+    breaking: !!match?.[3],
+    coAuthors: coAuthorTrailers
+      .map(parseCoAuthor)
+      .filter((c): c is CoAuthor => c !== null),
+  };
+}
@@ -1,7 +1,20 @@
 import { RealtimeChannel } from '@supabase/supabase-js';
-import { SupabaseClientService, DbUser, dbUserToBattleFighter } from './supabaseClient';
+import { SupabaseClientService, DbUser } from './supabaseClient';
+import { dbUserToBattleFighter } from './battleFighters';
 import { BOSS_DEFINITIONS, createBossInstance, BOSS_REWARDS } from './bossService';
-import type { BossInstance, BattleFighter, CharacterClass } from '../types';
+import type { BattleBuffProvider } from './shopService';
+import { applyBattleBuff } from './statModifiers';
+import { rollSkill } from './battleEngine';
+import { absorbWithShield, applyStatusEffect, enragedAttack, hasStatusEffect, tickStatusEffects } from './statusEffects';
+import type {
+  BossInstance,
+  BossTrait,
+  BattleFighter,
+  BattleOutcome,
+  CharacterClass,
+  StatusEffect,
+  StatusEffectType,
+} from '../types';
 
 export interface BossBattle {
   id: string;
@@ -31,6 +44,20 @@ export interface BattleLogEntry {
   isCrit: boolean;
   resultingHp: number;
   isHeal?: boolean;
+  skillName?: string;  // Talent skill used instead of a plain attack
+  statusEffect?: StatusEffectType;      // Set on entries for an effect ticking
+  appliedEffects?: StatusEffectType[];  // Effects this entry inflicted or granted
+}
+
+type CoopActorType = BattleLogEntry['actorType'];
+
+export interface BossBattleRun {
+  success: boolean;
+  won?: boolean;
+  withFriend?: boolean;
+  battleLog?: BattleLogEntry[];
+  rewards?: { xp: number; gold: number };
+  error?: string;
 }
 
 export interface BossChallenge {
@@ -45,11 +72,44 @@ export class CoopBattleService {
   private supabase: SupabaseClientService;
   private battleSubscription: RealtimeChannel | null = null;
   private challengeSubscription: RealtimeChannel | null = null;
+  private onOutcomeCallbacks: Array<(outcome: BattleOutcome) => void | Promise<void>> = [];
+  private battleBuffProvider: BattleBuffProvider | null = null;
 
   constructor(supabase: SupabaseClientService) {
     this.supabase = supabase;
   }
 
+  /**
+   * Listen for battles this client finished, e.g. to progress quests
+   */
+  onBattleOutcome(callback: (outcome: BattleOutcome) => void | Promise<void>): () => void {
+    this.onOutcomeCallbacks.push(callback);
+    return () => {
+      const index = this.onOutcomeCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.onOutcomeCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Source of the local player's readied consumable, applied to our fighter
+   * in battles this client runs
+   */
+  setBattleBuffProvider(provider: BattleBuffProvider): void {
+    this.battleBuffProvider = provider;
+  }
+
+  private async notifyOutcome(outcome: BattleOutcome): Promise<void> {
+    for (const callback of this.onOutcomeCallbacks) {
+      try {
+        await callback(outcome);
+      } catch (error) {
+        console.error('Battle outcome listener error:', error);
+      }
+    }
+  }
+
   async getDailyBoss(): Promise<string> {
     const client = this.supabase.getClient();
     const { data, error } = await client.rpc('get_daily_boss');
@@ -113,16 +173,17 @@ export class CoopBattleService {
     // Get player stats to scale boss
     const { data: players } = await client
       .from('users')
-      .select('id, level, stats_max_hp')
+      .select('*')
       .in('id', [user.id, friendId]);
 
     const avgLevel = players ? players.reduce((sum, p) => sum + p.level, 0) / players.length : 1;
     const boss = createBossInstance(bossType, avgLevel);
 
-    const player1Data = players?.find(p => p.id === user.id);
-    const player2Data = players?.find(p => p.id === friendId);
-    const player1Hp = player1Data?.stats_max_hp || 100;
-    const player2Hp = player2Data?.stats_max_hp || 100;
+    // Starting HP includes equipment bonuses
+    const player1Data = players?.find(p => p.id === user.id) as DbUser | undefined;
+    const player2Data = players?.find(p => p.id === friendId) as DbUser | undefined;
+    const player1Hp = player1Data ? dbUserToBattleFighter(player1Data).currentHp : 100;
+    const player2Hp = player2Data ? dbUserToBattleFighter(player2Data).currentHp : 100;
 
     const { data, error } = await client
       .from('boss_battles')
@@ -221,13 +282,15 @@ export class CoopBattleService {
     }));
   }
 
-  async runFullBossBattle(lobbyId: string): Promise<{
-    success: boolean;
-    won?: boolean;
-    battleLog?: BattleLogEntry[];
-    rewards?: { xp: number; gold: number };
-    error?: string;
-  }> {
+  async runFullBossBattle(lobbyId: string): Promise<BossBattleRun> {
+    const run = await this.runBossBattle(lobbyId);
+    if (run.success) {
+      await this.notifyOutcome({ kind: 'boss', won: !!run.won, withFriend: !!run.withFriend, rewards: run.rewards });
+    }
+    return run;
+  }
+
+  private async runBossBattle(lobbyId: string): Promise<BossBattleRun> {
     const client = this.supabase.getClient();
     const user = this.supabase.getCurrentUser();
     if (!user) return { success: false, error: 'Not authenticated' };
@@ -265,9 +328,10 @@ export class CoopBattleService {
     const boss = createBossInstance(battle.boss_type, Math.max(battle.player1.level, battle.player2?.level || 1));
     boss.currentHp = battle.boss_current_hp;
 
-    // Create player fighters using shared helper
+    // Create player fighters using shared helper; the host's consumable applies to player 1
     const player1User = battle.player1 as unknown as DbUser;
-    const player1 = dbUserToBattleFighter(player1User, battle.player1_current_hp) as BattleFighter;
+    const buff = this.battleBuffProvider ? await this.battleBuffProvider() : null;
+    const player1 = applyBattleBuff(dbUserToBattleFighter(player1User, battle.player1_current_hp) as BattleFighter, buff);
 
     let player2: BattleFighter | null = null;
     if (battle.player2) {
@@ -293,21 +357,15 @@ export class CoopBattleService {
         const winnerIds = [player1.id];
         if (player2) winnerIds.push(player2.id);
         const rewards = await this.completeBattle(lobbyId, true, winnerIds, !!player2);
-        const playerIds = [player1.id];
-        if (player2) playerIds.push(player2.id);
-        await this.applyRewardsToPlayers(playerIds, rewards);
         await this.updateBattleState(lobbyId, boss.currentHp, player1.currentHp, player2?.currentHp ?? null, allLogEntries);
-        return { success: true, won: true, battleLog: allLogEntries, rewards };
+        return { success: true, won: true, withFriend: !!player2, battleLog: allLogEntries, rewards };
       }
 
       if (player1.currentHp <= 0 && (!player2 || player2.currentHp <= 0)) {
         // Boss won
         const rewards = await this.completeBattle(lobbyId, false, [], !!player2);
-        const playerIds = [player1.id];
-        if (player2) playerIds.push(player2.id);
-        await this.applyRewardsToPlayers(playerIds, rewards);
         await this.updateBattleState(lobbyId, boss.currentHp, player1.currentHp, player2?.currentHp ?? null, allLogEntries);
-        return { success: true, won: false, battleLog: allLogEntries, rewards };
+        return { success: true, won: false, withFriend: !!player2, battleLog: allLogEntries, rewards };
       }
 
       turn++;
@@ -315,10 +373,7 @@ export class CoopBattleService {
 
     // Timeout - boss wins by default
     const rewards = await this.completeBattle(lobbyId, false, [], !!player2);
-    const playerIds = [player1.id];
-    if (player2) playerIds.push(player2.id);
-    await this.applyRewardsToPlayers(playerIds, rewards);
-    return { success: true, won: false, battleLog: allLogEntries, rewards };
+    return { success: true, won: false, withFriend: !!player2, battleLog: allLogEntries, rewards };
   }
 
   async setReady(lobbyId: string): Promise<boolean> {
@@ -361,47 +416,33 @@ export class CoopBattleService {
     boss: BossInstance,
     turnNumber: number
   ): Promise<BattleLogEntry[]> {
-    const client = this.supabase.getClient();
     const entries: BattleLogEntry[] = [];
 
-    // Player 1 attacks boss
-    const p1Damage = this.calculateDamage(player1.stats.attack, boss.defense);
-    const p1Crit = Math.random() < player1.stats.critChance;
-    const p1FinalDamage = p1Crit ? Math.floor(p1Damage * player1.stats.critDamage) : p1Damage;
-    boss.currentHp = Math.max(0, boss.currentHp - p1FinalDamage);
+    if (turnNumber === 1) {
+      this.applyBossTraits(boss, 'battle_start', null, turnNumber, entries);
+    }
 
-    entries.push({
-      turn: turnNumber,
-      actorType: 'player1',
-      actorName: player1.name,
-      targetType: 'boss',
-      targetName: boss.definition.name,
-      damage: p1FinalDamage,
-      isCrit: p1Crit,
-      resultingHp: boss.currentHp
-    });
-
-    // Player 2 attacks boss (if present and alive)
-    if (player2 && player2.currentHp > 0) {
-      const p2Damage = this.calculateDamage(player2.stats.attack, boss.defense);
-      const p2Crit = Math.random() < player2.stats.critChance;
-      const p2FinalDamage = p2Crit ? Math.floor(p2Damage * player2.stats.critDamage) : p2Damage;
-      boss.currentHp = Math.max(0, boss.currentHp - p2FinalDamage);
+    // Each living player attacks the boss, unless their effects stop them
+    for (const [actorType, player] of [['player1', player1], ['player2', player2]] as const) {
+      if (!player || player.currentHp <= 0 || boss.currentHp <= 0) continue;
 
-      entries.push({
-        turn: turnNumber,
-        actorType: 'player2',
-        actorName: player2.name,
-        targetType: 'boss',
-        targetName: boss.definition.name,
-        damage: p2FinalDamage,
-        isCrit: p2Crit,
-        resultingHp: boss.currentHp
-      });
+      const tick = this.tickEffects(actorType, player.name, player.statusEffects, player.currentHp, player.stats.maxHp, turnNumber, entries);
+      player.statusEffects = tick.effects;
+      player.currentHp = tick.hp;
+      if (tick.stunned || player.currentHp <= 0) continue;
+
+      entries.push(this.playerAttack(actorType, player, boss, turnNumber));
     }
 
     // Boss attacks (if alive)
     if (boss.currentHp > 0) {
+      const tick = this.tickEffects('boss', boss.definition.name, boss.statusEffects, boss.currentHp, boss.maxHp, turnNumber, entries);
+      boss.statusEffects = tick.effects;
+      boss.currentHp = tick.hp;
+      if (boss.currentHp <= 0) {
+        return entries;
+      }
+
       const p1Alive = player1.currentHp > 0;
       const p2Alive = player2 !== null && player2.currentHp > 0;
 
@@ -410,34 +451,46 @@ export class CoopBattleService {
         return entries;
       }
 
-      let target: 'player1' | 'player2';
-      if (p1Alive && p2Alive) {
-        // Both alive: 70% chance to target lowest HP player, 30% random
-        if (Math.random() < 0.7) {
-          target = player1.currentHp <= player2!.currentHp ? 'player1' : 'player2';
+      if (!tick.stunned) {
+        let target: 'player1' | 'player2';
+        if (p1Alive && p2Alive) {
+          // Both alive: 70% chance to target lowest HP player, 30% random
+          if (Math.random() < 0.7) {
+            target = player1.currentHp <= player2!.currentHp ? 'player1' : 'player2';
+          } else {
+            target = Math.random() < 0.5 ? 'player1' : 'player2';
+          }
+        } else if (p1Alive) {
+          target = 'player1';
         } else {
-          target = Math.random() < 0.5 ? 'player1' : 'player2';
+          target = 'player2';
         }
-      } else if (p1Alive) {
-        target = 'player1';
-      } else {
-        target = 'player2';
-      }
 
-      const targetFighter = target === 'player1' ? player1 : player2!;
-      const bossDamage = this.calculateDamage(boss.attack, targetFighter.stats.defense);
-      targetFighter.currentHp = Math.max(0, targetFighter.currentHp - bossDamage);
+        const targetFighter = target === 'player1' ? player1 : player2!;
+        const bossAttack = enragedAttack(boss.attack, boss.statusEffects);
+        const shielded = absorbWithShield(
+          targetFighter.statusEffects ?? [],
+          this.calculateDamage(bossAttack, targetFighter.stats.defense)
+        );
+        targetFighter.statusEffects = shielded.effects;
+        targetFighter.currentHp = Math.max(0, targetFighter.currentHp - shielded.damage);
+        const applied = this.applyBossTraits(boss, 'on_hit', targetFighter, turnNumber, null);
 
-      entries.push({
-        turn: turnNumber,
-        actorType: 'boss',
-        actorName: boss.definition.name,
-        targetType: target,
-        targetName: targetFighter.name,
-        damage: bossDamage,
-        isCrit: false,
-        resultingHp: targetFighter.currentHp
-      });
+        entries.push({
+          turn: turnNumber,
+          actorType: 'boss',
+          actorName: boss.definition.name,
+          targetType: target,
+          targetName: targetFighter.name,
+          damage: shielded.damage,
+          isCrit: false,
+          resultingHp: targetFighter.currentHp,
+          ...(applied.length > 0 && { appliedEffects: applied })
+        });
+      }
+
+      this.applyBossTraits(boss, 'every_n_turns', null, turnNumber, entries);
+      this.applyBossTraits(boss, 'below_half_hp', null, turnNumber, entries);
 
       // Necromancer heals every 3 turns
       if (boss.definition.id === 'necromancer' && turnNumber % 3 === 0) {
@@ -460,6 +513,142 @@ export class CoopBattleService {
     return entries;
   }
 
+  private playerAttack(
+    actorType: 'player1' | 'player2',
+    player: BattleFighter,
+    boss: BossInstance,
+    turnNumber: number
+  ): BattleLogEntry {
+    const skill = rollSkill(player.skills);
+    const damage = this.calculateDamage(enragedAttack(player.stats.attack, player.statusEffects ?? []), boss.defense);
+    const isCrit = Math.random() < player.stats.critChance;
+    const critDamage = isCrit ? Math.floor(damage * player.stats.critDamage) : damage;
+    const shielded = absorbWithShield(
+      boss.statusEffects ?? [],
+      skill ? Math.floor(critDamage * skill.damageMultiplier) : critDamage
+    );
+    boss.statusEffects = shielded.effects;
+    boss.currentHp = Math.max(0, boss.currentHp - shielded.damage);
+
+    const applied: StatusEffectType[] = [];
+    for (const application of skill?.effects ?? []) {
+      const before: StatusEffect[] = application.target === 'self' ? player.statusEffects ?? [] : boss.statusEffects ?? [];
+      const after = applyStatusEffect(
+        before,
+        application,
+        player.stats.attack,
+        application.target === 'self' ? player.stats.maxHp : boss.maxHp
+      );
+      if (after === before) continue;
+      if (application.target === 'self') {
+        player.statusEffects = after;
+      } else {
+        boss.statusEffects = after;
+      }
+      applied.push(application.type);
+    }
+
+    return {
+      turn: turnNumber,
+      actorType,
+      actorName: player.name,
+      targetType: 'boss',
+      targetName: boss.definition.name,
+      damage: shielded.damage,
+      isCrit,
+      resultingHp: boss.currentHp,
+      ...(skill && { skillName: skill.name }),
+      ...(applied.length > 0 && { appliedEffects: applied })
+    };
+  }
+
+  /**
+   * Fire a bearer's effects at the start of its turn, logging each tick
+   */
+  private tickEffects(
+    actorType: CoopActorType,
+    name: string,
+    effects: StatusEffect[] | undefined,
+    hp: number,
+    maxHp: number,
+    turnNumber: number,
+    entries: BattleLogEntry[]
+  ): { effects: StatusEffect[]; hp: number; stunned: boolean } {
+    const tick = tickStatusEffects(effects ?? []);
+    let currentHp = hp;
+
+    for (const event of tick.events) {
+      currentHp = event.type === 'regen'
+        ? Math.min(maxHp, currentHp + event.amount)
+        : Math.max(0, currentHp - event.amount);
+
+      entries.push({
+        turn: turnNumber,
+        actorType,
+        actorName: name,
+        targetType: actorType,
+        targetName: name,
+        damage: event.amount,
+        isCrit: false,
+        resultingHp: currentHp,
+        statusEffect: event.type,
+        ...(event.type === 'regen' && { isHeal: true })
+      });
+
+      if (currentHp <= 0) break;
+    }
+
+    return { effects: tick.effects, hp: currentHp, stunned: tick.stunned };
+  }
+
+  /**
+   * Apply the boss's traits for a trigger. Self-targeted effects are logged
+   * to `entries` when given; on-hit effects land on `target` and are returned
+   * for the attack's own entry.
+   */
+  private applyBossTraits(
+    boss: BossInstance,
+    trigger: BossTrait['trigger'],
+    target: BattleFighter | null,
+    turnNumber: number,
+    entries: BattleLogEntry[] | null
+  ): StatusEffectType[] {
+    const applied: StatusEffectType[] = [];
+
+    for (const trait of boss.definition.traits ?? []) {
+      if (trait.trigger !== trigger) continue;
+      if (trigger === 'every_n_turns' && turnNumber % (trait.everyTurns ?? 1) !== 0) continue;
+      if (trigger === 'below_half_hp' &&
+          (boss.currentHp >= boss.maxHp / 2 || hasStatusEffect(boss.statusEffects ?? [], trait.effect.type))) continue;
+
+      if (trait.effect.target === 'target') {
+        if (!target || target.currentHp <= 0) continue;
+        const before = target.statusEffects ?? [];
+        target.statusEffects = applyStatusEffect(before, trait.effect, boss.attack, target.stats.maxHp);
+        if (target.statusEffects !== before) applied.push(trait.effect.type);
+        continue;
+      }
+
+      const before = boss.statusEffects ?? [];
+      boss.statusEffects = applyStatusEffect(before, trait.effect, boss.attack, boss.maxHp);
+      if (boss.statusEffects === before) continue;
+      applied.push(trait.effect.type);
+      entries?.push({
+        turn: turnNumber,
+        actorType: 'boss',
+        actorName: boss.definition.name,
+        targetType: 'boss',
+        targetName: boss.definition.name,
+        damage: 0,
+        isCrit: false,
+        resultingHp: boss.currentHp,
+        appliedEffects: [trait.effect.type]
+      });
+    }
+
+    return applied;
+  }
+
   private calculateDamage(attack: number, defense: number): number {
     const baseDamage = attack - (defense / 2);
     const variance = 0.9 + Math.random() * 0.2;
@@ -625,33 +814,7 @@ export class CoopBattleService {
     }
   }
 
-  private async applyRewardsToPlayers(playerIds: string[], rewards: { xp: number; gold: number }): Promise<void> {
-    const client = this.supabase.getClient();
-    for (const id of playerIds) {
-      const { data: userData } = await client
-        .from('users')
-        .select('gold, total_xp')
-        .eq('id', id)
-        .single();
-      if (userData) {
-        await client
-          .from('users')
-          .update({
-            gold: (userData.gold || 0) + rewards.gold,
-            total_xp: (userData.total_xp || 0) + rewards.xp,
-          })
-          .eq('id', id);
-      }
-    }
-  }
-
-  private async pollForBattleCompletion(lobbyId: string): Promise<{
-    success: boolean;
-    won?: boolean;
-    battleLog?: BattleLogEntry[];
-    rewards?: { xp: number; gold: number };
-    error?: string;
-  }> {
+  private async pollForBattleCompletion(lobbyId: string): Promise<BossBattleRun> {
     const client = this.supabase.getClient();
     const maxPolls = 30; // 60 seconds max
 
@@ -667,9 +830,11 @@ export class CoopBattleService {
       if (!battle) return { success: false, error: 'Battle not found' };
 
       if (battle.status === 'completed' || battle.status === 'failed') {
+        // Only player 2 polls, so there was always a host alongside
         return {
           success: true,
           won: battle.status === 'completed',
+          withFriend: true,
           battleLog: battle.battle_log || [],
           rewards: battle.rewards || undefined,
         };
@@ -0,0 +1,584 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClientService } from './supabaseClient';
+import type { LocalStateManager } from './localStateManager';
+import type { Quest, QuestStatus, QuestType, QuestSchedule, LocalEconomyState, Wallet, Worker } from '../types';
+
+export type { QuestSchedule, LocalEconomyState } from '../types';
+
+// user_id on rows stored locally; replaced with the account id on migration
+export const LOCAL_USER_ID = 'local';
+
+/**
+ * Quest row before it is stored; created_at is only passed when migrating
+ */
+export type NewQuest = Omit<Quest, 'id' | 'created_at'> & { created_at?: string };
+
+/**
+ * Worker row before it is stored; timestamps default to now
+ */
+export type NewWorker = Pick<Worker, 'level' | 'gold_per_hour'> & Partial<Pick<Worker, 'purchased_at' | 'last_collected_at'>>;
+
+export interface QuestFilter {
+  id?: string;
+  status?: QuestStatus[];
+  questType?: QuestType;
+  chainId?: string;
+  chainStep?: number;
+}
+
+/**
+ * Where QuestService and WorkerService keep their rows: the Supabase tables
+ * when an account is connected, LocalGameState otherwise. Reads return empty
+ * results on error; writes log and report failure.
+ */
+export interface EconomyStore {
+  readonly userId: string;
+  readonly isLocal: boolean;
+
+  /** Newest first */
+  listQuests(filter?: QuestFilter): Promise<Quest[]>;
+  insertQuests(quests: NewQuest[]): Promise<Quest[] | null>;
+  updateQuest(id: string, patch: Partial<Quest>): Promise<boolean>;
+  deleteQuests(filter: QuestFilter): Promise<void>;
+  /** Mark active quests that expired before `now` (ISO) */
+  expireQuests(now: string): Promise<void>;
+
+  /** Oldest first */
+  listWorkers(): Promise<Worker[]>;
+  insertWorkers(workers: NewWorker[]): Promise<Worker[] | null>;
+  updateWorker(id: string, patch: Partial<Worker>): Promise<Worker | null>;
+  deleteWorker(id: string): Promise<void>;
+
+  getQuestSchedule(): Promise<QuestSchedule>;
+  updateQuestSchedule(patch: Partial<QuestSchedule>): Promise<void>;
+
+  /**
+   * Gold and total XP on the users row. Offline the character itself is the
+   * wallet. Gains go through LocalStateManager, which passes them on to the
+   * account; only spending goes through the store.
+   */
+  getWallet(): Promise<Wallet>;
+  /**
+   * Take `amount` gold, or nothing if the wallet can't cover it. Resolves to
+   * the wallet afterwards, or null when the gold wasn't taken.
+   */
+  spendGold(amount: number): Promise<Wallet | null>;
+}
+
+/**
+ * Row returned by the apply_wallet_delta RPC
+ */
+interface DbWalletDelta {
+  gold: number;
+  total_xp: number;
+  applied_gold: number;
+  applied_xp: number;
+}
+
+export function emptyLocalEconomy(): LocalEconomyState {
+  return {
+    quests: [],
+    workers: [],
+    questSchedule: { daily: null, weekly: null, monthly: null, lastReroll: null },
+  };
+}
+
+export function matchesQuestFilter(quest: Quest, filter: QuestFilter): boolean {
+  return (filter.id === undefined || quest.id === filter.id) &&
+    (filter.status === undefined || filter.status.includes(quest.status)) &&
+    (filter.questType === undefined || quest.quest_type === filter.questType) &&
+    (filter.chainId === undefined || quest.chain_id === filter.chainId) &&
+    (filter.chainStep === undefined || quest.chain_step === filter.chainStep);
+}
+
+// users columns behind each QuestSchedule field
+const SCHEDULE_COLUMNS: Record<keyof QuestSchedule, string> = {
+  daily: 'last_quest_refresh',
+  weekly: 'last_weekly_quest_refresh',
+  monthly: 'last_monthly_quest_refresh',
+  lastReroll: 'last_quest_reroll',
+};
+
+export class SupabaseEconomyStore implements EconomyStore {
+  readonly isLocal = false;
+
+  constructor(
+    private supabase: SupabaseClientService,
+    readonly userId: string,
+    private stateManager?: LocalStateManager
+  ) {}
+
+  private filterQuests(query: any, filter: QuestFilter): any {
+    query = query.eq('user_id', this.userId);
+    if (filter.id !== undefined) query = query.eq('id', filter.id);
+    if (filter.status !== undefined) query = query.in('status', filter.status);
+    if (filter.questType !== undefined) query = query.eq('quest_type', filter.questType);
+    if (filter.chainId !== undefined) query = query.eq('chain_id', filter.chainId);
+    if (filter.chainStep !== undefined) query = query.eq('chain_step', filter.chainStep);
+    return query;
+  }
+
+  async listQuests(filter: QuestFilter = {}): Promise<Quest[]> {
+    const { data, error } = await this.filterQuests(
+      this.supabase.getClient().from('user_quests').select('*'),
+      filter
+    ).order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching quests:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async insertQuests(quests: NewQuest[]): Promise<Quest[] | null> {
+    const { data, error } = await this.supabase.getClient()
+      .from('user_quests')
+      .insert(quests)
+      .select();
+
+    if (error) {
+      console.error('Error inserting quests:', error);
+      return null;
+    }
+
+    return data || [];
+  }
+
+  async updateQuest(id: string, patch: Partial<Quest>): Promise<boolean> {
+    const { error } = await this.supabase.getClient()
+      .from('user_quests')
+      .update(patch)
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      console.error('Error updating quest:', error);
+      return false;
+    }
+    return true;
+  }
+
+  async deleteQuests(filter: QuestFilter): Promise<void> {
+    const { error } = await this.filterQuests(
+      this.supabase.getClient().from('user_quests').delete(),
+      filter
+    );
+
+    if (error) {
+      console.error('Error deleting quests:', error);
+    }
+  }
+
+  async expireQuests(now: string): Promise<void> {
+    await this.supabase.getClient()
+      .from('user_quests')
+      .update({ status: 'expired' })
+      .eq('user_id', this.userId)
+      .eq('status', 'active')
+      .lt('expires_at', now);
+  }
+
+  async listWorkers(): Promise<Worker[]> {
+    const { data, error } = await this.supabase.getClient()
+      .from('workers')
+      .select('*')
+      .eq('user_id', this.userId)
+      .order('purchased_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching workers:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  async insertWorkers(workers: NewWorker[]): Promise<Worker[] | null> {
+    const { data, error } = await this.supabase.getClient()
+      .from('workers')
+      .insert(workers.map(w => ({ ...w, user_id: this.userId })))
+      .select();
+
+    if (error) {
+      console.error('Error inserting workers:', error);
+      return null;
+    }
+
+    return data || [];
+  }
+
+  async updateWorker(id: string, patch: Partial<Worker>): Promise<Worker | null> {
+    const { data, error } = await this.supabase.getClient()
+      .from('workers')
+      .update(patch)
+      .eq('id', id)
+      .eq('user_id', this.userId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Error updating worker:', error);
+      return null;
+    }
+
+    return data;
+  }
+
+  async deleteWorker(id: string): Promise<void> {
+    const { error } = await this.supabase.getClient()
+      .from('workers')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      console.error('Error deleting worker:', error);
+    }
+  }
+
+  async getQuestSchedule(): Promise<QuestSchedule> {
+    const { data } = await this.supabase.getClient()
+      .from('users')
+      .select(Object.values(SCHEDULE_COLUMNS).join(', '))
+      .eq('id', this.userId)
+      .single();
+
+    const row = (data ?? {}) as Record<string, string | null>;
+    return {
+      daily: row[SCHEDULE_COLUMNS.daily] ?? null,
+      weekly: row[SCHEDULE_COLUMNS.weekly] ?? null,
+      monthly: row[SCHEDULE_COLUMNS.monthly] ?? null,
+      lastReroll: row[SCHEDULE_COLUMNS.lastReroll] ?? null,
+    };
+  }
+
+  async updateQuestSchedule(patch: Partial<QuestSchedule>): Promise<void> {
+    const update: Record<string, string | null> = {};
+    for (const [field, value] of Object.entries(patch) as Array<[keyof QuestSchedule, string | null]>) {
+      update[SCHEDULE_COLUMNS[field]] = value;
+    }
+    if (Object.keys(update).length === 0) return;
+
+    await this.supabase.getClient()
+      .from('users')
+      .update(update)
+      .eq('id', this.userId);
+  }
+
+  async getWallet(): Promise<Wallet> {
+    // Gold earned locally counts once the account has applied it
+    if (this.stateManager) {
+      await pushPendingWallet(this.supabase, this.stateManager);
+    }
+
+    const { data } = await this.supabase.getClient()
+      .from('users')
+      .select('gold, total_xp')
+      .eq('id', this.userId)
+      .single();
+
+    return { gold: data?.gold || 0, totalXp: data?.total_xp || 0 };
+  }
+
+  /**
+   * The spend_gold RPC checks the balance and takes the gold in one statement
+   */
+  async spendGold(amount: number): Promise<Wallet | null> {
+    const { data, error } = await this.supabase.getClient()
+      .rpc('spend_gold', { p_amount: amount })
+      .single();
+
+    if (error || !data) {
+      console.error('Error spending gold:', error);
+      return null;
+    }
+
+    const row = data as { gold: number; total_xp: number };
+    const wallet = { gold: row.gold, totalXp: row.total_xp };
+    await this.stateManager?.adoptCloudWallet(wallet);
+    return wallet;
+  }
+}
+
+/**
+ * Rows kept in LocalGameState.economy, read and written through LocalStateManager
+ */
+export class LocalEconomyStore implements EconomyStore {
+  readonly isLocal = true;
+  readonly userId = LOCAL_USER_ID;
+
+  constructor(private stateManager: LocalStateManager) {}
+
+  private async update(mutate: (economy: LocalEconomyState) => void): Promise<void> {
+    const economy = this.stateManager.getLocalEconomy();
+    mutate(economy);
+    await this.stateManager.saveLocalEconomy(economy);
+  }
+
+  async listQuests(filter: QuestFilter = {}): Promise<Quest[]> {
+    return this.stateManager.getLocalEconomy().quests
+      .filter(q => matchesQuestFilter(q, filter))
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  }
+
+  async insertQuests(quests: NewQuest[]): Promise<Quest[]> {
+    const createdAt = new Date().toISOString();
+    const rows = quests.map(q => ({ created_at: createdAt, ...q, id: randomUUID(), user_id: this.userId }));
+    await this.update(economy => {
+      economy.quests.push(...rows);
+    });
+    return rows;
+  }
+
+  async updateQuest(id: string, patch: Partial<Quest>): Promise<boolean> {
+    let found = false;
+    await this.update(economy => {
+      economy.quests = economy.quests.map(q => {
+        if (q.id !== id) return q;
+        found = true;
+        return { ...q, ...patch };
+      });
+    });
+    return found;
+  }
+
+  async deleteQuests(filter: QuestFilter): Promise<void> {
+    await this.update(economy => {
+      economy.quests = economy.quests.filter(q => !matchesQuestFilter(q, filter));
+    });
+  }
+
+  async expireQuests(now: string): Promise<void> {
+    await this.update(economy => {
+      for (const quest of economy.quests) {
+        if (quest.status === 'active' && quest.expires_at !== null && quest.expires_at < now) {
+          quest.status = 'expired';
+        }
+      }
+    });
+  }
+
+  async listWorkers(): Promise<Worker[]> {
+    return [...this.stateManager.getLocalEconomy().workers]
+      .sort((a, b) => a.purchased_at.localeCompare(b.purchased_at));
+  }
+
+  async insertWorkers(workers: NewWorker[]): Promise<Worker[]> {
+    const now = new Date().toISOString();
+    const rows = workers.map(w => ({
+      purchased_at: now,
+      last_collected_at: now,
+      ...w,
+      id: randomUUID(),
+      user_id: this.userId,
+    }));
+    await this.update(economy => {
+      economy.workers.push(...rows);
+    });
+    return rows;
+  }
+
+  async updateWorker(id: string, patch: Partial<Worker>): Promise<Worker | null> {
+    let updated: Worker | null = null;
+    await this.update(economy => {
+      economy.workers = economy.workers.map(w => {
+        if (w.id !== id) return w;
+        updated = { ...w, ...patch };
+        return updated;
+      });
+    });
+    return updated;
+  }
+
+  async deleteWorker(id: string): Promise<void> {
+    await this.update(economy => {
+      economy.workers = economy.workers.filter(w => w.id !== id);
+    });
+  }
+
+  async getQuestSchedule(): Promise<QuestSchedule> {
+    return this.stateManager.getLocalEconomy().questSchedule;
+  }
+
+  async updateQuestSchedule(patch: Partial<QuestSchedule>): Promise<void> {
+    if (Object.keys(patch).length === 0) return;
+    await this.update(economy => {
+      economy.questSchedule = { ...economy.questSchedule, ...patch };
+    });
+  }
+
+  async getWallet(): Promise<Wallet> {
+    return { gold: this.stateManager.getCharacter().gold, totalXp: 0 };
+  }
+
+  /**
+   * Spent offline, the gold stays pending in LocalStateManager and is taken
+   * from the account once one is connected
+   */
+  async spendGold(amount: number): Promise<Wallet | null> {
+    if (this.stateManager.getCharacter().gold < amount) return null;
+    await this.stateManager.addGold(-amount);
+    return { gold: this.stateManager.getCharacter().gold, totalXp: 0 };
+  }
+}
+
+/**
+ * Store for the current session: Supabase when signed in, local otherwise
+ */
+export function selectEconomyStore(
+  supabase: SupabaseClientService,
+  stateManager?: LocalStateManager
+): EconomyStore | null {
+  const user = supabase.getCurrentUser();
+  if (supabase.isAuthenticated() && user) {
+    return new SupabaseEconomyStore(supabase, user.id, stateManager);
+  }
+  return stateManager ? new LocalEconomyStore(stateManager) : null;
+}
+
+/**
+ * Send gold and XP gained or spent locally to the account and adopt its
+ * totals. The apply_wallet_delta RPC caps how much can be gained per day;
+ * the rest stays pending for a later push.
+ */
+export async function pushPendingWallet(
+  supabase: SupabaseClientService,
+  stateManager: LocalStateManager
+): Promise<boolean> {
+  if (!supabase.isAuthenticated()) return false;
+
+  return stateManager.settlePendingWallet(async pending => {
+    const { data, error } = await supabase.getClient()
+      .rpc('apply_wallet_delta', { p_gold: pending.gold, p_xp: pending.xp })
+      .single();
+
+    if (error || !data) {
+      console.error('Error applying wallet changes:', error);
+      return null;
+    }
+
+    const row = data as DbWalletDelta;
+    return {
+      wallet: { gold: row.gold, totalXp: row.total_xp },
+      applied: { gold: row.applied_gold, xp: row.applied_xp },
+    };
+  });
+}
+
+/**
+ * Push pending changes, then adopt the account's totals with what the server
+ * granted meanwhile: PvP and ghost battle rewards, season payouts
+ */
+export async function pullCloudWallet(
+  supabase: SupabaseClientService,
+  stateManager: LocalStateManager
+): Promise<boolean> {
+  const user = supabase.getCurrentUser();
+  if (!user || !await pushPendingWallet(supabase, stateManager)) return false;
+
+  return stateManager.refreshCloudWallet(async () => {
+    const { data, error } = await supabase.getClient()
+      .from('users')
+      .select('gold, total_xp')
+      .eq('id', user.id)
+      .single();
+
+    if (error || !data) {
+      console.error('Error fetching wallet:', error);
+      return null;
+    }
+    return { gold: data.gold, totalXp: data.total_xp };
+  });
+}
+
+/**
+ * Local quests worth carrying into an account. The account wins where both
+ * have progress: chains it has started, a streak quest it already has, and
+ * tiers it has refreshed for the same or a later period. Completed quests
+ * always move so their rewards can still be claimed.
+ */
+export function selectQuestsToMigrate(
+  local: Quest[],
+  localSchedule: QuestSchedule,
+  cloud: Quest[],
+  cloudSchedule: QuestSchedule
+): { quests: Quest[]; schedule: Partial<QuestSchedule> } {
+  const cloudChains = new Set(cloud.map(q => q.chain_id).filter(id => id !== null));
+  const cloudHasStreak = cloud.some(q => q.quest_type === 'streak' && (q.status === 'active' || q.status === 'completed'));
+  const schedule: Partial<QuestSchedule> = {};
+
+  const newerTiers = new Set<QuestType>();
+  for (const tier of ['daily', 'weekly', 'monthly'] as const) {
+    const localPeriod = localSchedule[tier];
+    const cloudPeriod = cloudSchedule[tier];
+    if (localPeriod && (!cloudPeriod || localPeriod > cloudPeriod)) {
+      newerTiers.add(tier);
+      schedule[tier] = localPeriod;
+    }
+  }
+  if (localSchedule.lastReroll && (!cloudSchedule.lastReroll || localSchedule.lastReroll > cloudSchedule.lastReroll)) {
+    schedule.lastReroll = localSchedule.lastReroll;
+  }
+
+  const quests = local.filter(q => {
+    if (q.quest_type === 'chain') return q.chain_id !== null && !cloudChains.has(q.chain_id);
+    if (q.status === 'completed') return true;
+    if (q.status !== 'active') return false;
+    if (q.quest_type === 'streak') return !cloudHasStreak;
+    return newerTiers.has(q.quest_type);
+  });
+
+  return { quests, schedule };
+}
+
+/**
+ * Move quests and workers earned offline into the connected account, then
+ * clear them locally. Gold spent on them offline is taken from the account
+ * first; if that can't happen they stay local for the next attempt. Resolves
+ * to null when there was nothing to move or it failed.
+ */
+export async function migrateLocalEconomy(
+  supabase: SupabaseClientService,
+  stateManager: LocalStateManager
+): Promise<{ quests: number; workers: number } | null> {
+  const user = supabase.getCurrentUser();
+  if (!supabase.isAuthenticated() || !user) return null;
+
+  const local = stateManager.getLocalEconomy();
+  if (local.quests.length === 0 && local.workers.length === 0) return null;
+  if (!await pushPendingWallet(supabase, stateManager)) return null;
+
+  const cloud = new SupabaseEconomyStore(supabase, user.id);
+
+  let workers = 0;
+  if (local.workers.length > 0) {
+    const inserted = await cloud.insertWorkers(local.workers.map(w => ({
+      level: w.level,
+      gold_per_hour: w.gold_per_hour,
+      purchased_at: w.purchased_at,
+      last_collected_at: w.last_collected_at,
+    })));
+    if (!inserted) return null;
+    workers = inserted.length;
+    // Cleared straight away so a failed quest migration can't duplicate them
+    await stateManager.saveLocalEconomy({ ...local, workers: [] });
+  }
+
+  const { quests, schedule } = selectQuestsToMigrate(
+    local.quests,
+    local.questSchedule,
+    await cloud.listQuests(),
+    await cloud.getQuestSchedule()
+  );
+
+  if (quests.length > 0) {
+    const inserted = await cloud.insertQuests(quests.map(({ id: _id, ...q }) => ({ ...q, user_id: user.id })));
+    if (!inserted) return null;
+  }
+  await cloud.updateQuestSchedule(schedule);
+  await stateManager.saveLocalEconomy(emptyLocalEconomy());
+
+  return { quests: quests.length, workers };
+}
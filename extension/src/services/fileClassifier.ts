@@ -0,0 +1,162 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FileChange, FileClass, FileScoringOptions, GitAttributeRule } from '../types';
+import { matchesPattern } from './repoTrackingRules';
+import { resolveGitDir } from './repoWatcher';
+
+export type { FileChange, FileClass, FileScoringOptions, GitAttributeRule } from '../types';
+
+export const LOCKFILE_NAMES = [
+  'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb',
+  'Cargo.lock', 'Gemfile.lock', 'composer.lock', 'poetry.lock', 'Pipfile.lock', 'uv.lock',
+  'go.sum', 'Podfile.lock', 'mix.lock', 'pubspec.lock', 'flake.lock', 'packages.lock.json',
+  'gradle.lockfile'
+];
+
+// Loosely follows github-linguist's generated.rb / vendor.yml
+export const GENERATED_PATTERNS = [
+  '*.min.js', '*.min.css', '*.map', '*.snap', '**/__snapshots__/**',
+  '*.pb.go', '*.pb.cc', '*.pb.h', '*_pb2.py', '*_pb2_grpc.py',
+  '*.g.dart', '*.freezed.dart', '*.designer.cs', '*.generated.*'
+];
+
+export const VENDORED_PATTERNS = [
+  '**/node_modules/**', '**/vendor/**', '**/vendors/**', '**/third_party/**', '**/third-party/**',
+  '**/bower_components/**', '**/Pods/**', '**/Carthage/**', '**/.yarn/releases/**', '**/dist/**'
+];
+
+/**
+ * Build scoring options for a repo from `gitrpg.scoring` settings and its .gitattributes
+ */
+export function loadScoringOptions(repoPath: string): FileScoringOptions {
+  const config = vscode.workspace.getConfiguration('gitrpg.scoring');
+  return {
+    detectGenerated: config.get<boolean>('detectGenerated', true),
+    ignore: config.get<string[]>('ignore', []),
+    attributes: loadGitAttributes(repoPath),
+  };
+}
+
+/**
+ * Parse `.gitattributes` content, keeping only linguist-generated / linguist-vendored lines
+ */
+export function parseGitAttributes(content: string): GitAttributeRule[] {
+  const rules: GitAttributeRule[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [pattern, ...attrs] = line.split(/\s+/);
+    const rule: GitAttributeRule = { pattern: pattern.replace(/^\//, '') };
+
+    for (const attr of attrs) {
+      const match = attr.match(/^(-|!)?linguist-(generated|vendored)(?:=(\w+))?$/);
+      // `!attr` means unspecified, so it doesn't override anything
+      if (!match || match[1] === '!') continue;
+
+      const value = match[1] === '-' ? false : match[3] === undefined || match[3] === 'true';
+      if (match[2] === 'generated') {
+        rule.generated = value;
+      } else {
+        rule.vendored = value;
+      }
+    }
+
+    if (rule.generated !== undefined || rule.vendored !== undefined) {
+      rules.push(rule);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Read linguist rules from the root `.gitattributes` and `$GIT_DIR/info/attributes`.
+ * Nested `.gitattributes` files are not consulted.
+ */
+export function loadGitAttributes(repoPath: string): GitAttributeRule[] {
+  const files = [path.join(repoPath, '.gitattributes')];
+  const gitDir = resolveGitDir(repoPath);
+  if (gitDir) {
+    files.push(path.join(gitDir, 'info', 'attributes'));
+  }
+
+  const rules: GitAttributeRule[] = [];
+  for (const file of files) {
+    try {
+      rules.push(...parseGitAttributes(fs.readFileSync(file, 'utf-8')));
+    } catch {
+      // File doesn't exist
+    }
+  }
+  return rules;
+}
+
+/**
+ * Resolve numstat rename notation (`src/{old => new}.ts`, `old => new`) to the new path
+ */
+export function resolveRenamedPath(filePath: string): string {
+  if (filePath.includes('{') && filePath.includes(' => ')) {
+    return filePath.replace(/\{[^{}]* => ([^{}]*)\}/g, '$1').replace(/\/\//g, '/');
+  }
+  const arrow = filePath.indexOf(' => ');
+  return arrow >= 0 ? filePath.slice(arrow + 4) : filePath;
+}
+
+/**
+ * Decide whether a changed file counts towards XP.
+ * Order: ignore list, then .gitattributes (which can also force a file back to source),
+ * then the built-in lists.
+ */
+export function classifyFile(filePath: string, options: FileScoringOptions): FileClass {
+  const normalized = filePath.replace(/\\/g, '/');
+
+  if (options.ignore.some(pattern => matchesPattern(normalized, pattern))) {
+    return 'ignored';
+  }
+
+  let generated: boolean | undefined;
+  let vendored: boolean | undefined;
+  for (const rule of options.attributes) {
+    if (!matchesPattern(normalized, rule.pattern)) continue;
+    // Later lines win, as in git
+    if (rule.generated !== undefined) generated = rule.generated;
+    if (rule.vendored !== undefined) vendored = rule.vendored;
+  }
+  if (generated) return 'generated';
+  if (vendored) return 'vendored';
+  if (generated === false || vendored === false) return 'source';
+
+  if (!options.detectGenerated) {
+    return 'source';
+  }
+
+  if (LOCKFILE_NAMES.includes(path.posix.basename(normalized))) return 'lockfile';
+  if (GENERATED_PATTERNS.some(pattern => matchesPattern(normalized, pattern))) return 'generated';
+  if (VENDORED_PATTERNS.some(pattern => matchesPattern(normalized, pattern))) return 'vendored';
+
+  return 'source';
+}
+
+/**
+ * Line and file totals counting only source files
+ */
+export function scoreFiles(
+  files: FileChange[],
+  options: FileScoringOptions
+): { insertions: number; deletions: number; filesChanged: number; excluded: number } {
+  let insertions = 0;
+  let deletions = 0;
+  let filesChanged = 0;
+
+  for (const file of files) {
+    if (classifyFile(resolveRenamedPath(file.path), options) !== 'source') continue;
+    insertions += file.insertions;
+    deletions += file.deletions;
+    filesChanged++;
+  }
+
+  return { insertions, deletions, filesChanged, excluded: files.length - filesChanged };
+}
@@ -9,6 +9,7 @@ export interface Friend {
   characterClass: string;
   level: number;
   friendCode: string;
+  emails: string[];  // Git emails they've synced, for matching co-authors
   status: 'pending' | 'accepted';
   isRequester: boolean;
 }
@@ -39,10 +40,10 @@ export class FriendsService {
         addressee_id,
         status,
         requester:users!friendships_requester_id_fkey(
-          id, github_username, display_name, avatar_url, character_class, level, friend_code
+          id, github_username, display_name, avatar_url, character_class, level, friend_code, git_emails
         ),
         addressee:users!friendships_addressee_id_fkey(
-          id, github_username, display_name, avatar_url, character_class, level, friend_code
+          id, github_username, display_name, avatar_url, character_class, level, friend_code, git_emails
         )
       `)
       .or(`requester_id.eq.${user.id},addressee_id.eq.${user.id}`)
@@ -65,6 +66,7 @@ export class FriendsService {
         characterClass: friendData.character_class,
         level: friendData.level,
         friendCode: friendData.friend_code,
+        emails: friendData.git_emails ?? [],
         status: f.status,
         isRequester,
       };
@@ -210,6 +212,7 @@ export class FriendsService {
               characterClass: requester.character_class,
               level: requester.level,
               friendCode: requester.friend_code,
+              emails: requester.git_emails ?? [],
               status: 'pending',
               isRequester: false,
             });
@@ -5,9 +5,21 @@ import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 import { LocalStateManager } from './localStateManager';
+import { RepoWatcher, installPostCommitHook, uninstallPostCommitHook } from './repoWatcher';
+import { loadTrackingRules, evaluateRepo, RepoTrackingDecision } from './repoTrackingRules';
+import { matchesAuthor, hasIdentities, githubUsernameFromEmail } from './authorIdentity';
+import { loadScoringOptions, scoreFiles, FileChange } from './fileClassifier';
+import { analyzeCommits, countNonWhitespaceChanges, loadAntiGamingSettings } from './commitHeuristics';
+import { ANTI_GAMING_CONFIG } from '../config/classConfig';
+import { parseCommitMessage } from './commitMessage';
+import type { CoAuthorService } from './coAuthorService';
+import type { CommitVerdict, StreakUpdate } from '../types';
 
 const execAsync = promisify(exec);
 
+// Legacy polling interval, used when repository watching is disabled
+const POLL_INTERVAL_MS = 30000;
+
 // Path to VS Code's recent workspaces storage (macOS)
 function getVSCodeStoragePaths(): string[] {
   const homeDir = os.homedir();
@@ -34,19 +46,37 @@ export interface GitCommit {
   date: Date;
   message: string;
   filesChanged: number;
-  insertions: number;
+  insertions: number;   // Source files only when per-file stats are available
   deletions: number;
+  files?: FileChange[]; // Raw --numstat entries, including ignored files
+  excludedFiles?: number;
+  coAuthors?: string[]; // Raw `Co-authored-by:` trailer values
+  patchId?: string;     // `git patch-id --stable`; unchanged by rebase or cherry-pick
 }
 
+// Unit separator between trailer values in the log header line
+const TRAILER_SEPARATOR = '\x1f';
+
+// `<added>\t<deleted>\t<path>`; binary files report `-` for both counts
+const NUMSTAT_LINE = /^(\d+|-)\t(\d+|-)\t(.+)$/;
+
+// Commits diffed per `git patch-id` run, keeping the command line short
+const PATCH_ID_BATCH = 100;
+
 export class GitTrackingService {
   private stateManager: LocalStateManager;
   private questService: any = null; // Import would create circular dep
+  private coAuthorService: CoAuthorService | null = null;
   private checkInterval: NodeJS.Timeout | null = null;
   private repoScanInterval: NodeJS.Timeout | null = null;
   private outputChannel: vscode.OutputChannel;
   private isChecking: boolean = false;
+  private identityPromptShown: boolean = false;
   private discoveredRepos: string[] = [];
+  private repoCandidates: Map<string, RepoTrackingDecision> = new Map();
   private lastRepoScan: Date | null = null;
+  private repoWatcher: RepoWatcher | null = null;
+  private pendingRepos: Set<string> = new Set();
 
   constructor(stateManager: LocalStateManager) {
     this.stateManager = stateManager;
@@ -57,22 +87,41 @@ export class GitTrackingService {
     this.questService = qs;
   }
 
+  setCoAuthorService(service: CoAuthorService): void {
+    this.coAuthorService = service;
+  }
+
   async start(): Promise<void> {
-    this.log('GitRPG tracking started - Global mode');
+    const config = vscode.workspace.getConfiguration('gitrpg.commitDetection');
+    const watchRepositories = config.get<boolean>('watchRepositories', true);
+    const fallbackPollMinutes = Math.max(1, config.get<number>('fallbackPollMinutes', 5));
+
+    this.log(`GitRPG tracking started - Global mode (${watchRepositories ? 'watching refs' : 'polling'})`);
 
-    // Detect git email for filtering commits
-    await this.detectGitEmail();
+    if (watchRepositories) {
+      this.repoWatcher = new RepoWatcher((repoPath) => {
+        this.log(`Detected ref change in ${path.basename(repoPath)}`);
+        this.checkForNewCommits([repoPath]);
+      });
+    }
 
     // Discover git repos globally
     await this.discoverGitRepos();
 
+    // Seed author identities from git config on first run
+    if (!hasIdentities(this.stateManager.getIdentities())) {
+      await this.detectIdentities();
+    }
+
     // Check immediately on start
     await this.checkForNewCommits();
 
-    // Then check every 30 seconds
+    // Watchers handle the common case; polling is kept as a slower safety net
+    // for missed events (network drives, editors that replace .git, etc.)
+    const pollIntervalMs = this.repoWatcher ? fallbackPollMinutes * 60000 : POLL_INTERVAL_MS;
     this.checkInterval = setInterval(() => {
       this.checkForNewCommits();
-    }, 30000);
+    }, pollIntervalMs);
 
     // Re-scan for new repos every 5 minutes
     this.repoScanInterval = setInterval(() => {
@@ -80,6 +129,13 @@ export class GitTrackingService {
     }, 300000);
   }
 
+  /**
+   * Whether commits are being detected by watching .git refs (vs. polling only)
+   */
+  isWatching(): boolean {
+    return this.repoWatcher !== null;
+  }
+
   private async discoverGitRepos(): Promise<void> {
     const repos: string[] = [];
 
@@ -105,17 +161,52 @@ export class GitTrackingService {
       }
     }
 
-    this.discoveredRepos = [...new Set(repos)]; // Remove duplicates
+    // Apply gitrpg.tracking include/exclude rules
+    const rules = loadTrackingRules();
+    this.repoCandidates = new Map();
+    for (const repoPath of new Set(repos)) {
+      this.repoCandidates.set(repoPath, evaluateRepo(repoPath, rules));
+    }
+
+    this.discoveredRepos = [...this.repoCandidates]
+      .filter(([, decision]) => decision.tracked)
+      .map(([repoPath]) => repoPath);
     this.lastRepoScan = new Date();
 
+    if (this.repoWatcher) {
+      this.repoWatcher.sync(this.discoveredRepos);
+    }
+
     if (this.discoveredRepos.length > 0) {
       this.log(`Tracking ${this.discoveredRepos.length} git repositories:`);
       for (const repo of this.discoveredRepos) {
-        this.log(`  - ${path.basename(repo)}`);
+        const multiplier = this.repoCandidates.get(repo)?.xpMultiplier ?? 1;
+        this.log(`  - ${path.basename(repo)}${multiplier !== 1 ? ` (x${multiplier} XP)` : ''}`);
       }
     } else {
       this.log('No git repositories found in recent VS Code workspaces');
     }
+
+    for (const [repoPath, decision] of this.repoCandidates) {
+      if (!decision.tracked) {
+        this.log(`  - skipping ${path.basename(repoPath)}: ${decision.reason}`);
+      }
+    }
+  }
+
+  /**
+   * Re-apply tracking rules after the gitrpg.tracking settings change
+   */
+  async refreshTrackingRules(): Promise<void> {
+    this.log('Tracking rules changed, rescanning repositories');
+    await this.discoverGitRepos();
+  }
+
+  /**
+   * Every repo found during discovery along with its tracking decision
+   */
+  getRepoCandidates(): Array<{ repoPath: string; decision: RepoTrackingDecision }> {
+    return [...this.repoCandidates].map(([repoPath, decision]) => ({ repoPath, decision }));
   }
 
   private async getRecentVSCodeWorkspaces(): Promise<string[]> {
@@ -218,52 +309,85 @@ export class GitTrackingService {
       clearInterval(this.repoScanInterval);
       this.repoScanInterval = null;
     }
+    if (this.repoWatcher) {
+      this.repoWatcher.dispose();
+      this.repoWatcher = null;
+    }
     this.log('GitRPG tracking stopped');
   }
 
-  private log(message: string): void {
+  log(message: string): void {
     const timestamp = new Date().toISOString();
     this.outputChannel.appendLine(`[${timestamp}] ${message}`);
   }
 
-  private async detectGitEmail(): Promise<void> {
-    const workspaceFolders = vscode.workspace.workspaceFolders;
-    if (!workspaceFolders || workspaceFolders.length === 0) {
-      return;
+  /**
+   * Collect user.email / user.name from the global git config and every
+   * tracked repo (repo-local config often differs, e.g. a work email).
+   * Returns the number of identities that were newly added.
+   */
+  async detectIdentities(): Promise<number> {
+    const dirs = [os.homedir(), ...this.discoveredRepos];
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      dirs.push(folder.uri.fsPath);
     }
 
-    for (const folder of workspaceFolders) {
-      try {
-        const { stdout } = await execAsync('git config user.email', {
-          cwd: folder.uri.fsPath
-        });
-        const email = stdout.trim();
-        if (email) {
-          await this.stateManager.setGitEmail(email);
-          this.log(`Detected git email: ${email}`);
-          return;
+    let added = 0;
+    for (const dir of new Set(dirs)) {
+      for (const [key, kind] of [['user.email', 'emails'], ['user.name', 'names']] as const) {
+        try {
+          const { stdout } = await execAsync(`git config ${key}`, { cwd: dir });
+          const value = stdout.trim();
+          if (!value) continue;
+
+          if (await this.stateManager.addIdentity(kind, value)) {
+            added++;
+            this.log(`Detected git ${key}: ${value}`);
+          }
+
+          // A noreply email implies the GitHub account behind it
+          const username = kind === 'emails' ? githubUsernameFromEmail(value) : null;
+          if (username && await this.stateManager.addIdentity('githubUsernames', username)) {
+            added++;
+            this.log(`Detected GitHub username: ${username}`);
+          }
+        } catch {
+          // Not configured here
         }
-      } catch {
-        // Not a git repo or no email configured
       }
     }
+
+    return added;
   }
 
-  async checkForNewCommits(): Promise<void> {
+  /**
+   * Check repos for new commits.
+   * @param repoPaths - Only check these repos (e.g. the one a watcher fired for).
+   *                    Omit to check every discovered repo.
+   */
+  async checkForNewCommits(repoPaths?: string[]): Promise<void> {
     if (this.isChecking) {
+      // Don't drop targeted checks - run them once the current check finishes
+      if (repoPaths) {
+        repoPaths.forEach(p => this.pendingRepos.add(p));
+      }
       return; // Prevent concurrent checks
     }
 
     this.isChecking = true;
+    const isFullCheck = !repoPaths;
 
     try {
       // Use discovered repos, fall back to workspace folders if none found
-      let reposToCheck = this.discoveredRepos;
+      let reposToCheck = repoPaths ?? this.discoveredRepos;
 
-      if (reposToCheck.length === 0) {
+      if (reposToCheck.length === 0 && isFullCheck && this.repoCandidates.size === 0) {
         const workspaceFolders = vscode.workspace.workspaceFolders;
         if (workspaceFolders) {
-          reposToCheck = workspaceFolders.map(f => f.uri.fsPath);
+          const rules = loadTrackingRules();
+          reposToCheck = workspaceFolders
+            .map(f => f.uri.fsPath)
+            .filter(p => evaluateRepo(p, rules).tracked);
         }
       }
 
@@ -272,11 +396,14 @@ export class GitTrackingService {
       }
 
       const since = this.stateManager.getLastCheckedAt();
+      const antiGaming = loadAntiGamingSettings();
+      let softCapped = false;
+      let streak: StreakUpdate | undefined;
 
       let totalNewCommits = 0;
-      let totalLinesAdded = 0;
-      let totalLinesRemoved = 0;
-      let totalFilesChanged = 0;
+      let totalXpEarned = 0;
+      let leveledUp = false;
+      let newLevel = this.stateManager.getCharacter().level;
 
       for (const repoPath of reposToCheck) {
         // Check if it's still a git repo (might have been deleted)
@@ -284,46 +411,91 @@ export class GitTrackingService {
           continue;
         }
 
-        // Get commits since last check (no email filter - all commits in your repos count)
+        // Get your commits since last check (matched against all of your identities)
         const commits = await this.getCommitsSince(repoPath, since);
 
-        for (const commit of commits) {
-          // Skip if we've already processed this commit
-          if (this.stateManager.isCommitProcessed(commit.hash)) {
-            continue;
-          }
+        // Skip commits the ledger has already awarded, including rebased or
+        // cherry-picked copies that only changed hash
+        const unseen = commits.filter(c => !this.stateManager.isCommitProcessed(c));
+        const newCommits = (await this.addPatchIds(repoPath, unseen))
+          .filter(c => !this.stateManager.isCommitProcessed(c));
+        if (unseen.length > newCommits.length) {
+          this.log(`Skipped ${unseen.length - newCommits.length} rebased or cherry-picked commit(s) in ${path.basename(repoPath)}`);
+        }
+        if (newCommits.length === 0) {
+          continue;
+        }
 
-          const repoName = path.basename(repoPath);
-          this.log(`New commit in ${repoName}: ${commit.hash.substring(0, 7)} - "${commit.message}" (+${commit.insertions}/-${commit.deletions})`);
+        const repoName = path.basename(repoPath);
+        for (const commit of newCommits) {
+          const excluded = commit.excludedFiles ? `, ${commit.excludedFiles} generated/ignored files skipped` : '';
+          const { category, coAuthors } = parseCommitMessage(commit.message, commit.coAuthors);
+          const tags = [category, coAuthors.length > 0 ? `${coAuthors.length} co-author(s)` : null].filter(Boolean);
+          this.log(`New commit in ${repoName}: ${commit.hash.substring(0, 7)} - "${commit.message}" (+${commit.insertions}/-${commit.deletions}${excluded})${tags.length ? ` [${tags.join(', ')}]` : ''}`);
+        }
 
-          totalNewCommits++;
-          totalLinesAdded += commit.insertions;
-          totalLinesRemoved += commit.deletions;
-          totalFilesChanged += commit.filesChanged;
+        // Flag commit farming (empty/whitespace churn, reverts, amends, bursts)
+        const verdicts = antiGaming.enabled ? await this.analyzeNewCommits(repoPath, newCommits) : undefined;
 
-          await this.stateManager.markCommitProcessed(commit.hash);
+        // Award per repo so each repo's XP multiplier applies to its own commits
+        const xpMultiplier = this.repoCandidates.get(repoPath)?.xpMultiplier ?? 1;
+        const result = await this.stateManager.recordCommits(repoPath, newCommits, xpMultiplier, {
+          verdicts,
+          dailySoftCapXp: antiGaming.enabled ? antiGaming.dailySoftCapXp : 0
+        });
+        softCapped = softCapped || !!result.softCapped;
+        if (result.streak?.extended) {
+          streak = result.streak;
         }
+
+        // Share XP with friends credited as co-authors
+        if (this.coAuthorService) {
+          const ledger = this.stateManager.getLedger();
+          const granted = await this.coAuthorService.grantSharedXp(newCommits
+            .filter(c => c.coAuthors && c.coAuthors.length > 0)
+            .map(c => ({
+              hash: c.hash,
+              message: c.message,
+              coAuthors: c.coAuthors ?? [],
+              xpAwarded: ledger.get(c.hash)?.xpAwarded ?? 0
+            })));
+          if (granted > 0) {
+            this.log(`Shared XP with ${granted} co-author(s) in ${repoName}`);
+          }
+        }
+
+        totalNewCommits += newCommits.length;
+        totalXpEarned += result.xpEarned;
+        leveledUp = leveledUp || result.leveledUp;
+        newLevel = result.newLevel;
       }
 
       // Update state if we found new commits
       if (totalNewCommits > 0) {
-        const result = await this.stateManager.addActivity(
-          totalNewCommits,
-          totalLinesAdded,
-          totalLinesRemoved,
-          totalFilesChanged
-        );
+        const result = { xpEarned: totalXpEarned, leveledUp, newLevel };
 
         this.log(`Earned ${result.xpEarned} XP from ${totalNewCommits} commit(s)`);
+        if (softCapped) {
+          this.log(`Daily soft cap of ${antiGaming.dailySoftCapXp} XP reached - further commit XP is reduced today`);
+        }
+        if (streak) {
+          if (streak.broken) {
+            this.log('Streak lost - starting a new one');
+          }
+          if (streak.freezesUsed > 0) {
+            this.log(`Used ${streak.freezesUsed} streak freeze(s) to cover missed days`);
+          }
+          this.log(`Coding streak: ${streak.current} day(s)`);
+          if (streak.milestone) {
+            vscode.window.showInformationMessage(
+              `🔥 ${streak.milestone}-day coding streak! +${streak.milestoneGold} Gold`
+            );
+          }
+        }
 
         // Update quest progress with today's cumulative stats
         if (this.questService) {
-          const todayStats = this.stateManager.getTodayStats();
-          await this.questService.updateQuestProgress({
-            commits: todayStats.commits,
-            linesAdded: todayStats.linesAdded,
-            filesChanged: todayStats.filesChanged,
-          });
+          await this.questService.updateTodayProgress();
         }
 
         // Show notification
@@ -344,12 +516,22 @@ export class GitTrackingService {
         }
       }
 
-      await this.stateManager.updateLastChecked();
+      // Only a full sweep may advance the shared --since window; a targeted
+      // check would otherwise hide commits made meanwhile in other repos
+      if (isFullCheck) {
+        await this.stateManager.updateLastChecked();
+      }
     } catch (error) {
       this.log(`Error checking commits: ${error}`);
     } finally {
       this.isChecking = false;
     }
+
+    if (this.pendingRepos.size > 0) {
+      const queued = [...this.pendingRepos];
+      this.pendingRepos.clear();
+      await this.checkForNewCommits(queued);
+    }
   }
 
   private async isGitRepo(dirPath: string): Promise<boolean> {
@@ -361,16 +543,49 @@ export class GitTrackingService {
     }
   }
 
-  private async getCommitsSince(repoPath: string, since: Date): Promise<GitCommit[]> {
-    const sinceStr = since.toISOString();
-    const gitEmail = this.stateManager.getGitEmail();
-    const authorFilter = gitEmail ? ` --author="${gitEmail}"` : '';
+  /**
+   * Ask, once per session, for an author identity to match commits against
+   */
+  private promptForIdentities(): void {
+    if (this.identityPromptShown) return;
+    this.identityPromptShown = true;
+
+    this.log('No author identities configured and no git user.email found - no commits are counted');
+    vscode.window.showWarningMessage(
+      'GitRPG can\'t tell which commits are yours: set git user.email or add your author identities to earn XP.',
+      'Manage Identities'
+    ).then(selection => {
+      if (selection === 'Manage Identities') {
+        vscode.commands.executeCommand('gitrpg.manageIdentities');
+      }
+    });
+  }
+
+  /**
+   * @param since - Only commits after this date; null walks the full history
+   */
+  private async getCommitsSince(repoPath: string, since: Date | null): Promise<GitCommit[]> {
+    const sinceFilter = since ? ` --since="${since.toISOString()}"` : '';
 
-    const command = `git log --since="${sinceStr}"${authorFilter} --pretty=format:"%H|%an|%ae|%aI|%s" --shortstat`;
+    // %aN/%aE resolve authors through .mailmap, so old or aliased identities
+    // map onto the canonical one before matching. Co-authored-by trailers ride
+    // along on the header line, before the subject (which may contain '|').
+    const trailers = '%(trailers:key=Co-authored-by,valueonly,unfold,separator=%x1f)';
+    const command = `git log${sinceFilter} --use-mailmap --pretty=format:"%H|%aN|%aE|%aI|${trailers}|%s" --numstat`;
+    const maxBuffer = (since ? 10 : 100) * 1024 * 1024;
 
     try {
-      const { stdout } = await execAsync(command, { cwd: repoPath, maxBuffer: 10 * 1024 * 1024 });
-      return this.parseGitLog(stdout);
+      const { stdout } = await execAsync(command, { cwd: repoPath, maxBuffer });
+      const commits = this.applyScoring(repoPath, this.parseGitLog(stdout));
+
+      const identities = this.stateManager.getIdentities();
+      if (!hasIdentities(identities)) {
+        // Nothing to match against (not even a git user.email) - counting
+        // every commit would award other people's work
+        this.promptForIdentities();
+        return [];
+      }
+      return commits.filter(c => matchesAuthor({ name: c.author, email: c.email }, identities));
     } catch (error) {
       return [];
     }
@@ -393,7 +608,8 @@ export class GitTrackingService {
       const author = parts[1] ?? '';
       const email = parts[2] ?? '';
       const dateStr = parts[3] ?? '';
-      const message = parts.slice(4).join('|');
+      const coAuthors = (parts[4] ?? '').split(TRAILER_SEPARATOR).map(t => t.trim()).filter(Boolean);
+      const message = parts.slice(5).join('|');
 
       let filesChanged = 0;
       let insertions = 0;
@@ -415,6 +631,25 @@ export class GitTrackingService {
         }
       }
 
+      // Per-file stats from --numstat
+      const files: FileChange[] = [];
+      let numstat = lines[i + 1]?.match(NUMSTAT_LINE);
+      while (numstat) {
+        files.push({
+          path: numstat[3],
+          insertions: numstat[1] === '-' ? 0 : parseInt(numstat[1], 10),
+          deletions: numstat[2] === '-' ? 0 : parseInt(numstat[2], 10)
+        });
+        i++;
+        numstat = lines[i + 1]?.match(NUMSTAT_LINE);
+      }
+
+      if (files.length > 0) {
+        filesChanged = files.length;
+        insertions = files.reduce((sum, f) => sum + f.insertions, 0);
+        deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+      }
+
       commits.push({
         hash,
         author,
@@ -423,7 +658,9 @@ export class GitTrackingService {
         message,
         filesChanged,
         insertions,
-        deletions
+        deletions,
+        ...(files.length > 0 ? { files } : {}),
+        ...(coAuthors.length > 0 ? { coAuthors } : {})
       });
 
       i++;
@@ -432,6 +669,149 @@ export class GitTrackingService {
     return commits;
   }
 
+  /**
+   * Fill in each commit's patch id so a change that was already awarded is
+   * recognised after a rebase or cherry-pick gives it a new hash
+   */
+  private async addPatchIds(repoPath: string, commits: GitCommit[]): Promise<GitCommit[]> {
+    const patchIds = new Map<string, string>();
+    for (let i = 0; i < commits.length; i += PATCH_ID_BATCH) {
+      const hashes = commits.slice(i, i + PATCH_ID_BATCH).map(c => c.hash).join(' ');
+      try {
+        const { stdout } = await execAsync(
+          `git show --no-color --no-ext-diff --format="commit %H" ${hashes} | git patch-id --stable`,
+          { cwd: repoPath, maxBuffer: 100 * 1024 * 1024 }
+        );
+        for (const line of stdout.split('\n')) {
+          const [patchId, hash] = line.trim().split(' ');
+          if (patchId && hash) patchIds.set(hash, patchId);
+        }
+      } catch {
+        // Can't diff these commits; dedupe them by hash alone
+      }
+    }
+
+    return commits.map(c => {
+      const patchId = patchIds.get(c.hash);
+      return patchId ? { ...c, patchId } : c;
+    });
+  }
+
+  /**
+   * Run the anti-gaming heuristics against commits awarded recently and log
+   * why any commit was flagged
+   */
+  private async analyzeNewCommits(repoPath: string, commits: GitCommit[]): Promise<Map<string, CommitVerdict>> {
+    const whitespaceOnly = new Set<string>();
+    for (const commit of commits) {
+      if (commit.insertions + commit.deletions === 0) continue;
+      try {
+        const { stdout } = await execAsync(`git show -w --unified=0 --no-color --format= ${commit.hash}`, {
+          cwd: repoPath,
+          maxBuffer: 10 * 1024 * 1024
+        });
+        if (countNonWhitespaceChanges(stdout) === 0) {
+          whitespaceOnly.add(commit.hash);
+        }
+      } catch {
+        // Can't diff this commit; leave it unflagged
+      }
+    }
+
+    const windowStart = new Date(Date.now() - ANTI_GAMING_CONFIG.historyWindowHours * 3600000);
+    const recent = this.stateManager.getLedger().query({ since: windowStart });
+    const verdicts = analyzeCommits(commits, recent, whitespaceOnly);
+
+    for (const [hash, verdict] of verdicts) {
+      this.log(`Flagged ${hash.substring(0, 7)} in ${path.basename(repoPath)}: ${verdict.reasons.join('; ')} (XP x${verdict.weight})`);
+    }
+
+    return verdicts;
+  }
+
+  /**
+   * Recount each commit's lines/files using only source files, so lockfiles,
+   * generated and vendored code don't feed calculateXp
+   */
+  private applyScoring(repoPath: string, commits: GitCommit[]): GitCommit[] {
+    const options = loadScoringOptions(repoPath);
+
+    return commits.map(commit => {
+      if (!commit.files) {
+        return commit;
+      }
+      const score = scoreFiles(commit.files, options);
+      return {
+        ...commit,
+        insertions: score.insertions,
+        deletions: score.deletions,
+        filesChanged: score.filesChanged,
+        excludedFiles: score.excluded
+      };
+    });
+  }
+
+  /**
+   * Gather your commits from every tracked repo that predate normal tracking,
+   * for the Import History backfill. Commits after lastCheckedAt are left to
+   * the regular check so nothing is counted twice.
+   */
+  async collectHistory(): Promise<Array<{ repoPath: string; commits: GitCommit[]; xpMultiplier: number }>> {
+    const cutoff = this.stateManager.getLastCheckedAt();
+    const history: Array<{ repoPath: string; commits: GitCommit[]; xpMultiplier: number }> = [];
+
+    for (const repoPath of this.discoveredRepos) {
+      const past = (await this.getCommitsSince(repoPath, null))
+        .filter(c => c.date < cutoff && !this.stateManager.isCommitProcessed(c));
+      const commits = (await this.addPatchIds(repoPath, past))
+        .filter(c => !this.stateManager.isCommitProcessed(c));
+
+      this.log(`History: ${commits.length} past commits in ${path.basename(repoPath)}`);
+      history.push({
+        repoPath,
+        commits,
+        xpMultiplier: this.repoCandidates.get(repoPath)?.xpMultiplier ?? 1
+      });
+    }
+
+    return history;
+  }
+
+  /**
+   * Install the optional post-commit hook into every tracked repo.
+   * The hook touches a marker file the watcher picks up instantly.
+   */
+  installCommitHooks(): { installed: number; failed: number } {
+    let installed = 0;
+    let failed = 0;
+
+    for (const repoPath of this.discoveredRepos) {
+      if (installPostCommitHook(repoPath)) {
+        installed++;
+        this.log(`Installed post-commit hook in ${path.basename(repoPath)}`);
+      } else {
+        failed++;
+        this.log(`Could not install post-commit hook in ${path.basename(repoPath)}`);
+      }
+    }
+
+    return { installed, failed };
+  }
+
+  /**
+   * Remove the GitRPG post-commit hook entry from every tracked repo.
+   */
+  uninstallCommitHooks(): number {
+    let removed = 0;
+    for (const repoPath of this.discoveredRepos) {
+      if (uninstallPostCommitHook(repoPath)) {
+        removed++;
+        this.log(`Removed post-commit hook from ${path.basename(repoPath)}`);
+      }
+    }
+    return removed;
+  }
+
   // Manual trigger for testing
   async forceCheck(): Promise<void> {
     this.log('Manual commit check triggered');
@@ -0,0 +1,145 @@
+import * as vscode from 'vscode';
+import type {
+  ActivityLedgerEntry,
+  Character,
+  HistoryImportOptions,
+  HistoryImportPreview,
+  HistoryImportRepoSummary,
+} from '../types';
+import type { GitCommit } from './gitTrackingService';
+import { parseCommitMessage } from './commitMessage';
+import {
+  calculateActivityXp,
+  calculateCommitBonusXp,
+  xpForLevel,
+  HISTORY_IMPORT_CONFIG,
+  LEVEL_CONFIG,
+} from '../config/classConfig';
+
+export type { HistoryImportOptions, HistoryImportPreview } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read the `gitrpg.historyImport` settings, falling back to HISTORY_IMPORT_CONFIG
+ */
+export function loadHistoryImportOptions(): HistoryImportOptions {
+  const config = vscode.workspace.getConfiguration('gitrpg.historyImport');
+  return {
+    halfLifeDays: Math.max(0, config.get<number>('halfLifeDays', HISTORY_IMPORT_CONFIG.halfLifeDays)),
+    maxAgeDays: Math.max(0, config.get<number>('maxAgeDays', HISTORY_IMPORT_CONFIG.maxAgeDays)),
+    maxTotalXp: Math.max(0, config.get<number>('maxTotalXp', HISTORY_IMPORT_CONFIG.maxTotalXp)),
+  };
+}
+
+/**
+ * Fraction of XP kept for a commit of the given age (halves every halfLifeDays)
+ */
+export function decayFactor(ageDays: number, halfLifeDays: number): number {
+  if (halfLifeDays <= 0 || ageDays <= 0) {
+    return 1;
+  }
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Simulate level-ups from gaining XP, mirroring LocalStateManager.addXp
+ */
+export function projectLevel(
+  character: Pick<Character, 'level' | 'xp' | 'xpToNextLevel'>,
+  xpGained: number
+): { level: number; xp: number; xpToNextLevel: number; goldEarned: number } {
+  let { level, xp, xpToNextLevel } = character;
+  let goldEarned = 0;
+
+  xp += xpGained;
+  while (xp >= xpToNextLevel) {
+    xp -= xpToNextLevel;
+    level++;
+    xpToNextLevel = xpForLevel(level + 1);
+    goldEarned += LEVEL_CONFIG.goldPerLevel * level;
+  }
+
+  return { level, xp, xpToNextLevel, goldEarned };
+}
+
+/**
+ * Score past commits with XP_CONFIG, apply decay/age/cap options and
+ * project the resulting level. Nothing is saved.
+ */
+export function buildHistoryImportPreview(
+  history: Array<{ repoPath: string; commits: GitCommit[]; xpMultiplier: number }>,
+  character: Pick<Character, 'level' | 'xp' | 'xpToNextLevel'>,
+  options: HistoryImportOptions,
+  now: Date = new Date()
+): HistoryImportPreview {
+  const repos: HistoryImportRepoSummary[] = [];
+  const scored: Array<{ repoPath: string; commit: GitCommit; xp: number }> = [];
+  let rawXp = 0;
+  let decayedXp = 0;
+  let oldest: Date | null = null;
+
+  for (const { repoPath, commits, xpMultiplier } of history) {
+    const summary: HistoryImportRepoSummary = { repoPath, commits: 0, xp: 0 };
+
+    for (const commit of commits) {
+      const ageDays = (now.getTime() - commit.date.getTime()) / DAY_MS;
+      if (options.maxAgeDays > 0 && ageDays > options.maxAgeDays) {
+        continue;
+      }
+
+      const { category, coAuthors } = parseCommitMessage(commit.message, commit.coAuthors);
+      const xp = (calculateActivityXp(1, commit.insertions, commit.deletions, commit.filesChanged) +
+        calculateCommitBonusXp(category, coAuthors.length > 0)) * Math.max(0, xpMultiplier);
+
+      const decayed = xp * decayFactor(ageDays, options.halfLifeDays);
+      rawXp += xp;
+      summary.xp += decayed;
+      summary.commits++;
+      scored.push({ repoPath, commit, xp: decayed });
+
+      if (!oldest || commit.date < oldest) {
+        oldest = commit.date;
+      }
+    }
+
+    summary.xp = Math.floor(summary.xp);
+    decayedXp += summary.xp;
+    if (summary.commits > 0) {
+      repos.push(summary);
+    }
+  }
+
+  const capped = options.maxTotalXp > 0 && decayedXp > options.maxTotalXp;
+  const totalXp = capped ? options.maxTotalXp : decayedXp;
+  const projected = projectLevel(character, totalXp);
+
+  // Spread any cap evenly so ledger entries reflect what was actually awarded
+  const scale = capped ? totalXp / decayedXp : 1;
+  const recordedAt = now.toISOString();
+  const entries: ActivityLedgerEntry[] = scored.map(({ repoPath, commit, xp }) => ({
+    hash: commit.hash,
+    ...(commit.patchId ? { patchId: commit.patchId } : {}),
+    repo: repoPath,
+    timestamp: commit.date.toISOString(),
+    recordedAt,
+    linesAdded: commit.insertions,
+    linesRemoved: commit.deletions,
+    filesChanged: commit.filesChanged,
+    xpAwarded: Math.floor(xp * scale),
+    source: 'history'
+  }));
+
+  return {
+    repos: repos.sort((a, b) => b.xp - a.xp),
+    totalCommits: repos.reduce((sum, r) => sum + r.commits, 0),
+    rawXp: Math.floor(rawXp),
+    totalXp,
+    capped,
+    oldestCommitDate: oldest ? oldest.toISOString() : null,
+    currentLevel: character.level,
+    projectedLevel: projected.level,
+    projectedGold: projected.goldEarned,
+    entries,
+  };
+}
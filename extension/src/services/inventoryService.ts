@@ -0,0 +1,236 @@
+import * as vscode from 'vscode';
+import type { SupabaseClientService, DbUserItem } from './supabaseClient';
+import type { LocalStateManager } from './localStateManager';
+import { ITEMS, ITEM_RARITIES, LOOT_TABLES } from '../config/classConfig';
+import { applyEquipment, getItemDefinition } from './statModifiers';
+import type {
+  CharacterStats,
+  InventoryState,
+  ItemDefinition,
+  ItemRarity,
+  ItemSlot,
+  LootSource,
+  OwnedItem,
+  QuestType,
+} from '../types';
+
+export type { ItemDefinition, InventoryState, OwnedItem } from '../types';
+
+export function emptyInventoryState(): InventoryState {
+  return { items: [], equipped: { weapon: null, armor: null } };
+}
+
+/**
+ * Loot table for a claimed quest; longer quests drop better items
+ */
+export function lootSourceForQuest(questType: QuestType): LootSource {
+  switch (questType) {
+    case 'weekly':
+      return 'weekly_quest';
+    case 'monthly':
+      return 'monthly_quest';
+    case 'chain':
+      return 'chain_quest';
+    default:
+      return 'daily_quest';
+  }
+}
+
+/**
+ * Roll a drop: first whether anything drops, then a rarity by weight, then an
+ * item of that rarity. Rarities without catalog items are never picked.
+ */
+export function rollLoot(
+  source: LootSource,
+  random: () => number = Math.random,
+  catalog: ItemDefinition[] = ITEMS
+): ItemDefinition | null {
+  const table = LOOT_TABLES[source];
+  if (random() >= table.dropChance) return null;
+
+  const rarities = (Object.keys(table.rarityWeights) as ItemRarity[])
+    .filter(r => table.rarityWeights[r] > 0 && catalog.some(i => i.rarity === r));
+  const totalWeight = rarities.reduce((sum, r) => sum + table.rarityWeights[r], 0);
+  if (totalWeight === 0) return null;
+
+  let roll = random() * totalWeight;
+  let rarity = rarities[rarities.length - 1];
+  for (const r of rarities) {
+    roll -= table.rarityWeights[r];
+    if (roll < 0) {
+      rarity = r;
+      break;
+    }
+  }
+
+  const pool = catalog.filter(i => i.rarity === rarity);
+  return pool[Math.min(pool.length - 1, Math.floor(random() * pool.length))];
+}
+
+export function formatItem(item: ItemDefinition): string {
+  return `${item.icon} ${item.name} (${ITEM_RARITIES[item.rarity].name})`;
+}
+
+/**
+ * Short stat summary, e.g. "+4 ATK, +2% crit"
+ */
+export function describeModifiers(modifiers: Partial<CharacterStats>): string {
+  const parts: string[] = [];
+  if (modifiers.maxHp) parts.push(`+${modifiers.maxHp} HP`);
+  if (modifiers.attack) parts.push(`+${modifiers.attack} ATK`);
+  if (modifiers.defense) parts.push(`+${modifiers.defense} DEF`);
+  if (modifiers.speed) parts.push(`+${modifiers.speed} SPD`);
+  if (modifiers.critChance) parts.push(`+${Math.round(modifiers.critChance * 100)}% crit`);
+  if (modifiers.critDamage) parts.push(`+${Math.round(modifiers.critDamage * 100)}% crit dmg`);
+  return parts.join(', ');
+}
+
+export class InventoryService {
+  constructor(private stateManager: LocalStateManager, private supabase: SupabaseClientService) {}
+
+  /**
+   * Owned catalog items, equipped first, then rarest first
+   */
+  getInventory(): OwnedItem[] {
+    const { items, equipped } = this.stateManager.getInventory();
+    const rarityOrder = Object.keys(ITEM_RARITIES);
+
+    return ITEMS
+      .map(item => ({
+        ...item,
+        count: items.filter(i => i.itemId === item.id).length,
+        equipped: equipped[item.slot] === item.id,
+      }))
+      .filter(item => item.count > 0)
+      .sort((a, b) => Number(b.equipped) - Number(a.equipped) ||
+        rarityOrder.indexOf(b.rarity) - rarityOrder.indexOf(a.rarity));
+  }
+
+  getEquippedItems(): ItemDefinition[] {
+    const { equipped } = this.stateManager.getInventory();
+    return Object.values(equipped)
+      .map(getItemDefinition)
+      .filter((item): item is ItemDefinition => item !== undefined);
+  }
+
+  /**
+   * Character stats with equipment applied, as used in battle
+   */
+  getBattleStats(): CharacterStats {
+    const { equipped } = this.stateManager.getInventory();
+    return applyEquipment(this.stateManager.getCharacter().stats, Object.values(equipped));
+  }
+
+  /**
+   * Roll the loot table for a source and keep whatever drops
+   */
+  async grantLoot(source: LootSource): Promise<ItemDefinition | null> {
+    const item = rollLoot(source);
+    if (!item) return null;
+
+    const owned = await this.stateManager.addItem(item.id, source);
+
+    vscode.window.showInformationMessage(
+      `🎁 Loot: ${formatItem(item)}`,
+      'Equip'
+    ).then(async selection => {
+      if (selection === 'Equip') {
+        await this.equip(item.id);
+      }
+    });
+
+    await this.pushToCloud([owned.id]);
+    return item;
+  }
+
+  async equip(itemId: string): Promise<{ success: boolean; error?: string }> {
+    const item = getItemDefinition(itemId);
+    if (!item) {
+      return { success: false, error: 'Unknown item' };
+    }
+
+    const { items } = this.stateManager.getInventory();
+    if (!items.some(i => i.itemId === itemId)) {
+      return { success: false, error: `You don't own ${item.name}` };
+    }
+
+    await this.stateManager.setEquipped(item.slot, item.id);
+    return { success: true };
+  }
+
+  async unequip(slot: ItemSlot): Promise<void> {
+    await this.stateManager.setEquipped(slot, null);
+  }
+
+  private async pushToCloud(ids: string[]): Promise<void> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user || ids.length === 0) return;
+
+    const { items } = this.stateManager.getInventory();
+    const { error } = await this.supabase.getClient()
+      .from('user_items')
+      .upsert(
+        items.filter(i => ids.includes(i.id)).map(i => ({
+          id: i.id,
+          user_id: user.id,
+          item_id: i.itemId,
+          source: i.source,
+          acquired_at: i.acquiredAt,
+        })),
+        { onConflict: 'id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Error saving items:', error);
+    }
+  }
+
+  /**
+   * Merge items looted on other machines, upload local ones the cloud is
+   * missing, and take the account's equipment for slots left empty here
+   */
+  async syncWithCloud(): Promise<void> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) return;
+
+    const client = this.supabase.getClient();
+    const { data, error } = await client
+      .from('user_items')
+      .select('id, item_id, source, acquired_at')
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error fetching items:', error);
+      return;
+    }
+
+    const cloud = (data || []) as Pick<DbUserItem, 'id' | 'item_id' | 'source' | 'acquired_at'>[];
+    await this.stateManager.restoreItems(cloud.map(row => ({
+      id: row.id,
+      itemId: row.item_id,
+      source: row.source,
+      acquiredAt: row.acquired_at,
+    })));
+
+    const cloudIds = new Set(cloud.map(row => row.id));
+    const { items, equipped } = this.stateManager.getInventory();
+    await this.pushToCloud(items.filter(i => !cloudIds.has(i.id)).map(i => i.id));
+
+    const { data: profile } = await client
+      .from('users')
+      .select('equipped_weapon_id, equipped_armor_id')
+      .eq('id', user.id)
+      .single();
+
+    const cloudEquipped: Record<ItemSlot, string | null> = {
+      weapon: profile?.equipped_weapon_id ?? null,
+      armor: profile?.equipped_armor_id ?? null,
+    };
+    for (const slot of Object.keys(cloudEquipped) as ItemSlot[]) {
+      const itemId = cloudEquipped[slot];
+      if (!equipped[slot] && itemId && items.some(i => i.itemId === itemId)) {
+        await this.stateManager.setEquipped(slot, itemId);
+      }
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { randomUUID } from 'crypto';
 import {
   Character,
   CharacterStats,
@@ -7,14 +8,53 @@ import {
   LocalGameState,
   ActivityResult,
   CharacterClass,
+  AuthorIdentities,
+  AuthorIdentityKind,
+  ActivityLedgerEntry,
+  ActivitySource,
+  CommitVerdict,
+  CommitCategory,
+  CommitCategoryCounts,
+  HistoryImportPreview,
+  ActivityEventCounts,
+  ActivityEventKind,
+  StreakState,
+  StreakUpdate,
+  AchievementDefinition,
+  AchievementState,
+  BattleOutcome,
+  LocalEconomyState,
+  InventoryState,
+  InventoryItem,
+  ItemSlot,
+  LootSource,
+  ShopState,
+  PendingWallet,
+  Wallet,
 } from '../types';
 import {
   CLASS_BASE_STATS,
   xpForLevel,
+  cumulativeXp,
+  levelForCumulativeXp,
   calculateStatsForLevel,
-  XP_CONFIG,
+  calculateActivityXp,
+  calculateCommitBonusXp,
   LEVEL_CONFIG,
+  STREAK_CONFIG,
 } from '../config/classConfig';
+import { emptyIdentities, normalizeIdentity } from './authorIdentity';
+import { ActivityLedger } from './activityLedger';
+import { applySoftCap } from './commitHeuristics';
+import { parseCommitMessage, emptyCategoryCounts } from './commitMessage';
+import { emptyAchievementState } from './achievementService';
+import { emptyLocalEconomy } from './economyStore';
+import { emptyInventoryState } from './inventoryService';
+import { emptyShopState, activeXpBoostMultiplier } from './shopService';
+import { emptyTalentState } from './talentService';
+import { emptyStreak, advanceStreak, currentStreak, localDateKey, loadStreakSettings } from './streakTracker';
+import type { GitCommit } from './gitTrackingService';
+import type { DbXpGrant } from './supabaseClient';
 
 // Re-export CharacterData for backwards compatibility
 export type { Character as CharacterData } from '../types';
@@ -22,6 +62,21 @@ export type { TodayStats, TrackingState, LocalGameState } from '../types';
 
 const STATE_KEY = 'gitrpg.gameState';
 
+function emptyTodayStats(date: string): TodayStats {
+  return {
+    date,
+    commits: 0,
+    linesAdded: 0,
+    linesRemoved: 0,
+    filesChanged: 0,
+    xpEarned: 0,
+    categories: emptyCategoryCounts(),
+    coAuthoredCommits: 0,
+    events: { test_run: 0, diagnostics_cleared: 0, lint_fix: 0, review_given: 0 },
+    battlesWon: { pvp: 0, boss: 0, coopBoss: 0 }
+  };
+}
+
 function getDefaultState(): LocalGameState {
   const today = new Date().toISOString().split('T')[0];
   return {
@@ -34,36 +89,96 @@ function getDefaultState(): LocalGameState {
       gold: 0,
       stats: { ...CLASS_BASE_STATS.Warrior }
     },
-    todayStats: {
-      date: today,
-      commits: 0,
-      linesAdded: 0,
-      linesRemoved: 0,
-      filesChanged: 0,
-      xpEarned: 0
-    },
+    todayStats: emptyTodayStats(today),
     tracking: {
-      lastCheckedAt: new Date().toISOString(),
-      processedCommitHashes: []
+      lastCheckedAt: new Date().toISOString()
     },
-    gitEmail: null
+    identities: emptyIdentities(),
+    streak: emptyStreak(),
+    achievements: emptyAchievementState(),
+    economy: emptyLocalEconomy(),
+    pendingWallet: { gold: 0, xp: 0, held: 0, reconciled: true },
+    inventory: emptyInventoryState(),
+    shop: emptyShopState(),
+    talents: emptyTalentState()
   };
 }
 
 export class LocalStateManager {
   private context: vscode.ExtensionContext;
   private state: LocalGameState;
+  private ledger: ActivityLedger;
   private onStateChangeCallbacks: Array<(state: LocalGameState) => void> = [];
+  private walletQueue: Promise<void> = Promise.resolve();
 
   constructor(context: vscode.ExtensionContext) {
     this.context = context;
     this.state = this.loadState();
+    this.ledger = new ActivityLedger(context.globalStorageUri.fsPath);
     this.resetTodayStatsIfNewDay();
+    this.migrateProcessedHashes();
+  }
+
+  /**
+   * Move the old globalState dedupe list into the ledger so those commits
+   * are never re-awarded, then drop it from state
+   */
+  private migrateProcessedHashes(): void {
+    const legacy = this.state.tracking.processedCommitHashes;
+    if (!legacy) return;
+
+    const recordedAt = new Date().toISOString();
+    this.ledger.append(legacy.map(hash => ({
+      hash,
+      repo: '',
+      timestamp: recordedAt,
+      recordedAt,
+      linesAdded: 0,
+      linesRemoved: 0,
+      filesChanged: 0,
+      xpAwarded: 0,
+      source: 'legacy' as const
+    })));
+    delete this.state.tracking.processedCommitHashes;
+    this.saveState();
   }
 
   private loadState(): LocalGameState {
-    const saved = this.context.globalState.get<LocalGameState>(STATE_KEY);
+    const saved = this.context.globalState.get<LocalGameState & { gitEmail?: string | null }>(STATE_KEY);
     if (saved) {
+      // Stats saved before commit categories, activity events or battle wins existed
+      const emptyToday = emptyTodayStats(saved.todayStats.date);
+      saved.todayStats = {
+        ...emptyToday,
+        ...saved.todayStats,
+        events: { ...emptyToday.events, ...saved.todayStats.events }
+      };
+      saved.streak = { ...emptyStreak(), ...saved.streak };
+      saved.achievements = { ...emptyAchievementState(), ...saved.achievements };
+      // Class levels used to follow the character across class changes; only
+      // the current class's progress can be told apart, so start over from it
+      if (!saved.achievements.stats.classXp) {
+        const { class: characterClass, level, xp } = saved.character;
+        saved.achievements.stats = {
+          ...saved.achievements.stats,
+          classXp: { [characterClass]: cumulativeXp(level, xp) },
+          classLevels: { [characterClass]: level }
+        };
+      }
+      saved.economy = { ...emptyLocalEconomy(), ...saved.economy };
+      saved.pendingWallet = saved.pendingWallet ?? { gold: 0, xp: 0, held: 0, reconciled: false };
+      saved.inventory = { ...emptyInventoryState(), ...saved.inventory };
+      saved.shop = { ...emptyShopState(), ...saved.shop };
+      saved.talents = { ...emptyTalentState(), ...saved.talents };
+
+      // Older saves stored a single detected email instead of an identity list
+      if (!saved.identities) {
+        const { gitEmail, ...rest } = saved;
+        return {
+          ...rest,
+          identities: { ...emptyIdentities(), emails: gitEmail ? [gitEmail] : [] }
+        };
+      }
       return saved;
     }
     return getDefaultState();
@@ -100,44 +215,292 @@ export class LocalStateManager {
 
   getTodayStats(): TodayStats {
     this.resetTodayStatsIfNewDay();
-    return { ...this.state.todayStats };
+    return {
+      ...this.state.todayStats,
+      categories: { ...this.state.todayStats.categories },
+      events: { ...this.state.todayStats.events },
+      battlesWon: { ...this.state.todayStats.battlesWon }
+    };
+  }
+
+  /**
+   * Streak with `current` already reset to 0 if it has lapsed
+   */
+  getStreak(): StreakState {
+    const settings = loadStreakSettings();
+    const streak = this.state.streak;
+    return {
+      ...streak,
+      current: currentStreak(streak, localDateKey(new Date(), settings.timeZone), settings),
+      frozenDates: [...streak.frozenDates],
+      milestonesClaimed: [...streak.milestonesClaimed]
+    };
+  }
+
+  async purchaseStreakFreeze(): Promise<{ success: boolean; error?: string }> {
+    if (this.state.streak.freezes >= STREAK_CONFIG.maxFreezes) {
+      return { success: false, error: `You can hold at most ${STREAK_CONFIG.maxFreezes} streak freezes` };
+    }
+    if (this.state.character.gold < STREAK_CONFIG.freezeCost) {
+      return {
+        success: false,
+        error: `Not enough gold. Need ${STREAK_CONFIG.freezeCost}, have ${this.state.character.gold}`
+      };
+    }
+
+    this.changeGold(-STREAK_CONFIG.freezeCost);
+    this.state.streak.freezes++;
+    await this.saveState();
+    return { success: true };
+  }
+
+  /**
+   * Count today towards the streak, paying out milestone gold
+   */
+  private recordStreakDay(): StreakUpdate {
+    const settings = loadStreakSettings();
+    const { streak, update } = advanceStreak(
+      this.state.streak,
+      localDateKey(new Date(), settings.timeZone),
+      settings
+    );
+    this.state.streak = streak;
+    this.changeGold(update.milestoneGold);
+    return update;
+  }
+
+  /**
+   * Quests and workers kept while no account is connected
+   */
+  getLocalEconomy(): LocalEconomyState {
+    const { quests, workers, questSchedule } = this.state.economy;
+    return {
+      quests: quests.map(q => ({ ...q })),
+      workers: workers.map(w => ({ ...w })),
+      questSchedule: { ...questSchedule }
+    };
+  }
+
+  async saveLocalEconomy(economy: LocalEconomyState): Promise<void> {
+    this.state.economy = economy;
+    await this.saveState();
+  }
+
+  getInventory(): InventoryState {
+    const { items, equipped } = this.state.inventory;
+    return { items: items.map(i => ({ ...i })), equipped: { ...equipped } };
+  }
+
+  async addItem(itemId: string, source: LootSource): Promise<InventoryItem> {
+    const item: InventoryItem = { id: randomUUID(), itemId, source, acquiredAt: new Date().toISOString() };
+    this.state.inventory.items.push(item);
+    await this.saveState();
+    return item;
+  }
+
+  /**
+   * Adopt items looted on another machine
+   */
+  async restoreItems(items: InventoryItem[]): Promise<void> {
+    const owned = new Set(this.state.inventory.items.map(i => i.id));
+    const missing = items.filter(i => !owned.has(i.id));
+    if (missing.length === 0) return;
+    this.state.inventory.items.push(...missing);
+    await this.saveState();
+  }
+
+  async setEquipped(slot: ItemSlot, itemId: string | null): Promise<void> {
+    this.state.inventory.equipped[slot] = itemId;
+    await this.saveState();
+  }
+
+  getShopState(): ShopState {
+    const { owned, offlinePurchases, offlineUses, xpBoost, ...rest } = this.state.shop;
+    return {
+      ...rest,
+      owned: { ...owned },
+      offlinePurchases: { ...offlinePurchases },
+      offlineUses: { ...offlineUses },
+      xpBoost: xpBoost ? { ...xpBoost } : null
+    };
+  }
+
+  async saveShopState(shop: ShopState): Promise<void> {
+    this.state.shop = shop;
+    await this.saveState();
+  }
+
+  /**
+   * Ranks learned in a class's tree, the current class's unless given
+   */
+  getTalentRanks(characterClass: CharacterClass = this.state.character.class): Record<string, number> {
+    return { ...this.state.talents.ranks[characterClass] };
+  }
+
+  /**
+   * Save ranks for a class's tree, the current class's unless given
+   */
+  async saveTalentRanks(
+    ranks: Record<string, number>,
+    characterClass: CharacterClass = this.state.character.class
+  ): Promise<void> {
+    this.state.talents.ranks[characterClass] = ranks;
+    await this.saveState();
+  }
+
+  /**
+   * Clear the current class's talents, paying `cost` gold
+   */
+  async respecTalents(cost: number): Promise<{ success: boolean; error?: string }> {
+    if (this.state.character.gold < cost) {
+      return { success: false, error: `Not enough gold. Need ${cost}, have ${this.state.character.gold}` };
+    }
+
+    this.changeGold(-cost);
+    this.state.talents.ranks[this.state.character.class] = {};
+    await this.saveState();
+    return { success: true };
+  }
+
+  getAchievementState(): AchievementState {
+    const { unlocked, stats } = this.state.achievements;
+    return {
+      unlocked: { ...unlocked },
+      stats: { ...stats, classXp: { ...stats.classXp }, classLevels: { ...stats.classLevels } }
+    };
+  }
+
+  /**
+   * Commits that have ever earned XP, including imported history
+   */
+  getLifetimeCommits(): number {
+    return this.ledger.countBySource('commit', 'history', 'legacy');
+  }
+
+  /**
+   * Tracked commit totals since a moment, for quests longer than a day.
+   * Imported history doesn't count; categories skip commits that earned no XP.
+   */
+  getActivitySince(since: Date): {
+    commits: number;
+    linesAdded: number;
+    filesChanged: number;
+    categories: CommitCategoryCounts;
+  } {
+    const entries = this.ledger.query({ source: 'commit', since });
+    const categories = emptyCategoryCounts();
+    for (const e of entries) {
+      if (e.category && e.xpAwarded > 0) categories[e.category]++;
+    }
+    return {
+      commits: entries.length,
+      linesAdded: entries.reduce((sum, e) => sum + e.linesAdded, 0),
+      filesChanged: entries.reduce((sum, e) => sum + e.filesChanged, 0),
+      categories,
+    };
+  }
+
+  /**
+   * Count a battle win towards achievements and today's social quests
+   */
+  async recordBattleResult(result: BattleOutcome): Promise<void> {
+    if (!result.won) return;
+    this.resetTodayStatsIfNewDay();
+    const stats = this.state.achievements.stats;
+    const today = this.state.todayStats.battlesWon;
+    if (result.kind === 'boss') {
+      stats.bossKills++;
+      today.boss++;
+      if (result.withFriend) today.coopBoss++;
+    } else {
+      stats.pvpWins++;
+      today.pvp++;
+      if ((result.opponentLevel ?? 0) > this.state.character.level) {
+        stats.higherLevelPvpWins++;
+      }
+    }
+    await this.saveState();
+  }
+
+  /**
+   * Mark achievements unlocked and pay out their gold
+   */
+  async unlockAchievements(achievements: AchievementDefinition[]): Promise<void> {
+    const unlockedAt = new Date().toISOString();
+    for (const achievement of achievements) {
+      if (this.state.achievements.unlocked[achievement.id]) continue;
+      this.state.achievements.unlocked[achievement.id] = unlockedAt;
+      this.changeGold(achievement.goldReward);
+    }
+    await this.saveState();
+  }
+
+  /**
+   * Adopt unlocks made on another machine (their gold was paid there)
+   */
+  async restoreAchievements(unlocked: Record<string, string>): Promise<void> {
+    const missing = Object.keys(unlocked).filter(id => !this.state.achievements.unlocked[id]);
+    if (missing.length === 0) return;
+    for (const id of missing) {
+      this.state.achievements.unlocked[id] = unlocked[id];
+    }
+    await this.saveState();
+  }
+
+  /**
+   * Credit XP to the current class, so a class only reaches the levels its
+   * own XP would and switching class doesn't carry the character's level over
+   */
+  private creditClassXp(amount: number): void {
+    const characterClass = this.state.character.class;
+    const { classXp, classLevels } = this.state.achievements.stats;
+    classXp[characterClass] = (classXp[characterClass] ?? 0) + amount;
+    classLevels[characterClass] = Math.max(
+      classLevels[characterClass] ?? 0,
+      levelForCumulativeXp(classXp[characterClass] ?? 0)
+    );
   }
 
-  getGitEmail(): string | null {
-    return this.state.gitEmail;
+  getIdentities(): AuthorIdentities {
+    const { emails, names, githubUsernames } = this.state.identities;
+    return { emails: [...emails], names: [...names], githubUsernames: [...githubUsernames] };
   }
 
-  async setGitEmail(email: string): Promise<void> {
-    this.state.gitEmail = email;
+  /**
+   * Add an author identity. Returns false if it was empty or already present.
+   */
+  async addIdentity(kind: AuthorIdentityKind, value: string): Promise<boolean> {
+    const normalized = normalizeIdentity(kind, value);
+    const list = this.state.identities[kind];
+    if (!normalized || list.some(v => v.toLowerCase() === normalized.toLowerCase())) {
+      return false;
+    }
+    list.push(normalized);
+    await this.saveState();
+    return true;
+  }
+
+  async removeIdentity(kind: AuthorIdentityKind, value: string): Promise<void> {
+    this.state.identities[kind] = this.state.identities[kind].filter(v => v !== value);
     await this.saveState();
   }
 
   private resetTodayStatsIfNewDay(): void {
     const today = new Date().toISOString().split('T')[0];
     if (this.state.todayStats.date !== today) {
-      this.state.todayStats = {
-        date: today,
-        commits: 0,
-        linesAdded: 0,
-        linesRemoved: 0,
-        filesChanged: 0,
-        xpEarned: 0
-      };
-      // Keep only recent commit hashes (last 100) to prevent memory bloat
-      this.state.tracking.processedCommitHashes =
-        this.state.tracking.processedCommitHashes.slice(-100);
+      this.state.todayStats = emptyTodayStats(today);
     }
   }
 
-  isCommitProcessed(hash: string): boolean {
-    return this.state.tracking.processedCommitHashes.includes(hash);
+  /**
+   * Whether the ledger has awarded this commit or another copy of its change
+   */
+  isCommitProcessed(commit: { hash: string; patchId?: string }): boolean {
+    return this.ledger.isRecorded(commit);
   }
 
-  async markCommitProcessed(hash: string): Promise<void> {
-    if (!this.state.tracking.processedCommitHashes.includes(hash)) {
-      this.state.tracking.processedCommitHashes.push(hash);
-      await this.saveState();
-    }
+  getLedger(): ActivityLedger {
+    return this.ledger;
   }
 
   async updateLastChecked(): Promise<void> {
@@ -149,7 +512,143 @@ export class LocalStateManager {
     return new Date(this.state.tracking.lastCheckedAt);
   }
 
-  async addActivity(commits: number, linesAdded: number, linesRemoved: number, filesChanged: number): Promise<ActivityResult> {
+  /**
+   * Award XP for activity that isn't a ledger-tracked commit. `options.bonusXp`
+   * is added before the multiplier; `options.events` counts editor activity
+   * events towards today's stats. An active XP potion boosts the result.
+   */
+  async addActivity(
+    commits: number,
+    linesAdded: number,
+    linesRemoved: number,
+    filesChanged: number,
+    xpMultiplier: number = 1,
+    options: { bonusXp?: number; events?: Partial<ActivityEventCounts> } = {}
+  ): Promise<ActivityResult> {
+    // Calculate XP earned
+    const xpEarned = Math.floor(
+      (calculateActivityXp(commits, linesAdded, linesRemoved, filesChanged) + (options.bonusXp ?? 0)) *
+      Math.max(0, xpMultiplier) *
+      activeXpBoostMultiplier(this.state.shop.xpBoost)
+    );
+    return this.applyActivity(commits, linesAdded, linesRemoved, filesChanged, xpEarned,
+      options.events ? { events: options.events } : undefined);
+  }
+
+  /**
+   * Award XP for new commits from one repo and record each in the ledger.
+   * Commits already in the ledger, by hash or patch id, are skipped. Conventional Commit types and
+   * co-authors add a bonus; anti-gaming verdicts scale each commit's XP, and
+   * XP beyond the daily soft cap is reduced. XP potions boost new commits but
+   * not imported history.
+   */
+  async recordCommits(
+    repoPath: string,
+    commits: GitCommit[],
+    xpMultiplier: number = 1,
+    options: { source?: ActivitySource; verdicts?: Map<string, CommitVerdict>; dailySoftCapXp?: number } = {}
+  ): Promise<ActivityResult> {
+    this.resetTodayStatsIfNewDay();
+
+    const recordedAt = new Date().toISOString();
+    let xpToday = this.state.todayStats.xpEarned;
+    let softCapped = false;
+
+    const entries: ActivityLedgerEntry[] = [];
+    const categories = emptyCategoryCounts();
+    let coAuthored = 0;
+    const boost = options.source === 'history' ? 1 : activeXpBoostMultiplier(this.state.shop.xpBoost);
+
+    for (const c of commits) {
+      if (this.ledger.isRecorded(c) || entries.some(e => e.patchId && e.patchId === c.patchId)) continue;
+
+      const verdict = options.verdicts?.get(c.hash);
+      const weight = verdict?.weight ?? 1;
+      const parsed = parseCommitMessage(c.message, c.coAuthors);
+      const baseXp = Math.floor(
+        (calculateActivityXp(1, c.insertions, c.deletions, c.filesChanged) +
+          calculateCommitBonusXp(parsed.category, parsed.coAuthors.length > 0)) *
+        Math.max(0, xpMultiplier) *
+        boost *
+        weight
+      );
+
+      // Flagged-to-zero commits don't progress typed quests either
+      if (weight > 0) {
+        if (parsed.category) categories[parsed.category]++;
+        if (parsed.coAuthors.length > 0) coAuthored++;
+      }
+      const xpAwarded = applySoftCap(xpToday, baseXp, options.dailySoftCapXp ?? 0);
+      softCapped = softCapped || xpAwarded < baseXp;
+      xpToday += xpAwarded;
+
+      entries.push({
+        hash: c.hash,
+        ...(c.patchId ? { patchId: c.patchId } : {}),
+        repo: repoPath,
+        timestamp: c.date.toISOString(),
+        recordedAt,
+        linesAdded: c.insertions,
+        linesRemoved: c.deletions,
+        filesChanged: c.filesChanged,
+        xpAwarded,
+        source: options.source ?? 'commit',
+        message: c.message,
+        ...(verdict ? { flags: verdict.flags } : {}),
+        ...(parsed.category ? { category: parsed.category } : {})
+      });
+    }
+
+    const added = await this.ledger.append(entries);
+
+    // Imported or fully discounted commits don't keep a streak alive
+    const streak = added.some(e => e.source === 'commit' && e.xpAwarded > 0)
+      ? this.recordStreakDay()
+      : undefined;
+
+    const result = await this.applyActivity(
+      added.length,
+      added.reduce((sum, e) => sum + e.linesAdded, 0),
+      added.reduce((sum, e) => sum + e.linesRemoved, 0),
+      added.reduce((sum, e) => sum + e.filesChanged, 0),
+      added.reduce((sum, e) => sum + e.xpAwarded, 0),
+      { categories, coAuthored }
+    );
+    return { ...result, softCapped, ...(streak ? { streak } : {}) };
+  }
+
+  /**
+   * Award XP a friend shared with us as co-author of their commit.
+   * Grants for commits already in the ledger are skipped.
+   */
+  async claimSharedXp(grants: DbXpGrant[]): Promise<ActivityResult> {
+    const recordedAt = new Date().toISOString();
+    const added = await this.ledger.append(grants.map(g => ({
+      hash: g.commit_hash,
+      repo: '',
+      timestamp: g.created_at,
+      recordedAt,
+      linesAdded: 0,
+      linesRemoved: 0,
+      filesChanged: 0,
+      xpAwarded: g.xp,
+      source: 'coauthor' as const,
+      message: g.commit_message
+    })));
+
+    return this.applyActivity(0, 0, 0, 0, added.reduce((sum, e) => sum + e.xpAwarded, 0), {
+      coAuthored: added.length
+    });
+  }
+
+  private async applyActivity(
+    commits: number,
+    linesAdded: number,
+    linesRemoved: number,
+    filesChanged: number,
+    xpEarned: number,
+    breakdown?: { categories?: CommitCategoryCounts; coAuthored?: number; events?: Partial<ActivityEventCounts> }
+  ): Promise<ActivityResult> {
     this.resetTodayStatsIfNewDay();
 
     // Update today's stats
@@ -157,29 +656,20 @@ export class LocalStateManager {
     this.state.todayStats.linesAdded += linesAdded;
     this.state.todayStats.linesRemoved += linesRemoved;
     this.state.todayStats.filesChanged += filesChanged;
-
-    // Calculate XP earned
-    const xpEarned = this.calculateXp(commits, linesAdded, linesRemoved, filesChanged);
     this.state.todayStats.xpEarned += xpEarned;
-
-    // Add XP to character
-    const oldLevel = this.state.character.level;
-    this.state.character.xp += xpEarned;
-
-    // Check for level up
-    let leveledUp = false;
-    while (this.state.character.xp >= this.state.character.xpToNextLevel) {
-      this.state.character.xp -= this.state.character.xpToNextLevel;
-      this.state.character.level++;
-      this.state.character.xpToNextLevel = xpForLevel(this.state.character.level + 1);
-      this.state.character.gold += LEVEL_CONFIG.goldPerLevel * this.state.character.level;
-      leveledUp = true;
-
-      // Increase stats on level up using centralized calculation
-      const classStats = CLASS_BASE_STATS[this.state.character.class];
-      this.state.character.stats = calculateStatsForLevel(classStats, this.state.character.level);
+    if (breakdown?.categories) {
+      for (const [category, count] of Object.entries(breakdown.categories) as Array<[CommitCategory, number]>) {
+        this.state.todayStats.categories[category] += count;
+      }
+    }
+    this.state.todayStats.coAuthoredCommits += breakdown?.coAuthored ?? 0;
+    if (breakdown?.events) {
+      for (const [kind, count] of Object.entries(breakdown.events) as Array<[ActivityEventKind, number]>) {
+        this.state.todayStats.events[kind] += count;
+      }
     }
 
+    const leveledUp = this.gainXp(xpEarned);
     await this.saveState();
 
     return {
@@ -189,24 +679,15 @@ export class LocalStateManager {
     };
   }
 
-  private calculateXp(commits: number, linesAdded: number, linesRemoved: number, filesChanged: number): number {
-    // Cap lines
-    const cappedAdded = Math.min(linesAdded, XP_CONFIG.maxLinesPerCommit * commits);
-    const cappedRemoved = Math.min(linesRemoved, XP_CONFIG.maxLinesPerCommit * commits);
-
-    return Math.floor(
-      commits * XP_CONFIG.xpPerCommit +
-      cappedAdded * XP_CONFIG.xpPerLineAdded +
-      cappedRemoved * XP_CONFIG.xpPerLineRemoved +
-      filesChanged * XP_CONFIG.xpPerFile
-    );
-  }
-
   async setCharacterName(name: string): Promise<void> {
     this.state.character.name = name;
     await this.saveState();
   }
 
+  /**
+   * Switch class. Talent ranks are kept per class, so the new class starts
+   * from its own tree and switching back restores the old one.
+   */
   async setCharacterClass(className: CharacterClass): Promise<void> {
     this.state.character.class = className;
     // Recalculate stats for current level using centralized calculation
@@ -215,33 +696,203 @@ export class LocalStateManager {
   }
 
   async addGold(amount: number): Promise<void> {
-    this.state.character.gold = Math.max(0, this.state.character.gold + amount);
+    this.changeGold(amount);
     await this.saveState();
   }
 
-  async setGold(amount: number): Promise<void> {
-    this.state.character.gold = Math.max(0, amount);
+  async addXp(amount: number): Promise<void> {
+    this.gainXp(amount);
     await this.saveState();
   }
 
-  async addXp(amount: number): Promise<void> {
-    this.state.character.xp += amount;
+  /**
+   * Change local gold (never below zero) and remember the change until the
+   * account applies it
+   */
+  private changeGold(amount: number): void {
+    const gold = Math.max(0, this.state.character.gold + amount);
+    this.state.pendingWallet.gold += gold - this.state.character.gold;
+    this.state.character.gold = gold;
+  }
+
+  /**
+   * Add XP, levelling up as thresholds are crossed. XP earned here is
+   * pending and pays level gold; XP taken from the account already paid its
+   * level gold wherever it was earned.
+   */
+  private gainXp(amount: number, fromAccount: boolean = false): boolean {
+    const character = this.state.character;
+    character.xp += amount;
+    this.creditClassXp(amount);
+    if (!fromAccount) {
+      this.state.pendingWallet.xp += amount;
+    }
+
+    let leveledUp = false;
+    while (character.xp >= character.xpToNextLevel) {
+      character.xp -= character.xpToNextLevel;
+      character.level++;
+      character.xpToNextLevel = xpForLevel(character.level + 1);
+      if (!fromAccount) {
+        this.changeGold(LEVEL_CONFIG.goldPerLevel * character.level);
+      }
+      leveledUp = true;
+
+      // Increase stats on level up using centralized calculation
+      character.stats = calculateStatsForLevel(CLASS_BASE_STATS[character.class], character.level);
+    }
+    return leveledUp;
+  }
+
+  /**
+   * Set gold aside for a purchase the account will charge later, instead of
+   * counting it as spent. False, with nothing held, unless the amount is
+   * positive and the character has that much.
+   */
+  async holdGold(amount: number): Promise<boolean> {
+    if (!(amount > 0 && amount <= this.state.character.gold)) return false;
+    this.state.character.gold -= amount;
+    this.state.pendingWallet.held += amount;
+    await this.saveState();
+    return true;
+  }
+
+  /**
+   * Release gold set aside with holdGold once `charge` has asked the account
+   * for it. Resolves to whether the account took it; if not, the gold is
+   * given back.
+   */
+  settleHeldGold(amount: number, charge: () => Promise<Wallet | null>): Promise<boolean> {
+    return this.queueWallet(async () => {
+      const wallet = await charge();
+      this.state.pendingWallet.held -= amount;
+      if (wallet) {
+        await this.applyCloudWallet(wallet, { gold: 0, xp: 0 });
+        return true;
+      }
+      this.state.character.gold += amount;
+      await this.saveState();
+      return false;
+    });
+  }
 
-    // Check for level up
-    while (this.state.character.xp >= this.state.character.xpToNextLevel) {
-      this.state.character.xp -= this.state.character.xpToNextLevel;
-      this.state.character.level++;
-      this.state.character.xpToNextLevel = xpForLevel(this.state.character.level + 1);
-      this.state.character.gold += LEVEL_CONFIG.goldPerLevel * this.state.character.level;
+  getPendingWallet(): PendingWallet {
+    return { ...this.state.pendingWallet };
+  }
+
+  /**
+   * Take the account's gold and total XP, keeping changes it hasn't applied
+   * yet on top. Queued behind any push of pending changes still in flight.
+   */
+  adoptCloudWallet(wallet: Wallet): Promise<void> {
+    return this.queueWallet(() => this.applyCloudWallet(wallet, { gold: 0, xp: 0 }));
+  }
+
+  /**
+   * Adopt the totals `read` fetches from the account, e.g. after the server
+   * granted battle rewards. Queued so an older read can't undo a push.
+   */
+  refreshCloudWallet(read: () => Promise<Wallet | null>): Promise<boolean> {
+    return this.queueWallet(async () => {
+      const wallet = await read();
+      if (!wallet) return false;
+      await this.applyCloudWallet(wallet, { gold: 0, xp: 0 });
+      return true;
+    });
+  }
+
+  /**
+   * Hand the pending gold and XP to `apply`, which sends them to the account
+   * and answers with its totals and how much it applied. Pushes run one at a
+   * time so the same change is never sent twice.
+   */
+  settlePendingWallet(
+    apply: (pending: { gold: number; xp: number }) => Promise<{ wallet: Wallet; applied: { gold: number; xp: number } } | null>
+  ): Promise<boolean> {
+    return this.queueWallet(async () => {
+      const { gold, xp, reconciled } = this.state.pendingWallet;
+      // Old saves first need the account's totals to tell what is pending
+      if (!reconciled) return false;
+      if (gold === 0 && xp === 0) return true;
+
+      const result = await apply({ gold, xp });
+      if (!result) return false;
+      await this.applyCloudWallet(result.wallet, result.applied);
+      return true;
+    });
+  }
+
+  private queueWallet<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.walletQueue.then(task);
+    this.walletQueue = run.then(() => undefined, () => undefined);
+    return run;
+  }
+
+  /**
+   * Saves from before pending changes were tracked count whatever they have
+   * beyond the account as pending, once. XP never goes backwards.
+   */
+  private async applyCloudWallet(wallet: Wallet, applied: { gold: number; xp: number }): Promise<void> {
+    const character = this.state.character;
+    const pending = this.state.pendingWallet;
+    const localXp = cumulativeXp(character.level, character.xp);
+    let changed = applied.gold !== 0 || applied.xp !== 0;
+
+    if (!pending.reconciled) {
+      pending.gold = Math.max(0, character.gold - wallet.gold);
+      pending.xp = Math.max(0, localXp - wallet.totalXp);
+      pending.reconciled = true;
+      changed = true;
+    }
+    pending.gold -= applied.gold;
+    pending.xp -= applied.xp;
 
-      // Recalculate stats on level up
-      const classStats = CLASS_BASE_STATS[this.state.character.class];
-      this.state.character.stats = calculateStatsForLevel(classStats, this.state.character.level);
+    const accountXp = wallet.totalXp + pending.xp;
+    if (accountXp > localXp) {
+      this.gainXp(accountXp - localXp, true);
+      changed = true;
     }
+    const gold = Math.max(0, wallet.gold + pending.gold - pending.held);
+    if (gold !== character.gold) {
+      character.gold = gold;
+      changed = true;
+    }
+
+    if (changed) {
+      await this.saveState();
+    }
+  }
 
+  /**
+   * Offer the history backfill only to fresh characters that haven't imported or declined
+   */
+  shouldOfferHistoryImport(): boolean {
+    const { tracking, character } = this.state;
+    return !tracking.historyImportedAt &&
+      !tracking.historyImportDismissed &&
+      character.level === 1 &&
+      character.xp === 0;
+  }
+
+  hasImportedHistory(): boolean {
+    return !!this.state.tracking.historyImportedAt;
+  }
+
+  async dismissHistoryImport(): Promise<void> {
+    this.state.tracking.historyImportDismissed = true;
     await this.saveState();
   }
 
+  /**
+   * Award backfilled XP (already decayed/capped), record the imported commits
+   * in the ledger and remember the import happened
+   */
+  async importHistory(preview: HistoryImportPreview): Promise<void> {
+    await this.ledger.append(preview.entries);
+    this.state.tracking.historyImportedAt = new Date().toISOString();
+    await this.addXp(Math.max(0, Math.floor(preview.totalXp)));
+  }
+
   async resetState(): Promise<void> {
     this.state = getDefaultState();
     await this.saveState();
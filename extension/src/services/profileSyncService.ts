@@ -1,6 +1,18 @@
+import * as vscode from 'vscode';
 import { SupabaseClientService, DbUser } from './supabaseClient';
 import { LocalStateManager, CharacterData } from './localStateManager';
-import { xpForLevel } from '../config/classConfig';
+import type { CharacterClass } from '../types';
+import { CLASS_BASE_STATS } from '../config/classConfig';
+import { migrateLocalEconomy, pullCloudWallet } from './economyStore';
+import { appliedCosmetics } from './shopService';
+import { FIGHTER_SYNC_FUNCTION, type FighterSyncRequest, type FighterSyncResponse } from './pvpResolver';
+
+/**
+ * Whether the player opted in to publishing their git emails, which friends can read
+ */
+export function loadShareGitEmails(): boolean {
+  return vscode.workspace.getConfiguration('gitrpg.friends').get<boolean>('shareGitEmails', false);
+}
 
 export class ProfileSyncService {
   private supabase: SupabaseClientService;
@@ -11,14 +23,6 @@ export class ProfileSyncService {
     this.stateManager = stateManager;
   }
 
-  private calculateCumulativeXp(level: number, currentXp: number): number {
-    let total = currentXp;
-    for (let l = 1; l < level; l++) {
-      total += xpForLevel(l + 1);
-    }
-    return total;
-  }
-
   async syncProfileToCloud(): Promise<boolean> {
     if (!this.supabase.isAuthenticated()) {
       return false;
@@ -28,6 +32,8 @@ export class ProfileSyncService {
     if (!user) return false;
 
     const char = this.stateManager.getCharacter();
+    const { equipped } = this.stateManager.getInventory();
+    const cosmetics = appliedCosmetics(this.stateManager.getShopState());
 
     const { error } = await this.supabase.getClient()
       .from('users')
@@ -35,14 +41,11 @@ export class ProfileSyncService {
         id: user.id,
         display_name: char.name,
         character_class: char.class,
-        level: char.level,
-        total_xp: this.calculateCumulativeXp(char.level, char.xp),
-        gold: char.gold,
-        stats_max_hp: char.stats.maxHp,
-        stats_attack: char.stats.attack,
-        stats_defense: char.stats.defense,
-        stats_speed: char.stats.speed,
-        stats_crit: char.stats.critChance,
+        // Lets friends' extensions recognise us in Co-authored-by trailers.
+        // Opt-in; noreply addresses match by GitHub username without it
+        git_emails: loadShareGitEmails() ? this.stateManager.getIdentities().emails : [],
+        title_badge: cosmetics.badge,
+        sprite_recolor_hue: cosmetics.recolorHue,
         updated_at: new Date().toISOString(),
       }, {
         onConflict: 'id',
@@ -53,6 +56,27 @@ export class ProfileSyncService {
       return false;
     }
 
+    // Gold and total XP belong to the account; local changes are sent as
+    // deltas and its totals come back with whatever the server granted
+    if (!await pullCloudWallet(this.supabase, this.stateManager)) {
+      return false;
+    }
+
+    // Level, stats, talents and equipment are checked against those totals
+    // and the account's items by the server, which stores what friends fight
+    const request: FighterSyncRequest = {
+      talents: this.stateManager.getTalentRanks(),
+      equippedWeaponId: equipped.weapon,
+      equippedArmorId: equipped.armor,
+    };
+    const { data, error: syncError } = await this.supabase.getClient()
+      .functions.invoke(FIGHTER_SYNC_FUNCTION, { body: request });
+    const synced = data as FighterSyncResponse | null;
+
+    if (syncError || !synced?.success) {
+      console.error('Fighter sync error:', syncError ?? (synced && !synced.success ? synced.error : 'No response'));
+      return false;
+    }
     return true;
   }
 
@@ -66,25 +90,25 @@ export class ProfileSyncService {
       return;
     }
 
-    const localGold = this.stateManager.getCharacter().gold;
-    const cloudGold = profile.gold ?? 0;
-    const resolvedGold = Math.max(localGold, cloudGold);
-
-    // Write the resolved gold to local state
-    await this.stateManager.setGold(resolvedGold);
-
-    // Write the resolved gold to Supabase if local was higher
-    if (localGold > cloudGold) {
-      const user = this.supabase.getCurrentUser();
-      if (user) {
-        await this.supabase.getClient()
-          .from('users')
-          .update({ gold: resolvedGold })
-          .eq('id', user.id);
-      }
+    // The account's totals, plus whatever local changes it hasn't applied yet
+    await this.stateManager.adoptCloudWallet({ gold: profile.gold ?? 0, totalXp: profile.total_xp ?? 0 });
+
+    // Talents learned on another machine, filed under the class they were
+    // learned in, if this one hasn't spent any in that tree yet
+    const cloudClass = profile.character_class as CharacterClass;
+    const localTalents = this.stateManager.getTalentRanks(cloudClass);
+    if (profile.talents && CLASS_BASE_STATS[cloudClass] && Object.keys(localTalents).length === 0) {
+      await this.stateManager.saveTalentRanks(profile.talents, cloudClass);
     }
   }
 
+  /**
+   * Carry quests and workers earned while signed out into the account
+   */
+  async migrateLocalEconomy(): Promise<{ quests: number; workers: number } | null> {
+    return migrateLocalEconomy(this.supabase, this.stateManager);
+  }
+
   async getMyProfile(): Promise<DbUser | null> {
     if (!this.supabase.isAuthenticated()) {
       return null;
@@ -131,13 +155,6 @@ export class ProfileSyncService {
         avatar_url: avatarUrl,
         display_name: char.name,
         character_class: char.class,
-        level: char.level,
-        total_xp: this.calculateCumulativeXp(char.level, char.xp),
-        stats_max_hp: char.stats.maxHp,
-        stats_attack: char.stats.attack,
-        stats_defense: char.stats.defense,
-        stats_speed: char.stats.speed,
-        stats_crit: char.stats.critChance,
       })
       .select()
       .single();
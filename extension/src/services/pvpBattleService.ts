@@ -1,6 +1,17 @@
-import { SupabaseClientService, DbUser, DbBattle, dbUserToBattleFighter } from './supabaseClient';
-import { BattleEngine } from './battleEngine';
-import type { BattleFighter, BattleResult, CharacterClass } from '../types';
+import { SupabaseClientService, DbBattle } from './supabaseClient';
+import { verifyReplay } from './battleEngine';
+import type { ResolvedBattleBuffs } from './shopService';
+import {
+  GHOST_RESOLVE_FUNCTION,
+  PVP_RESOLVE_FUNCTION,
+  type GhostBattleRequest,
+  type GhostBattleResponse,
+  type GhostResolver,
+  type PvpResolver,
+  type PvpResolveRequest,
+  type PvpResolveResponse,
+} from './pvpResolver';
+import type { BattleResult, BattleRewards, BattleOutcome, CharacterClass, GhostDefense } from '../types';
 import { RealtimeChannel } from '@supabase/supabase-js';
 
 export interface PvpBattleChallenge {
@@ -16,9 +27,73 @@ export class PvpBattleService {
   private supabase: SupabaseClientService;
   private battleChannel: RealtimeChannel | null = null;
   private onChallengeCallback: ((challenge: PvpBattleChallenge) => void) | null = null;
+  private onOutcomeCallbacks: Array<(outcome: BattleOutcome) => void | Promise<void>> = [];
+  private battleBuffs: ResolvedBattleBuffs | null = null;
+  private resolver: PvpResolver;
+  private ghostResolver: GhostResolver;
 
   constructor(supabase: SupabaseClientService) {
     this.supabase = supabase;
+    this.resolver = (request) => this.invokeResolveFunction<PvpResolveResponse>(PVP_RESOLVE_FUNCTION, request);
+    this.ghostResolver = (request) => this.invokeResolveFunction<GhostBattleResponse>(GHOST_RESOLVE_FUNCTION, request);
+  }
+
+  /**
+   * Replace the edge function, e.g. with resolvePvpBattle over a local store
+   */
+  setResolver(resolver: PvpResolver): void {
+    this.resolver = resolver;
+  }
+
+  /**
+   * Replace the ghost battle edge function, e.g. with resolveGhostBattle over a local store
+   */
+  setGhostResolver(resolver: GhostResolver): void {
+    this.ghostResolver = resolver;
+  }
+
+  private async invokeResolveFunction<Res>(
+    name: string,
+    request: PvpResolveRequest | GhostBattleRequest
+  ): Promise<Res | { success: false; error: string }> {
+    const { data, error } = await this.supabase.getClient()
+      .functions.invoke(name, { body: request });
+
+    if (error || !data) {
+      return { success: false, error: error?.message || 'Battle resolution failed' };
+    }
+    return data as Res;
+  }
+
+  /**
+   * Listen for battles this client finished, e.g. to progress quests
+   */
+  onBattleOutcome(callback: (outcome: BattleOutcome) => void | Promise<void>): () => void {
+    this.onOutcomeCallbacks.push(callback);
+    return () => {
+      const index = this.onOutcomeCallbacks.indexOf(callback);
+      if (index > -1) {
+        this.onOutcomeCallbacks.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Source of the local player's readied consumable, sent along with
+   * challenges this client accepts and ghosts it fights
+   */
+  setBattleBuffs(buffs: ResolvedBattleBuffs): void {
+    this.battleBuffs = buffs;
+  }
+
+  private async notifyOutcome(outcome: BattleOutcome): Promise<void> {
+    for (const callback of this.onOutcomeCallbacks) {
+      try {
+        await callback(outcome);
+      } catch (error) {
+        console.error('Battle outcome listener error:', error);
+      }
+    }
   }
 
   async challengeFriend(friendId: string): Promise<{ success: boolean; battleId?: string; error?: string }> {
@@ -96,6 +171,10 @@ export class PvpBattleService {
     }));
   }
 
+  /**
+   * Accept a challenge. The battle is run and both players' rewards are
+   * applied server-side; this client only learns the result.
+   */
   async acceptChallenge(battleId: string): Promise<BattleResult | null> {
     if (!this.supabase.isAuthenticated()) {
       return null;
@@ -104,93 +183,149 @@ export class PvpBattleService {
     const user = this.supabase.getCurrentUser();
     if (!user) return null;
 
-    // Atomically claim this battle (double-accept guard)
-    const { data: claimed, error: claimError } = await this.supabase.getClient()
-      .from('battles')
-      .update({ status: 'accepted' })
-      .eq('id', battleId)
-      .eq('opponent_id', user.id)
-      .eq('status', 'pending')
-      .select()
-      .single();
+    // We are the opponent, so our readied consumable goes with the request
+    const buffItemId = this.battleBuffs?.readiedBattleBuff() ?? null;
+    const response = await this.resolver({ battleId, buffItemId });
 
-    if (claimError || !claimed) {
-      return null; // Already accepted or not found
+    if (!response.success) {
+      console.error('Resolve battle error:', response.error);
+      return null;
+    }
+    if (buffItemId) {
+      await this.battleBuffs?.battleBuffSpent(buffItemId);
     }
 
-    const { data: challengerUser } = await this.supabase.getClient()
-      .from('users')
-      .select('*')
-      .eq('id', claimed.challenger_id)
-      .single();
+    const { result } = response;
+    const won = result.winner.id === user.id;
+    await this.notifyOutcome({
+      kind: 'pvp',
+      won,
+      opponentLevel: won ? result.loser.level : result.winner.level,
+    });
 
-    const { data: opponentUser } = await this.supabase.getClient()
-      .from('users')
-      .select('*')
-      .eq('id', claimed.opponent_id)
-      .single();
+    return result;
+  }
 
-    if (!challengerUser || !opponentUser) {
-      return null;
+  /**
+   * Fight a friend's or ladder player's stored stats without them being
+   * online. Our readied consumable goes with the request.
+   */
+  async fightGhost(opponentId: string): Promise<{
+    success: boolean;
+    result?: BattleResult;
+    earned?: BattleRewards;
+    error?: string;
+  }> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const buffItemId = this.battleBuffs?.readiedBattleBuff() ?? null;
+    const response = await this.ghostResolver({ opponentId, buffItemId });
+    if (!response.success) {
+      return { success: false, error: response.error };
+    }
+    if (buffItemId) {
+      await this.battleBuffs?.battleBuffSpent(buffItemId);
     }
 
-    // Create fighters from user data
-    const challenger = dbUserToBattleFighter(challengerUser as DbUser) as BattleFighter;
-    const opponent = dbUserToBattleFighter(opponentUser as DbUser) as BattleFighter;
+    const { result, earned } = response;
+    const won = result.winner.id === user.id;
+    await this.notifyOutcome({
+      kind: 'pvp',
+      won,
+      opponentLevel: won ? result.loser.level : result.winner.level,
+    });
+
+    return { success: true, result, earned };
+  }
 
-    // Run the battle
-    const engine = new BattleEngine(challenger, opponent);
-    const result = engine.runBattle();
+  /**
+   * Count challenges we sent that have since been fought, e.g. towards
+   * quests. Each result is stamped seen as it's fetched, so only one window
+   * counts it. Returns how many were counted.
+   */
+  async collectChallengeResults(): Promise<number> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) return 0;
 
-    // Update battle record with engine-calculated rewards
-    const { error: updateError } = await this.supabase.getClient()
+    const { data, error } = await this.supabase.getClient()
       .from('battles')
-      .update({
-        status: 'completed',
-        battle_log: result.actions,
-        winner_id: result.winner.id,
-        rewards: result.rewards,
-        completed_at: new Date().toISOString(),
-      })
-      .eq('id', battleId);
+      .update({ challenger_seen_at: new Date().toISOString() })
+      .eq('challenger_id', user.id)
+      .eq('mode', 'live')
+      .eq('status', 'completed')
+      .is('challenger_seen_at', null)
+      .select('winner_id, fighters');
 
-    if (updateError) {
-      console.error('Update battle error:', updateError);
+    if (error) {
+      console.error('Collect challenge results error:', error);
+      return 0;
     }
 
-    // Apply rewards to winner (full rewards) and loser (25%)
-    const winnerId = result.winner.id;
-    const loserId = winnerId === challengerUser.id ? opponentUser.id : challengerUser.id;
-    const winnerRow = winnerId === challengerUser.id ? challengerUser : opponentUser;
-    const loserRow = winnerId === challengerUser.id ? opponentUser : challengerUser;
-
-    const { error: winnerError } = await this.supabase.getClient()
-      .from('users')
-      .update({
-        total_xp: (winnerRow as any).total_xp + result.rewards.xp,
-        gold: (winnerRow as any).gold + result.rewards.gold,
-      })
-      .eq('id', winnerId);
-
-    if (winnerError) {
-      console.error('Update winner rewards error:', winnerError);
+    const battles = (data || []) as Pick<DbBattle, 'winner_id' | 'fighters'>[];
+    for (const battle of battles) {
+      await this.notifyOutcome({
+        kind: 'pvp',
+        won: battle.winner_id === user.id,
+        opponentLevel: battle.fighters?.fighter2.level,
+      });
     }
+    return battles.length;
+  }
 
-    const { error: loserError } = await this.supabase.getClient()
-      .from('users')
-      .update({
-        total_xp: (loserRow as any).total_xp + Math.floor(result.rewards.xp * 0.25),
-        gold: (loserRow as any).gold + Math.floor(result.rewards.gold * 0.25),
-      })
-      .eq('id', loserId);
+  /**
+   * Ghost battles fought against us that we haven't been told about yet
+   */
+  async getUnseenGhostDefenses(): Promise<GhostDefense[]> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) return [];
+
+    const { data, error } = await this.supabase.getClient()
+      .from('battles')
+      .select(`
+        id,
+        winner_id,
+        completed_at,
+        challenger:users!battles_challenger_id_fkey(display_name)
+      `)
+      .eq('opponent_id', user.id)
+      .eq('mode', 'ghost')
+      .is('defender_seen_at', null)
+      .order('completed_at', { ascending: true });
 
-    if (loserError) {
-      console.error('Update loser rewards error:', loserError);
+    if (error) {
+      console.error('Get ghost defenses error:', error);
+      return [];
     }
 
-    return result;
+    return (data || []).map((b: any) => ({
+      battleId: b.id,
+      attackerName: b.challenger?.display_name ?? 'Someone',
+      won: b.winner_id === user.id,
+      completedAt: b.completed_at,
+    }));
   }
 
+  async markGhostDefensesSeen(battleIds: string[]): Promise<void> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user || battleIds.length === 0) return;
+
+    const { error } = await this.supabase.getClient()
+      .from('battles')
+      .update({ defender_seen_at: new Date().toISOString() })
+      .in('id', battleIds)
+      .eq('opponent_id', user.id);
+
+    if (error) {
+      console.error('Mark ghost defenses seen error:', error);
+    }
+  }
+
+  /**
+   * Decline a challenge that is still pending; resolved battles stay as they are
+   */
   async declineChallenge(battleId: string): Promise<boolean> {
     if (!this.supabase.isAuthenticated()) {
       return false;
@@ -203,7 +338,8 @@ export class PvpBattleService {
       .from('battles')
       .update({ status: 'declined' })
       .eq('id', battleId)
-      .eq('opponent_id', user.id);
+      .eq('opponent_id', user.id)
+      .eq('status', 'pending');
 
     return !error;
   }
@@ -232,6 +368,27 @@ export class PvpBattleService {
     return data as DbBattle[];
   }
 
+  /**
+   * Re-run a completed battle from its seed and fighter snapshots and check
+   * it reproduces the stored log. Battles from before seeds were stored, or
+   * fought on another engine version, can't be verified.
+   */
+  verifyBattle(battle: DbBattle): boolean {
+    if (battle.seed === null || battle.engine_version === null || !battle.fighters) {
+      return false;
+    }
+
+    try {
+      return verifyReplay(
+        { seed: battle.seed, engineVersion: battle.engine_version, ...battle.fighters },
+        battle.battle_log ?? []
+      );
+    } catch (error) {
+      console.error('Verify battle error:', error);
+      return false;
+    }
+  }
+
   subscribeToChallenges(onChallenge: (challenge: PvpBattleChallenge) => void): void {
     if (!this.supabase.isAuthenticated()) return;
 
@@ -251,6 +408,9 @@ export class PvpBattleService {
           filter: `opponent_id=eq.${user.id}`,
         },
         async (payload) => {
+          // Ghost battles against us arrive already completed; they aren't challenges
+          if (payload.new.status !== 'pending' || payload.new.mode === 'ghost') return;
+
           const { data: challenger } = await this.supabase.getClient()
             .from('users')
             .select('display_name, character_class, level')
@@ -269,6 +429,20 @@ export class PvpBattleService {
           }
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'battles',
+          filter: `challenger_id=eq.${user.id}`,
+        },
+        async (payload) => {
+          // A challenge we sent was accepted and fought
+          if (payload.new.status !== 'completed' || payload.new.mode === 'ghost' || payload.new.challenger_seen_at) return;
+          await this.collectChallengeResults();
+        }
+      )
       .subscribe();
   }
 
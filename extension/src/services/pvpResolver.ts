@@ -0,0 +1,62 @@
+import type { BattleResult, BattleRewards } from '../types';
+
+// What the extension and the battle edge functions exchange. The handlers
+// live in supabase/functions and don't ship with the extension.
+
+// Edge function that resolves PvP battles; it runs resolvePvpBattle with the caller's id
+export const PVP_RESOLVE_FUNCTION = 'resolve-pvp-battle';
+
+// Edge function that resolves ghost battles; it runs resolveGhostBattle with the caller's id
+export const GHOST_RESOLVE_FUNCTION = 'resolve-ghost-battle';
+
+/**
+ * What the accepting client sends: the battle and the id of a readied shop
+ * consumable, which the server checks they own and uses up. Stats always
+ * come from the users table.
+ */
+export interface PvpResolveRequest {
+  battleId: string;
+  buffItemId: string | null;
+}
+
+export type PvpResolveResponse =
+  | { success: true; result: BattleResult }
+  | { success: false; error: string };
+
+/**
+ * Sends a request to whatever resolves battles: the edge function in
+ * production, resolvePvpBattle over a LocalPvpBattleStore in tests
+ */
+export type PvpResolver = (request: PvpResolveRequest) => Promise<PvpResolveResponse>;
+
+/**
+ * Ghost battle the attacking client asks for; the opponent doesn't take part
+ */
+export interface GhostBattleRequest {
+  opponentId: string;
+  buffItemId: string | null;
+}
+
+export type GhostBattleResponse =
+  | { success: true; battleId: string; result: BattleResult; earned: BattleRewards }
+  | { success: false; error: string };
+
+export type GhostResolver = (request: GhostBattleRequest) => Promise<GhostBattleResponse>;
+
+// Edge function that stores the fighter friends battle against; it runs syncFighter with the caller's id
+export const FIGHTER_SYNC_FUNCTION = 'sync-fighter';
+
+/**
+ * Talents and equipment the player picked. The server keeps the talents only
+ * if their level earned them and each item only if they own it, and sets
+ * level and stats from their total XP.
+ */
+export interface FighterSyncRequest {
+  talents: Record<string, number>;
+  equippedWeaponId: string | null;
+  equippedArmorId: string | null;
+}
+
+export type FighterSyncResponse =
+  | { success: true; level: number }
+  | { success: false; error: string };
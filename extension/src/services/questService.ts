@@ -1,129 +1,311 @@
 import { SupabaseClientService } from './supabaseClient';
+import { selectEconomyStore, type EconomyStore } from './economyStore';
 import { LocalStateManager } from './localStateManager';
-import { Quest, QuestStatus, DAILY_QUEST_TEMPLATES } from '../types';
+import { lootSourceForQuest, type InventoryService } from './inventoryService';
+import {
+  STREAK_CONFIG,
+  WEEKLY_QUEST_TEMPLATES,
+  MONTHLY_QUEST_TEMPLATES,
+  QUEST_REROLL_COST,
+  QUEST_CHAINS,
+} from '../config/classConfig';
+import { nextMilestone } from './streakTracker';
+import {
+  Quest,
+  QuestStatus,
+  QuestTier,
+  QuestTemplate,
+  QuestSchedule,
+  QuestChain,
+  QuestRequirementType,
+  CommitCategory,
+  CommitCategoryCounts,
+  ActivityEventKind,
+  ActivityEventCounts,
+  BattleWinCounts,
+  DAILY_QUEST_TEMPLATES,
+} from '../types';
 
 export const DAILY_QUEST_COUNT = 3;
+export const WEEKLY_QUEST_COUNT = 2;
+export const MONTHLY_QUEST_COUNT = 1;
+
+const QUEST_TIERS: QuestTier[] = ['daily', 'weekly', 'monthly'];
+
+const TIER_POOLS: Record<QuestTier, { templates: QuestTemplate[]; count: number }> = {
+  daily: { templates: DAILY_QUEST_TEMPLATES, count: DAILY_QUEST_COUNT },
+  weekly: { templates: WEEKLY_QUEST_TEMPLATES, count: WEEKLY_QUEST_COUNT },
+  monthly: { templates: MONTHLY_QUEST_TEMPLATES, count: MONTHLY_QUEST_COUNT },
+};
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X'];
+
+// Quest requirements counted from today's Conventional Commit categories
+const CATEGORY_REQUIREMENTS: Partial<Record<QuestRequirementType, CommitCategory>> = {
+  features_shipped: 'feat',
+  bugs_fixed: 'fix',
+  test_commits: 'test',
+  docs_commits: 'docs',
+  refactor_commits: 'refactor',
+  perf_commits: 'perf',
+};
+
+// Quest requirements counted from today's editor activity events
+const EVENT_REQUIREMENTS: Partial<Record<QuestRequirementType, ActivityEventKind>> = {
+  test_runs: 'test_run',
+  errors_fixed: 'diagnostics_cleared',
+  lint_fixes: 'lint_fix',
+  reviews_given: 'review_given',
+};
+
+export function isQuestTier(questType: string): questType is QuestTier {
+  return (QUEST_TIERS as string[]).includes(questType);
+}
+
+/**
+ * Start of the period containing `date` (UTC). Weeks are ISO weeks starting Monday.
+ */
+export function questPeriodStart(tier: QuestTier, date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (tier === 'weekly') {
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  } else if (tier === 'monthly') {
+    start.setUTCDate(1);
+  }
+  return start;
+}
+
+/**
+ * Last millisecond of the period containing `date` (UTC)
+ */
+export function questPeriodEnd(tier: QuestTier, date: Date): Date {
+  const next = questPeriodStart(tier, date);
+  if (tier === 'daily') {
+    next.setUTCDate(next.getUTCDate() + 1);
+  } else if (tier === 'weekly') {
+    next.setUTCDate(next.getUTCDate() + 7);
+  } else {
+    next.setUTCMonth(next.getUTCMonth() + 1);
+  }
+  return new Date(next.getTime() - 1);
+}
+
+/**
+ * Key stored on the user row for the period containing `date`:
+ * YYYY-MM-DD, YYYY-Www (ISO week) or YYYY-MM
+ */
+export function questPeriodKey(tier: QuestTier, date: Date): string {
+  const start = questPeriodStart(tier, date);
+  if (tier === 'daily') {
+    return start.toISOString().slice(0, 10);
+  }
+  if (tier === 'monthly') {
+    return start.toISOString().slice(0, 7);
+  }
+
+  // The ISO week belongs to the year its Thursday falls in
+  const thursday = new Date(start);
+  thursday.setUTCDate(start.getUTCDate() + 3);
+  const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+  const week = Math.floor((thursday.getTime() - yearStart) / 86400000 / 7) + 1;
+  return `${thursday.getUTCFullYear()}-W${week.toString().padStart(2, '0')}`;
+}
+
+interface QuestProgressStats {
+  commits: number;
+  linesAdded: number;
+  filesChanged: number;
+  categories?: CommitCategoryCounts;
+  coAuthoredCommits?: number;
+  events?: ActivityEventCounts;
+  battlesWon?: BattleWinCounts;
+}
 
 export class QuestService {
+  private inventoryService: InventoryService | null = null;
+
   constructor(private supabase: SupabaseClientService, private stateManager?: LocalStateManager) {}
 
+  setInventoryService(service: InventoryService): void {
+    this.inventoryService = service;
+  }
+
+  /**
+   * Supabase when signed in, local quests otherwise
+   */
+  private getStore(): EconomyStore | null {
+    return selectEconomyStore(this.supabase, this.stateManager);
+  }
+
   /**
    * Get all active quests for the current user
    */
   async getActiveQuests(): Promise<Quest[]> {
-    const client = this.supabase.getClient();
-    const user = this.supabase.getCurrentUser();
-    if (!user) return [];
-
-    const { data, error } = await client
-      .from('user_quests')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('status', 'active')
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching quests:', error);
-      return [];
-    }
+    const store = this.getStore();
+    if (!store) return [];
 
-    return data || [];
+    return store.listQuests({ status: ['active'] });
   }
 
   /**
    * Get all quests (including completed) for the current user
    */
   async getAllQuests(): Promise<Quest[]> {
-    const client = this.supabase.getClient();
-    const user = this.supabase.getCurrentUser();
-    if (!user) return [];
-
-    const { data, error } = await client
-      .from('user_quests')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching quests:', error);
-      return [];
-    }
+    const store = this.getStore();
+    if (!store) return [];
 
-    return data || [];
+    return store.listQuests();
   }
 
   /**
-   * Check if daily quests need to be refreshed and generate new ones if so
+   * Replace daily, weekly and monthly quests whose period has rolled over,
+   * and make sure the streak quest and quest chains are going
    */
-  async refreshDailyQuestsIfNeeded(): Promise<Quest[]> {
-    const client = this.supabase.getClient();
-    const user = this.supabase.getCurrentUser();
-    if (!user) return [];
-
-    // Get user's last refresh date
-    const { data: userData } = await client
-      .from('users')
-      .select('last_quest_refresh')
-      .eq('id', user.id)
-      .single();
-
-    const today = new Date().toISOString().split('T')[0];
-    const lastRefresh = userData?.last_quest_refresh;
-
-    if (lastRefresh === today) {
-      // Already refreshed today, return existing quests
-      return this.getActiveQuests();
+  async refreshQuestsIfNeeded(): Promise<Quest[]> {
+    const store = this.getStore();
+    if (!store) return [];
+
+    // Get the periods each tier was last refreshed for
+    const schedule = await store.getQuestSchedule();
+
+    // Streak quests and chains don't expire, so they're kept going alongside the tiers
+    await this.ensureStreakQuest(store);
+    await this.ensureQuestChains(store);
+
+    const now = new Date();
+    const refreshed: Partial<QuestSchedule> = {};
+
+    for (const tier of QUEST_TIERS) {
+      const period = questPeriodKey(tier, now);
+      if (schedule[tier] === period) continue;
+
+      // Delete the previous period's quests
+      await store.deleteQuests({ questType: tier, status: ['active', 'expired'] });
+
+      const inserted = await store.insertQuests(
+        this.generateQuests(store.userId, tier, TIER_POOLS[tier].count, now)
+      );
+      if (!inserted) continue;
+      refreshed[tier] = period;
     }
 
-    // Delete old daily quests
-    await client
-      .from('user_quests')
-      .delete()
-      .eq('user_id', user.id)
-      .eq('quest_type', 'daily')
-      .in('status', ['active', 'expired']);
-
-    // Generate new daily quests
-    const newQuests = this.generateDailyQuests(user.id);
-
-    // Insert new quests
-    const { data: insertedQuests, error } = await client
-      .from('user_quests')
-      .insert(newQuests)
-      .select();
-
-    if (error) {
-      console.error('Error inserting quests:', error);
-      return [];
+    if (Object.keys(refreshed).length > 0) {
+      await store.updateQuestSchedule(refreshed);
     }
 
-    // Update last refresh date
-    await client
-      .from('users')
-      .update({ last_quest_refresh: today })
-      .eq('id', user.id);
+    return this.getActiveQuests();
+  }
+
+  /**
+   * Create a streak quest targeting the next streak milestone unless one is
+   * already active or waiting to be claimed
+   */
+  private async ensureStreakQuest(store: EconomyStore): Promise<void> {
+    if (!this.stateManager) return;
+
+    const existing = await store.listQuests({ questType: 'streak', status: ['active', 'completed'] });
+    if (existing.length > 0) return;
+
+    const current = this.stateManager.getStreak().current;
+    const target = nextMilestone(current) ?? current + 30;
+
+    await store.insertQuests([{
+      user_id: store.userId,
+      quest_type: 'streak',
+      title: 'Streak Keeper',
+      description: `Keep a ${target}-day coding streak`,
+      requirement_type: 'streak_days',
+      requirement_target: target,
+      requirement_current: current,
+      reward_xp: target * STREAK_CONFIG.questXpPerDay,
+      reward_gold: target * STREAK_CONFIG.questGoldPerDay,
+      status: 'active',
+      expires_at: null,
+      completed_at: null,
+      chain_id: null,
+      chain_step: null,
+    }]);
+  }
+
+  /**
+   * Start every quest chain the user hasn't begun yet
+   */
+  private async ensureQuestChains(store: EconomyStore): Promise<void> {
+    const existing = await store.listQuests({ questType: 'chain' });
+    const started = new Set(existing.map(q => q.chain_id));
+
+    const firstSteps = QUEST_CHAINS
+      .filter(chain => !started.has(chain.id))
+      .map(chain => this.buildChainQuest(store.userId, chain, 0))
+      .filter((q): q is Omit<Quest, 'id' | 'created_at'> => q !== null);
+
+    if (firstSteps.length === 0) return;
+
+    await store.insertQuests(firstSteps);
+  }
+
+  private buildChainQuest(userId: string, chain: QuestChain, step: number): Omit<Quest, 'id' | 'created_at'> | null {
+    const definition = chain.steps[step];
+    if (!definition) return null;
+
+    return {
+      user_id: userId,
+      quest_type: 'chain',
+      title: `${chain.name} ${ROMAN_NUMERALS[step] ?? step + 1}`,
+      description: definition.description.replace('{target}', definition.target.toString()),
+      requirement_type: definition.type,
+      requirement_target: definition.target,
+      requirement_current: 0,
+      reward_xp: definition.xp,
+      reward_gold: definition.gold,
+      status: 'active',
+      expires_at: null,
+      completed_at: null,
+      chain_id: chain.id,
+      chain_step: step,
+    };
+  }
+
+  /**
+   * Insert the step after a completed chain quest, unless it already exists
+   */
+  private async unlockNextChainStep(store: EconomyStore, quest: Quest): Promise<Quest | null> {
+    const chain = QUEST_CHAINS.find(c => c.id === quest.chain_id);
+    if (!chain || quest.chain_step === null) return null;
+
+    const next = this.buildChainQuest(store.userId, chain, quest.chain_step + 1);
+    if (!next || next.chain_step === null) return null;
+
+    const existing = await store.listQuests({ chainId: chain.id, chainStep: next.chain_step });
+    if (existing.length > 0) return null;
 
-    return insertedQuests || [];
+    const inserted = await store.insertQuests([next]);
+    return inserted?.[0] ?? null;
   }
 
   /**
-   * Generate random daily quests from templates
+   * Generate random quests for a tier from its template pool, skipping
+   * templates whose titles are in `excludeTitles`
    */
-  private generateDailyQuests(userId: string): Omit<Quest, 'id' | 'created_at'>[] {
+  private generateQuests(
+    userId: string,
+    tier: QuestTier,
+    count: number,
+    now: Date,
+    excludeTitles: string[] = []
+  ): Omit<Quest, 'id' | 'created_at'>[] {
+    const templates = TIER_POOLS[tier].templates.filter(t => !excludeTitles.includes(t.title));
     const quests: Omit<Quest, 'id' | 'created_at'>[] = [];
     const usedTemplates = new Set<number>();
+    const expiresAt = questPeriodEnd(tier, now).toISOString();
 
-    // End of day
-    const endOfDay = new Date();
-    endOfDay.setHours(23, 59, 59, 999);
-
-    while (quests.length < DAILY_QUEST_COUNT && usedTemplates.size < DAILY_QUEST_TEMPLATES.length) {
-      const templateIndex = Math.floor(Math.random() * DAILY_QUEST_TEMPLATES.length);
+    while (quests.length < count && usedTemplates.size < templates.length) {
+      const templateIndex = Math.floor(Math.random() * templates.length);
 
       if (usedTemplates.has(templateIndex)) continue;
       usedTemplates.add(templateIndex);
 
-      const template = DAILY_QUEST_TEMPLATES[templateIndex];
+      const template = templates[templateIndex];
       if (!template) continue;
 
       const minTarget = template.targetRange[0];
@@ -132,7 +314,7 @@ export class QuestService {
 
       quests.push({
         user_id: userId,
-        quest_type: 'daily',
+        quest_type: tier,
         title: template.title,
         description: template.description.replace('{target}', target.toString()),
         requirement_type: template.type,
@@ -141,28 +323,46 @@ export class QuestService {
         reward_xp: template.xp,
         reward_gold: template.gold,
         status: 'active',
-        expires_at: endOfDay.toISOString(),
+        expires_at: expiresAt,
         completed_at: null,
+        chain_id: null,
+        chain_step: null,
       });
     }
 
     return quests;
   }
 
+  /**
+   * Stats a quest's progress is measured against: today's for dailies, the
+   * ledger since the period started (or the chain step unlocked) otherwise
+   */
+  private statsForQuest(quest: Quest, today: QuestProgressStats): QuestProgressStats | null {
+    if (quest.quest_type === 'weekly' || quest.quest_type === 'monthly') {
+      if (!this.stateManager) return null;
+      return this.stateManager.getActivitySince(questPeriodStart(quest.quest_type, new Date()));
+    }
+    if (quest.quest_type === 'chain') {
+      if (!this.stateManager) return null;
+      return this.stateManager.getActivitySince(new Date(quest.created_at));
+    }
+    return today;
+  }
+
   /**
    * Update quest progress based on activity stats
    */
-  async updateQuestProgress(stats: { commits: number; linesAdded: number; filesChanged: number }): Promise<Quest[]> {
-    const client = this.supabase.getClient();
-    const user = this.supabase.getCurrentUser();
-    if (!user) return [];
+  async updateQuestProgress(todayStats: QuestProgressStats): Promise<Quest[]> {
+    const store = this.getStore();
+    if (!store) return [];
 
-    const activeQuests = await this.getActiveQuests();
+    const activeQuests = await store.listQuests({ status: ['active'] });
     const completedQuests: Quest[] = [];
 
     for (const quest of activeQuests) {
       let current = quest.requirement_current;
-
+      const stats = this.statsForQuest(quest, todayStats);
+      if (!stats) continue;
       switch (quest.requirement_type) {
         case 'commits':
           current = stats.commits;
@@ -173,25 +373,50 @@ export class QuestService {
         case 'files_changed':
           current = stats.filesChanged;
           break;
-        default:
-          continue;
+        case 'coauthored_commits':
+          current = stats.coAuthoredCommits ?? 0;
+          break;
+        case 'battles_won':
+          current = (stats.battlesWon?.pvp ?? 0) + (stats.battlesWon?.boss ?? 0);
+          break;
+        case 'pvp_wins':
+          current = stats.battlesWon?.pvp ?? 0;
+          break;
+        case 'coop_boss_wins':
+          current = stats.battlesWon?.coopBoss ?? 0;
+          break;
+        case 'streak_days':
+          if (!this.stateManager) continue;
+          current = this.stateManager.getStreak().current;
+          break;
+        default: {
+          const category = CATEGORY_REQUIREMENTS[quest.requirement_type];
+          const eventKind = EVENT_REQUIREMENTS[quest.requirement_type];
+          if (category) {
+            current = stats.categories?.[category] ?? 0;
+          } else if (eventKind) {
+            current = stats.events?.[eventKind] ?? 0;
+          } else {
+            continue;
+          }
+        }
       }
 
       const isCompleted = current >= quest.requirement_target;
       const newStatus: QuestStatus = isCompleted ? 'completed' : 'active';
 
       if (current !== quest.requirement_current || isCompleted) {
-        await client
-          .from('user_quests')
-          .update({
-            requirement_current: current,
-            status: newStatus,
-            completed_at: isCompleted ? new Date().toISOString() : null,
-          })
-          .eq('id', quest.id);
+        await store.updateQuest(quest.id, {
+          requirement_current: current,
+          status: newStatus,
+          completed_at: isCompleted ? new Date().toISOString() : null,
+        });
 
         if (isCompleted && quest.status !== 'completed') {
           completedQuests.push({ ...quest, requirement_current: current, status: 'completed' });
+          if (quest.quest_type === 'chain') {
+            await this.unlockNextChainStep(store, quest);
+          }
         }
       }
     }
@@ -199,76 +424,119 @@ export class QuestService {
     return completedQuests;
   }
 
+  /**
+   * Update quest progress from today's local stats
+   */
+  async updateTodayProgress(): Promise<Quest[]> {
+    if (!this.stateManager) return [];
+
+    const todayStats = this.stateManager.getTodayStats();
+    return this.updateQuestProgress({
+      commits: todayStats.commits,
+      linesAdded: todayStats.linesAdded,
+      filesChanged: todayStats.filesChanged,
+      categories: todayStats.categories,
+      coAuthoredCommits: todayStats.coAuthoredCommits,
+      events: todayStats.events,
+      battlesWon: todayStats.battlesWon,
+    });
+  }
+
   /**
    * Claim rewards for a completed quest
    */
   async claimQuestReward(questId: string): Promise<{ xp: number; gold: number } | null> {
-    const client = this.supabase.getClient();
-    const user = this.supabase.getCurrentUser();
-    if (!user) return null;
+    const store = this.getStore();
+    if (!store) return null;
 
     // Get the quest
-    const { data: quest, error } = await client
-      .from('user_quests')
-      .select('*')
-      .eq('id', questId)
-      .eq('user_id', user.id)
-      .eq('status', 'completed')
-      .single();
-
-    if (error || !quest) {
-      console.error('Quest not found or not completed:', error);
+    const [quest] = await store.listQuests({ id: questId, status: ['completed'] });
+    if (!quest) {
+      console.error('Quest not found or not completed:', questId);
       return null;
     }
 
     // Mark as claimed
-    await client
-      .from('user_quests')
-      .update({ status: 'claimed' })
-      .eq('id', questId);
-
-    // Add gold to user
-    const { data: userData } = await client
-      .from('users')
-      .select('gold, total_xp')
-      .eq('id', user.id)
-      .single();
-
-    const currentGold = userData?.gold || 0;
-    const currentXp = userData?.total_xp || 0;
-
-    await client
-      .from('users')
-      .update({
-        gold: currentGold + quest.reward_gold,
-        total_xp: currentXp + quest.reward_xp,
-      })
-      .eq('id', user.id);
-
-    // Update local state
+    await store.updateQuest(questId, { status: 'claimed' });
+
+    // Earned locally; the profile sync passes it on to the account
     if (this.stateManager) {
       await this.stateManager.addGold(quest.reward_gold);
       await this.stateManager.addXp(quest.reward_xp);
     }
 
+    // Claimed quests may also drop an item
+    await this.inventoryService?.grantLoot(lootSourceForQuest(quest.quest_type));
+
     return { xp: quest.reward_xp, gold: quest.reward_gold };
   }
 
+  /**
+   * Swap an active daily, weekly or monthly quest for a different one from
+   * the same pool. Costs gold and is limited to one reroll per day.
+   */
+  async rerollQuest(questId: string): Promise<{ success: boolean; quest?: Quest; error?: string }> {
+    const store = this.getStore();
+    if (!store) return { success: false, error: 'Not authenticated' };
+
+    const [quest] = await store.listQuests({ id: questId, status: ['active'] });
+    if (!quest) {
+      return { success: false, error: 'Quest not found or no longer active' };
+    }
+
+    const tier = quest.quest_type;
+    if (!isQuestTier(tier)) {
+      return { success: false, error: 'Only daily, weekly and monthly quests can be rerolled' };
+    }
+
+    const now = new Date();
+    const today = questPeriodKey('daily', now);
+    const cost = QUEST_REROLL_COST[tier];
+
+    const schedule = await store.getQuestSchedule();
+    if (schedule.lastReroll === today) {
+      return { success: false, error: 'You have already rerolled a quest today' };
+    }
+
+    const { gold: currentGold } = await store.getWallet();
+    if (currentGold < cost) {
+      return { success: false, error: `Not enough gold. Need ${cost}, have ${currentGold}` };
+    }
+
+    // Never roll a quest the player already has in this tier
+    const activeTitles = (await this.getActiveQuests())
+      .filter(q => q.quest_type === tier)
+      .map(q => q.title);
+    const [replacement] = this.generateQuests(store.userId, tier, 1, now, activeTitles);
+    if (!replacement) {
+      return { success: false, error: `No other ${tier} quests to roll` };
+    }
+
+    // Roll the replacement before paying, so a failure never needs a refund
+    const inserted = (await store.insertQuests([replacement]))?.[0];
+    if (!inserted) {
+      return { success: false, error: 'Failed to reroll quest' };
+    }
+
+    if (!await store.spendGold(cost)) {
+      await store.deleteQuests({ id: inserted.id });
+      return { success: false, error: 'Failed to pay for reroll' };
+    }
+
+    // Use up today's reroll and drop the old quest
+    await store.updateQuestSchedule({ lastReroll: today });
+    await store.deleteQuests({ id: questId });
+
+    return { success: true, quest: inserted };
+  }
+
   /**
    * Expire old quests that are past their expiration date
    */
   async expireOldQuests(): Promise<void> {
-    const client = this.supabase.getClient();
-    const user = this.supabase.getCurrentUser();
-    if (!user) return;
-
-    const now = new Date().toISOString();
-
-    await client
-      .from('user_quests')
-      .update({ status: 'expired' })
-      .eq('user_id', user.id)
-      .eq('status', 'active')
-      .lt('expires_at', now);
+    const store = this.getStore();
+    if (!store) return;
+
+    await store.expireQuests(new Date().toISOString());
   }
 }
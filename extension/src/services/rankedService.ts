@@ -0,0 +1,213 @@
+import type { SupabaseClientService, DbPvpRating, DbRatingChange } from './supabaseClient';
+import { RANKED_CONFIG, RANKED_DIVISIONS } from '../config/classConfig';
+import type { GlickoRating, LadderEntry, LadderView, RankedDivision, RankedSeason, RatingDelta } from '../types';
+
+export type { GlickoRating, LadderEntry, LadderView, RankedDivision, RankedSeason, RatingDelta } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GLICKO_Q = Math.log(10) / 400;
+
+export function getSeason(id: number): RankedSeason {
+  const epoch = new Date(`${RANKED_CONFIG.seasonEpoch}T00:00:00Z`).getTime();
+  const length = RANKED_CONFIG.seasonLengthDays * DAY_MS;
+  return {
+    id,
+    startsAt: new Date(epoch + (id - 1) * length).toISOString(),
+    endsAt: new Date(epoch + id * length).toISOString(),
+  };
+}
+
+/**
+ * Season running at `now`; dates before the first season count as season 1
+ */
+export function seasonAt(now: Date = new Date()): RankedSeason {
+  const epoch = new Date(`${RANKED_CONFIG.seasonEpoch}T00:00:00Z`).getTime();
+  const elapsed = Math.max(0, now.getTime() - epoch);
+  return getSeason(Math.floor(elapsed / (RANKED_CONFIG.seasonLengthDays * DAY_MS)) + 1);
+}
+
+export function divisionFor(rating: number): RankedDivision {
+  let division = RANKED_DIVISIONS[0];
+  for (const candidate of RANKED_DIVISIONS) {
+    if (rating >= candidate.minRating) division = candidate;
+  }
+  return division;
+}
+
+/**
+ * Rating a player starts a season with: their last season's rating pulled
+ * towards the initial one, and less certain
+ */
+export function seasonStartRating(previous: GlickoRating | null): GlickoRating {
+  if (!previous) {
+    return { rating: RANKED_CONFIG.initialRating, deviation: RANKED_CONFIG.initialDeviation };
+  }
+  return {
+    rating: Math.round(
+      RANKED_CONFIG.initialRating + (previous.rating - RANKED_CONFIG.initialRating) * RANKED_CONFIG.seasonCarryOver
+    ),
+    deviation: Math.max(previous.deviation, RANKED_CONFIG.seasonDeviation),
+  };
+}
+
+/**
+ * Deviation regained for the days since a player's last ranked battle
+ */
+export function decayDeviation(current: GlickoRating, lastPlayedAt: string | null, now: Date = new Date()): GlickoRating {
+  if (!lastPlayedAt) return current;
+
+  const days = Math.max(0, (now.getTime() - new Date(lastPlayedAt).getTime()) / DAY_MS);
+  const deviation = Math.sqrt(current.deviation ** 2 + RANKED_CONFIG.deviationGrowthPerDay ** 2 * days);
+  return { ...current, deviation: Math.min(RANKED_CONFIG.initialDeviation, deviation) };
+}
+
+function glickoG(deviation: number): number {
+  return 1 / Math.sqrt(1 + (3 * GLICKO_Q ** 2 * deviation ** 2) / Math.PI ** 2);
+}
+
+/**
+ * Chance `player` beats `opponent`
+ */
+export function expectedScore(player: GlickoRating, opponent: GlickoRating): number {
+  return 1 / (1 + 10 ** (-glickoG(opponent.deviation) * (player.rating - opponent.rating) / 400));
+}
+
+/**
+ * Glicko-1 update for one game; score is 1 for a win, 0 for a loss
+ */
+export function rateGame(player: GlickoRating, opponent: GlickoRating, score: number): GlickoRating {
+  const g = glickoG(opponent.deviation);
+  const expected = expectedScore(player, opponent);
+  const dSquaredInverse = GLICKO_Q ** 2 * g ** 2 * expected * (1 - expected);
+  const precision = 1 / player.deviation ** 2 + dSquaredInverse;
+
+  return {
+    rating: Math.round(player.rating + (GLICKO_Q / precision) * g * (score - expected)),
+    deviation: Math.max(RANKED_CONFIG.minDeviation, Math.round(Math.sqrt(1 / precision))),
+  };
+}
+
+/**
+ * Both players' ratings after a battle, each rated against the other's
+ * rating from before it
+ */
+export function rateBattle(winner: GlickoRating, loser: GlickoRating): { winner: GlickoRating; loser: GlickoRating } {
+  return {
+    winner: rateGame(winner, loser, 1),
+    loser: rateGame(loser, winner, 0),
+  };
+}
+
+// Profile columns joined onto pvp_ratings rows for the ladder
+const LADDER_USER_COLUMNS = 'user:users!pvp_ratings_user_id_fkey(display_name, character_class, level)';
+
+function toLadderEntry(row: any, rank: number, myId: string): LadderEntry {
+  return {
+    rank,
+    userId: row.user_id,
+    name: row.user?.display_name ?? 'Unknown',
+    characterClass: row.user?.character_class ?? '',
+    level: row.user?.level ?? 1,
+    rating: row.rating,
+    division: divisionFor(row.rating),
+    wins: row.wins,
+    losses: row.losses,
+    isMe: row.user_id === myId,
+  };
+}
+
+/**
+ * Reads the ladder; ratings are only ever written by the battle resolver
+ */
+export class RankedService {
+  constructor(private supabase: SupabaseClientService) {}
+
+  async getLadderView(now: Date = new Date()): Promise<LadderView | null> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) return null;
+
+    const season = seasonAt(now);
+    const client = this.supabase.getClient();
+
+    const { data: rows, error } = await client
+      .from('pvp_ratings')
+      .select(`user_id, rating, wins, losses, ${LADDER_USER_COLUMNS}`)
+      .eq('season', season.id)
+      .order('rating', { ascending: false })
+      .limit(RANKED_CONFIG.ladderSize);
+
+    if (error) {
+      console.error('Get ladder error:', error);
+      return null;
+    }
+
+    const entries = (rows || []).map((row: any, index: number) => toLadderEntry(row, index + 1, user.id));
+
+    return {
+      season,
+      me: entries.find(e => e.isMe) ?? await this.getMyEntry(user.id, season.id),
+      entries,
+      recentDeltas: await this.getRecentDeltas(user.id, season.id),
+      lastSeasonReward: season.id > 1 ? await this.getSeasonReward(user.id, season.id - 1) : null,
+    };
+  }
+
+  /**
+   * Our own ladder row when we're below the shown part of the ladder
+   */
+  private async getMyEntry(userId: string, season: number): Promise<LadderEntry | null> {
+    const client = this.supabase.getClient();
+    const { data: mine } = await client
+      .from('pvp_ratings')
+      .select(`*, ${LADDER_USER_COLUMNS}`)
+      .eq('user_id', userId)
+      .eq('season', season)
+      .maybeSingle();
+
+    if (!mine) return null;
+
+    const { count } = await client
+      .from('pvp_ratings')
+      .select('user_id', { count: 'exact', head: true })
+      .eq('season', season)
+      .gt('rating', (mine as DbPvpRating).rating);
+
+    return toLadderEntry(mine, (count ?? 0) + 1, userId);
+  }
+
+  private async getRecentDeltas(userId: string, season: number): Promise<RatingDelta[]> {
+    const { data, error } = await this.supabase.getClient()
+      .from('pvp_rating_changes')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('season', season)
+      .order('created_at', { ascending: false })
+      .limit(RANKED_CONFIG.recentDeltas);
+
+    if (error) {
+      console.error('Get rating changes error:', error);
+      return [];
+    }
+
+    return ((data || []) as DbRatingChange[]).map(change => ({
+      battleId: change.battle_id,
+      ratingBefore: change.rating_before,
+      ratingAfter: change.rating_after,
+      delta: change.rating_after - change.rating_before,
+      createdAt: change.created_at,
+    }));
+  }
+
+  private async getSeasonReward(userId: string, season: number): Promise<LadderView['lastSeasonReward']> {
+    const { data } = await this.supabase.getClient()
+      .from('pvp_ratings')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('season', season)
+      .maybeSingle();
+
+    const rating = data as DbPvpRating | null;
+    if (!rating || rating.reward_gold === null) return null;
+    return { division: divisionFor(rating.rating), gold: rating.reward_gold };
+  }
+}
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { RepoTrackingRules, RepoTrackingDecision } from '../types';
+import { resolveGitDir } from './repoWatcher';
+
+export type { RepoTrackingRules, RepoTrackingDecision } from '../types';
+
+const TRACKING_SECTION = 'gitrpg.tracking';
+
+/**
+ * Read the current `gitrpg.tracking` settings
+ */
+export function loadTrackingRules(): RepoTrackingRules {
+  const config = vscode.workspace.getConfiguration(TRACKING_SECTION);
+  return {
+    include: config.get<string[]>('include', []),
+    exclude: config.get<string[]>('exclude', []),
+    includeRemotes: config.get<string[]>('includeRemotes', []),
+    excludeRemotes: config.get<string[]>('excludeRemotes', []),
+    xpMultipliers: config.get<Record<string, number>>('xpMultipliers', {}),
+  };
+}
+
+/**
+ * Persist a new exclude list to user settings
+ */
+export async function saveExcludeList(exclude: string[]): Promise<void> {
+  await vscode.workspace
+    .getConfiguration(TRACKING_SECTION)
+    .update('exclude', exclude, vscode.ConfigurationTarget.Global);
+}
+
+function normalizePath(p: string): string {
+  return p.replace(/\\/g, '/').replace(/\/+$/, '');
+}
+
+/**
+ * Convert a glob pattern (`*`, `**`, `?`, leading `~`) to a RegExp
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let expanded = pattern.startsWith('~') ? os.homedir() + pattern.slice(1) : pattern;
+  expanded = normalizePath(expanded);
+
+  let regex = '';
+  for (let i = 0; i < expanded.length; i++) {
+    const char = expanded[i];
+    if (char === '*') {
+      if (expanded[i + 1] === '*') {
+        if (expanded[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i++;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`, 'i');
+}
+
+/**
+ * Match a repo path against a glob. Patterns without a slash match the folder name only.
+ */
+export function matchesPattern(repoPath: string, pattern: string): boolean {
+  const normalized = normalizePath(repoPath);
+  const target = pattern.includes('/') ? normalized : path.posix.basename(normalized);
+  return globToRegExp(pattern).test(target);
+}
+
+/**
+ * Match a full remote URL against a glob
+ */
+export function matchesRemote(url: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(url);
+}
+
+/**
+ * Read remote URLs straight from the repo's git config (no git process needed)
+ */
+export function getRepoRemoteUrls(repoPath: string): string[] {
+  let gitDir = resolveGitDir(repoPath);
+  if (!gitDir) return [];
+
+  try {
+    // Worktrees keep their config in the common dir
+    const commonDirFile = path.join(gitDir, 'commondir');
+    if (fs.existsSync(commonDirFile)) {
+      gitDir = path.resolve(gitDir, fs.readFileSync(commonDirFile, 'utf-8').trim());
+    }
+
+    const config = fs.readFileSync(path.join(gitDir, 'config'), 'utf-8');
+    const urls: string[] = [];
+    for (const match of config.matchAll(/^\s*url\s*=\s*(.+)$/gm)) {
+      if (match[1]) urls.push(match[1].trim());
+    }
+    return urls;
+  } catch {
+    return [];
+  }
+}
+
+function firstMatch(
+  values: string[],
+  patterns: string[],
+  matcher: (value: string, pattern: string) => boolean
+): string | null {
+  for (const pattern of patterns) {
+    if (values.some(v => matcher(v, pattern))) {
+      return pattern;
+    }
+  }
+  return null;
+}
+
+/**
+ * Decide whether a repo earns XP and with which multiplier.
+ * Exclusions always win over inclusions; the first matching multiplier pattern is used.
+ */
+export function evaluateRepo(
+  repoPath: string,
+  rules: RepoTrackingRules,
+  remoteUrls: string[] = getRepoRemoteUrls(repoPath)
+): RepoTrackingDecision {
+  const multiplierPattern = Object.keys(rules.xpMultipliers)
+    .find(pattern => matchesPattern(repoPath, pattern) || remoteUrls.some(url => matchesRemote(url, pattern)));
+  const xpMultiplier = multiplierPattern !== undefined ? (rules.xpMultipliers[multiplierPattern] ?? 1) : 1;
+
+  const excludedBy = firstMatch([repoPath], rules.exclude, matchesPattern);
+  if (excludedBy) {
+    return { tracked: false, reason: `excluded by "${excludedBy}"`, xpMultiplier };
+  }
+
+  const excludedRemote = firstMatch(remoteUrls, rules.excludeRemotes, matchesRemote);
+  if (excludedRemote) {
+    return { tracked: false, reason: `remote excluded by "${excludedRemote}"`, xpMultiplier };
+  }
+
+  if (rules.include.length > 0 && !firstMatch([repoPath], rules.include, matchesPattern)) {
+    return { tracked: false, reason: 'not in include list', xpMultiplier };
+  }
+
+  if (rules.includeRemotes.length > 0 && !firstMatch(remoteUrls, rules.includeRemotes, matchesRemote)) {
+    return { tracked: false, reason: 'no remote matches include list', xpMultiplier };
+  }
+
+  return { tracked: true, reason: 'tracked', xpMultiplier };
+}
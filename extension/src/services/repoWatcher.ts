@@ -0,0 +1,265 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/** Marker file dropped into the git dir by the optional post-commit hook */
+export const COMMIT_MARKER_FILE = 'gitrpg-commit';
+
+/** Line written into post-commit hooks so we can recognise (and remove) our own entry */
+const HOOK_SIGNATURE = '# gitrpg: commit marker';
+
+/** Files directly inside the git dir that change when a commit lands */
+const WATCHED_GIT_FILES = new Set(['HEAD', 'packed-refs', 'ORIG_HEAD', COMMIT_MARKER_FILE]);
+
+/**
+ * Resolve the real git directory for a working tree.
+ * Handles worktrees and submodules where `.git` is a file containing `gitdir: <path>`.
+ */
+export function resolveGitDir(repoPath: string): string | null {
+  const dotGit = path.join(repoPath, '.git');
+
+  try {
+    const stat = fs.statSync(dotGit);
+    if (stat.isDirectory()) {
+      return dotGit;
+    }
+
+    const content = fs.readFileSync(dotGit, 'utf-8');
+    const match = content.match(/^gitdir:\s*(.+)$/m);
+    if (match?.[1]) {
+      return path.resolve(repoPath, match[1].trim());
+    }
+  } catch {
+    // No .git entry or unreadable
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the directory holding the refs and hooks a git dir shares with
+ * its main repository. A linked worktree's git dir names it in `commondir`;
+ * any other git dir is its own.
+ */
+export function resolveCommonDir(gitDir: string): string {
+  try {
+    const commonDir = fs.readFileSync(path.join(gitDir, 'commondir'), 'utf-8').trim();
+    if (commonDir) {
+      return path.resolve(gitDir, commonDir);
+    }
+  } catch {
+    // Not a linked worktree
+  }
+
+  return gitDir;
+}
+
+/**
+ * Install (or extend) a post-commit hook that touches the GitRPG marker file.
+ * Existing hooks are preserved - our line is appended rather than overwriting them.
+ *
+ * @returns true if the hook now contains the GitRPG entry
+ */
+export function installPostCommitHook(repoPath: string): boolean {
+  const gitDir = resolveGitDir(repoPath);
+  if (!gitDir) return false;
+
+  // Worktrees run the main repository's hooks
+  const hooksDir = path.join(resolveCommonDir(gitDir), 'hooks');
+  const hookPath = path.join(hooksDir, 'post-commit');
+  const hookLine = `touch "$(git rev-parse --git-dir)/${COMMIT_MARKER_FILE}" ${HOOK_SIGNATURE}`;
+
+  try {
+    fs.mkdirSync(hooksDir, { recursive: true });
+
+    if (fs.existsSync(hookPath)) {
+      const existing = fs.readFileSync(hookPath, 'utf-8');
+      if (existing.includes(HOOK_SIGNATURE)) {
+        return true;
+      }
+      const separator = existing.endsWith('\n') ? '' : '\n';
+      fs.writeFileSync(hookPath, `${existing}${separator}${hookLine}\n`);
+    } else {
+      fs.writeFileSync(hookPath, `#!/bin/sh\n${hookLine}\n`);
+    }
+
+    fs.chmodSync(hookPath, 0o755);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Remove the GitRPG line from a repo's post-commit hook.
+ * Deletes the hook entirely if nothing but the shebang is left.
+ */
+export function uninstallPostCommitHook(repoPath: string): boolean {
+  const gitDir = resolveGitDir(repoPath);
+  if (!gitDir) return false;
+
+  const hookPath = path.join(resolveCommonDir(gitDir), 'hooks', 'post-commit');
+
+  try {
+    if (!fs.existsSync(hookPath)) return false;
+
+    const existing = fs.readFileSync(hookPath, 'utf-8');
+    if (!existing.includes(HOOK_SIGNATURE)) return false;
+
+    const remaining = existing
+      .split('\n')
+      .filter(line => !line.includes(HOOK_SIGNATURE));
+
+    const meaningful = remaining.filter(line => line.trim() && !line.startsWith('#!'));
+    if (meaningful.length === 0) {
+      fs.unlinkSync(hookPath);
+    } else {
+      fs.writeFileSync(hookPath, remaining.join('\n'));
+    }
+
+    fs.rmSync(path.join(gitDir, COMMIT_MARKER_FILE), { force: true });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * RepoWatcher observes the git internals of each tracked repository
+ * (HEAD, packed-refs, refs/heads/* and the post-commit marker file)
+ * and reports which repo changed, so only that repo needs a `git log`.
+ * Linked worktrees keep branch refs and packed-refs in the main repository's
+ * git dir, so those are watched there.
+ */
+export class RepoWatcher {
+  private watchers = new Map<string, fs.FSWatcher[]>();
+  private debounceTimers = new Map<string, NodeJS.Timeout>();
+
+  constructor(
+    private readonly onRepoChanged: (repoPath: string) => void,
+    private readonly debounceMs: number = 750
+  ) {}
+
+  /**
+   * Replace the watched set with the given repos.
+   * Repos no longer in the list are unwatched; new ones are watched.
+   */
+  sync(repoPaths: string[]): void {
+    const wanted = new Set(repoPaths);
+
+    for (const repoPath of [...this.watchers.keys()]) {
+      if (!wanted.has(repoPath)) {
+        this.unwatch(repoPath);
+      }
+    }
+
+    for (const repoPath of wanted) {
+      if (!this.watchers.has(repoPath)) {
+        this.watch(repoPath);
+      }
+    }
+  }
+
+  /**
+   * Start watching a single repo. Returns false if nothing could be watched.
+   */
+  watch(repoPath: string): boolean {
+    const gitDir = resolveGitDir(repoPath);
+    if (!gitDir) return false;
+
+    const handles: fs.FSWatcher[] = [];
+
+    // Top-level git dir: HEAD, packed-refs and the hook marker
+    const gitDirWatcher = this.tryWatch(gitDir, false, (filename) => {
+      if (!filename || WATCHED_GIT_FILES.has(path.basename(filename))) {
+        this.schedule(repoPath);
+      }
+    });
+    if (gitDirWatcher) handles.push(gitDirWatcher);
+
+    // Shared refs of a linked worktree
+    const commonDir = resolveCommonDir(gitDir);
+    if (commonDir !== gitDir) {
+      const commonDirWatcher = this.tryWatch(commonDir, false, (filename) => {
+        if (!filename || path.basename(filename) === 'packed-refs') {
+          this.schedule(repoPath);
+        }
+      });
+      if (commonDirWatcher) handles.push(commonDirWatcher);
+    }
+
+    // Branch refs, including nested names like feature/foo
+    for (const dir of new Set([gitDir, commonDir])) {
+      const headsDir = path.join(dir, 'refs', 'heads');
+      if (!fs.existsSync(headsDir)) continue;
+
+      const headsWatcher =
+        this.tryWatch(headsDir, true, () => this.schedule(repoPath)) ??
+        this.tryWatch(headsDir, false, () => this.schedule(repoPath));
+      if (headsWatcher) handles.push(headsWatcher);
+    }
+
+    if (handles.length === 0) return false;
+
+    this.watchers.set(repoPath, handles);
+    return true;
+  }
+
+  unwatch(repoPath: string): void {
+    for (const handle of this.watchers.get(repoPath) ?? []) {
+      handle.close();
+    }
+    this.watchers.delete(repoPath);
+
+    const timer = this.debounceTimers.get(repoPath);
+    if (timer) {
+      clearTimeout(timer);
+      this.debounceTimers.delete(repoPath);
+    }
+  }
+
+  isWatching(repoPath: string): boolean {
+    return this.watchers.has(repoPath);
+  }
+
+  getWatchedRepos(): string[] {
+    return [...this.watchers.keys()];
+  }
+
+  dispose(): void {
+    for (const repoPath of [...this.watchers.keys()]) {
+      this.unwatch(repoPath);
+    }
+  }
+
+  private tryWatch(
+    target: string,
+    recursive: boolean,
+    onChange: (filename: string | null) => void
+  ): fs.FSWatcher | null {
+    try {
+      const watcher = fs.watch(target, { recursive, persistent: false }, (_event, filename) => {
+        onChange(filename ? filename.toString() : null);
+      });
+      // Directory deleted or permissions changed - drop silently, polling still covers it
+      watcher.on('error', () => watcher.close());
+      return watcher;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * A single commit touches several files (index, refs, logs, HEAD), so coalesce them.
+   */
+  private schedule(repoPath: string): void {
+    const existing = this.debounceTimers.get(repoPath);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    this.debounceTimers.set(repoPath, setTimeout(() => {
+      this.debounceTimers.delete(repoPath);
+      this.onRepoChanged(repoPath);
+    }, this.debounceMs));
+  }
+}
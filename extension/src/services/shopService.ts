@@ -0,0 +1,353 @@
+import type { SupabaseClientService, DbUserShopItem } from './supabaseClient';
+import type { LocalStateManager } from './localStateManager';
+import { pushPendingWallet } from './economyStore';
+import { SHOP_ITEMS } from '../config/classConfig';
+import type { CharacterStats, ShopItem, ShopItemStatus, ShopState, XpBoost } from '../types';
+
+export type { ShopItem, ShopItemStatus, ShopState } from '../types';
+
+/**
+ * Hands a battle the local player's readied consumable, using it up
+ */
+export type BattleBuffProvider = () => Promise<Partial<CharacterStats> | null>;
+
+/**
+ * Readied consumable for battles the server resolves. The server uses it up,
+ * so the client lets go of it only once the battle went through.
+ */
+export type ResolvedBattleBuffs = Pick<ShopService, 'readiedBattleBuff' | 'battleBuffSpent'>;
+
+export function emptyShopState(): ShopState {
+  return { owned: {}, offlinePurchases: {}, offlineUses: {}, xpBoost: null, battleBuff: null, recolor: null, badge: null };
+}
+
+export function getShopItem(itemId: string | null | undefined): ShopItem | undefined {
+  return itemId ? SHOP_ITEMS.find(i => i.id === itemId) : undefined;
+}
+
+/**
+ * XP multiplier from a potion still running at `now` (1 when none is)
+ */
+export function activeXpBoostMultiplier(boost: XpBoost | null, now: Date = new Date()): number {
+  return boost && new Date(boost.expiresAt) > now ? boost.multiplier : 1;
+}
+
+/**
+ * Cosmetics are bought once; potions and consumables stack
+ */
+export function isStackable(item: ShopItem): boolean {
+  return item.category === 'potion' || item.category === 'consumable';
+}
+
+/**
+ * Why an item can't be bought right now, or null if it can
+ */
+export function purchaseBlocker(item: ShopItem, owned: number, gold: number): string | null {
+  if (!isStackable(item) && owned > 0) {
+    return `You already own ${item.name}`;
+  }
+  if (gold < item.price) {
+    return `Not enough gold. Need ${item.price}, have ${gold}`;
+  }
+  return null;
+}
+
+/**
+ * Shop state after using or applying an item, or an error explaining why it
+ * can't be. Potions start a boost, consumables are readied for the next
+ * battle, and cosmetics toggle on and off.
+ */
+export function useShopItem(
+  state: ShopState,
+  item: ShopItem,
+  now: Date = new Date()
+): { state: ShopState; error?: undefined } | { state?: undefined; error: string } {
+  const owned = state.owned[item.id] ?? 0;
+  if (owned === 0) {
+    return { error: `You don't own ${item.name}` };
+  }
+
+  const next: ShopState = { ...state, owned: { ...state.owned } };
+  const consume = () => {
+    next.owned[item.id] = owned - 1;
+  };
+
+  switch (item.effect.kind) {
+    case 'xp_boost':
+      if (activeXpBoostMultiplier(state.xpBoost, now) > 1) {
+        return { error: 'An XP boost is already active' };
+      }
+      consume();
+      next.xpBoost = {
+        itemId: item.id,
+        multiplier: item.effect.multiplier,
+        expiresAt: new Date(now.getTime() + item.effect.durationMinutes * 60_000).toISOString(),
+      };
+      break;
+    case 'battle_buff':
+      if (state.battleBuff) {
+        return { error: `${getShopItem(state.battleBuff)?.name ?? 'A consumable'} is already readied for your next battle` };
+      }
+      // Used up by the battle it goes into
+      next.battleBuff = item.id;
+      break;
+    case 'recolor':
+      next.recolor = state.recolor === item.id ? null : item.id;
+      break;
+    case 'badge':
+      next.badge = state.badge === item.id ? null : item.id;
+      break;
+  }
+
+  return { state: next };
+}
+
+/**
+ * Badge title and sprite hue the player has applied, if any
+ */
+export function appliedCosmetics(state: ShopState): { badge: string | null; recolorHue: number | null } {
+  const badge = getShopItem(state.badge)?.effect;
+  const recolor = getShopItem(state.recolor)?.effect;
+  return {
+    badge: badge?.kind === 'badge' ? badge.title : null,
+    recolorHue: recolor?.kind === 'recolor' ? recolor.hue : null,
+  };
+}
+
+export class ShopService {
+  constructor(private stateManager: LocalStateManager, private supabase: SupabaseClientService) {}
+
+  /**
+   * Every shop item with how many the player owns and whether it is in use
+   */
+  getShopItems(): ShopItemStatus[] {
+    const shop = this.stateManager.getShopState();
+    const boosting = activeXpBoostMultiplier(shop.xpBoost) > 1;
+    return SHOP_ITEMS.map(item => ({
+      ...item,
+      owned: shop.owned[item.id] ?? 0,
+      active: (boosting && shop.xpBoost?.itemId === item.id) ||
+        shop.battleBuff === item.id || shop.recolor === item.id || shop.badge === item.id,
+    }));
+  }
+
+  getActiveXpBoost(): XpBoost | null {
+    const { xpBoost } = this.stateManager.getShopState();
+    return activeXpBoostMultiplier(xpBoost) > 1 ? xpBoost : null;
+  }
+
+  getCosmetics(): { badge: string | null; recolorHue: number | null } {
+    return appliedCosmetics(this.stateManager.getShopState());
+  }
+
+  /**
+   * Buy one of an item. Signed in, the purchase_shop_item RPC takes the gold
+   * and records the item in one transaction; offline the gold is set aside
+   * and the purchase is replayed through the RPC on the next sync.
+   */
+  async purchase(itemId: string): Promise<{ success: boolean; error?: string }> {
+    const item = getShopItem(itemId);
+    if (!item) {
+      return { success: false, error: 'Unknown item' };
+    }
+
+    const shop = this.stateManager.getShopState();
+    const owned = shop.owned[item.id] ?? 0;
+    const blocker = purchaseBlocker(item, owned, this.stateManager.getCharacter().gold);
+    if (blocker) {
+      return { success: false, error: blocker };
+    }
+
+    if (!this.supabase.isAuthenticated()) {
+      if (!await this.stateManager.holdGold(item.price)) {
+        return { success: false, error: 'Not enough gold' };
+      }
+      await this.stateManager.saveShopState({
+        ...shop,
+        owned: { ...shop.owned, [item.id]: owned + 1 },
+        offlinePurchases: { ...shop.offlinePurchases, [item.id]: (shop.offlinePurchases[item.id] ?? 0) + 1 },
+      });
+      return { success: true };
+    }
+
+    // The server checks the price and balance itself and answers with the new
+    // totals, so gold earned locally has to reach it first
+    await pushPendingWallet(this.supabase, this.stateManager);
+    const { data, error } = await this.supabase.getClient()
+      .rpc('purchase_shop_item', { p_item_id: item.id, p_quantity: 1 })
+      .single();
+
+    if (error || !data) {
+      console.error('Error purchasing shop item:', error);
+      return { success: false, error: error?.message || 'Purchase failed' };
+    }
+
+    const result = data as { gold: number; total_xp: number; quantity: number };
+    await this.stateManager.adoptCloudWallet({ gold: result.gold, totalXp: result.total_xp });
+    await this.stateManager.saveShopState({ ...shop, owned: { ...shop.owned, [item.id]: result.quantity } });
+    return { success: true };
+  }
+
+  /**
+   * Drink a potion, ready a consumable or toggle a cosmetic. Signed in, the
+   * use_shop_item RPC uses the item up in the account first.
+   */
+  async use(itemId: string): Promise<{ success: boolean; error?: string }> {
+    const item = getShopItem(itemId);
+    if (!item) {
+      return { success: false, error: 'Unknown item' };
+    }
+
+    const shop = this.stateManager.getShopState();
+    const result = useShopItem(shop, item);
+    if (!result.state) {
+      return { success: false, error: result.error };
+    }
+
+    if (result.state.owned[item.id] === shop.owned[item.id]) {
+      await this.stateManager.saveShopState(result.state);
+      return { success: true };
+    }
+
+    if (!this.supabase.isAuthenticated()) {
+      await this.stateManager.saveShopState({
+        ...result.state,
+        offlineUses: { ...result.state.offlineUses, [item.id]: (result.state.offlineUses[item.id] ?? 0) + 1 },
+      });
+      return { success: true };
+    }
+
+    const quantity = await this.consumeInCloud(item.id);
+    if (quantity === null) {
+      return { success: false, error: `Couldn't use ${item.name}` };
+    }
+    await this.stateManager.saveShopState({ ...result.state, owned: { ...result.state.owned, [item.id]: quantity } });
+    return { success: true };
+  }
+
+  /**
+   * Stat bonus of the readied consumable, used up by the battle asking for it.
+   * For battles run on this client; the account gives up one of the item
+   * first when signed in.
+   */
+  async takeBattleBuff(): Promise<Partial<CharacterStats> | null> {
+    const shop = this.stateManager.getShopState();
+    const item = getShopItem(shop.battleBuff);
+    if (!item || item.effect.kind !== 'battle_buff') return null;
+
+    const owned = shop.owned[item.id] ?? 0;
+    if (owned === 0) {
+      await this.stateManager.saveShopState({ ...shop, battleBuff: null });
+      return null;
+    }
+
+    if (!this.supabase.isAuthenticated()) {
+      await this.stateManager.saveShopState({
+        ...shop,
+        battleBuff: null,
+        owned: { ...shop.owned, [item.id]: owned - 1 },
+        offlineUses: { ...shop.offlineUses, [item.id]: (shop.offlineUses[item.id] ?? 0) + 1 },
+      });
+      return item.effect.modifiers;
+    }
+
+    const quantity = await this.consumeInCloud(item.id);
+    await this.stateManager.saveShopState({ ...shop, battleBuff: null, owned: { ...shop.owned, [item.id]: quantity ?? 0 } });
+    return quantity === null ? null : item.effect.modifiers;
+  }
+
+  /**
+   * Id of the readied consumable, if one is still owned, for a battle the
+   * server resolves
+   */
+  readiedBattleBuff(): string | null {
+    const shop = this.stateManager.getShopState();
+    return shop.battleBuff && (shop.owned[shop.battleBuff] ?? 0) > 0 ? shop.battleBuff : null;
+  }
+
+  /**
+   * The server used up the readied consumable with a battle's result
+   */
+  async battleBuffSpent(itemId: string): Promise<void> {
+    const shop = this.stateManager.getShopState();
+    await this.stateManager.saveShopState({
+      ...shop,
+      battleBuff: shop.battleBuff === itemId ? null : shop.battleBuff,
+      owned: { ...shop.owned, [itemId]: Math.max(0, (shop.owned[itemId] ?? 0) - 1) },
+    });
+  }
+
+  /**
+   * Use up one of an item in the account. Resolves to how many are left, or
+   * null if the account has none.
+   */
+  private async consumeInCloud(itemId: string): Promise<number | null> {
+    const { data, error } = await this.supabase.getClient()
+      .rpc('use_shop_item', { p_item_id: itemId })
+      .single();
+
+    if (error || !data) {
+      console.error('Error using shop item:', error);
+      return null;
+    }
+    return (data as { quantity: number }).quantity;
+  }
+
+  /**
+   * Replay purchases and uses made while signed out, then take the account's
+   * quantities. A purchase the account can't pay for is dropped and its gold
+   * handed back.
+   */
+  async syncWithCloud(): Promise<void> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) return;
+
+    const client = this.supabase.getClient();
+    const offline = this.stateManager.getShopState();
+
+    for (const [itemId, quantity] of Object.entries(offline.offlinePurchases)) {
+      const price = (getShopItem(itemId)?.price ?? 0) * quantity;
+      await this.stateManager.settleHeldGold(price, async () => {
+        const { data, error } = await client
+          .rpc('purchase_shop_item', { p_item_id: itemId, p_quantity: quantity })
+          .single();
+        if (error || !data) {
+          console.error('Error replaying shop purchase:', error);
+          return null;
+        }
+        const result = data as { gold: number; total_xp: number };
+        return { gold: result.gold, totalXp: result.total_xp };
+      });
+    }
+    for (const [itemId, uses] of Object.entries(offline.offlineUses)) {
+      for (let i = 0; i < uses; i++) {
+        await this.consumeInCloud(itemId);
+      }
+    }
+    await this.stateManager.saveShopState({ ...this.stateManager.getShopState(), offlinePurchases: {}, offlineUses: {} });
+
+    const { data, error } = await client
+      .from('user_shop_items')
+      .select('item_id, quantity')
+      .eq('user_id', user.id);
+
+    if (error) {
+      console.error('Error fetching shop items:', error);
+      return;
+    }
+
+    const owned: Record<string, number> = {};
+    for (const row of (data || []) as Pick<DbUserShopItem, 'item_id' | 'quantity'>[]) {
+      owned[row.item_id] = row.quantity;
+    }
+    // Items whose offline purchase was dropped come off
+    const shop = this.stateManager.getShopState();
+    await this.stateManager.saveShopState({
+      ...shop,
+      owned,
+      battleBuff: shop.battleBuff && owned[shop.battleBuff] ? shop.battleBuff : null,
+      recolor: shop.recolor && owned[shop.recolor] ? shop.recolor : null,
+      badge: shop.badge && owned[shop.badge] ? shop.badge : null,
+    });
+  }
+}
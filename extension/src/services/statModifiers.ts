@@ -0,0 +1,37 @@
+import { ITEMS } from '../config/classConfig';
+import type { BattleFighter, CharacterStats, ItemDefinition } from '../types';
+
+// Stat math shared by the extension and the battle edge functions; keep it free of vscode
+
+export function getItemDefinition(itemId: string | null | undefined): ItemDefinition | undefined {
+  return itemId ? ITEMS.find(i => i.id === itemId) : undefined;
+}
+
+export function addStatModifiers(stats: CharacterStats, modifiers: Partial<CharacterStats>): CharacterStats {
+  const result = { ...stats };
+  for (const [stat, value] of Object.entries(modifiers) as Array<[keyof CharacterStats, number]>) {
+    result[stat] += value;
+  }
+  return result;
+}
+
+/**
+ * Stats with the modifiers of every equipped item added; unknown ids are skipped
+ */
+export function applyEquipment(stats: CharacterStats, itemIds: Array<string | null | undefined>): CharacterStats {
+  return itemIds
+    .map(getItemDefinition)
+    .reduce((result, item) => item ? addStatModifiers(result, item.modifiers) : result, stats);
+}
+
+/**
+ * Fighter with a consumable's bonus added; extra max HP is also healed
+ */
+export function applyBattleBuff(fighter: BattleFighter, buff: Partial<CharacterStats> | null): BattleFighter {
+  if (!buff) return fighter;
+  return {
+    ...fighter,
+    stats: addStatModifiers(fighter.stats, buff),
+    currentHp: fighter.currentHp + (buff.maxHp ?? 0),
+  };
+}
@@ -0,0 +1,168 @@
+import { STATUS_EFFECTS } from '../config/classConfig';
+import type {
+  StatusEffect,
+  StatusEffectApplication,
+  StatusEffectSnapshot,
+  StatusEffectType,
+} from '../types';
+
+export type { StatusEffect, StatusEffectApplication, StatusEffectType } from '../types';
+
+/**
+ * Something a running effect did at the start of its bearer's turn
+ */
+export interface StatusTickEvent {
+  type: StatusEffectType;
+  amount: number;  // Damage for poison and burn, healing for regen, 0 for stun
+}
+
+/**
+ * Turn an application into a running effect's per-stack amount
+ */
+export function resolveAmount(
+  application: StatusEffectApplication,
+  sourceAttack: number,
+  bearerMaxHp: number
+): number {
+  switch (application.type) {
+    case 'poison':
+    case 'burn':
+      return Math.max(1, Math.round(application.potency * sourceAttack));
+    case 'regen':
+    case 'shield':
+      return Math.max(1, Math.round(application.potency * bearerMaxHp));
+    case 'enrage':
+      return application.potency;
+    case 'stun':
+      return 0;
+  }
+}
+
+/**
+ * Effects after applying one, following the effect's stacking rule. Returns
+ * the list unchanged if the chance roll fails.
+ */
+export function applyStatusEffect(
+  effects: StatusEffect[],
+  application: StatusEffectApplication,
+  sourceAttack: number,
+  bearerMaxHp: number,
+  random: () => number = Math.random
+): StatusEffect[] {
+  if (application.chance !== undefined && random() >= application.chance) {
+    return effects;
+  }
+
+  const amount = resolveAmount(application, sourceAttack, bearerMaxHp);
+  const existing = effects.find(e => e.type === application.type);
+  if (!existing) {
+    return [...effects, { type: application.type, turnsLeft: application.duration, stacks: 1, amount }];
+  }
+
+  const definition = STATUS_EFFECTS[application.type];
+  let updated: StatusEffect;
+  switch (definition.stacking) {
+    case 'intensity':
+      updated = {
+        ...existing,
+        stacks: Math.min(definition.maxStacks, existing.stacks + 1),
+        turnsLeft: Math.max(existing.turnsLeft, application.duration),
+        amount: Math.max(existing.amount, amount),
+      };
+      break;
+    case 'refresh':
+      updated = {
+        ...existing,
+        turnsLeft: Math.max(existing.turnsLeft, application.duration),
+        amount: Math.max(existing.amount, amount),
+      };
+      break;
+    case 'extend':
+      updated = { ...existing, turnsLeft: existing.turnsLeft + application.duration };
+      break;
+    case 'ignore':
+      return effects;
+  }
+  return effects.map(e => e === existing ? updated : e);
+}
+
+/**
+ * Run the start of a bearer's turn: damage and healing over time fire, stuns
+ * cost the turn, and every effect loses a turn
+ */
+export function tickStatusEffects(effects: StatusEffect[]): {
+  effects: StatusEffect[];
+  events: StatusTickEvent[];
+  stunned: boolean;
+} {
+  const events: StatusTickEvent[] = [];
+  for (const effect of effects) {
+    if (effect.type === 'poison' || effect.type === 'burn' || effect.type === 'regen') {
+      events.push({ type: effect.type, amount: effect.amount * effect.stacks });
+    } else if (effect.type === 'stun') {
+      events.push({ type: 'stun', amount: 0 });
+    }
+  }
+
+  return {
+    effects: effects
+      .map(e => ({ ...e, turnsLeft: e.turnsLeft - 1 }))
+      .filter(e => e.turnsLeft > 0),
+    events,
+    stunned: events.some(e => e.type === 'stun'),
+  };
+}
+
+/**
+ * Let a shield soak up damage, wearing it down or breaking it
+ */
+export function absorbWithShield(effects: StatusEffect[], damage: number): {
+  effects: StatusEffect[];
+  damage: number;
+  absorbed: number;
+} {
+  const shield = effects.find(e => e.type === 'shield');
+  if (!shield || damage <= 0) {
+    return { effects, damage, absorbed: 0 };
+  }
+
+  const absorbed = Math.min(shield.amount, damage);
+  const remaining = shield.amount - absorbed;
+  return {
+    effects: remaining > 0
+      ? effects.map(e => e === shield ? { ...e, amount: remaining } : e)
+      : effects.filter(e => e !== shield),
+    damage: damage - absorbed,
+    absorbed,
+  };
+}
+
+/**
+ * Attack with any enrage bonus added
+ */
+export function enragedAttack(attack: number, effects: StatusEffect[]): number {
+  const enrage = effects.find(e => e.type === 'enrage');
+  return enrage ? Math.floor(attack * (1 + enrage.amount)) : attack;
+}
+
+export function hasStatusEffect(effects: StatusEffect[], type: StatusEffectType): boolean {
+  return effects.some(e => e.type === type);
+}
+
+export function snapshotEffects(effects: StatusEffect[]): StatusEffectSnapshot[] {
+  return effects.map(({ type, stacks, turnsLeft }) => ({ type, stacks, turnsLeft }));
+}
+
+/**
+ * Log line for an effect ticking, e.g. "Hero takes 6 poison damage"
+ */
+export function describeTick(name: string, event: StatusTickEvent): string {
+  switch (event.type) {
+    case 'stun':
+      return `${name} is stunned and loses the turn!`;
+    case 'regen':
+      return `${name} regenerates ${event.amount} HP`;
+    default:
+      return `${name} takes ${event.amount} ${STATUS_EFFECTS[event.type].name.toLowerCase()} damage`;
+  }
+}
@@ -0,0 +1,139 @@
+import * as vscode from 'vscode';
+import type { StreakSettings, StreakState, StreakUpdate } from '../types';
+import { STREAK_CONFIG } from '../config/classConfig';
+
+export type { StreakSettings, StreakState, StreakUpdate } from '../types';
+
+// Missed days remembered for display; older ones are dropped
+const MAX_FROZEN_DATES = 30;
+
+/**
+ * Read the `gitrpg.streaks` settings
+ */
+export function loadStreakSettings(): StreakSettings {
+  const config = vscode.workspace.getConfiguration('gitrpg.streaks');
+  return {
+    workdaysOnly: config.get<boolean>('workdaysOnly', false),
+    timeZone: config.get<string>('timeZone', '').trim(),
+  };
+}
+
+export function emptyStreak(): StreakState {
+  return { current: 0, longest: 0, lastActiveDate: null, freezes: 0, frozenDates: [], milestonesClaimed: [] };
+}
+
+/**
+ * YYYY-MM-DD for a moment in the given IANA time zone (system zone when
+ * empty or unknown)
+ */
+export function localDateKey(date: Date, timeZone: string = ''): string {
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone: timeZone || undefined, year: 'numeric', month: '2-digit', day: '2-digit'
+    });
+  } catch {
+    format = new Intl.DateTimeFormat('en-US', { year: 'numeric', month: '2-digit', day: '2-digit' });
+  }
+  const parts = Object.fromEntries(format.formatToParts(date).map(p => [p.type, p.value]));
+  return `${parts.year}-${parts.month}-${parts.day}`;
+}
+
+function shiftDate(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+export function isWorkday(dateKey: string): boolean {
+  const day = new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+  return day !== 0 && day !== 6;
+}
+
+/**
+ * Days strictly between two date keys that needed activity to keep a streak
+ */
+export function missedDays(lastActiveDate: string, today: string, settings: StreakSettings): string[] {
+  const missed: string[] = [];
+  for (let day = shiftDate(lastActiveDate, 1); day < today; day = shiftDate(day, 1)) {
+    if (!settings.workdaysOnly || isWorkday(day)) {
+      missed.push(day);
+    }
+  }
+  return missed;
+}
+
+/**
+ * The streak as of `today`: 0 once a missed day can't be covered by freezes.
+ * Freezes are only spent when activity resumes.
+ */
+export function currentStreak(streak: StreakState, today: string, settings: StreakSettings): number {
+  if (!streak.lastActiveDate) return 0;
+  if (streak.lastActiveDate >= today) return streak.current;
+  return missedDays(streak.lastActiveDate, today, settings).length <= streak.freezes ? streak.current : 0;
+}
+
+export function nextMilestone(current: number): number | null {
+  return STREAK_CONFIG.milestones.find(m => m.days > current)?.days ?? null;
+}
+
+/**
+ * Count `today` as an active day. Missed days are covered by freezes when
+ * there are enough of them, otherwise the streak restarts at 1.
+ */
+export function advanceStreak(
+  streak: StreakState,
+  today: string,
+  settings: StreakSettings
+): { streak: StreakState; update: StreakUpdate } {
+  const unchanged: StreakUpdate = {
+    current: streak.current, extended: false, broken: false, freezesUsed: 0, milestone: null, milestoneGold: 0
+  };
+  // Already counted (or the clock went backwards)
+  if (streak.lastActiveDate && streak.lastActiveDate >= today) {
+    return { streak, update: unchanged };
+  }
+
+  const next: StreakState = {
+    ...streak,
+    frozenDates: [...streak.frozenDates],
+    milestonesClaimed: [...streak.milestonesClaimed],
+    lastActiveDate: today,
+  };
+  let broken = false;
+  let freezesUsed = 0;
+
+  const missed = streak.lastActiveDate ? missedDays(streak.lastActiveDate, today, settings) : [];
+  if (!streak.lastActiveDate) {
+    next.current = 1;
+  } else if (missed.length <= streak.freezes) {
+    freezesUsed = missed.length;
+    next.freezes -= freezesUsed;
+    next.frozenDates = [...next.frozenDates, ...missed].slice(-MAX_FROZEN_DATES);
+    next.current = streak.current + 1;
+  } else {
+    broken = streak.current > 0;
+    next.current = 1;
+    next.milestonesClaimed = [];
+  }
+  next.longest = Math.max(next.longest, next.current);
+
+  const milestone = STREAK_CONFIG.milestones.find(m =>
+    m.days === next.current && !next.milestonesClaimed.includes(m.days)
+  );
+  if (milestone) {
+    next.milestonesClaimed.push(milestone.days);
+  }
+
+  return {
+    streak: next,
+    update: {
+      current: next.current,
+      extended: true,
+      broken,
+      freezesUsed,
+      milestone: milestone?.days ?? null,
+      milestoneGold: milestone?.gold ?? 0,
+    },
+  };
+}
@@ -1,7 +1,6 @@
 import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
 import * as vscode from 'vscode';
-import { CLASS_BASE_STATS } from '../config/classConfig';
-import { CharacterClass } from '../types/index';
+import { BattleFighter, LootSource, TournamentFormat, TournamentMatch } from '../types/index';
 
 // Database types
 export interface DbUser {
@@ -20,8 +19,17 @@ export interface DbUser {
   stats_speed: number;
   stats_crit: number;
   gold: number;
-  last_quest_refresh: string | null;
+  git_emails: string[] | null;
+  last_quest_refresh: string | null;          // Daily quest period (YYYY-MM-DD)
+  last_weekly_quest_refresh: string | null;   // ISO week (YYYY-Www)
+  last_monthly_quest_refresh: string | null;  // YYYY-MM
+  last_quest_reroll: string | null;           // Day of the last reroll (YYYY-MM-DD)
   last_boss_win_date: string | null;
+  equipped_weapon_id: string | null;  // Catalog item ids
+  equipped_armor_id: string | null;
+  title_badge: string | null;         // Badge title bought in the shop
+  sprite_recolor_hue: number | null;  // Sprite hue rotation bought in the shop
+  talents: Record<string, number> | null;  // Talent ranks in the current class tree
   created_at: string;
   updated_at: string;
 }
@@ -39,46 +47,112 @@ export interface DbBattle {
   challenger_id: string;
   opponent_id: string;
   status: 'pending' | 'accepted' | 'completed' | 'declined';
+  mode: 'live' | 'ghost';             // Ghost battles are fought against the opponent's stored stats
   battle_log: any;
   winner_id: string | null;
   rewards: { xp: number; gold: number } | null;
+  seed: number | null;            // Set with engine_version and fighters when completed,
+  engine_version: number | null;  // so the log can be replayed and verified
+  fighters: { fighter1: BattleFighter; fighter2: BattleFighter } | null;
+  defender_seen_at: string | null;    // When the ghost's owner was told how it went
+  challenger_seen_at: string | null;  // When the challenger's client counted the result
   created_at: string;
   completed_at: string | null;
 }
 
 /**
- * Convert a database user record to a BattleFighter for use in battles
+ * Ranked rating for one season (pvp_ratings table), unique on (user_id, season).
+ * reward_gold is set once the finished season has been settled.
  */
-export function dbUserToBattleFighter(user: DbUser, currentHp?: number): {
+export interface DbPvpRating {
+  user_id: string;
+  season: number;
+  rating: number;
+  deviation: number;
+  wins: number;
+  losses: number;
+  last_played_at: string | null;
+  reward_gold: number | null;
+}
+
+/**
+ * Rating change from one ranked battle (pvp_rating_changes table)
+ */
+export interface DbRatingChange {
+  battle_id: string;
+  user_id: string;
+  season: number;
+  rating_before: number;
+  rating_after: number;
+  created_at: string;
+}
+
+/**
+ * Friend tournament (tournaments table). The bracket lives in `matches`;
+ * `version` goes up with every round so concurrent updates can be detected.
+ */
+export interface DbTournament {
   id: string;
   name: string;
-  class: string;
-  level: number;
-  stats: {
-    maxHp: number;
-    attack: number;
-    defense: number;
-    speed: number;
-    critChance: number;
-    critDamage: number;
-  };
-  currentHp: number;
-} {
-  return {
-    id: user.id,
-    name: user.display_name,
-    class: user.character_class,
-    level: user.level,
-    stats: {
-      maxHp: user.stats_max_hp,
-      attack: user.stats_attack,
-      defense: user.stats_defense,
-      speed: user.stats_speed,
-      critChance: user.stats_crit,
-      critDamage: CLASS_BASE_STATS[user.character_class as CharacterClass]?.critDamage ?? 1.5,
-    },
-    currentHp: currentHp ?? user.stats_max_hp,
-  };
+  format: TournamentFormat;
+  organizer_id: string;
+  player_ids: string[];  // In seed order
+  snapshots: Record<string, BattleFighter>;
+  engine_version: number;
+  matches: TournamentMatch[];
+  champion_id: string | null;
+  version: number;
+  created_at: string;
+  completed_at: string | null;
+}
+
+/**
+ * XP shared with a friend credited as co-author of a commit (xp_grants table).
+ * Unique on (grantor_id, recipient_id, commit_hash). Written by the
+ * grant_co_author_xp RPC; claim_xp_grants sets claimed_at for the recipient.
+ */
+export interface DbXpGrant {
+  id: string;
+  grantor_id: string;
+  recipient_id: string;
+  commit_hash: string;
+  commit_message: string;
+  xp: number;
+  created_at: string;
+  claimed_at: string | null;
+}
+
+/**
+ * Achievement unlocked by a user (user_achievements table), unique on
+ * (user_id, achievement_id)
+ */
+export interface DbUserAchievement {
+  user_id: string;
+  achievement_id: string;
+  unlocked_at: string;
+}
+
+/**
+ * One owned copy of a catalog item (user_items table)
+ */
+export interface DbUserItem {
+  id: string;
+  user_id: string;
+  item_id: string;
+  source: LootSource;
+  acquired_at: string;
+}
+
+/**
+ * Shop items a user owns (user_shop_items table), unique on (user_id, item_id).
+ * Written by the purchase_shop_item RPC, which deducts gold in the same
+ * transaction.
+ */
+export interface DbUserShopItem {
+  user_id: string;
+  item_id: string;
+  quantity: number;
+  updated_at: string;
 }
 
 // Supabase configuration (anon key is public, safe to include)
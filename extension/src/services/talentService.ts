@@ -0,0 +1,182 @@
+import type { LocalStateManager } from './localStateManager';
+import { TALENT_CONFIG, TALENT_TREES } from '../config/classConfig';
+import { addStatModifiers } from './statModifiers';
+import type { BattleSkill, CharacterClass, CharacterStats, TalentDefinition, TalentState, TalentStatus } from '../types';
+
+export type { TalentDefinition, TalentState, TalentStatus } from '../types';
+
+export function emptyTalentState(): TalentState {
+  return { ranks: {} };
+}
+
+export function getTalent(characterClass: CharacterClass, talentId: string): TalentDefinition | undefined {
+  return TALENT_TREES[characterClass]?.find(t => t.id === talentId);
+}
+
+/**
+ * Points a character of this level has to spend
+ */
+export function talentPoints(level: number): number {
+  return Math.max(0, level - 1) * TALENT_CONFIG.pointsPerLevel;
+}
+
+/**
+ * Points spent in a class's tree. Ranks in talents the tree doesn't know
+ * don't lock up points.
+ */
+export function spentPoints(characterClass: CharacterClass, ranks: Record<string, number>): number {
+  return Object.entries(ranks)
+    .reduce((sum, [talentId, rank]) => sum + (getTalent(characterClass, talentId) ? rank : 0), 0);
+}
+
+export function respecCost(characterClass: CharacterClass, ranks: Record<string, number>): number {
+  return TALENT_CONFIG.respecBaseCost + spentPoints(characterClass, ranks) * TALENT_CONFIG.respecCostPerPoint;
+}
+
+/**
+ * Why the next rank of a talent can't be learned, or null if it can
+ */
+export function learnBlocker(
+  characterClass: CharacterClass,
+  talent: TalentDefinition,
+  ranks: Record<string, number>,
+  level: number
+): string | null {
+  const rank = ranks[talent.id] ?? 0;
+  if (rank >= talent.maxRank) {
+    return `${talent.name} is already at max rank`;
+  }
+  if (level < talent.requiredLevel) {
+    return `Requires level ${talent.requiredLevel}`;
+  }
+  if (talent.requires && !ranks[talent.requires]) {
+    return `Requires ${getTalent(characterClass, talent.requires)?.name ?? talent.requires}`;
+  }
+  if (spentPoints(characterClass, ranks) >= talentPoints(level)) {
+    return 'No talent points left';
+  }
+  return null;
+}
+
+/**
+ * Whether a character of this level could have learned these ranks: each
+ * within its talent's max rank, required level and prerequisite, and no more
+ * points spent than the level earned. Talents the tree doesn't know are
+ * ignored, as they are in battle.
+ */
+export function ranksEarned(characterClass: CharacterClass, ranks: Record<string, number>, level: number): boolean {
+  const withinTalent = Object.entries(ranks).every(([talentId, rank]) => {
+    const talent = getTalent(characterClass, talentId);
+    if (!talent || rank === 0) return true;
+    return Number.isInteger(rank) && rank > 0 && rank <= talent.maxRank
+      && level >= talent.requiredLevel
+      && (!talent.requires || (ranks[talent.requires] ?? 0) > 0);
+  });
+  return withinTalent && spentPoints(characterClass, ranks) <= talentPoints(level);
+}
+
+/**
+ * Stats with every learned passive talent added, once per rank. Talents the
+ * class tree doesn't know are skipped.
+ */
+export function applyTalents(
+  stats: CharacterStats,
+  characterClass: CharacterClass,
+  ranks: Record<string, number> | null | undefined
+): CharacterStats {
+  let result = stats;
+  for (const [talentId, rank] of Object.entries(ranks ?? {})) {
+    const modifiers = getTalent(characterClass, talentId)?.modifiers;
+    for (let i = 0; modifiers && i < rank; i++) {
+      result = addStatModifiers(result, modifiers);
+    }
+  }
+  return result;
+}
+
+/**
+ * Battle skills granted by learned active talents, strongest first so the
+ * bigger hit gets the first roll
+ */
+export function talentSkills(
+  characterClass: CharacterClass,
+  ranks: Record<string, number> | null | undefined
+): BattleSkill[] {
+  return Object.entries(ranks ?? {})
+    .flatMap(([talentId, rank]): BattleSkill[] => {
+      const skill = getTalent(characterClass, talentId)?.skill;
+      if (!skill || rank <= 0) return [];
+      return [{
+        id: talentId,
+        name: skill.name,
+        chance: Math.min(1, skill.chancePerRank * rank),
+        damageMultiplier: skill.damageMultiplier,
+        ...(skill.effects && { effects: skill.effects }),
+      }];
+    })
+    .sort((a, b) => b.damageMultiplier - a.damageMultiplier);
+}
+
+export class TalentService {
+  constructor(private stateManager: LocalStateManager) {}
+
+  /**
+   * The current class tree with learned ranks and what blocks each talent
+   */
+  getTree(): TalentStatus[] {
+    const { class: characterClass, level } = this.stateManager.getCharacter();
+    const ranks = this.stateManager.getTalentRanks();
+    return TALENT_TREES[characterClass].map(talent => {
+      const blocker = learnBlocker(characterClass, talent, ranks, level);
+      return { ...talent, rank: ranks[talent.id] ?? 0, learnable: blocker === null, blocker };
+    });
+  }
+
+  getPoints(): { total: number; spent: number; available: number } {
+    const { class: characterClass, level } = this.stateManager.getCharacter();
+    const total = talentPoints(level);
+    const spent = spentPoints(characterClass, this.stateManager.getTalentRanks());
+    return { total, spent, available: Math.max(0, total - spent) };
+  }
+
+  getRespecCost(): number {
+    return respecCost(this.stateManager.getCharacter().class, this.stateManager.getTalentRanks());
+  }
+
+  /**
+   * Character stats with learned talents applied, before equipment
+   */
+  getTalentStats(): CharacterStats {
+    const character = this.stateManager.getCharacter();
+    return applyTalents(character.stats, character.class, this.stateManager.getTalentRanks());
+  }
+
+  async learn(talentId: string): Promise<{ success: boolean; error?: string }> {
+    const { class: characterClass, level } = this.stateManager.getCharacter();
+    const talent = getTalent(characterClass, talentId);
+    if (!talent) {
+      return { success: false, error: 'Unknown talent' };
+    }
+
+    const ranks = this.stateManager.getTalentRanks();
+    const blocker = learnBlocker(characterClass, talent, ranks, level);
+    if (blocker) {
+      return { success: false, error: blocker };
+    }
+
+    await this.stateManager.saveTalentRanks({ ...ranks, [talent.id]: (ranks[talent.id] ?? 0) + 1 });
+    return { success: true };
+  }
+
+  /**
+   * Refund every point in the current tree for gold
+   */
+  async respec(): Promise<{ success: boolean; error?: string }> {
+    const characterClass = this.stateManager.getCharacter().class;
+    const ranks = this.stateManager.getTalentRanks();
+    if (spentPoints(characterClass, ranks) === 0) {
+      return { success: false, error: 'No talents to reset' };
+    }
+    return this.stateManager.respecTalents(respecCost(characterClass, ranks));
+  }
+}
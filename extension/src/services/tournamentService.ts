@@ -0,0 +1,491 @@
+import type { SupabaseClientService, DbTournament, DbUser } from './supabaseClient';
+import { dbUserToBattleFighter } from './battleFighters';
+import type { FriendsService } from './friendsService';
+import { BATTLE_ENGINE_VERSION, BattleEngine, replayBattle } from './battleEngine';
+import { generateBattleSeed } from './battleRng';
+import { TOURNAMENT_CONFIG } from '../config/classConfig';
+import type {
+  BattleFighter,
+  BracketSection,
+  MatchSource,
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentStanding
+} from '../types';
+
+export type {
+  BracketSection,
+  MatchSource,
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentStanding
+} from '../types';
+
+export const TOURNAMENT_FORMAT_NAMES: Record<TournamentFormat, string> = {
+  single_elimination: 'Single Elimination',
+  double_elimination: 'Double Elimination',
+  round_robin: 'Round Robin',
+};
+
+const GRAND_FINAL_ID = 'GF-1';
+const GRAND_FINAL_RESET_ID = 'GF-2';
+
+function seed(playerId: string | null): MatchSource {
+  return { kind: 'seed', playerId };
+}
+
+function winnerOf(matchId: string): MatchSource {
+  return { kind: 'winner', matchId };
+}
+
+function loserOf(matchId: string): MatchSource {
+  return { kind: 'loser', matchId };
+}
+
+function newMatch(id: string, section: BracketSection, round: number, sources: [MatchSource, MatchSource]): TournamentMatch {
+  return {
+    id,
+    section,
+    round,
+    sources,
+    playerIds: [null, null],
+    done: false,
+    winnerId: null,
+    loserId: null,
+    seed: null,
+    winnerHp: null,
+  };
+}
+
+/**
+ * Bracket position of each seed, so the top seeds only meet late
+ * (for 4 players: 1v4 and 2v3)
+ */
+export function bracketSeedOrder(size: number): number[] {
+  let order = [0];
+  while (order.length < size) {
+    const next = order.length * 2;
+    order = order.flatMap(s => [s, next - 1 - s]);
+  }
+  return order;
+}
+
+/**
+ * Winners bracket for the players in seed order, padded to a power of two.
+ * The missing seeds are byes for the top seeds.
+ */
+function winnersBracket(playerIds: string[]): TournamentMatch[] {
+  let size = 2;
+  while (size < playerIds.length) size *= 2;
+
+  const order = bracketSeedOrder(size);
+  const matches: TournamentMatch[] = [];
+  for (let i = 0; i < size / 2; i++) {
+    matches.push(newMatch(`W1-${i + 1}`, 'winners', 1, [
+      seed(playerIds[order[2 * i]] ?? null),
+      seed(playerIds[order[2 * i + 1]] ?? null),
+    ]));
+  }
+
+  for (let round = 2, count = size / 4; count >= 1; round++, count /= 2) {
+    for (let i = 0; i < count; i++) {
+      matches.push(newMatch(`W${round}-${i + 1}`, 'winners', round, [
+        winnerOf(`W${round - 1}-${2 * i + 1}`),
+        winnerOf(`W${round - 1}-${2 * i + 2}`),
+      ]));
+    }
+  }
+  return matches;
+}
+
+/**
+ * Losers bracket fed by a winners bracket with `rounds` rounds. Odd rounds
+ * pair up survivors, even rounds take the next winners round's losers in
+ * reverse order so early opponents don't meet again straight away.
+ */
+function losersBracket(rounds: number): TournamentMatch[] {
+  const matches: TournamentMatch[] = [];
+  if (rounds < 2) return matches;
+
+  const size = 2 ** rounds;
+  for (let i = 0; i < size / 4; i++) {
+    matches.push(newMatch(`L1-${i + 1}`, 'losers', 1, [loserOf(`W1-${2 * i + 1}`), loserOf(`W1-${2 * i + 2}`)]));
+  }
+
+  for (let r = 1; r < rounds; r++) {
+    const dropRound = 2 * r;
+    const count = size / 2 ** (r + 1);
+    for (let i = 0; i < count; i++) {
+      matches.push(newMatch(`L${dropRound}-${i + 1}`, 'losers', dropRound, [
+        winnerOf(`L${dropRound - 1}-${i + 1}`),
+        loserOf(`W${r + 1}-${count - i}`),
+      ]));
+    }
+
+    if (count > 1) {
+      for (let i = 0; i < count / 2; i++) {
+        matches.push(newMatch(`L${dropRound + 1}-${i + 1}`, 'losers', dropRound + 1, [
+          winnerOf(`L${dropRound}-${2 * i + 1}`),
+          winnerOf(`L${dropRound}-${2 * i + 2}`),
+        ]));
+      }
+    }
+  }
+  return matches;
+}
+
+/**
+ * Every pairing once, a round at a time (circle method). Players sitting
+ * a round out get no match rather than a free win.
+ */
+function roundRobin(playerIds: string[]): TournamentMatch[] {
+  const circle: (string | null)[] = playerIds.length % 2 === 0 ? [...playerIds] : [...playerIds, null];
+  const n = circle.length;
+  const matches: TournamentMatch[] = [];
+
+  for (let round = 1; round < n; round++) {
+    let slot = 1;
+    for (let i = 0; i < n / 2; i++) {
+      const a = circle[i] ?? null;
+      const b = circle[n - 1 - i] ?? null;
+      if (a && b) {
+        matches.push(newMatch(`R${round}-${slot++}`, 'league', round, [seed(a), seed(b)]));
+      }
+    }
+    circle.splice(1, 0, circle.pop() ?? null);
+  }
+  return matches;
+}
+
+/**
+ * All matches for a new tournament, with byes already settled.
+ * Elimination brackets end with the final, which decides the champion.
+ */
+export function createBracket(format: TournamentFormat, playerIds: string[]): TournamentMatch[] {
+  if (format === 'round_robin') {
+    return settleBracket(roundRobin(playerIds));
+  }
+
+  const winners = winnersBracket(playerIds);
+  if (format === 'single_elimination') {
+    return settleBracket(winners);
+  }
+
+  const rounds = Math.max(...winners.map(m => m.round));
+  const losers = losersBracket(rounds);
+  const losersFinal = losers.length > 0 ? winnerOf(losers[losers.length - 1].id) : loserOf(`W${rounds}-1`);
+
+  return settleBracket([
+    ...winners,
+    ...losers,
+    newMatch(GRAND_FINAL_ID, 'final', 1, [winnerOf(`W${rounds}-1`), losersFinal]),
+    // Only played if the losers bracket player wins the first final
+    newMatch(GRAND_FINAL_RESET_ID, 'final', 2, [winnerOf(GRAND_FINAL_ID), loserOf(GRAND_FINAL_ID)]),
+  ]);
+}
+
+/**
+ * Fill in players from finished matches and finish matches that need no
+ * battle: walkovers, empty matches and an unneeded grand final reset
+ */
+export function settleBracket(matches: TournamentMatch[]): TournamentMatch[] {
+  const settled = matches.map(m => ({ ...m, playerIds: [...m.playerIds] as [string | null, string | null] }));
+  const byId = new Map(settled.map(m => [m.id, m]));
+
+  const resolve = (source: MatchSource): { ready: boolean; playerId: string | null } => {
+    if (source.kind === 'seed') return { ready: true, playerId: source.playerId };
+    const from = byId.get(source.matchId);
+    if (!from?.done) return { ready: false, playerId: null };
+    return { ready: true, playerId: source.kind === 'winner' ? from.winnerId : from.loserId };
+  };
+
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const match of settled) {
+      if (match.done) continue;
+
+      const [a, b] = match.sources.map(resolve);
+      if (a.ready) match.playerIds[0] = a.playerId;
+      if (b.ready) match.playerIds[1] = b.playerId;
+      if (!a.ready || !b.ready) continue;
+
+      const grandFinal = byId.get(GRAND_FINAL_ID);
+      const finalWonByWinnersSide = match.id === GRAND_FINAL_RESET_ID && !!grandFinal &&
+        match.playerIds[0] === resolve(grandFinal.sources[0]).playerId;
+      const present = match.playerIds.filter((p): p is string => p !== null);
+
+      if (finalWonByWinnersSide || present.length < 2) {
+        match.done = true;
+        match.winnerId = present[0] ?? null;
+        if (finalWonByWinnersSide) match.skipped = true;
+        changed = true;
+      }
+    }
+  }
+  return settled;
+}
+
+/**
+ * Matches that can be battled now. Round robin plays a round at a time,
+ * brackets play everything whose players are known.
+ */
+export function readyMatches(tournament: Pick<Tournament, 'format' | 'matches'>): TournamentMatch[] {
+  const ready = tournament.matches.filter(m => !m.done && m.playerIds[0] !== null && m.playerIds[1] !== null);
+  if (tournament.format !== 'round_robin' || ready.length === 0) return ready;
+
+  const round = Math.min(...ready.map(m => m.round));
+  return ready.filter(m => m.round === round);
+}
+
+/**
+ * Round robin table: wins first, then HP left over across wins, then seed
+ */
+export function tournamentStandings(matches: TournamentMatch[], playerIds: string[]): TournamentStanding[] {
+  const rows = new Map(playerIds.map(id => [id, { playerId: id, wins: 0, losses: 0, hpMargin: 0 }]));
+
+  for (const match of matches) {
+    if (!match.done || !match.winnerId || !match.loserId) continue;
+    const winner = rows.get(match.winnerId);
+    const loser = rows.get(match.loserId);
+    if (winner) {
+      winner.wins++;
+      winner.hpMargin += match.winnerHp ?? 0;
+    }
+    if (loser) loser.losses++;
+  }
+
+  return [...rows.values()].sort((a, b) =>
+    b.wins - a.wins || b.hpMargin - a.hpMargin || playerIds.indexOf(a.playerId) - playerIds.indexOf(b.playerId)
+  );
+}
+
+export function championOf(tournament: Pick<Tournament, 'format' | 'matches' | 'playerIds'>): string | null {
+  const { matches } = tournament;
+  if (tournament.format === 'round_robin') {
+    if (!matches.every(m => m.done)) return null;
+    return tournamentStandings(matches, tournament.playerIds)[0]?.playerId ?? null;
+  }
+
+  const final = matches[matches.length - 1];
+  return final?.done ? final.winnerId : null;
+}
+
+/**
+ * Battle every ready match with the snapshotted fighters and advance the
+ * bracket. Seeds are stored on the matches so results can be replayed.
+ */
+export function playTournamentRound(tournament: Tournament, nextSeed: () => number = generateBattleSeed): Tournament {
+  const results = new Map<string, Pick<TournamentMatch, 'winnerId' | 'loserId' | 'seed' | 'winnerHp'>>();
+
+  for (const match of readyMatches(tournament)) {
+    const [first, second] = match.playerIds;
+    const fighter1 = tournament.snapshots[first ?? ''];
+    const fighter2 = tournament.snapshots[second ?? ''];
+    if (!fighter1 || !fighter2) continue;
+
+    const battleSeed = nextSeed();
+    const result = new BattleEngine(fighter1, fighter2, battleSeed).runBattle();
+    results.set(match.id, {
+      winnerId: result.winner.id,
+      loserId: result.loser.id,
+      seed: battleSeed,
+      winnerHp: result.winner.currentHp,
+    });
+  }
+
+  const matches = settleBracket(tournament.matches.map(m => {
+    const result = results.get(m.id);
+    return result ? { ...m, ...result, done: true } : m;
+  }));
+
+  const played = { ...tournament, matches };
+  return { ...played, championId: championOf(played) };
+}
+
+/**
+ * Replay a finished match from its seed and the tournament's snapshots
+ */
+export function verifyTournamentMatch(tournament: Tournament, match: TournamentMatch): boolean {
+  if (match.seed === null) return true;
+
+  const fighter1 = tournament.snapshots[match.playerIds[0] ?? ''];
+  const fighter2 = tournament.snapshots[match.playerIds[1] ?? ''];
+  if (!fighter1 || !fighter2) return false;
+
+  try {
+    const replay = replayBattle({ seed: match.seed, engineVersion: tournament.engineVersion, fighter1, fighter2 });
+    return replay.winner.id === match.winnerId;
+  } catch {
+    return false;
+  }
+}
+
+export function dbTournamentToTournament(row: DbTournament): Tournament {
+  return {
+    id: row.id,
+    name: row.name,
+    format: row.format,
+    organizerId: row.organizer_id,
+    playerIds: row.player_ids,
+    snapshots: row.snapshots,
+    engineVersion: row.engine_version,
+    matches: row.matches,
+    championId: row.champion_id,
+    createdAt: row.created_at,
+  };
+}
+
+export class TournamentService {
+  constructor(
+    private supabase: SupabaseClientService,
+    private friendsService: FriendsService
+  ) {}
+
+  /**
+   * Start a tournament between us and some of our friends, seeded by level.
+   * Everyone fights with the stats they have right now.
+   */
+  async createTournament(
+    name: string,
+    format: TournamentFormat,
+    friendIds: string[]
+  ): Promise<{ success: boolean; tournament?: Tournament; error?: string }> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const playerIds = [user.id, ...new Set(friendIds.filter(id => id !== user.id))];
+    if (playerIds.length < TOURNAMENT_CONFIG.minPlayers || playerIds.length > TOURNAMENT_CONFIG.maxPlayers) {
+      return {
+        success: false,
+        error: `Tournaments need ${TOURNAMENT_CONFIG.minPlayers} to ${TOURNAMENT_CONFIG.maxPlayers} players`,
+      };
+    }
+
+    const friends = (await this.friendsService.getFriends()).filter(f => f.status === 'accepted');
+    if (!friendIds.every(id => friends.some(f => f.id === id))) {
+      return { success: false, error: 'You can only invite friends' };
+    }
+
+    const client = this.supabase.getClient();
+    const { data: users, error: usersError } = await client
+      .from('users')
+      .select('*')
+      .in('id', playerIds);
+
+    if (usersError || !users || users.length !== playerIds.length) {
+      console.error('Get tournament players error:', usersError);
+      return { success: false, error: 'Failed to load players' };
+    }
+
+    const seeded = (users as DbUser[])
+      .sort((a, b) => b.level - a.level || playerIds.indexOf(a.id) - playerIds.indexOf(b.id));
+    const snapshots: Record<string, BattleFighter> = {};
+    for (const player of seeded) {
+      snapshots[player.id] = dbUserToBattleFighter(player) as BattleFighter;
+    }
+
+    const seedOrder = seeded.map(u => u.id);
+    const { data, error } = await client
+      .from('tournaments')
+      .insert({
+        name,
+        format,
+        organizer_id: user.id,
+        player_ids: seedOrder,
+        snapshots,
+        engine_version: BATTLE_ENGINE_VERSION,
+        matches: createBracket(format, seedOrder),
+        champion_id: null,
+        version: 0,
+      })
+      .select()
+      .single();
+
+    if (error || !data) {
+      console.error('Create tournament error:', error);
+      return { success: false, error: 'Failed to create tournament' };
+    }
+
+    return { success: true, tournament: dbTournamentToTournament(data as DbTournament) };
+  }
+
+  /**
+   * Our most recent tournaments, newest first
+   */
+  async getTournaments(limit = 5): Promise<Tournament[]> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) return [];
+
+    const { data, error } = await this.supabase.getClient()
+      .from('tournaments')
+      .select('*')
+      .contains('player_ids', [user.id])
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Get tournaments error:', error);
+      return [];
+    }
+
+    return (data || []).map((row: DbTournament) => dbTournamentToTournament(row));
+  }
+
+  /**
+   * Battle the tournament's ready matches. Any player can move it on; the
+   * version check stops two players from playing the same round.
+   */
+  async playNextRound(tournamentId: string): Promise<{ success: boolean; tournament?: Tournament; error?: string }> {
+    const user = this.supabase.getCurrentUser();
+    if (!this.supabase.isAuthenticated() || !user) {
+      return { success: false, error: 'Not authenticated' };
+    }
+
+    const client = this.supabase.getClient();
+    const { data: row, error: fetchError } = await client
+      .from('tournaments')
+      .select('*')
+      .eq('id', tournamentId)
+      .single();
+
+    if (fetchError || !row) {
+      return { success: false, error: 'Tournament not found' };
+    }
+
+    const current = row as DbTournament;
+    if (!current.player_ids.includes(user.id)) {
+      return { success: false, error: 'You are not in this tournament' };
+    }
+    if (current.champion_id) {
+      return { success: false, error: 'Tournament is already over' };
+    }
+
+    const played = playTournamentRound(dbTournamentToTournament(current));
+    const { data: updated, error } = await client
+      .from('tournaments')
+      .update({
+        matches: played.matches,
+        champion_id: played.championId,
+        version: current.version + 1,
+        completed_at: played.championId ? new Date().toISOString() : null,
+      })
+      .eq('id', tournamentId)
+      .eq('version', current.version)
+      .select();
+
+    if (error) {
+      console.error('Play tournament round error:', error);
+      return { success: false, error: 'Failed to play round' };
+    }
+    if (!updated || updated.length === 0) {
+      return { success: false, error: 'Someone else just played this round' };
+    }
+
+    return { success: true, tournament: played };
+  }
+}
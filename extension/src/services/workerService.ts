@@ -1,5 +1,6 @@
 import { SupabaseClientService } from './supabaseClient';
 import { LocalStateManager } from './localStateManager';
+import { selectEconomyStore, type EconomyStore } from './economyStore';
 import { Worker, WORKER_CONFIG } from '../types';
 
 export class WorkerService {
@@ -35,26 +36,21 @@ export class WorkerService {
     return Math.floor(hoursSinceCollection * goldPerHour);
   }
 
+  /**
+   * Supabase when signed in, local workers otherwise
+   */
+  private getStore(): EconomyStore | null {
+    return selectEconomyStore(this.supabase, this.stateManager);
+  }
+
   /**
    * Get all workers owned by the current user
    */
   async getWorkers(): Promise<Worker[]> {
-    const client = this.supabase.getClient();
-    const user = this.supabase.getCurrentUser();
-    if (!user) return [];
-
-    const { data, error } = await client
-      .from('workers')
-      .select('*')
-      .eq('user_id', user.id)
-      .order('purchased_at', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching workers:', error);
-      return [];
-    }
+    const store = this.getStore();
+    if (!store) return [];
 
-    return data || [];
+    return store.listWorkers();
   }
 
   /**
@@ -92,54 +88,31 @@ export class WorkerService {
    * Purchase a new worker
    */
   async purchaseWorker(): Promise<{ success: boolean; worker?: Worker; error?: string }> {
-    const client = this.supabase.getClient();
-    const user = this.supabase.getCurrentUser();
-    if (!user) return { success: false, error: 'Not authenticated' };
+    const store = this.getStore();
+    if (!store) return { success: false, error: 'Not authenticated' };
 
     // Get current gold and worker count
-    const { data: userData } = await client
-      .from('users')
-      .select('gold')
-      .eq('id', user.id)
-      .single();
-
-    const currentGold = userData?.gold || 0;
-    const workerCount = await this.getWorkerCount();
+    const { gold: currentGold } = await store.getWallet();
+    const workerCount = (await store.listWorkers()).length;
     const cost = this.calculatePurchaseCost(workerCount);
 
     if (currentGold < cost) {
       return { success: false, error: `Not enough gold. Need ${cost}, have ${currentGold}` };
     }
 
-    // Deduct gold
-    await client
-      .from('users')
-      .update({ gold: currentGold - cost })
-      .eq('id', user.id);
-
-    // Create worker
-    const { data: worker, error } = await client
-      .from('workers')
-      .insert({
-        user_id: user.id,
-        level: 1,
-        gold_per_hour: WORKER_CONFIG.baseGoldPerHour,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      // Refund gold on error
-      await client
-        .from('users')
-        .update({ gold: currentGold })
-        .eq('id', user.id);
+    // Create the worker before paying, so a failure never needs a refund
+    const worker = (await store.insertWorkers([{
+      level: 1,
+      gold_per_hour: WORKER_CONFIG.baseGoldPerHour,
+    }]))?.[0];
+
+    if (!worker) {
       return { success: false, error: 'Failed to create worker' };
     }
 
-    // Update local state (deduct cost)
-    if (this.stateManager) {
-      await this.stateManager.addGold(-cost);
+    if (!await store.spendGold(cost)) {
+      await store.deleteWorker(worker.id);
+      return { success: false, error: 'Failed to pay for worker' };
     }
 
     return { success: true, worker };
@@ -149,30 +122,17 @@ export class WorkerService {
    * Upgrade a worker to the next level
    */
   async upgradeWorker(workerId: string): Promise<{ success: boolean; worker?: Worker; error?: string }> {
-    const client = this.supabase.getClient();
-    const user = this.supabase.getCurrentUser();
-    if (!user) return { success: false, error: 'Not authenticated' };
+    const store = this.getStore();
+    if (!store) return { success: false, error: 'Not authenticated' };
 
     // Get worker
-    const { data: worker, error: workerError } = await client
-      .from('workers')
-      .select('*')
-      .eq('id', workerId)
-      .eq('user_id', user.id)
-      .single();
-
-    if (workerError || !worker) {
+    const worker = (await store.listWorkers()).find(w => w.id === workerId);
+    if (!worker) {
       return { success: false, error: 'Worker not found' };
     }
 
     // Get current gold
-    const { data: userData } = await client
-      .from('users')
-      .select('gold')
-      .eq('id', user.id)
-      .single();
-
-    const currentGold = userData?.gold || 0;
+    const { gold: currentGold } = await store.getWallet();
     const upgradeCost = this.calculateUpgradeCost(worker.level);
 
     if (currentGold < upgradeCost) {
@@ -182,31 +142,16 @@ export class WorkerService {
     const newLevel = worker.level + 1;
     const newGoldPerHour = this.calculateGoldPerHour(newLevel);
 
-    // Deduct gold and upgrade worker
-    await client
-      .from('users')
-      .update({ gold: currentGold - upgradeCost })
-      .eq('id', user.id);
-
-    const { data: updatedWorker, error: updateError } = await client
-      .from('workers')
-      .update({ level: newLevel, gold_per_hour: newGoldPerHour })
-      .eq('id', workerId)
-      .select()
-      .single();
-
-    if (updateError) {
-      // Refund on error
-      await client
-        .from('users')
-        .update({ gold: currentGold })
-        .eq('id', user.id);
+    // Upgrade before paying, and undo the upgrade if the gold can't be taken
+    const updatedWorker = await store.updateWorker(workerId, { level: newLevel, gold_per_hour: newGoldPerHour });
+
+    if (!updatedWorker) {
       return { success: false, error: 'Failed to upgrade worker' };
     }
 
-    // Update local state (deduct cost)
-    if (this.stateManager) {
-      await this.stateManager.addGold(-upgradeCost);
+    if (!await store.spendGold(upgradeCost)) {
+      await store.updateWorker(workerId, { level: worker.level, gold_per_hour: worker.gold_per_hour });
+      return { success: false, error: 'Failed to pay for upgrade' };
     }
 
     return { success: true, worker: updatedWorker };
@@ -216,11 +161,10 @@ export class WorkerService {
    * Collect all pending gold from all workers
    */
   async collectAllGold(): Promise<{ success: boolean; goldCollected: number; error?: string }> {
-    const client = this.supabase.getClient();
-    const user = this.supabase.getCurrentUser();
-    if (!user) return { success: false, goldCollected: 0, error: 'Not authenticated' };
+    const store = this.getStore();
+    if (!store) return { success: false, goldCollected: 0, error: 'Not authenticated' };
 
-    const workers = await this.getWorkers();
+    const workers = await store.listWorkers();
     let totalGold = 0;
 
     for (const worker of workers) {
@@ -229,27 +173,10 @@ export class WorkerService {
       totalGold += pendingGold;
 
       // Update last collected time
-      await client
-        .from('workers')
-        .update({ last_collected_at: new Date().toISOString() })
-        .eq('id', worker.id);
+      await store.updateWorker(worker.id, { last_collected_at: new Date().toISOString() });
     }
 
-    // Add gold to user
-    const { data: userData } = await client
-      .from('users')
-      .select('gold')
-      .eq('id', user.id)
-      .single();
-
-    const currentGold = userData?.gold || 0;
-
-    await client
-      .from('users')
-      .update({ gold: currentGold + totalGold })
-      .eq('id', user.id);
-
-    // Update local state
+    // Earned locally; the profile sync passes it on to the account
     if (this.stateManager) {
       await this.stateManager.addGold(totalGold);
     }
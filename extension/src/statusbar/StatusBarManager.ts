@@ -33,6 +33,7 @@ export class StatusBarManager implements vscode.Disposable {
   public update(): void {
     const char = this.stateManager.getCharacter();
     const today = this.stateManager.getTodayStats();
+    const streak = this.stateManager.getStreak();
     const xpPercent = Math.round((char.xp / char.xpToNextLevel) * 100);
     const xpBar = this.getProgressBar(xpPercent);
 
@@ -41,6 +42,7 @@ export class StatusBarManager implements vscode.Disposable {
       `**${char.name}** - Level ${char.level} ${char.class}\n\n` +
       `XP: ${char.xp} / ${char.xpToNextLevel}\n\n` +
       `Gold: ${char.gold}\n\n` +
+      `Streak: ${streak.current} day(s)${streak.freezes > 0 ? ` (${streak.freezes} 🧊)` : ''}\n\n` +
       `---\n\n` +
       `**Today's Activity:**\n\n` +
       `Commits: ${today.commits}\n\n` +
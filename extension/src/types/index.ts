@@ -47,6 +47,17 @@ export type CharacterData = Character;
 // Battle Types
 // -----------------------------------------------------------------------------
 
+/**
+ * Active skill from talents; may replace a fighter's attack
+ */
+export interface BattleSkill {
+  id: string;
+  name: string;
+  chance: number;           // Per attack
+  damageMultiplier: number;
+  effects?: StatusEffectApplication[];
+}
+
 /**
  * A fighter in battle - can be a player character or enemy
  */
@@ -57,12 +68,14 @@ export interface BattleFighter {
   level: number;
   stats: CharacterStats;
   currentHp: number;
+  skills?: BattleSkill[];
+  statusEffects?: StatusEffect[];  // Carried between co-op boss turns
 }
 
 /**
  * Types of actions that can be taken in battle
  */
-export type BattleActionType = 'attack' | 'spell' | 'defend';
+export type BattleActionType = 'attack' | 'spell' | 'defend' | 'status';
 
 /**
  * Record of a single action taken during battle
@@ -76,6 +89,114 @@ export interface BattleAction {
   damage: number;
   isCrit: boolean;
   resultingHp: number;
+  skillName?: string;   // Set when a talent skill replaced the attack
+  abilityId?: string;   // Set when the actor used its class ability
+  abilityName?: string;
+  hits?: number;        // Multi-hit abilities report their total damage
+  blocked?: number;     // Damage absorbed by the target's block or shield
+  statusEffect?: StatusEffectType;        // The effect that ticked, for 'status' actions
+  isHeal?: boolean;
+  appliedEffects?: StatusEffectType[];    // Effects this action inflicted or granted
+  statusEffects?: Record<string, StatusEffectSnapshot[]>;  // Per fighter id, after the action
+}
+
+/**
+ * Pool a class spends on its ability
+ */
+export type BattleResourceType = 'mana' | 'energy';
+
+/**
+ * Class ability the battle AI can choose instead of attacking
+ */
+export interface ClassAbility {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  actionType: 'spell' | 'defend';
+  cost: number;
+  cooldown: number;          // Own turns before it can be used again
+  damageMultiplier: number;  // Of a normal attack, per hit; 0 for defends
+  hits?: number;
+  ignoreDefense?: boolean;
+  guaranteedCrit?: boolean;
+  blockFraction?: number;    // Share of the next hit taken that is absorbed
+  effects?: StatusEffectApplication[];
+}
+
+// -----------------------------------------------------------------------------
+// Status Effect Types
+// -----------------------------------------------------------------------------
+
+export type StatusEffectType = 'poison' | 'burn' | 'stun' | 'shield' | 'enrage' | 'regen';
+
+/**
+ * What happens when an effect is applied to a fighter that already has it:
+ * 'intensity' adds a stack and refreshes the duration, 'refresh' resets the
+ * duration keeping the stronger amount, 'extend' adds the durations, and
+ * 'ignore' leaves the running effect alone
+ */
+export type StatusStacking = 'intensity' | 'refresh' | 'extend' | 'ignore';
+
+export interface StatusEffectDefinition {
+  type: StatusEffectType;
+  name: string;
+  icon: string;
+  kind: 'buff' | 'debuff';
+  stacking: StatusStacking;
+  maxStacks: number;
+}
+
+/**
+ * An effect a skill or boss trait applies. `potency` is read per type:
+ * poison and burn deal that share of the source's attack each turn, regen
+ * heals and shield absorbs that share of the bearer's max HP, enrage adds
+ * that share to attack, and stun ignores it.
+ */
+export interface StatusEffectApplication {
+  type: StatusEffectType;
+  target: 'self' | 'target';
+  duration: number;   // Bearer's turns
+  potency: number;
+  chance?: number;    // Defaults to always
+}
+
+/**
+ * An effect running on a fighter
+ */
+export interface StatusEffect {
+  type: StatusEffectType;
+  turnsLeft: number;
+  stacks: number;
+  amount: number;     // Resolved potency: damage, heal or absorb per stack, or attack bonus
+}
+
+/**
+ * Running effect as shown next to a fighter
+ */
+export interface StatusEffectSnapshot {
+  type: StatusEffectType;
+  stacks: number;
+  turnsLeft: number;
+}
+
+/**
+ * Boss behaviour that applies status effects. `below_half_hp` fires on each
+ * boss turn spent under half HP without the effect already running.
+ */
+export interface BossTrait {
+  trigger: 'on_hit' | 'battle_start' | 'every_n_turns' | 'below_half_hp';
+  everyTurns?: number;
+  effect: StatusEffectApplication;
+}
+
+/**
+ * Resource pool a class fights with
+ */
+export interface BattleResource {
+  type: BattleResourceType;
+  max: number;
+  regenPerTurn: number;
 }
 
 /**
@@ -102,9 +223,41 @@ export interface BattleResult {
   loser: BattleFighter;
   actions: BattleAction[];
   totalTurns: number;
+  seed: number;           // Replays with the same fighters reproduce the actions
+  engineVersion: number;
   rewards: BattleRewards;
 }
 
+/**
+ * A finished PvP or boss battle from the local player's point of view
+ */
+/**
+ * Ghost battle someone fought against our stored stats, shown once we're back
+ */
+export interface GhostDefense {
+  battleId: string;
+  attackerName: string;
+  won: boolean;  // Whether our ghost won
+  completedAt: string;
+}
+
+export interface BattleOutcome {
+  kind: 'pvp' | 'boss';
+  won: boolean;
+  opponentLevel?: number; // PvP only
+  withFriend?: boolean;   // Boss fought alongside a friend
+  rewards?: BattleRewards; // Boss only; each player's client credits its own
+}
+
+/**
+ * Battles won per kind, e.g. for today's stats
+ */
+export interface BattleWinCounts {
+  pvp: number;
+  boss: number;
+  coopBoss: number; // Boss wins with a friend (also counted in `boss`)
+}
+
 // -----------------------------------------------------------------------------
 // Boss Types
 // -----------------------------------------------------------------------------
@@ -121,6 +274,7 @@ export interface BossDefinition {
   baseSpeed: number;
   specialTrait: string;
   description: string;
+  traits?: BossTrait[];
 }
 
 /**
@@ -134,6 +288,7 @@ export interface BossInstance {
   defense: number;
   speed: number;
   level: number;
+  statusEffects?: StatusEffect[];
 }
 
 // -----------------------------------------------------------------------------
@@ -143,7 +298,12 @@ export interface BossInstance {
 /**
  * Categories of quests
  */
-export type QuestType = 'daily' | 'streak' | 'achievement' | 'social';
+export type QuestType = 'daily' | 'weekly' | 'monthly' | 'chain' | 'streak' | 'achievement' | 'social';
+
+/**
+ * Quest types generated from template pools, each with its own refresh cadence
+ */
+export type QuestTier = 'daily' | 'weekly' | 'monthly';
 
 /**
  * Current status of a quest
@@ -159,7 +319,22 @@ export type QuestRequirementType =
   | 'files_changed'
   | 'streak_days'
   | 'battles_won'
-  | 'reviews_given';
+  | 'reviews_given'
+  // Counted from Conventional Commit types
+  | 'features_shipped'
+  | 'bugs_fixed'
+  | 'test_commits'
+  | 'docs_commits'
+  | 'refactor_commits'
+  | 'perf_commits'
+  | 'coauthored_commits'
+  // Counted from editor activity events
+  | 'test_runs'
+  | 'errors_fixed'
+  | 'lint_fixes'
+  // Counted from today's battle wins
+  | 'pvp_wins'
+  | 'coop_boss_wins';
 
 /**
  * Quest instance from database (matches Supabase schema)
@@ -179,6 +354,8 @@ export interface Quest {
   expires_at: string | null;
   created_at: string;
   completed_at: string | null;
+  chain_id: string | null;    // Quest chain this step belongs to
+  chain_step: number | null;  // 0-based step within the chain
 }
 
 /**
@@ -193,6 +370,26 @@ export interface QuestTemplate {
   gold: number;
 }
 
+/**
+ * One step of a quest chain; the next step unlocks when this one completes
+ */
+export interface QuestChainStep {
+  description: string;
+  type: QuestRequirementType;
+  target: number;
+  xp: number;
+  gold: number;
+}
+
+/**
+ * Sequence of quests completed in order
+ */
+export interface QuestChain {
+  id: string;
+  name: string;
+  steps: QuestChainStep[];
+}
+
 // -----------------------------------------------------------------------------
 // Economy Types - Workers
 // -----------------------------------------------------------------------------
@@ -209,6 +406,45 @@ export interface Worker {
   last_collected_at: string;
 }
 
+/**
+ * Period each quest tier was last refreshed for, and the day of the last
+ * reroll (the users row columns last_*quest_refresh and last_quest_reroll)
+ */
+export interface QuestSchedule {
+  daily: string | null;   // YYYY-MM-DD
+  weekly: string | null;  // YYYY-Www
+  monthly: string | null; // YYYY-MM
+  lastReroll: string | null;
+}
+
+/**
+ * Quests and workers kept locally while no account is connected. Rows mirror
+ * the Supabase tables and move there once the player connects.
+ */
+export interface LocalEconomyState {
+  quests: Quest[];
+  workers: Worker[];
+  questSchedule: QuestSchedule;
+}
+
+/**
+ * Account gold and total XP (the users row columns gold and total_xp)
+ */
+export interface Wallet {
+  gold: number;
+  totalXp: number;
+}
+
+/**
+ * Gold and XP gained or spent locally that the account hasn't applied yet
+ */
+export interface PendingWallet {
+  gold: number;         // Negative when more was spent than earned
+  xp: number;
+  held: number;         // Set aside for offline shop purchases the account charges later
+  reconciled: boolean;  // False for saves from before changes were tracked
+}
+
 /**
  * Configuration for worker economy calculations
  */
@@ -234,6 +470,10 @@ export interface TodayStats {
   linesRemoved: number;
   filesChanged: number;
   xpEarned: number;
+  categories: CommitCategoryCounts;
+  coAuthoredCommits: number;
+  events: ActivityEventCounts;
+  battlesWon: BattleWinCounts;
 }
 
 /**
@@ -241,7 +481,57 @@ export interface TodayStats {
  */
 export interface TrackingState {
   lastCheckedAt: string; // ISO date string
-  processedCommitHashes: string[]; // Prevent double-counting commits
+  /** @deprecated Replaced by the activity ledger; only read to migrate older saves */
+  processedCommitHashes?: string[];
+  historyImportedAt?: string; // Set once past commits have been backfilled
+  historyImportDismissed?: boolean; // Player declined the first-run import offer
+}
+
+/**
+ * Every identity the player commits under.
+ * A commit counts if its (mailmap-resolved) author matches any entry.
+ */
+export interface AuthorIdentities {
+  emails: string[];
+  names: string[];
+  githubUsernames: string[]; // matches <id>+<user>@users.noreply.github.com
+}
+
+/**
+ * Kind of identity entry, keyed to the AuthorIdentities list it lives in
+ */
+export type AuthorIdentityKind = keyof AuthorIdentities;
+
+/**
+ * Daily coding streak. Dates are YYYY-MM-DD in the streak's time zone.
+ */
+export interface StreakState {
+  current: number;
+  longest: number;
+  lastActiveDate: string | null;
+  freezes: number;              // Streak freezes owned
+  frozenDates: string[];        // Missed days a freeze covered (most recent last)
+  milestonesClaimed: number[];  // Milestones rewarded during the current streak
+}
+
+/**
+ * How streak days are counted (gitrpg.streaks settings)
+ */
+export interface StreakSettings {
+  workdaysOnly: boolean;  // Weekends can't break a streak
+  timeZone: string;       // IANA zone; empty uses the system zone
+}
+
+/**
+ * What happened to the streak when activity was recorded
+ */
+export interface StreakUpdate {
+  current: number;
+  extended: boolean;      // First activity of a new streak day
+  broken: boolean;        // The previous streak was lost
+  freezesUsed: number;
+  milestone: number | null;
+  milestoneGold: number;
 }
 
 /**
@@ -251,7 +541,113 @@ export interface LocalGameState {
   character: Character;
   todayStats: TodayStats;
   tracking: TrackingState;
-  gitEmail: string | null;
+  identities: AuthorIdentities;
+  streak: StreakState;
+  achievements: AchievementState;
+  economy: LocalEconomyState;
+  pendingWallet: PendingWallet;
+  inventory: InventoryState;
+  shop: ShopState;
+  talents: TalentState;
+}
+
+// -----------------------------------------------------------------------------
+// Tracking Rule Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Rules from the `gitrpg.tracking` settings deciding which repos earn XP
+ */
+export interface RepoTrackingRules {
+  include: string[];
+  exclude: string[];
+  includeRemotes: string[];
+  excludeRemotes: string[];
+  xpMultipliers: Record<string, number>;
+}
+
+/**
+ * Outcome of applying tracking rules to a single repository
+ */
+export interface RepoTrackingDecision {
+  tracked: boolean;
+  reason: string;
+  xpMultiplier: number;
+}
+
+// -----------------------------------------------------------------------------
+// Scoring Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Per-file line counts from `git log --numstat`
+ */
+export interface FileChange {
+  path: string;
+  insertions: number;
+  deletions: number;
+}
+
+/**
+ * How a changed file is treated for XP; only 'source' files count
+ */
+export type FileClass = 'source' | 'ignored' | 'lockfile' | 'generated' | 'vendored';
+
+/**
+ * linguist-generated / linguist-vendored from a `.gitattributes` line
+ * (undefined = the line doesn't say)
+ */
+export interface GitAttributeRule {
+  pattern: string;
+  generated?: boolean;
+  vendored?: boolean;
+}
+
+/**
+ * Which changed files earn XP (from `gitrpg.scoring` settings plus the repo's .gitattributes)
+ */
+export interface FileScoringOptions {
+  detectGenerated: boolean;
+  ignore: string[];
+  attributes: GitAttributeRule[];
+}
+
+// -----------------------------------------------------------------------------
+// History Import Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Decay and cap applied to backfilled commits (from `gitrpg.historyImport` settings)
+ */
+export interface HistoryImportOptions {
+  halfLifeDays: number;
+  maxAgeDays: number;
+  maxTotalXp: number;
+}
+
+/**
+ * Per-repo totals shown in the import preview
+ */
+export interface HistoryImportRepoSummary {
+  repoPath: string;
+  commits: number;
+  xp: number;
+}
+
+/**
+ * What an import would do to the character, computed before anything is saved
+ */
+export interface HistoryImportPreview {
+  repos: HistoryImportRepoSummary[];
+  totalCommits: number;
+  rawXp: number;       // XP before decay and cap
+  totalXp: number;     // XP that would actually be awarded
+  capped: boolean;
+  oldestCommitDate: string | null;
+  currentLevel: number;
+  projectedLevel: number;
+  projectedGold: number; // Level-up gold that comes with the import
+  entries: ActivityLedgerEntry[]; // Per-commit records written to the ledger on import
 }
 
 // -----------------------------------------------------------------------------
@@ -265,4 +661,459 @@ export interface ActivityResult {
   xpEarned: number;
   leveledUp: boolean;
   newLevel: number;
+  softCapped?: boolean; // XP was reduced by the daily soft cap
+  streak?: StreakUpdate;
+}
+
+/**
+ * Where an XP-awarding activity came from
+ */
+export type ActivitySource = 'commit' | 'history' | 'legacy' | 'coauthor';
+
+/**
+ * One append-only record in the local activity ledger
+ */
+export interface ActivityLedgerEntry {
+  hash: string;
+  patchId?: string;      // `git patch-id`, shared by rebased and cherry-picked copies
+  repo: string;          // Repo path; empty for migrated legacy and co-author entries
+  timestamp: string;     // Commit author date (ISO)
+  recordedAt: string;    // When XP was awarded (ISO)
+  linesAdded: number;
+  linesRemoved: number;
+  filesChanged: number;
+  xpAwarded: number;
+  source: ActivitySource;
+  message?: string;      // Commit subject, used by anti-gaming checks
+  flags?: CommitFlag[];  // Why XP was reduced, if it was
+  category?: CommitCategory;
+}
+
+// -----------------------------------------------------------------------------
+// Commit Message Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Conventional Commit types that earn a bonus
+ */
+export type CommitCategory = 'feat' | 'fix' | 'test' | 'docs' | 'refactor' | 'perf';
+
+/**
+ * Commits per category, e.g. for today's stats
+ */
+export type CommitCategoryCounts = Record<CommitCategory, number>;
+
+/**
+ * Person credited via a `Co-authored-by:` trailer
+ */
+export interface CoAuthor {
+  name: string;
+  email: string;
+}
+
+/**
+ * What the tracker understood from a commit subject and trailers
+ */
+export interface ParsedCommitMessage {
+  type: string | null;              // Raw Conventional Commit type, if any
+  category: CommitCategory | null;  // null for untyped or unrewarded types (chore, ci...)
+  scope: string | null;
+  breaking: boolean;
+  coAuthors: CoAuthor[];
+}
+
+// -----------------------------------------------------------------------------
+// Anti-Gaming Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Suspicious-commit heuristics that can reduce a commit's XP
+ */
+export type CommitFlag = 'empty' | 'whitespace' | 'revert' | 'amend' | 'duplicate-message' | 'burst';
+
+/**
+ * Heuristic result for one commit; weight multiplies its XP (1 = untouched)
+ */
+export interface CommitVerdict {
+  weight: number;
+  flags: CommitFlag[];
+  reasons: string[];
+}
+
+// -----------------------------------------------------------------------------
+// Activity Event Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Non-commit activity that earns XP
+ */
+export type ActivityEventKind = 'test_run' | 'diagnostics_cleared' | 'lint_fix' | 'review_given';
+
+/**
+ * Events per kind, e.g. for today's stats
+ */
+export type ActivityEventCounts = Record<ActivityEventKind, number>;
+
+/**
+ * Typed event produced by an activity source
+ */
+export type ActivityEvent =
+  | { kind: 'test_run'; source: string; label: string }
+  | { kind: 'diagnostics_cleared'; source: string; file: string; errorsCleared: number }
+  | { kind: 'lint_fix'; source: string; file: string; warningsFixed: number }
+  | { kind: 'review_given'; source: string; pullRequest: string; title: string };
+
+// -----------------------------------------------------------------------------
+// Achievement Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Numbers achievements are measured against
+ */
+export type AchievementMetric =
+  | 'total_commits'
+  | 'level'
+  | 'longest_streak'
+  | 'boss_kills'
+  | 'pvp_wins'
+  | 'higher_level_pvp_wins'
+  | 'classes_mastered';
+
+/**
+ * Catalog entry; unlocked once `metric` reaches `target`
+ */
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  metric: AchievementMetric;
+  target: number;
+  goldReward: number;
+}
+
+/**
+ * Counters for achievements that can't be derived from other state
+ */
+export interface AchievementStats {
+  bossKills: number;
+  pvpWins: number;
+  higherLevelPvpWins: number;
+  classXp: Partial<Record<CharacterClass, number>>;      // XP earned while playing each class
+  classLevels: Partial<Record<CharacterClass, number>>;  // Level each class's own XP reaches
+}
+
+/**
+ * Local achievement progress; unlocked maps achievement id to unlock time (ISO)
+ */
+export interface AchievementState {
+  unlocked: Record<string, string>;
+  stats: AchievementStats;
+}
+
+/**
+ * Achievement as shown in the gallery
+ */
+export interface AchievementStatus extends AchievementDefinition {
+  progress: number;
+  unlockedAt: string | null;
+}
+
+// -----------------------------------------------------------------------------
+// Item Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Equipment slot an item occupies
+ */
+export type ItemSlot = 'weapon' | 'armor';
+
+/**
+ * Rarity tier; rarer items carry bigger stat modifiers
+ */
+export type ItemRarity = 'common' | 'uncommon' | 'rare' | 'epic' | 'legendary';
+
+/**
+ * Catalog entry; modifiers are added to the wearer's stats in battle
+ */
+export interface ItemDefinition {
+  id: string;
+  name: string;
+  slot: ItemSlot;
+  rarity: ItemRarity;
+  icon: string;
+  description: string;
+  modifiers: Partial<CharacterStats>;
+}
+
+/**
+ * Where an item came from
+ */
+export type LootSource = 'boss' | 'daily_quest' | 'weekly_quest' | 'monthly_quest' | 'chain_quest';
+
+/**
+ * Chance of any drop, then relative odds of each rarity
+ */
+export interface LootTable {
+  dropChance: number;
+  rarityWeights: Record<ItemRarity, number>;
+}
+
+/**
+ * One owned copy of a catalog item (matches the user_items table)
+ */
+export interface InventoryItem {
+  id: string;
+  itemId: string;
+  source: LootSource;
+  acquiredAt: string; // ISO
+}
+
+/**
+ * Owned items and the catalog item id equipped in each slot
+ */
+export interface InventoryState {
+  items: InventoryItem[];
+  equipped: Record<ItemSlot, string | null>;
+}
+
+/**
+ * Catalog item as shown in the inventory, with copies owned
+ */
+export interface OwnedItem extends ItemDefinition {
+  count: number;
+  equipped: boolean;
+}
+
+// -----------------------------------------------------------------------------
+// Shop Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Shop sections; potions and consumables stack, cosmetics are bought once
+ */
+export type ShopCategory = 'potion' | 'consumable' | 'recolor' | 'badge';
+
+/**
+ * What a shop item does when used or applied
+ */
+export type ShopItemEffect =
+  | { kind: 'xp_boost'; multiplier: number; durationMinutes: number }
+  | { kind: 'battle_buff'; modifiers: Partial<CharacterStats> }  // Next battle only
+  | { kind: 'recolor'; hue: number }                             // Sprite hue rotation in degrees
+  | { kind: 'badge'; title: string };
+
+/**
+ * Shop catalog entry
+ */
+export interface ShopItem {
+  id: string;
+  name: string;
+  category: ShopCategory;
+  price: number;
+  icon: string;
+  description: string;
+  effect: ShopItemEffect;
+}
+
+/**
+ * XP multiplier from a potion, active until expiresAt (ISO)
+ */
+export interface XpBoost {
+  itemId: string;
+  multiplier: number;
+  expiresAt: string;
+}
+
+/**
+ * Bought shop items and what is currently in use
+ */
+export interface ShopState {
+  owned: Record<string, number>;  // Shop item id -> quantity
+  offlinePurchases: Record<string, number>;  // Bought while signed out, not yet charged by the account
+  offlineUses: Record<string, number>;       // Used up while signed out
+  xpBoost: XpBoost | null;
+  battleBuff: string | null;      // Consumable readied for the next battle
+  recolor: string | null;
+  badge: string | null;
+}
+
+/**
+ * Shop item as shown in the shop tab
+ */
+export interface ShopItemStatus extends ShopItem {
+  owned: number;
+  active: boolean;  // Boost running, buff readied or cosmetic applied
+}
+
+// -----------------------------------------------------------------------------
+// Talent Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Talent in a class tree. Passives add `modifiers` per rank; actives grant a
+ * battle skill whose chance grows per rank.
+ */
+export interface TalentDefinition {
+  id: string;
+  name: string;
+  icon: string;
+  description: string;
+  maxRank: number;
+  requiredLevel: number;
+  requires?: string;  // Talent that needs at least one rank first
+  modifiers?: Partial<CharacterStats>;
+  skill?: { name: string; chancePerRank: number; damageMultiplier: number; effects?: StatusEffectApplication[] };
+}
+
+/**
+ * Ranks learned per class; each class tree gets the full point budget
+ */
+export interface TalentState {
+  ranks: Partial<Record<CharacterClass, Record<string, number>>>;
+}
+
+/**
+ * Talent as shown in the tree
+ */
+export interface TalentStatus extends TalentDefinition {
+  rank: number;
+  learnable: boolean;
+  blocker: string | null;  // Why it can't be learned right now
+}
+
+// -----------------------------------------------------------------------------
+// Ranked Types
+// -----------------------------------------------------------------------------
+
+/**
+ * Ladder division, reached at minRating and paying seasonRewardGold to
+ * players who finish a season in it
+ */
+export interface RankedDivision {
+  id: string;
+  name: string;
+  icon: string;
+  minRating: number;
+  seasonRewardGold: number;
+}
+
+/**
+ * Ranked season; starts and ends are ISO dates
+ */
+export interface RankedSeason {
+  id: number;
+  startsAt: string;
+  endsAt: string;
+}
+
+/**
+ * Glicko rating: `deviation` is how unsure the rating is, shrinking with
+ * games and growing while a player sits out
+ */
+export interface GlickoRating {
+  rating: number;
+  deviation: number;
+}
+
+/**
+ * Row on the ladder as shown in the dashboard
+ */
+export interface LadderEntry {
+  rank: number;
+  userId: string;
+  name: string;
+  characterClass: string;
+  level: number;
+  rating: number;
+  division: RankedDivision;
+  wins: number;
+  losses: number;
+  isMe: boolean;
+}
+
+/**
+ * Rating change from one ranked battle
+ */
+export interface RatingDelta {
+  battleId: string;
+  ratingBefore: number;
+  ratingAfter: number;
+  delta: number;
+  createdAt: string;
+}
+
+/**
+ * Everything the ladder tab shows
+ */
+export interface LadderView {
+  season: RankedSeason;
+  me: LadderEntry | null;  // Null until the first ranked battle of the season
+  entries: LadderEntry[];
+  recentDeltas: RatingDelta[];
+  lastSeasonReward: { division: RankedDivision; gold: number } | null;
+}
+
+// -----------------------------------------------------------------------------
+// Tournament Types
+// -----------------------------------------------------------------------------
+
+export type TournamentFormat = 'single_elimination' | 'double_elimination' | 'round_robin';
+
+/**
+ * Part of a bracket a match belongs to; round robin matches are all 'league'
+ */
+export type BracketSection = 'winners' | 'losers' | 'final' | 'league';
+
+/**
+ * Where a match slot's player comes from: a seeded player (null for a bye),
+ * or the winner or loser of another match
+ */
+export type MatchSource =
+  | { kind: 'seed'; playerId: string | null }
+  | { kind: 'winner' | 'loser'; matchId: string };
+
+/**
+ * One match in a bracket. A match with one player is a walkover and one with
+ * none is empty; both finish without a battle.
+ */
+export interface TournamentMatch {
+  id: string;
+  section: BracketSection;
+  round: number;
+  sources: [MatchSource, MatchSource];
+  playerIds: [string | null, string | null];  // Filled in as sources finish
+  done: boolean;
+  winnerId: string | null;
+  loserId: string | null;
+  seed: number | null;      // Battle seed, null for walkovers
+  winnerHp: number | null;  // HP the winner had left, the round robin tiebreak
+  skipped?: boolean;        // Grand final reset that wasn't needed
+}
+
+/**
+ * Tournament between friends. Fighters are snapshotted when it's created, so
+ * every match uses the same stats and can be replayed from its seed.
+ */
+export interface Tournament {
+  id: string;
+  name: string;
+  format: TournamentFormat;
+  organizerId: string;
+  playerIds: string[];  // In seed order
+  snapshots: Record<string, BattleFighter>;
+  engineVersion: number;
+  matches: TournamentMatch[];
+  championId: string | null;
+  createdAt: string;
+}
+
+/**
+ * Round robin table row
+ */
+export interface TournamentStanding {
+  playerId: string;
+  wins: number;
+  losses: number;
+  hpMargin: number;  // HP left over across wins
 }
@@ -12,7 +12,7 @@ export const DEFAULT_BATTLE_CONFIG: BattleAnimationConfig = {
   victoryDuration: 2000
 };
 
-export type BattleAnimationState = 'idle' | 'attacking' | 'hurt' | 'victory' | 'defeat';
+export type BattleAnimationState = 'idle' | 'attacking' | 'casting' | 'defending' | 'hurt' | 'victory' | 'defeat';
 
 export interface FighterAnimationState {
   id: string;
@@ -99,8 +99,39 @@ export class BattleAnimationPlayer {
 
     if (!attacker || !defender) return;
 
-    // Attacker attacks
-    attacker.state = 'attacking';
+    if (action.actionType === 'status') {
+      // Effects tick on their bearer: flinch at damage, then move on
+      attacker.state = action.damage > 0 && !action.isHeal ? 'hurt' : 'idle';
+      attacker.currentHp = action.resultingHp;
+      this.onUpdate(this);
+
+      setTimeout(() => {
+        attacker.state = attacker.currentHp > 0 ? 'idle' : 'defeat';
+        this.onUpdate(this);
+
+        this.currentActionIndex++;
+        setTimeout(() => this.playNextAction(), 200);
+      }, this.config.damagePauseDuration);
+      return;
+    }
+
+    if (action.actionType === 'defend') {
+      // Defends have no target to hit; hold the pose, then move on
+      attacker.state = 'defending';
+      this.onUpdate(this);
+
+      setTimeout(() => {
+        attacker.state = 'idle';
+        this.onUpdate(this);
+
+        this.currentActionIndex++;
+        setTimeout(() => this.playNextAction(), 200);
+      }, this.config.actionDuration);
+      return;
+    }
+
+    // Attacker attacks or casts
+    attacker.state = action.actionType === 'spell' ? 'casting' : 'attacking';
     this.onUpdate(this);
 
     setTimeout(() => {
@@ -93,6 +93,26 @@ export function generateBattleHTML(
       overflow: hidden;
     }
 
+    .status-icons {
+      min-height: 18px;
+      margin-top: 4px;
+      font-size: 12px;
+    }
+
+    .status-icon {
+      display: inline-block;
+      margin-right: 4px;
+      font-family: sans-serif;
+    }
+
+    .status-icon.debuff { filter: drop-shadow(0 0 2px #ef4444); }
+    .status-icon.buff { filter: drop-shadow(0 0 2px #4ade80); }
+
+    .status-icon sub {
+      font-family: 'Press Start 2P', monospace;
+      font-size: 7px;
+    }
+
     .health-bar-fill {
       height: 100%;
       background: linear-gradient(180deg, #4ade80 0%, #22c55e 100%);
@@ -117,11 +137,26 @@ export function generateBattleHTML(
       pointer-events: none;
     }
 
+    .damage-popup.heal { color: #4ade80; }
+
     .damage-popup.crit {
       color: #f59e0b;
       font-size: 32px;
     }
 
+    .ability-popup {
+      position: absolute;
+      left: 50%;
+      top: -40px;
+      transform: translateX(-50%);
+      white-space: nowrap;
+      font-size: 10px;
+      color: #a78bfa;
+      text-shadow: 2px 2px #000;
+      animation: damageFloat 1s ease-out forwards;
+      pointer-events: none;
+    }
+
     @keyframes damageFloat {
       0% { opacity: 1; transform: translateY(0); }
       100% { opacity: 0; transform: translateY(-50px); }
@@ -215,6 +250,12 @@ export function generateBattleHTML(
     .fighter-sprite.animation-attacking {
       animation: attackAnim 0.3s ease-out;
     }
+    .fighter-sprite.animation-casting {
+      animation: castAnim 0.4s ease-out;
+    }
+    .fighter-sprite.animation-defending {
+      filter: drop-shadow(0 0 8px #60a5fa);
+    }
     .fighter-sprite.animation-hurt {
       animation: hurtAnim 0.3s ease-out;
     }
@@ -232,6 +273,11 @@ export function generateBattleHTML(
       100% { transform: translateX(0); }
     }
 
+    @keyframes castAnim {
+      0%, 100% { transform: translateY(0); filter: none; }
+      50% { transform: translateY(-8px); filter: drop-shadow(0 0 10px #a78bfa); }
+    }
+
     @keyframes hurtAnim {
       0%, 100% { transform: translateX(0); }
       25% { transform: translateX(-10px); }
@@ -252,6 +298,7 @@ export function generateBattleHTML(
       <div class="health-bar">
         <div class="health-bar-fill" id="p1-health" style="width: 100%"></div>
       </div>
+      <div class="status-icons" id="p1-status"></div>
     </div>
 
     <div class="health-bar-container health-bar-right">
@@ -260,6 +307,7 @@ export function generateBattleHTML(
       <div class="health-bar">
         <div class="health-bar-fill" id="p2-health" style="width: 100%"></div>
       </div>
+      <div class="status-icons" id="p2-status"></div>
     </div>
 
     <div class="fighter fighter-left" id="fighter1">
@@ -304,7 +352,13 @@ export function generateBattleHTML(
           updateHealthBar(message.playerId, message.currentHp, message.maxHp);
           break;
         case 'showDamage':
-          showDamagePopup(message.targetId, message.damage, message.isCrit);
+          showDamagePopup(message.targetId, message.damage, message.isCrit, message.isHeal);
+          break;
+        case 'updateStatus':
+          updateStatusIcons(message.fighterId, message.effects);
+          break;
+        case 'showAbility':
+          showAbilityPopup(message.fighterId, message.name);
           break;
         case 'updateAnimation':
           updateFighterAnimation(message.fighterId, message.animation);
@@ -328,17 +382,43 @@ export function generateBattleHTML(
       else if (percent <= 50) bar.classList.add('medium');
     }
 
-    function showDamagePopup(targetId, damage, isCrit) {
+    function showDamagePopup(targetId, damage, isCrit, isHeal) {
       const fighter = document.getElementById(targetId === 1 ? 'fighter1' : 'fighter2');
       const popup = document.createElement('div');
-      popup.className = 'damage-popup' + (isCrit ? ' crit' : '');
-      popup.textContent = (isCrit ? 'CRIT! ' : '') + damage;
+      popup.className = 'damage-popup' + (isCrit ? ' crit' : '') + (isHeal ? ' heal' : '');
+      popup.textContent = (isCrit ? 'CRIT! ' : '') + (isHeal ? '+' : '') + damage;
       popup.style.left = '50%';
       popup.style.top = '-20px';
       fighter.appendChild(popup);
       setTimeout(() => popup.remove(), 1000);
     }
 
+    function updateStatusIcons(fighterId, effects) {
+      const row = document.getElementById(fighterId === 1 ? 'p1-status' : 'p2-status');
+      row.textContent = '';
+      for (const effect of effects) {
+        const icon = document.createElement('span');
+        icon.className = 'status-icon ' + effect.kind;
+        icon.title = effect.name + ' (' + effect.turnsLeft + ' turns)';
+        icon.textContent = effect.icon;
+        if (effect.stacks > 1) {
+          const stacks = document.createElement('sub');
+          stacks.textContent = 'x' + effect.stacks;
+          icon.appendChild(stacks);
+        }
+        row.appendChild(icon);
+      }
+    }
+
+    function showAbilityPopup(fighterId, name) {
+      const fighter = document.getElementById(fighterId === 1 ? 'fighter1' : 'fighter2');
+      const popup = document.createElement('div');
+      popup.className = 'ability-popup';
+      popup.textContent = name;
+      fighter.appendChild(popup);
+      setTimeout(() => popup.remove(), 1000);
+    }
+
     function addLogEntry(text, isCrit) {
       const log = document.getElementById('battleLog');
       const entry = document.createElement('div');
@@ -2,14 +2,19 @@ import * as vscode from 'vscode';
 import { buildWebviewHtml } from '../webviewUtils';
 import { LocalStateManager } from '../../services/localStateManager';
 import { SupabaseClientService } from '../../services/supabaseClient';
-import { QuestService } from '../../services/questService';
+import { QuestService, isQuestTier } from '../../services/questService';
 import { WorkerService } from '../../services/workerService';
 import { FriendsService } from '../../services/friendsService';
 import { PvpBattleService } from '../../services/pvpBattleService';
 import { CoopBattleService } from '../../services/coopBattleService';
 import { GitTrackingService } from '../../services/gitTrackingService';
+import { AchievementService } from '../../services/achievementService';
+import { ShopService, getShopItem } from '../../services/shopService';
+import { RankedService } from '../../services/rankedService';
+import { TournamentService, TOURNAMENT_FORMAT_NAMES, readyMatches, tournamentStandings } from '../../services/tournamentService';
 import { showBattlePanel, BattleData } from '../../commands/battleCommand';
-import type { CharacterClass } from '../../types';
+import type { CharacterClass, LadderView, Quest, Tournament } from '../../types';
+import { QUEST_REROLL_COST } from '../../config/classConfig';
 
 /**
  * Services required by the DashboardPanel
@@ -23,6 +28,10 @@ export interface DashboardServices {
   pvpBattleService: PvpBattleService;
   coopBattleService: CoopBattleService;
   gitTracker: GitTrackingService;
+  achievementService: AchievementService;
+  shopService: ShopService;
+  rankedService: RankedService;
+  tournamentService: TournamentService;
 }
 
 /**
@@ -134,6 +143,8 @@ export class DashboardPanel {
       type: 'stateUpdate',
       character,
       todayStats,
+      achievements: this.services.achievementService.getAchievements(),
+      ...this.getShopData(),
       quests: this.cachedQuests,
       workerSummary: this.cachedWorkerSummary,
       isAuthenticated: this.cachedIsAuthenticated,
@@ -149,24 +160,31 @@ export class DashboardPanel {
    * Send current state to the webview
    */
   public async sendStateToWebview(): Promise<void> {
-    const { stateManager, supabaseClient, questService, workerService, friendsService, pvpBattleService, coopBattleService } = this.services;
+    const { stateManager, supabaseClient, questService, workerService, friendsService, pvpBattleService, coopBattleService, achievementService, rankedService, tournamentService } = this.services;
 
     const character = stateManager.getCharacter();
     const todayStats = stateManager.getTodayStats();
+    const achievements = achievementService.getAchievements();
 
-    // Fetch quests, workers, and pending requests if authenticated
+    // Quests and workers work offline; pending requests need an account
     let quests: any[] = [];
     let workerSummary = { workerCount: 0, totalGoldPerHour: 0, pendingGold: 0, nextWorkerCost: 100 };
     let pendingFriendRequests: any[] = [];
     let pendingPvpChallenges: any[] = [];
     let pendingBossInvites: any[] = [];
+    let ladder: LadderView | null = null;
+    let tournaments: Tournament[] = [];
 
     const isAuthenticated = supabaseClient.isAuthenticated();
+    try {
+      quests = await questService.refreshQuestsIfNeeded();
+      workerSummary = await workerService.getWorkerSummary();
+    } catch (err) {
+      console.error('Error fetching quests and workers:', err);
+    }
+
     if (isAuthenticated) {
       try {
-        quests = await questService.refreshDailyQuestsIfNeeded();
-        workerSummary = await workerService.getWorkerSummary();
-
         // Get pending friend requests (where we are the addressee, not the requester)
         const friends = await friendsService.getFriends();
         pendingFriendRequests = friends.filter(f => f.status === 'pending' && !f.isRequester);
@@ -176,6 +194,12 @@ export class DashboardPanel {
 
         // Get pending boss invites
         pendingBossInvites = await coopBattleService.getPendingBossInvites();
+
+        // Get our ladder standing and the top players
+        ladder = await rankedService.getLadderView();
+
+        // Get the tournaments we're playing in
+        tournaments = await tournamentService.getTournaments();
       } catch (err) {
         console.error('Error fetching data:', err);
       }
@@ -190,15 +214,44 @@ export class DashboardPanel {
       type: 'stateUpdate',
       character,
       todayStats,
+      achievements,
+      ...this.getShopData(),
       quests,
       workerSummary,
       pendingFriendRequests,
       pendingPvpChallenges,
       pendingBossInvites,
+      ladder,
+      tournaments: tournaments.map(t => this.getTournamentView(t)),
       isAuthenticated
     });
   }
 
+  /**
+   * Tournament plus what the webview can't work out itself: the format's
+   * name, the round robin table and whether a round is waiting to be played
+   */
+  private getTournamentView(tournament: Tournament): Record<string, unknown> {
+    return {
+      ...tournament,
+      formatName: TOURNAMENT_FORMAT_NAMES[tournament.format],
+      standings: tournament.format === 'round_robin' ? tournamentStandings(tournament.matches, tournament.playerIds) : [],
+      canPlay: !tournament.championId && readyMatches(tournament).length > 0,
+    };
+  }
+
+  /**
+   * Shop tab contents plus the applied cosmetics and running XP boost (local only)
+   */
+  private getShopData(): Record<string, unknown> {
+    const { shopService } = this.services;
+    return {
+      shopItems: shopService.getShopItems(),
+      cosmetics: shopService.getCosmetics(),
+      xpBoost: shopService.getActiveXpBoost(),
+    };
+  }
+
   /**
    * Update state with specific data (for incremental updates)
    */
@@ -248,7 +301,7 @@ export class DashboardPanel {
    * Handle messages from the webview
    */
   private async handleMessage(message: any, context: vscode.ExtensionContext): Promise<void> {
-    const { stateManager, gitTracker, supabaseClient, questService, friendsService, pvpBattleService, coopBattleService } = this.services;
+    const { stateManager, gitTracker, questService, friendsService, pvpBattleService, coopBattleService, shopService, tournamentService } = this.services;
 
     switch (message.type) {
       case 'alert':
@@ -317,6 +370,72 @@ export class DashboardPanel {
         break;
       }
 
+      case 'rerollQuest': {
+        const quest: Quest | undefined = this.cachedQuests.find(q => q.id === message.questId);
+        if (!quest || !isQuestTier(quest.quest_type)) break;
+
+        const cost = QUEST_REROLL_COST[quest.quest_type];
+        const confirm = await vscode.window.showWarningMessage(
+          `Reroll "${quest.title}" for ${cost} gold? You can reroll one quest per day.`,
+          { modal: true },
+          'Reroll'
+        );
+        if (confirm !== 'Reroll') break;
+
+        const result = await questService.rerollQuest(message.questId);
+        if (result.success) {
+          vscode.window.showInformationMessage(`New quest: ${result.quest?.title}`);
+          await this.sendStateToWebview();
+        } else {
+          vscode.window.showErrorMessage(result.error || 'Failed to reroll quest');
+        }
+        break;
+      }
+
+      case 'buyShopItem': {
+        const item = getShopItem(message.itemId);
+        if (!item) break;
+
+        const confirm = await vscode.window.showWarningMessage(
+          `Buy ${item.name} for ${item.price} gold?`,
+          { modal: true },
+          'Buy'
+        );
+        if (confirm !== 'Buy') break;
+
+        const result = await shopService.purchase(item.id);
+        if (result.success) {
+          vscode.window.showInformationMessage(`Bought ${item.icon} ${item.name}!`);
+        } else {
+          vscode.window.showErrorMessage(result.error || 'Purchase failed');
+        }
+        break;
+      }
+
+      case 'useShopItem': {
+        const result = await shopService.use(message.itemId);
+        if (!result.success) {
+          vscode.window.showErrorMessage(result.error || 'Could not use item');
+        }
+        break;
+      }
+
+      case 'createTournament':
+        vscode.commands.executeCommand('gitrpg.createTournament');
+        break;
+
+      case 'playTournamentRound': {
+        const result = await tournamentService.playNextRound(message.tournamentId);
+        if (!result.success || !result.tournament) {
+          vscode.window.showErrorMessage(result.error || 'Failed to play round');
+        } else if (result.tournament.championId) {
+          const champion = result.tournament.snapshots[result.tournament.championId];
+          vscode.window.showInformationMessage(`🏆 ${champion?.name ?? 'Someone'} won ${result.tournament.name}!`);
+        }
+        await this.sendStateToWebview();
+        break;
+      }
+
       case 'acceptFriend': {
         const accepted = await friendsService.acceptFriendRequest(message.friendId);
         if (accepted) {
@@ -69,6 +69,7 @@ function updateCharacterUI(char) {
   setText('xpNext', char.xpToNextLevel);
   setStyle('xpBar', 'width', (char.xp / char.xpToNextLevel * 100) + '%');
   setText('gold', char.gold);
+  setText('shopGold', char.gold);
 
   const spriteImgEl = document.getElementById('spriteImg');
   if (spriteImgEl && spriteUris[char.class.toLowerCase()]) {
@@ -88,6 +89,9 @@ function updateTodayStatsUI(today) {
   setText('xpEarned', '+' + today.xpEarned);
 }
 
+// Quest tiers that can be swapped for gold (one reroll per day)
+const REROLLABLE_QUEST_TYPES = ['daily', 'weekly', 'monthly'];
+
 /**
  * Render quests list
  */
@@ -95,16 +99,13 @@ function renderQuests(quests, isAuthenticated) {
   const questsList = document.getElementById('questsList');
   if (!questsList) return;
 
-  if (!isAuthenticated) {
-    questsList.innerHTML = '<p class="muted">Connect account to see quests</p>';
-    return;
-  }
   if (!quests || quests.length === 0) {
     questsList.innerHTML = '<p class="muted">No active quests. Check back tomorrow!</p>';
     return;
   }
 
-  let html = '';
+  // Offline quests live on this machine until an account is connected
+  let html = isAuthenticated ? '' : '<p class="muted">Saved on this machine. Connect your account to sync quests and workers.</p>';
   for (const quest of quests) {
     const progress = Math.min(100, (quest.requirement_current / quest.requirement_target) * 100);
     const isComplete = quest.status === 'completed';
@@ -113,6 +114,7 @@ function renderQuests(quests, isAuthenticated) {
     html += '<div class="quest-item ' + (isComplete ? 'completed' : '') + '">';
     html += '  <div class="quest-header">';
     html += '    <span class="quest-title">' + (isComplete ? '[DONE] ' : '') + escapeHtml(quest.title) + '</span>';
+    html += '    <span class="quest-tier">' + escapeHtml(quest.quest_type) + '</span>';
     html += '    <span class="quest-reward">+' + escapeHtml(quest.reward_xp) + ' XP, +' + escapeHtml(quest.reward_gold) + ' Gold</span>';
     html += '  </div>';
     html += '  <div class="quest-description">' + escapeHtml(quest.description) + '</div>';
@@ -123,16 +125,303 @@ function renderQuests(quests, isAuthenticated) {
     if (isComplete && !isClaimed) {
       html += '  <button class="claim-btn" data-quest-id="' + escapeHtml(quest.id) + '">Claim Reward</button>';
     }
+    if (quest.status === 'active' && REROLLABLE_QUEST_TYPES.includes(quest.quest_type)) {
+      html += '  <button class="reroll-btn" data-quest-id="' + escapeHtml(quest.id) + '">Reroll</button>';
+    }
     html += '</div>';
   }
   questsList.innerHTML = html;
 }
 
+/**
+ * Render the achievements gallery
+ */
+function renderAchievements(achievements) {
+  const list = document.getElementById('achievementsList');
+  if (!list || !achievements) return;
+
+  const unlockedCount = achievements.filter(a => a.unlockedAt).length;
+  setText('achievementCount', '(' + unlockedCount + '/' + achievements.length + ')');
+
+  let html = '';
+  for (const achievement of achievements) {
+    const isUnlocked = !!achievement.unlockedAt;
+    const progress = Math.min(100, (achievement.progress / achievement.target) * 100);
+
+    html += '<div class="achievement-item ' + (isUnlocked ? 'unlocked' : 'locked') + '">';
+    html += '  <div class="achievement-icon">' + escapeHtml(achievement.icon) + '</div>';
+    html += '  <div class="achievement-name">' + escapeHtml(achievement.name) + '</div>';
+    html += '  <div class="achievement-description">' + escapeHtml(achievement.description) + '</div>';
+    if (isUnlocked) {
+      html += '  <div class="achievement-date">Unlocked ' + escapeHtml(new Date(achievement.unlockedAt).toLocaleDateString()) + '</div>';
+    } else {
+      html += '  <div class="quest-progress-bar"><div class="quest-progress-fill" style="width: ' + progress + '%"></div></div>';
+      html += '  <div class="quest-progress-text">' + escapeHtml(achievement.progress) + ' / ' + escapeHtml(achievement.target) + ' - +' + escapeHtml(achievement.goldReward) + ' Gold</div>';
+    }
+    html += '</div>';
+  }
+  list.innerHTML = html;
+}
+
+// Shop sections, keyed by item category
+const SHOP_SECTIONS = {
+  potion: 'shopPotions',
+  consumable: 'shopConsumables',
+  recolor: 'shopRecolors',
+  badge: 'shopBadges'
+};
+
+// Label of the button that uses an owned item, by category
+const SHOP_USE_LABELS = {
+  potion: 'Drink',
+  consumable: 'Ready',
+  recolor: 'Apply',
+  badge: 'Wear'
+};
+
+/**
+ * Render the shop tab
+ */
+function renderShop(items, xpBoost) {
+  if (!items) return;
+
+  setText('xpBoostStatus', xpBoost
+    ? 'XP boost x' + xpBoost.multiplier + ' active until ' + new Date(xpBoost.expiresAt).toLocaleTimeString()
+    : 'No XP boost active');
+
+  for (const [category, sectionId] of Object.entries(SHOP_SECTIONS)) {
+    const section = document.getElementById(sectionId);
+    if (!section) continue;
+
+    let html = '';
+    for (const item of items.filter(i => i.category === category)) {
+      const stackable = category === 'potion' || category === 'consumable';
+      html += '<div class="shop-item ' + (item.active ? 'active' : '') + '">';
+      html += '  <div class="achievement-icon">' + escapeHtml(item.icon) + '</div>';
+      html += '  <div class="achievement-name">' + escapeHtml(item.name) + '</div>';
+      html += '  <div class="achievement-description">' + escapeHtml(item.description) + '</div>';
+      if (stackable && item.owned > 0) {
+        html += '  <div class="quest-progress-text">Owned: ' + escapeHtml(item.owned) + '</div>';
+      }
+      if (stackable || item.owned === 0) {
+        html += '  <button class="buy-btn" data-shop-item-id="' + escapeHtml(item.id) + '">' + escapeHtml(item.price) + ' Gold</button>';
+      }
+      if (item.owned > 0 || (!stackable && item.active)) {
+        const label = item.active && !stackable ? 'Remove' : SHOP_USE_LABELS[category];
+        html += '  <button class="use-btn" data-shop-item-id="' + escapeHtml(item.id) + '"' + (item.active && stackable ? ' disabled' : '') + '>' + (item.active && stackable ? 'Active' : label) + '</button>';
+      }
+      html += '</div>';
+    }
+    section.innerHTML = html;
+  }
+}
+
+/**
+ * One ladder row: rank, name, division, rating and record
+ */
+function ladderRowHtml(entry) {
+  let html = '<div class="ladder-row ' + (entry.isMe ? 'me' : '') + '">';
+  html += '  <span class="ladder-rank">#' + escapeHtml(entry.rank) + '</span>';
+  html += '  <span class="ladder-name">' + escapeHtml(entry.name);
+  if (entry.level) {
+    html += ' <span class="muted">Lv.' + escapeHtml(entry.level) + ' ' + escapeHtml(entry.characterClass) + '</span>';
+  }
+  html += '</span>';
+  html += '  <span>' + escapeHtml(entry.division.icon) + ' ' + escapeHtml(entry.division.name) + '</span>';
+  html += '  <span class="ladder-rating">' + escapeHtml(entry.rating) + '</span>';
+  html += '  <span class="muted">' + escapeHtml(entry.wins) + 'W ' + escapeHtml(entry.losses) + 'L</span>';
+  html += '</div>';
+  return html;
+}
+
+/**
+ * Render the ladder tab: our standing, recent rating changes and the top players
+ */
+function renderLadder(ladder, isAuthenticated) {
+  const list = document.getElementById('ladderList');
+  const deltas = document.getElementById('ladderDeltas');
+  if (!list || !deltas) return;
+
+  if (!ladder) {
+    list.innerHTML = '<p class="muted">' + (isAuthenticated ? 'Ladder unavailable right now.' : 'Connect your account to see the ladder.') + '</p>';
+    return;
+  }
+
+  const me = ladder.me;
+  setText('ladderDivision', me ? me.division.icon + ' ' + me.division.name : 'Unranked');
+  setText('ladderRating', me ? me.rating : '-');
+  setText('ladderRank', me ? '#' + me.rank : '-');
+  setText('ladderSeason', 'Season ' + ladder.season.id + ' ends ' + new Date(ladder.season.endsAt).toLocaleDateString());
+
+  const rewardEl = document.getElementById('ladderSeasonReward');
+  if (rewardEl) {
+    const reward = ladder.lastSeasonReward;
+    rewardEl.hidden = !reward;
+    rewardEl.textContent = reward
+      ? 'Last season: ' + reward.division.icon + ' ' + reward.division.name + ', +' + reward.gold + ' Gold'
+      : '';
+  }
+
+  if (ladder.recentDeltas.length === 0) {
+    deltas.innerHTML = '<p class="muted">No ranked battles this season yet.</p>';
+  } else {
+    let html = '';
+    for (const change of ladder.recentDeltas) {
+      const sign = change.delta >= 0 ? '+' : '';
+      html += '<div class="ladder-row">';
+      html += '  <span class="ladder-name">' + escapeHtml(new Date(change.createdAt).toLocaleString()) + '</span>';
+      html += '  <span class="rating-delta ' + (change.delta >= 0 ? 'positive' : 'negative') + '">' + sign + escapeHtml(change.delta) + '</span>';
+      html += '  <span class="ladder-rating">' + escapeHtml(change.ratingAfter) + '</span>';
+      html += '</div>';
+    }
+    deltas.innerHTML = html;
+  }
+
+  if (ladder.entries.length === 0) {
+    list.innerHTML = '<p class="muted">Nobody has played a ranked battle this season yet.</p>';
+    return;
+  }
+
+  let html = ladder.entries.map(ladderRowHtml).join('');
+  // Show our own row under the top players when we're further down
+  if (me && !ladder.entries.some(e => e.isMe)) {
+    html += ladderRowHtml(me);
+  }
+  list.innerHTML = html;
+}
+
+const BRACKET_SECTION_NAMES = { winners: 'Winners', losers: 'Losers', league: 'Round' };
+
+/**
+ * One bracket match: both players with the winner highlighted
+ */
+function tournamentMatchHtml(match, snapshots) {
+  const nameOf = id => (id && snapshots[id] ? snapshots[id].name : null);
+  let html = '<div class="bracket-match' + (match.done ? ' done' : '') + '">';
+  if (match.skipped) {
+    html += '  <div class="bracket-player muted">Not needed</div>';
+  } else {
+    for (const playerId of match.playerIds) {
+      const name = nameOf(playerId);
+      const won = match.done && playerId !== null && playerId === match.winnerId;
+      html += '  <div class="bracket-player' + (won ? ' winner' : '') + '">' + (name ? escapeHtml(name) : '<span class="muted">' + (match.done ? 'Bye' : 'TBD') + '</span>') + '</div>';
+    }
+  }
+  html += '</div>';
+  return html;
+}
+
+/**
+ * Bracket columns, one per section and round
+ */
+function bracketHtml(tournament) {
+  const columns = [];
+  for (const match of tournament.matches) {
+    const title = match.section === 'final'
+      ? (match.round === 1 ? 'Grand Final' : 'Final Reset')
+      : BRACKET_SECTION_NAMES[match.section] + ' ' + match.round;
+    let column = columns.find(c => c.title === title);
+    if (!column) {
+      column = { title, matches: [] };
+      columns.push(column);
+    }
+    column.matches.push(match);
+  }
+
+  let html = '<div class="bracket">';
+  for (const column of columns) {
+    html += '<div class="bracket-round">';
+    html += '  <div class="bracket-round-title">' + escapeHtml(column.title) + '</div>';
+    html += column.matches.map(m => tournamentMatchHtml(m, tournament.snapshots)).join('');
+    html += '</div>';
+  }
+  html += '</div>';
+  return html;
+}
+
+/**
+ * Round robin table: wins, losses and HP left over across wins
+ */
+function standingsHtml(tournament) {
+  let html = '';
+  tournament.standings.forEach((row, index) => {
+    const fighter = tournament.snapshots[row.playerId];
+    html += '<div class="ladder-row">';
+    html += '  <span class="ladder-rank">#' + (index + 1) + '</span>';
+    html += '  <span class="ladder-name">' + escapeHtml(fighter ? fighter.name : '?') + '</span>';
+    html += '  <span class="muted">' + escapeHtml(row.hpMargin) + ' HP</span>';
+    html += '  <span class="ladder-rating">' + escapeHtml(row.wins) + 'W ' + escapeHtml(row.losses) + 'L</span>';
+    html += '</div>';
+  });
+  return html;
+}
+
+/**
+ * Render the tournaments tab: each tournament's bracket and what's left to play
+ */
+function renderTournaments(tournaments, isAuthenticated) {
+  const list = document.getElementById('tournamentList');
+  if (!list) return;
+
+  if (!isAuthenticated) {
+    list.innerHTML = '<p class="muted">Connect your account to see your tournaments.</p>';
+    return;
+  }
+  if (!tournaments || tournaments.length === 0) {
+    list.innerHTML = '<p class="muted">No tournaments yet. Start one with your friends!</p>';
+    return;
+  }
+
+  let html = '';
+  for (const tournament of tournaments) {
+    const champion = tournament.championId ? tournament.snapshots[tournament.championId] : null;
+    html += '<h2>' + escapeHtml(tournament.name) + ' <span class="muted">' + escapeHtml(tournament.formatName) + '</span></h2>';
+    html += '<div class="card">';
+    if (champion) {
+      html += '  <p class="tournament-champion">🏆 ' + escapeHtml(champion.name) + ' won the tournament</p>';
+    } else if (tournament.canPlay) {
+      html += '  <button class="btn btn-primary play-round-btn" data-tournament-id="' + escapeHtml(tournament.id) + '">Play Next Round</button>';
+    }
+    if (tournament.format === 'round_robin') {
+      html += standingsHtml(tournament);
+    }
+    html += bracketHtml(tournament);
+    html += '</div>';
+  }
+  list.innerHTML = html;
+}
+
+/**
+ * Show the applied badge and sprite recolor on the character card
+ */
+function renderCosmetics(cosmetics) {
+  if (!cosmetics) return;
+
+  const badgeEl = document.getElementById('charBadge');
+  if (badgeEl) {
+    badgeEl.textContent = cosmetics.badge || '';
+    badgeEl.hidden = !cosmetics.badge;
+  }
+  setStyle('spriteImg', 'filter', cosmetics.recolorHue !== null ? 'hue-rotate(' + cosmetics.recolorHue + 'deg)' : '');
+}
+
+/**
+ * Switch between the dashboard, shop, ladder and tournament tabs
+ */
+function showTab(name) {
+  document.querySelectorAll('.tab').forEach(tab => {
+    tab.classList.toggle('active', tab.dataset.tab === name);
+  });
+  document.querySelectorAll('.tab-panel').forEach(panel => {
+    panel.hidden = panel.id !== 'tab-' + name;
+  });
+}
+
 /**
  * Render workers summary
  */
-function renderWorkers(summary, isAuthenticated) {
-  if (!isAuthenticated) return;
+function renderWorkers(summary) {
+  if (!summary) return;
 
   const workerCountEl = document.getElementById('workerCount');
   const goldPerHourEl = document.getElementById('goldPerHour');
@@ -242,9 +531,12 @@ window.addEventListener('message', event => {
   if (message.type === 'navigate') {
     // Handle navigation to specific view
     const view = message.view;
+    showTab(['shop', 'ladder', 'tournaments'].includes(view) ? view : 'dashboard');
     // Scroll to the appropriate section based on view
     if (view === 'character') {
       document.querySelector('.character-header')?.scrollIntoView({ behavior: 'smooth' });
+    } else if (view === 'achievements') {
+      document.getElementById('achievementsHeading')?.scrollIntoView({ behavior: 'smooth' });
     } else if (view === 'battle') {
       // For battle view, we could show a battle section if it exists
       console.log('Navigate to battle view');
@@ -261,10 +553,19 @@ window.addEventListener('message', event => {
       updateTodayStatsUI(message.todayStats);
     }
 
-    // Render quests, workers, and pending requests
+    // Render achievements, quests, workers, and pending requests
+    renderAchievements(message.achievements);
     renderQuests(message.quests, message.isAuthenticated);
-    renderWorkers(message.workerSummary, message.isAuthenticated);
+    renderWorkers(message.workerSummary);
     renderPendingRequests(message.pendingFriendRequests, message.pendingPvpChallenges, message.pendingBossInvites);
+    renderShop(message.shopItems, message.xpBoost);
+    renderCosmetics(message.cosmetics);
+    if ('ladder' in message) {
+      renderLadder(message.ladder, message.isAuthenticated);
+    }
+    if ('tournaments' in message) {
+      renderTournaments(message.tournaments, message.isAuthenticated);
+    }
   }
 });
 
@@ -285,17 +586,42 @@ onReady(function() {
   attachHandler('changeClassBtn', function() { sendMessage('requestClassChange'); });
   attachHandler('collectGoldBtn', function() { sendMessage('collectGold'); });
   attachHandler('manageWorkersBtn', function() { sendMessage('manageWorkers'); });
+  attachHandler('newTournamentBtn', function() { sendMessage('createTournament'); });
 
   // Event delegation for dynamically created buttons
   document.addEventListener('click', function(e) {
     const target = e.target;
-    const { questId, friendId, battleId, lobbyId } = target.dataset;
+    const { questId, friendId, battleId, lobbyId, shopItemId, tournamentId, tab } = target.dataset;
+
+    // Tab bar
+    if (target.classList.contains('tab') && tab) {
+      showTab(tab);
+    }
+
+    // Shop buttons
+    if (target.classList.contains('buy-btn') && shopItemId) {
+      sendMessage('buyShopItem', { itemId: shopItemId });
+    }
+    if (target.classList.contains('use-btn') && shopItemId) {
+      sendMessage('useShopItem', { itemId: shopItemId });
+    }
+
+    // Tournament buttons
+    if (target.classList.contains('play-round-btn') && tournamentId) {
+      target.disabled = true;
+      sendMessage('playTournamentRound', { tournamentId });
+    }
 
     // Quest claim buttons
     if (target.classList.contains('claim-btn') && questId) {
       sendMessage('claimQuest', { questId });
     }
 
+    // Quest reroll buttons
+    if (target.classList.contains('reroll-btn') && questId) {
+      sendMessage('rerollQuest', { questId });
+    }
+
     // Friend request buttons
     if (target.classList.contains('accept-friend-btn') && friendId) {
       acceptFriendRequest(friendId);
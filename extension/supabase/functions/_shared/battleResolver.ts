@@ -0,0 +1,803 @@
+import { randomUUID } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { GHOST_CONFIG, SHOP_ITEMS } from '../../../src/config/classConfig';
+import { BattleEngine } from '../../../src/services/battleEngine';
+import { dbUserToBattleFighter, earnedFighterProfile, type EarnedFighterProfile } from '../../../src/services/battleFighters';
+import { generateBattleSeed } from '../../../src/services/battleRng';
+import { decayDeviation, divisionFor, getSeason, rateBattle, seasonAt, seasonStartRating } from '../../../src/services/rankedService';
+import { applyBattleBuff } from '../../../src/services/statModifiers';
+import type { DbBattle, DbPvpRating, DbRatingChange, DbUser, DbUserItem, DbUserShopItem } from '../../../src/services/supabaseClient';
+import type {
+  FighterSyncRequest,
+  FighterSyncResponse,
+  GhostBattleRequest,
+  GhostBattleResponse,
+  PvpResolveRequest,
+  PvpResolveResponse,
+} from '../../../src/services/pvpResolver';
+import type { BattleAction, BattleFighter, BattleResult, BattleRewards, CharacterStats } from '../../../src/types';
+
+// Share of the winner's rewards the loser gets
+export const PVP_LOSER_REWARD_SHARE = 0.25;
+
+// Times a battle is rated again when another battle moved a rating first
+export const PVP_RATING_ATTEMPTS = 3;
+
+export interface PvpRewardGrant {
+  userId: string;
+  xp: number;
+  gold: number;
+}
+
+/**
+ * Shop consumable a player took into a battle, used up with its result
+ */
+export interface BattleBuffUse {
+  userId: string;
+  itemId: string;
+}
+
+/**
+ * Everything written when a battle completes
+ */
+export interface PvpBattleCompletion {
+  battleId: string;
+  battleLog: BattleAction[];
+  winnerId: string;
+  rewards: BattleRewards;
+  seed: number;
+  engineVersion: number;
+  fighters: { fighter1: BattleFighter; fighter2: BattleFighter };
+  completedAt: string;
+  grants: PvpRewardGrant[];
+  buff: BattleBuffUse | null;
+  ratings: DbPvpRating[];           // Both players' rows for the season, upserted
+  ratingChanges: DbRatingChange[];
+  ratedFrom: RatedFrom[];
+}
+
+/**
+ * A player's last_played_at for the season when their rating was read, null
+ * if they had no row. Ratings are only written while it still matches.
+ */
+export interface RatedFrom {
+  userId: string;
+  lastPlayedAt: string | null;
+}
+
+export type PvpCompletionStatus = 'completed' | 'not_pending' | 'ratings_changed' | 'failed';
+
+/**
+ * Completed ghost battle to insert; only the attacker is granted rewards
+ */
+export interface GhostBattleRecord {
+  challengerId: string;
+  opponentId: string;
+  battleLog: BattleAction[];
+  winnerId: string;
+  rewards: BattleRewards;
+  seed: number;
+  engineVersion: number;
+  fighters: { fighter1: BattleFighter; fighter2: BattleFighter };
+  completedAt: string;
+  grant: PvpRewardGrant;
+  buff: BattleBuffUse | null;
+}
+
+/**
+ * Division reward paid to a player for a finished season
+ */
+export interface SeasonRewardGrant {
+  userId: string;
+  gold: number;
+}
+
+/**
+ * Server-side data access for resolving battles
+ */
+export interface PvpBattleStore {
+  getBattle(battleId: string): Promise<DbBattle | null>;
+  getUsers(userIds: string[]): Promise<DbUser[]>;
+  /** Catalog ids of a player's user_items rows */
+  getOwnedItemIds(userId: string): Promise<string[]>;
+  /** Write the columns only the server may set */
+  updateFighter(userId: string, profile: EarnedFighterProfile): Promise<boolean>;
+  getRatings(userIds: string[], season: number): Promise<DbPvpRating[]>;
+  /** How many of a shop item a player has */
+  getShopItemQuantity(userId: string, itemId: string): Promise<number>;
+  /**
+   * In one transaction, complete the battle if it is still pending and its
+   * ratings were read from the current rows, add each grant to its user's
+   * total_xp and gold, use up the buff and write the ratings
+   */
+  completeBattle(completion: PvpBattleCompletion): Promise<PvpCompletionStatus>;
+  /** Ratings of a season whose rewards haven't been paid */
+  getUnsettledRatings(season: number): Promise<DbPvpRating[]>;
+  /**
+   * In one transaction, set reward_gold on each player's season row and add
+   * it to their gold, skipping rows already settled
+   */
+  settleSeason(season: number, grants: SeasonRewardGrant[]): Promise<boolean>;
+  areFriends(userId: string, otherId: string): Promise<boolean>;
+  /** Ghost battles a player started since `since` (ISO) */
+  countGhostBattlesSince(userId: string, since: string): Promise<number>;
+  /**
+   * In one transaction, insert the completed battle, add the grant to the
+   * attacker's total_xp and gold and use up the buff. Returns the battle id,
+   * or null on failure.
+   */
+  recordGhostBattle(record: GhostBattleRecord): Promise<string | null>;
+}
+
+/**
+ * Stat bonus of a shop consumable the caller wants to take into a battle,
+ * or an error if it isn't one or they have none left
+ */
+async function ownedBattleBuff(
+  store: PvpBattleStore,
+  userId: string,
+  itemId: string | null
+): Promise<{ modifiers: Partial<CharacterStats> | null; error?: undefined } | { error: string }> {
+  if (itemId === null) {
+    return { modifiers: null };
+  }
+  const effect = SHOP_ITEMS.find(item => item.id === itemId)?.effect;
+  if (effect?.kind !== 'battle_buff') {
+    return { error: 'Unknown battle buff' };
+  }
+  if (await store.getShopItemQuantity(userId, itemId) < 1) {
+    return { error: 'You have none of that consumable left' };
+  }
+  return { modifiers: effect.modifiers };
+}
+
+/**
+ * Users as battles see them: the columns they could have written themselves
+ * replaced with what they earned
+ */
+async function battleUsers(store: PvpBattleStore, userIds: string[]): Promise<DbUser[]> {
+  const users = await store.getUsers(userIds);
+  return Promise.all(users.map(async user => ({
+    ...user,
+    ...earnedFighterProfile(
+      user,
+      user.talents,
+      { weapon: user.equipped_weapon_id, armor: user.equipped_armor_id },
+      await store.getOwnedItemIds(user.id)
+    ),
+  })));
+}
+
+/**
+ * Winner gets the engine's rewards, the loser a share of them
+ */
+export function pvpRewardGrants(result: BattleResult): PvpRewardGrant[] {
+  return [
+    { userId: result.winner.id, xp: result.rewards.xp, gold: result.rewards.gold },
+    {
+      userId: result.loser.id,
+      xp: Math.floor(result.rewards.xp * PVP_LOSER_REWARD_SHARE),
+      gold: Math.floor(result.rewards.gold * PVP_LOSER_REWARD_SHARE),
+    },
+  ];
+}
+
+/**
+ * Resolve a pending challenge for the player it was sent to: snapshot both
+ * fighters from what they earned, run the engine and store the battle with
+ * both players' rewards in one step. Nothing the client sends besides the
+ * battle id and a consumable they own affects the outcome.
+ */
+export async function resolvePvpBattle(
+  store: PvpBattleStore,
+  callerId: string,
+  request: PvpResolveRequest,
+  seed: number = generateBattleSeed()
+): Promise<PvpResolveResponse> {
+  const battle = await store.getBattle(request.battleId);
+  if (!battle) {
+    return { success: false, error: 'Battle not found' };
+  }
+  if (battle.opponent_id !== callerId) {
+    return { success: false, error: 'Only the challenged player can accept' };
+  }
+  if (battle.challenger_id === battle.opponent_id) {
+    return { success: false, error: 'Cannot battle yourself' };
+  }
+  if (battle.status !== 'pending') {
+    return { success: false, error: 'Battle already resolved' };
+  }
+  const buff = await ownedBattleBuff(store, callerId, request.buffItemId);
+  if (buff.error !== undefined) {
+    return { success: false, error: buff.error };
+  }
+
+  const users = await battleUsers(store, [battle.challenger_id, battle.opponent_id]);
+  const challengerUser = users.find(u => u.id === battle.challenger_id);
+  const opponentUser = users.find(u => u.id === battle.opponent_id);
+  if (!challengerUser || !opponentUser) {
+    return { success: false, error: 'Participant not found' };
+  }
+
+  // The accepting player is the opponent, so their consumable applies there
+  const challenger = dbUserToBattleFighter(challengerUser) as BattleFighter;
+  const opponent = applyBattleBuff(dbUserToBattleFighter(opponentUser) as BattleFighter, buff.modifiers);
+  const result = new BattleEngine(challenger, opponent, seed).runBattle();
+
+  // The result stands; only the ratings are read again if they moved
+  const now = new Date();
+  for (let attempt = 0; attempt < PVP_RATING_ATTEMPTS; attempt++) {
+    const rated = await ratePvpBattle(store, battle.id, result.winner.id, result.loser.id, now);
+    const status = await store.completeBattle({
+      battleId: battle.id,
+      battleLog: result.actions,
+      winnerId: result.winner.id,
+      rewards: result.rewards,
+      seed: result.seed,
+      engineVersion: result.engineVersion,
+      fighters: { fighter1: challenger, fighter2: opponent },
+      completedAt: now.toISOString(),
+      grants: pvpRewardGrants(result),
+      buff: request.buffItemId ? { userId: callerId, itemId: request.buffItemId } : null,
+      ...rated,
+    });
+
+    switch (status) {
+      case 'completed':
+        return { success: true, result };
+      case 'not_pending':
+        return { success: false, error: 'Battle already resolved' };
+      case 'failed':
+        return { success: false, error: 'Failed to complete battle' };
+    }
+  }
+  return { success: false, error: 'Ratings kept changing, try again' };
+}
+
+/**
+ * Fight the stored stats of a friend or anyone on this season's ladder. The
+ * ghost's owner isn't rated or rewarded; they find out when they're back.
+ */
+export async function resolveGhostBattle(
+  store: PvpBattleStore,
+  callerId: string,
+  request: GhostBattleRequest,
+  seed: number = generateBattleSeed(),
+  now: Date = new Date()
+): Promise<GhostBattleResponse> {
+  if (request.opponentId === callerId) {
+    return { success: false, error: 'Cannot battle yourself' };
+  }
+  const buff = await ownedBattleBuff(store, callerId, request.buffItemId);
+  if (buff.error !== undefined) {
+    return { success: false, error: buff.error };
+  }
+
+  const onLadder = (await store.getRatings([request.opponentId], seasonAt(now).id)).length > 0;
+  if (!onLadder && !await store.areFriends(callerId, request.opponentId)) {
+    return { success: false, error: 'You can only fight the ghosts of friends and ladder players' };
+  }
+
+  const startOfDay = `${now.toISOString().split('T')[0]}T00:00:00.000Z`;
+  if (await store.countGhostBattlesSince(callerId, startOfDay) >= GHOST_CONFIG.dailyLimit) {
+    return { success: false, error: 'No ghost battles left today' };
+  }
+
+  const users = await battleUsers(store, [callerId, request.opponentId]);
+  const attackerUser = users.find(u => u.id === callerId);
+  const ghostUser = users.find(u => u.id === request.opponentId);
+  if (!attackerUser || !ghostUser) {
+    return { success: false, error: 'Participant not found' };
+  }
+
+  const attacker = applyBattleBuff(dbUserToBattleFighter(attackerUser) as BattleFighter, buff.modifiers);
+  const ghost = dbUserToBattleFighter(ghostUser) as BattleFighter;
+  const result = new BattleEngine(attacker, ghost, seed).runBattle();
+
+  const share = pvpRewardGrants(result).find(g => g.userId === callerId)!;
+  const earned = {
+    xp: Math.floor(share.xp * GHOST_CONFIG.rewardShare),
+    gold: Math.floor(share.gold * GHOST_CONFIG.rewardShare),
+  };
+  const battleId = await store.recordGhostBattle({
+    challengerId: callerId,
+    opponentId: request.opponentId,
+    battleLog: result.actions,
+    winnerId: result.winner.id,
+    rewards: result.rewards,
+    seed: result.seed,
+    engineVersion: result.engineVersion,
+    fighters: { fighter1: attacker, fighter2: ghost },
+    completedAt: now.toISOString(),
+    grant: { userId: callerId, ...earned },
+    buff: request.buffItemId ? { userId: callerId, itemId: request.buffItemId } : null,
+  });
+
+  if (!battleId) {
+    return { success: false, error: 'Failed to record battle' };
+  }
+  return { success: true, battleId, result, earned };
+}
+
+/**
+ * Store the caller's talents and equipment for friends' battles and the
+ * friends list, keeping only what they earned and own, with the level and
+ * stats their total XP gives them
+ */
+export async function syncFighter(
+  store: PvpBattleStore,
+  callerId: string,
+  request: FighterSyncRequest
+): Promise<FighterSyncResponse> {
+  const [user] = await store.getUsers([callerId]);
+  if (!user) {
+    return { success: false, error: 'Profile not found' };
+  }
+
+  const profile = earnedFighterProfile(
+    user,
+    request.talents,
+    { weapon: request.equippedWeaponId, armor: request.equippedArmorId },
+    await store.getOwnedItemIds(callerId)
+  );
+  if (!await store.updateFighter(callerId, profile)) {
+    return { success: false, error: 'Failed to save fighter' };
+  }
+  return { success: true, level: profile.level };
+}
+
+/**
+ * Both players' season rows after the battle. A player's first battle of a
+ * season starts from their previous season's rating, reset partway.
+ */
+async function ratePvpBattle(
+  store: PvpBattleStore,
+  battleId: string,
+  winnerId: string,
+  loserId: string,
+  now: Date
+): Promise<{ ratings: DbPvpRating[]; ratingChanges: DbRatingChange[]; ratedFrom: RatedFrom[] }> {
+  const season = seasonAt(now).id;
+  const current = await store.getRatings([winnerId, loserId], season);
+  const previous = await store.getRatings(
+    [winnerId, loserId].filter(id => !current.some(r => r.user_id === id)),
+    season - 1
+  );
+
+  const rowFor = (userId: string): DbPvpRating => {
+    const existing = current.find(r => r.user_id === userId);
+    if (existing) {
+      return { ...existing, ...decayDeviation(existing, existing.last_played_at, now) };
+    }
+    const last = previous.find(r => r.user_id === userId) ?? null;
+    return { user_id: userId, season, wins: 0, losses: 0, last_played_at: null, reward_gold: null, ...seasonStartRating(last) };
+  };
+
+  const winner = rowFor(winnerId);
+  const loser = rowFor(loserId);
+  const rated = rateBattle(winner, loser);
+  const playedAt = now.toISOString();
+
+  const ratings: DbPvpRating[] = [
+    { ...winner, ...rated.winner, wins: winner.wins + 1, last_played_at: playedAt },
+    { ...loser, ...rated.loser, losses: loser.losses + 1, last_played_at: playedAt },
+  ];
+  const ratingChanges = ratings.map((after, i) => ({
+    battle_id: battleId,
+    user_id: after.user_id,
+    season,
+    rating_before: (i === 0 ? winner : loser).rating,
+    rating_after: after.rating,
+    created_at: playedAt,
+  }));
+
+  const ratedFrom = [winnerId, loserId].map(userId => ({
+    userId,
+    lastPlayedAt: current.find(r => r.user_id === userId)?.last_played_at ?? null,
+  }));
+
+  return { ratings, ratingChanges, ratedFrom };
+}
+
+/**
+ * Pay every player of a finished season the reward of the division they
+ * finished in. Run on a schedule; already settled players are skipped, so
+ * running it twice pays nobody twice.
+ */
+export async function settlePvpSeason(
+  store: PvpBattleStore,
+  season: number,
+  now: Date = new Date()
+): Promise<{ success: boolean; settled?: number; error?: string }> {
+  if (now < new Date(getSeason(season).endsAt)) {
+    return { success: false, error: `Season ${season} hasn't ended` };
+  }
+
+  const ratings = await store.getUnsettledRatings(season);
+  const grants = ratings.map(r => ({ userId: r.user_id, gold: divisionFor(r.rating).seasonRewardGold }));
+  if (grants.length === 0) {
+    return { success: true, settled: 0 };
+  }
+
+  if (!await store.settleSeason(season, grants)) {
+    return { success: false, error: 'Failed to settle season' };
+  }
+  return { success: true, settled: grants.length };
+}
+
+/**
+ * Store the edge function uses, with a service-role client; the
+ * complete_pvp_battle RPC does the completion in one transaction
+ */
+export class SupabasePvpBattleStore implements PvpBattleStore {
+  constructor(private client: SupabaseClient) {}
+
+  async getBattle(battleId: string): Promise<DbBattle | null> {
+    const { data, error } = await this.client
+      .from('battles')
+      .select('*')
+      .eq('id', battleId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Get battle error:', error);
+      return null;
+    }
+    return data as DbBattle | null;
+  }
+
+  async getUsers(userIds: string[]): Promise<DbUser[]> {
+    const { data, error } = await this.client
+      .from('users')
+      .select('*')
+      .in('id', userIds);
+
+    if (error) {
+      console.error('Get battle participants error:', error);
+      return [];
+    }
+    return (data || []) as DbUser[];
+  }
+
+  async getOwnedItemIds(userId: string): Promise<string[]> {
+    const { data, error } = await this.client
+      .from('user_items')
+      .select('item_id')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Get owned items error:', error);
+      return [];
+    }
+    return (data || []).map(row => row.item_id as string);
+  }
+
+  async updateFighter(userId: string, profile: EarnedFighterProfile): Promise<boolean> {
+    const { error } = await this.client
+      .from('users')
+      .update({ ...profile, updated_at: new Date().toISOString() })
+      .eq('id', userId);
+
+    if (error) {
+      console.error('Update fighter error:', error);
+      return false;
+    }
+    return true;
+  }
+
+  async getRatings(userIds: string[], season: number): Promise<DbPvpRating[]> {
+    if (userIds.length === 0) return [];
+
+    const { data, error } = await this.client
+      .from('pvp_ratings')
+      .select('*')
+      .in('user_id', userIds)
+      .eq('season', season);
+
+    if (error) {
+      console.error('Get ratings error:', error);
+      return [];
+    }
+    return (data || []) as DbPvpRating[];
+  }
+
+  async getShopItemQuantity(userId: string, itemId: string): Promise<number> {
+    const { data, error } = await this.client
+      .from('user_shop_items')
+      .select('quantity')
+      .eq('user_id', userId)
+      .eq('item_id', itemId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Get shop item error:', error);
+      return 0;
+    }
+    return data?.quantity ?? 0;
+  }
+
+  async completeBattle(completion: PvpBattleCompletion): Promise<PvpCompletionStatus> {
+    const { data, error } = await this.client.rpc('complete_pvp_battle', {
+      p_battle_id: completion.battleId,
+      p_battle_log: completion.battleLog,
+      p_winner_id: completion.winnerId,
+      p_rewards: completion.rewards,
+      p_seed: completion.seed,
+      p_engine_version: completion.engineVersion,
+      p_fighters: completion.fighters,
+      p_completed_at: completion.completedAt,
+      p_grants: completion.grants,
+      p_buff: completion.buff,
+      p_ratings: completion.ratings,
+      p_rating_changes: completion.ratingChanges,
+      p_rated_from: completion.ratedFrom,
+    });
+
+    if (error) {
+      console.error('Complete battle error:', error);
+      return 'failed';
+    }
+    return data as PvpCompletionStatus;
+  }
+
+  async getUnsettledRatings(season: number): Promise<DbPvpRating[]> {
+    const { data, error } = await this.client
+      .from('pvp_ratings')
+      .select('*')
+      .eq('season', season)
+      .is('reward_gold', null);
+
+    if (error) {
+      console.error('Get unsettled ratings error:', error);
+      return [];
+    }
+    return (data || []) as DbPvpRating[];
+  }
+
+  async settleSeason(season: number, grants: SeasonRewardGrant[]): Promise<boolean> {
+    const { error } = await this.client.rpc('settle_pvp_season', { p_season: season, p_grants: grants });
+
+    if (error) {
+      console.error('Settle season error:', error);
+      return false;
+    }
+    return true;
+  }
+
+  async areFriends(userId: string, otherId: string): Promise<boolean> {
+    const { data, error } = await this.client
+      .from('friendships')
+      .select('id')
+      .or(`and(requester_id.eq.${userId},addressee_id.eq.${otherId}),and(requester_id.eq.${otherId},addressee_id.eq.${userId})`)
+      .eq('status', 'accepted')
+      .limit(1);
+
+    if (error) {
+      console.error('Check friendship error:', error);
+      return false;
+    }
+    return (data || []).length > 0;
+  }
+
+  async countGhostBattlesSince(userId: string, since: string): Promise<number> {
+    const { count, error } = await this.client
+      .from('battles')
+      .select('id', { count: 'exact', head: true })
+      .eq('challenger_id', userId)
+      .eq('mode', 'ghost')
+      .gte('completed_at', since);
+
+    if (error) {
+      console.error('Count ghost battles error:', error);
+      return Infinity;
+    }
+    return count ?? 0;
+  }
+
+  async recordGhostBattle(record: GhostBattleRecord): Promise<string | null> {
+    const { data, error } = await this.client.rpc('record_ghost_battle', {
+      p_challenger_id: record.challengerId,
+      p_opponent_id: record.opponentId,
+      p_battle_log: record.battleLog,
+      p_winner_id: record.winnerId,
+      p_rewards: record.rewards,
+      p_seed: record.seed,
+      p_engine_version: record.engineVersion,
+      p_fighters: record.fighters,
+      p_completed_at: record.completedAt,
+      p_grant: record.grant,
+      p_buff: record.buff,
+    });
+
+    if (error) {
+      console.error('Record ghost battle error:', error);
+      return null;
+    }
+    return data as string;
+  }
+}
+
+/**
+ * In-memory stand-in for the battles and users tables
+ */
+export class LocalPvpBattleStore implements PvpBattleStore {
+  readonly battles = new Map<string, DbBattle>();
+  readonly users = new Map<string, DbUser>();
+  readonly ratings: DbPvpRating[] = [];
+  readonly ratingChanges: DbRatingChange[] = [];
+  readonly friendships: Array<[string, string]>;
+  readonly shopItems: DbUserShopItem[] = [];
+  readonly userItems: Array<Pick<DbUserItem, 'user_id' | 'item_id'>> = [];
+
+  constructor(
+    users: DbUser[] = [],
+    battles: DbBattle[] = [],
+    ratings: DbPvpRating[] = [],
+    friendships: Array<[string, string]> = [],
+    shopItems: DbUserShopItem[] = [],
+    userItems: Array<Pick<DbUserItem, 'user_id' | 'item_id'>> = []
+  ) {
+    users.forEach(u => this.users.set(u.id, { ...u }));
+    battles.forEach(b => this.battles.set(b.id, { ...b }));
+    ratings.forEach(r => this.ratings.push({ ...r }));
+    shopItems.forEach(s => this.shopItems.push({ ...s }));
+    userItems.forEach(i => this.userItems.push({ ...i }));
+    this.friendships = [...friendships];
+  }
+
+  private ratingIndex(userId: string, season: number): number {
+    return this.ratings.findIndex(r => r.user_id === userId && r.season === season);
+  }
+
+  private shopItem(userId: string, itemId: string): DbUserShopItem | undefined {
+    return this.shopItems.find(s => s.user_id === userId && s.item_id === itemId);
+  }
+
+  /** Use up the buff; false if the player has none left */
+  private useBuff(buff: BattleBuffUse | null): boolean {
+    if (!buff) return true;
+    const item = this.shopItem(buff.userId, buff.itemId);
+    if (!item || item.quantity < 1) return false;
+    item.quantity--;
+    return true;
+  }
+
+  async getShopItemQuantity(userId: string, itemId: string): Promise<number> {
+    return this.shopItem(userId, itemId)?.quantity ?? 0;
+  }
+
+  async getBattle(battleId: string): Promise<DbBattle | null> {
+    const battle = this.battles.get(battleId);
+    return battle ? { ...battle } : null;
+  }
+
+  async getUsers(userIds: string[]): Promise<DbUser[]> {
+    return userIds.flatMap(id => {
+      const user = this.users.get(id);
+      return user ? [{ ...user }] : [];
+    });
+  }
+
+  async getOwnedItemIds(userId: string): Promise<string[]> {
+    return this.userItems.filter(i => i.user_id === userId).map(i => i.item_id);
+  }
+
+  async updateFighter(userId: string, profile: EarnedFighterProfile): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user) return false;
+    this.users.set(userId, { ...user, ...profile });
+    return true;
+  }
+
+  async getRatings(userIds: string[], season: number): Promise<DbPvpRating[]> {
+    return this.ratings.filter(r => r.season === season && userIds.includes(r.user_id)).map(r => ({ ...r }));
+  }
+
+  async completeBattle(completion: PvpBattleCompletion): Promise<PvpCompletionStatus> {
+    const battle = this.battles.get(completion.battleId);
+    if (!battle || battle.status !== 'pending') {
+      return 'not_pending';
+    }
+    const season = seasonAt(new Date(completion.completedAt)).id;
+    const moved = completion.ratedFrom.some(({ userId, lastPlayedAt }) => {
+      const index = this.ratingIndex(userId, season);
+      return index > -1 ? this.ratings[index].last_played_at !== lastPlayedAt : lastPlayedAt !== null;
+    });
+    if (moved) {
+      return 'ratings_changed';
+    }
+    if (!this.useBuff(completion.buff)) {
+      return 'failed';
+    }
+
+    this.battles.set(battle.id, {
+      ...battle,
+      status: 'completed',
+      battle_log: completion.battleLog,
+      winner_id: completion.winnerId,
+      rewards: completion.rewards,
+      seed: completion.seed,
+      engine_version: completion.engineVersion,
+      fighters: completion.fighters,
+      completed_at: completion.completedAt,
+    });
+
+    for (const grant of completion.grants) {
+      const user = this.users.get(grant.userId);
+      if (user) {
+        this.users.set(user.id, { ...user, total_xp: user.total_xp + grant.xp, gold: user.gold + grant.gold });
+      }
+    }
+
+    for (const rating of completion.ratings) {
+      const index = this.ratingIndex(rating.user_id, rating.season);
+      if (index > -1) {
+        this.ratings[index] = { ...rating };
+      } else {
+        this.ratings.push({ ...rating });
+      }
+    }
+    this.ratingChanges.push(...completion.ratingChanges);
+    return 'completed';
+  }
+
+  async getUnsettledRatings(season: number): Promise<DbPvpRating[]> {
+    return this.ratings.filter(r => r.season === season && r.reward_gold === null).map(r => ({ ...r }));
+  }
+
+  async settleSeason(season: number, grants: SeasonRewardGrant[]): Promise<boolean> {
+    for (const grant of grants) {
+      const index = this.ratingIndex(grant.userId, season);
+      const rating = this.ratings[index];
+      const user = this.users.get(grant.userId);
+      if (!rating || rating.reward_gold !== null) continue;
+
+      this.ratings[index] = { ...rating, reward_gold: grant.gold };
+      if (user) {
+        this.users.set(user.id, { ...user, gold: user.gold + grant.gold });
+      }
+    }
+    return true;
+  }
+
+  async areFriends(userId: string, otherId: string): Promise<boolean> {
+    return this.friendships.some(([a, b]) => (a === userId && b === otherId) || (a === otherId && b === userId));
+  }
+
+  async countGhostBattlesSince(userId: string, since: string): Promise<number> {
+    return [...this.battles.values()].filter(b =>
+      b.mode === 'ghost' && b.challenger_id === userId && (b.completed_at ?? '') >= since
+    ).length;
+  }
+
+  async recordGhostBattle(record: GhostBattleRecord): Promise<string | null> {
+    if (!this.useBuff(record.buff)) {
+      return null;
+    }
+
+    const id = randomUUID();
+    this.battles.set(id, {
+      id,
+      challenger_id: record.challengerId,
+      opponent_id: record.opponentId,
+      status: 'completed',
+      mode: 'ghost',
+      battle_log: record.battleLog,
+      winner_id: record.winnerId,
+      rewards: record.rewards,
+      seed: record.seed,
+      engine_version: record.engineVersion,
+      fighters: record.fighters,
+      defender_seen_at: null,
+      challenger_seen_at: null,
+      created_at: record.completedAt,
+      completed_at: record.completedAt,
+    });
+
+    const user = this.users.get(record.grant.userId);
+    if (user) {
+      this.users.set(user.id, { ...user, total_xp: user.total_xp + record.grant.xp, gold: user.gold + record.grant.gold });
+    }
+    return id;
+  }
+}
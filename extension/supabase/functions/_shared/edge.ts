@@ -0,0 +1,36 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Client with the service role key. Row level security doesn't apply to it,
+ * so handlers check who may do what themselves.
+ */
+export function serviceClient(): SupabaseClient {
+  return createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+}
+
+/**
+ * Id of the player whose access token came with the request, or null
+ */
+export async function callerId(client: SupabaseClient, request: Request): Promise<string | null> {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data, error } = await client.auth.getUser(token);
+  if (error || !data.user) {
+    return null;
+  }
+  return data.user.id;
+}
+
+/**
+ * Handlers answer failures with `{ success: false, error }` and status 200,
+ * so functions.invoke hands the message to the extension
+ */
+export function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
@@ -0,0 +1,21 @@
+import { callerId, json, serviceClient } from '../_shared/edge';
+import { resolveGhostBattle, SupabasePvpBattleStore } from '../_shared/battleResolver';
+import type { GhostBattleRequest } from '../../../src/services/pvpResolver';
+
+Deno.serve(async (request) => {
+  const client = serviceClient();
+  const userId = await callerId(client, request);
+  if (!userId) {
+    return json({ success: false, error: 'Not authenticated' }, 401);
+  }
+
+  const body = await request.json().catch(() => null) as GhostBattleRequest | null;
+  if (typeof body?.opponentId !== 'string') {
+    return json({ success: false, error: 'Missing opponent id' });
+  }
+
+  return json(await resolveGhostBattle(new SupabasePvpBattleStore(client), userId, {
+    opponentId: body.opponentId,
+    buffItemId: typeof body.buffItemId === 'string' ? body.buffItemId : null,
+  }));
+});
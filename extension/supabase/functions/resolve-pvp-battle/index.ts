@@ -0,0 +1,21 @@
+import { callerId, json, serviceClient } from '../_shared/edge';
+import { resolvePvpBattle, SupabasePvpBattleStore } from '../_shared/battleResolver';
+import type { PvpResolveRequest } from '../../../src/services/pvpResolver';
+
+Deno.serve(async (request) => {
+  const client = serviceClient();
+  const userId = await callerId(client, request);
+  if (!userId) {
+    return json({ success: false, error: 'Not authenticated' }, 401);
+  }
+
+  const body = await request.json().catch(() => null) as PvpResolveRequest | null;
+  if (typeof body?.battleId !== 'string') {
+    return json({ success: false, error: 'Missing battle id' });
+  }
+
+  return json(await resolvePvpBattle(new SupabasePvpBattleStore(client), userId, {
+    battleId: body.battleId,
+    buffItemId: typeof body.buffItemId === 'string' ? body.buffItemId : null,
+  }));
+});
@@ -0,0 +1,18 @@
+import { json, serviceClient } from '../_shared/edge';
+import { settlePvpSeason, SupabasePvpBattleStore } from '../_shared/battleResolver';
+import { seasonAt } from '../../../src/services/rankedService';
+
+// Run daily by the settle-pvp-season cron job. Pays the season that ended
+// last; after the first run that finds it over, there is nobody left to pay.
+Deno.serve(async (request) => {
+  const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return json({ success: false, error: 'Not authorized' }, 401);
+  }
+
+  const season = seasonAt().id - 1;
+  if (season < 1) {
+    return json({ success: true, settled: 0 });
+  }
+  return json(await settlePvpSeason(new SupabasePvpBattleStore(serviceClient()), season));
+});
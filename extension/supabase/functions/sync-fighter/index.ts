@@ -0,0 +1,21 @@
+import { callerId, json, serviceClient } from '../_shared/edge';
+import { SupabasePvpBattleStore, syncFighter } from '../_shared/battleResolver';
+import type { FighterSyncRequest } from '../../../src/services/pvpResolver';
+
+Deno.serve(async (request) => {
+  const client = serviceClient();
+  const userId = await callerId(client, request);
+  if (!userId) {
+    return json({ success: false, error: 'Not authenticated' }, 401);
+  }
+
+  const body = await request.json().catch(() => null) as FighterSyncRequest | null;
+  const talents = body?.talents && typeof body.talents === 'object' ? body.talents : {};
+  const ranks = Object.fromEntries(Object.entries(talents).filter(([, rank]) => typeof rank === 'number'));
+
+  return json(await syncFighter(new SupabasePvpBattleStore(client), userId, {
+    talents: ranks,
+    equippedWeaponId: typeof body?.equippedWeaponId === 'string' ? body.equippedWeaponId : null,
+    equippedArmorId: typeof body?.equippedArmorId === 'string' ? body.equippedArmorId : null,
+  }));
+});
@@ -0,0 +1,4 @@
+-- Emails a player commits with, so friends credited as co-authors of a
+-- commit can be found by their Co-authored-by address.
+
+alter table public.users add column if not exists git_emails text[];
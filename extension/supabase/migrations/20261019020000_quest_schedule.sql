@@ -0,0 +1,6 @@
+-- Periods the weekly and monthly quests were last rolled for, and the day
+-- of the last daily reroll.
+
+alter table public.users add column if not exists last_weekly_quest_refresh text;
+alter table public.users add column if not exists last_monthly_quest_refresh text;
+alter table public.users add column if not exists last_quest_reroll date;
@@ -0,0 +1,4 @@
+-- Catalog ids of the items a player has equipped.
+
+alter table public.users add column if not exists equipped_weapon_id text;
+alter table public.users add column if not exists equipped_armor_id text;
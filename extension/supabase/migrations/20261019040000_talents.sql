@@ -0,0 +1,3 @@
+-- Talent ranks in the player's current class tree, keyed by talent id.
+
+alter table public.users add column if not exists talents jsonb;
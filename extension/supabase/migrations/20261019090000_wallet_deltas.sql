@@ -0,0 +1,88 @@
+-- Gold and total XP are changed only through these functions. Clients send
+-- what they gained or spent locally as a delta; gains count against a daily
+-- allowance and whatever is over it stays pending on the client.
+
+create table if not exists public.wallet_daily_gains (
+  user_id uuid not null references public.users (id) on delete cascade,
+  day date not null,
+  gold integer not null default 0,
+  xp integer not null default 0,
+  primary key (user_id, day)
+);
+
+alter table public.wallet_daily_gains enable row level security;
+
+create or replace function public.apply_wallet_delta(p_gold integer, p_xp integer)
+returns table (gold integer, total_xp integer, applied_gold integer, applied_xp integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_gained public.wallet_daily_gains%rowtype;
+  v_gold integer;
+  v_xp integer;
+begin
+  if v_user is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  insert into public.wallet_daily_gains (user_id, day)
+  values (v_user, current_date)
+  on conflict do nothing;
+
+  select * into v_gained
+  from public.wallet_daily_gains
+  where user_id = v_user and day = current_date
+  for update;
+
+  -- Spending always applies (the balance stops at zero); gains are capped
+  v_gold := case
+    when p_gold > 0 then least(p_gold, greatest(0, 5000 - v_gained.gold))
+    else p_gold
+  end;
+  v_xp := case
+    when p_xp > 0 then least(p_xp, greatest(0, 25000 - v_gained.xp))
+    else 0
+  end;
+
+  update public.wallet_daily_gains w
+  set gold = w.gold + greatest(v_gold, 0), xp = w.xp + v_xp
+  where w.user_id = v_user and w.day = current_date;
+
+  return query
+  update public.users u
+  set gold = greatest(0, u.gold + v_gold), total_xp = u.total_xp + v_xp
+  where u.id = v_user
+  returning u.gold, u.total_xp, v_gold, case when p_xp < 0 then p_xp else v_xp end;
+end;
+$$;
+
+create or replace function public.spend_gold(p_amount integer)
+returns table (gold integer, total_xp integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_amount <= 0 then
+    raise exception 'Amount must be positive';
+  end if;
+
+  return query
+  update public.users u
+  set gold = u.gold - p_amount
+  where u.id = auth.uid() and u.gold >= p_amount
+  returning u.gold, u.total_xp;
+
+  if not found then
+    raise exception 'Not enough gold';
+  end if;
+end;
+$$;
+
+revoke all on function public.apply_wallet_delta(integer, integer) from public;
+revoke all on function public.spend_gold(integer) from public;
+grant execute on function public.apply_wallet_delta(integer, integer) to authenticated;
+grant execute on function public.spend_gold(integer) to authenticated;
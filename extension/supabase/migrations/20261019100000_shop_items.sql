@@ -0,0 +1,119 @@
+-- Shop quantities change only through these functions. Prices live in
+-- shop_catalog, which mirrors SHOP_ITEMS in src/config/classConfig.ts.
+
+-- Cosmetics bought in the shop
+alter table public.users add column if not exists title_badge text;
+alter table public.users add column if not exists sprite_recolor_hue integer;
+
+create table if not exists public.shop_catalog (
+  id text primary key,
+  price integer not null check (price >= 0),
+  stackable boolean not null
+);
+
+insert into public.shop_catalog (id, price, stackable) values
+  ('xp_potion_small', 60, true),
+  ('xp_potion_large', 200, true),
+  ('health_tonic', 40, true),
+  ('whetstone', 40, true),
+  ('iron_skin', 40, true),
+  ('lucky_charm', 60, true),
+  ('recolor_crimson', 250, false),
+  ('recolor_emerald', 250, false),
+  ('recolor_azure', 250, false),
+  ('badge_bug_squasher', 150, false),
+  ('badge_ship_it', 150, false),
+  ('badge_night_owl', 300, false),
+  ('badge_10x', 1000, false)
+on conflict (id) do update set price = excluded.price, stackable = excluded.stackable;
+
+create table if not exists public.user_shop_items (
+  user_id uuid not null references public.users (id) on delete cascade,
+  item_id text not null,
+  quantity integer not null check (quantity >= 0),
+  updated_at timestamp with time zone not null default now(),
+  primary key (user_id, item_id)
+);
+
+-- Players read their items but never write them directly
+alter table public.user_shop_items enable row level security;
+
+drop policy if exists "Users read their shop items" on public.user_shop_items;
+create policy "Users read their shop items" on public.user_shop_items for select using (auth.uid() = user_id);
+
+revoke insert, update, delete on public.user_shop_items from authenticated;
+
+create or replace function public.purchase_shop_item(p_item_id text, p_quantity integer default 1)
+returns table (gold integer, total_xp integer, quantity integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_item public.shop_catalog%rowtype;
+  v_owned integer;
+begin
+  if v_user is null then
+    raise exception 'Not authenticated';
+  end if;
+  if p_quantity < 1 then
+    raise exception 'Quantity must be positive';
+  end if;
+
+  select * into v_item from public.shop_catalog where id = p_item_id;
+  if not found then
+    raise exception 'Unknown item';
+  end if;
+
+  select s.quantity into v_owned
+  from public.user_shop_items s
+  where s.user_id = v_user and s.item_id = p_item_id
+  for update;
+  if not v_item.stackable and (coalesce(v_owned, 0) > 0 or p_quantity > 1) then
+    raise exception 'Item already owned';
+  end if;
+
+  update public.users u
+  set gold = u.gold - v_item.price * p_quantity
+  where u.id = v_user and u.gold >= v_item.price * p_quantity;
+  if not found then
+    raise exception 'Not enough gold';
+  end if;
+
+  insert into public.user_shop_items (user_id, item_id, quantity, updated_at)
+  values (v_user, p_item_id, p_quantity, now())
+  on conflict (user_id, item_id) do update
+  set quantity = public.user_shop_items.quantity + excluded.quantity, updated_at = now();
+
+  return query
+  select u.gold, u.total_xp, s.quantity
+  from public.users u
+  join public.user_shop_items s on s.user_id = u.id and s.item_id = p_item_id
+  where u.id = v_user;
+end;
+$$;
+
+create or replace function public.use_shop_item(p_item_id text)
+returns table (quantity integer)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  return query
+  update public.user_shop_items s
+  set quantity = s.quantity - 1, updated_at = now()
+  where s.user_id = auth.uid() and s.item_id = p_item_id and s.quantity > 0
+  returning s.quantity;
+
+  if not found then
+    raise exception 'Item not owned';
+  end if;
+end;
+$$;
+
+revoke all on function public.purchase_shop_item(text, integer) from public;
+revoke all on function public.use_shop_item(text) from public;
+grant execute on function public.purchase_shop_item(text, integer) to authenticated;
+grant execute on function public.use_shop_item(text) to authenticated;
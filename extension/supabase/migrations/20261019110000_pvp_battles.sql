@@ -0,0 +1,136 @@
+-- Battles between players are resolved by edge functions (supabase/functions)
+-- with the service role. These functions write a resolved battle, its rewards,
+-- ratings and the consumable used in one transaction; players can't call them.
+
+alter table public.battles add column if not exists mode text not null default 'live' check (mode in ('live', 'ghost'));
+alter table public.battles add column if not exists seed bigint;
+alter table public.battles add column if not exists engine_version integer;
+alter table public.battles add column if not exists fighters jsonb;
+alter table public.battles add column if not exists defender_seen_at timestamp with time zone;
+
+create table if not exists public.pvp_ratings (
+  user_id uuid not null references public.users (id) on delete cascade,
+  season integer not null,
+  rating double precision not null,
+  deviation double precision not null,
+  wins integer not null default 0,
+  losses integer not null default 0,
+  last_played_at timestamp with time zone,
+  reward_gold integer,
+  primary key (user_id, season)
+);
+
+create table if not exists public.pvp_rating_changes (
+  battle_id uuid not null references public.battles (id) on delete cascade,
+  user_id uuid not null references public.users (id) on delete cascade,
+  season integer not null,
+  rating_before double precision not null,
+  rating_after double precision not null,
+  created_at timestamp with time zone not null default now(),
+  primary key (battle_id, user_id)
+);
+
+-- The ladder is public; only the functions below write it
+alter table public.pvp_ratings enable row level security;
+alter table public.pvp_rating_changes enable row level security;
+
+drop policy if exists "Ratings are public" on public.pvp_ratings;
+create policy "Ratings are public" on public.pvp_ratings for select using (true);
+drop policy if exists "Rating changes are public" on public.pvp_rating_changes;
+create policy "Rating changes are public" on public.pvp_rating_changes for select using (true);
+
+-- Completes the battle if it is still pending and both ratings are still the
+-- ones it was rated from. Answers 'completed', 'not_pending' or
+-- 'ratings_changed' (rate again and retry); raises, undoing everything, if
+-- the buff taken into it is gone.
+create or replace function public.complete_pvp_battle(
+  p_battle_id uuid,
+  p_battle_log jsonb,
+  p_winner_id uuid,
+  p_rewards jsonb,
+  p_seed bigint,
+  p_engine_version integer,
+  p_fighters jsonb,
+  p_completed_at timestamp with time zone,
+  p_grants jsonb,
+  p_buff jsonb,
+  p_ratings jsonb,
+  p_rating_changes jsonb,
+  p_rated_from jsonb
+)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season integer := (p_ratings->0->>'season')::integer;
+  v_from record;
+  v_played timestamp with time zone;
+begin
+  perform 1 from public.battles b where b.id = p_battle_id and b.status = 'pending' for update;
+  if not found then
+    return 'not_pending';
+  end if;
+
+  -- Battles of the same player complete one at a time, so a rating read
+  -- before another battle wrote it is caught here
+  for v_from in
+    select * from jsonb_to_recordset(p_rated_from) as f ("userId" uuid, "lastPlayedAt" timestamp with time zone)
+    order by 1
+  loop
+    perform pg_advisory_xact_lock(hashtext('pvp_rating:' || v_from."userId" || ':' || v_season));
+    select r.last_played_at into v_played
+    from public.pvp_ratings r
+    where r.user_id = v_from."userId" and r.season = v_season;
+    if (found and v_played is distinct from v_from."lastPlayedAt") or (not found and v_from."lastPlayedAt" is not null) then
+      return 'ratings_changed';
+    end if;
+  end loop;
+
+  update public.battles b
+  set status = 'completed',
+      battle_log = p_battle_log,
+      winner_id = p_winner_id,
+      rewards = p_rewards,
+      seed = p_seed,
+      engine_version = p_engine_version,
+      fighters = p_fighters,
+      completed_at = p_completed_at
+  where b.id = p_battle_id;
+
+  update public.users u
+  set total_xp = u.total_xp + g.xp, gold = u.gold + g.gold
+  from jsonb_to_recordset(p_grants) as g ("userId" uuid, xp integer, gold integer)
+  where u.id = g."userId";
+
+  -- The buff was checked before the battle; it must still be there
+  if jsonb_typeof(p_buff) = 'object' then
+    update public.user_shop_items s
+    set quantity = s.quantity - 1, updated_at = now()
+    where s.user_id = (p_buff->>'userId')::uuid and s.item_id = p_buff->>'itemId' and s.quantity > 0;
+    if not found then
+      raise exception 'Battle buff not owned';
+    end if;
+  end if;
+
+  insert into public.pvp_ratings (user_id, season, rating, deviation, wins, losses, last_played_at, reward_gold)
+  select r.user_id, r.season, r.rating, r.deviation, r.wins, r.losses, r.last_played_at, r.reward_gold
+  from jsonb_populate_recordset(null::public.pvp_ratings, p_ratings) r
+  on conflict (user_id, season) do update
+  set rating = excluded.rating,
+      deviation = excluded.deviation,
+      wins = excluded.wins,
+      losses = excluded.losses,
+      last_played_at = excluded.last_played_at;
+
+  insert into public.pvp_rating_changes (battle_id, user_id, season, rating_before, rating_after, created_at)
+  select c.battle_id, c.user_id, c.season, c.rating_before, c.rating_after, c.created_at
+  from jsonb_populate_recordset(null::public.pvp_rating_changes, p_rating_changes) c;
+
+  return 'completed';
+end;
+$$;
+
+revoke all on function public.complete_pvp_battle(uuid, jsonb, uuid, jsonb, bigint, integer, jsonb, timestamp with time zone, jsonb, jsonb, jsonb, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.complete_pvp_battle(uuid, jsonb, uuid, jsonb, bigint, integer, jsonb, timestamp with time zone, jsonb, jsonb, jsonb, jsonb, jsonb) to service_role;
@@ -0,0 +1,57 @@
+-- Ghost battles are fought against a player's stored stats by the
+-- resolve-ghost-battle edge function. Only the attacker is rewarded.
+
+create or replace function public.record_ghost_battle(
+  p_challenger_id uuid,
+  p_opponent_id uuid,
+  p_battle_log jsonb,
+  p_winner_id uuid,
+  p_rewards jsonb,
+  p_seed bigint,
+  p_engine_version integer,
+  p_fighters jsonb,
+  p_completed_at timestamp with time zone,
+  p_grant jsonb,
+  p_buff jsonb
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_battle_id uuid;
+begin
+  insert into public.battles (
+    challenger_id, opponent_id, status, mode, battle_log, winner_id, rewards,
+    seed, engine_version, fighters, created_at, completed_at
+  )
+  values (
+    p_challenger_id, p_opponent_id, 'completed', 'ghost', p_battle_log, p_winner_id, p_rewards,
+    p_seed, p_engine_version, p_fighters, p_completed_at, p_completed_at
+  )
+  returning id into v_battle_id;
+
+  update public.users u
+  set total_xp = u.total_xp + (p_grant->>'xp')::integer, gold = u.gold + (p_grant->>'gold')::integer
+  where u.id = (p_grant->>'userId')::uuid;
+
+  -- The buff was checked before the battle; it must still be there
+  if jsonb_typeof(p_buff) = 'object' then
+    update public.user_shop_items s
+    set quantity = s.quantity - 1, updated_at = now()
+    where s.user_id = (p_buff->>'userId')::uuid and s.item_id = p_buff->>'itemId' and s.quantity > 0;
+    if not found then
+      raise exception 'Battle buff not owned';
+    end if;
+  end if;
+
+  return v_battle_id;
+end;
+$$;
+
+-- For counting today's ghost battles against the daily limit
+create index if not exists idx_battles_ghost_challenger on public.battles (challenger_id, completed_at) where mode = 'ghost';
+
+revoke all on function public.record_ghost_battle(uuid, uuid, jsonb, uuid, jsonb, bigint, integer, jsonb, timestamp with time zone, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.record_ghost_battle(uuid, uuid, jsonb, uuid, jsonb, bigint, integer, jsonb, timestamp with time zone, jsonb, jsonb) to service_role;
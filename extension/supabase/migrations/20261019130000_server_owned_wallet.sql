@@ -0,0 +1,25 @@
+-- Gold and total XP are owned by the server: players change them only
+-- through apply_wallet_delta, spend_gold and the shop RPCs, and battle and
+-- season rewards are granted by the edge functions. So are level, stats,
+-- talents and equipment, which battles read: the sync-fighter function sets
+-- them from total XP and owned items. Every other column the extension
+-- writes stays writable.
+
+-- Quest and boss schedule columns written by the extension
+alter table public.users add column if not exists last_quest_refresh text;
+alter table public.users add column if not exists last_boss_win_date date;
+
+revoke insert, update on public.users from authenticated;
+
+-- The profile sync upserts, which needs insert on the columns it updates too
+grant insert (
+  id, github_id, github_username, avatar_url, display_name, character_class,
+  git_emails, title_badge, sprite_recolor_hue, updated_at
+) on public.users to authenticated;
+
+grant update (
+  id, display_name, character_class,
+  git_emails, title_badge, sprite_recolor_hue,
+  last_quest_refresh, last_weekly_quest_refresh, last_monthly_quest_refresh, last_quest_reroll,
+  last_boss_win_date, updated_at
+) on public.users to authenticated;
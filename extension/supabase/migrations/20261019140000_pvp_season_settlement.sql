@@ -0,0 +1,50 @@
+-- Finished seasons are paid by the settle-pvp-season edge function, which a
+-- daily cron job calls. The project URL and service role key it is called
+-- with are read from Vault (secrets 'project_url' and 'service_role_key').
+
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+-- Pays each grant whose season row hasn't been settled yet, so running it
+-- twice pays nobody twice
+create or replace function public.settle_pvp_season(p_season integer, p_grants jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  with paid as (
+    update public.pvp_ratings r
+    set reward_gold = g.gold
+    from jsonb_to_recordset(p_grants) as g ("userId" uuid, gold integer)
+    where r.user_id = g."userId" and r.season = p_season and r.reward_gold is null
+    returning r.user_id, g.gold
+  )
+  update public.users u
+  set gold = u.gold + paid.gold
+  from paid
+  where u.id = paid.user_id;
+end;
+$$;
+
+revoke all on function public.settle_pvp_season(integer, jsonb) from public, anon, authenticated;
+grant execute on function public.settle_pvp_season(integer, jsonb) to service_role;
+
+select cron.unschedule('settle-pvp-season')
+where exists (select 1 from cron.job where jobname = 'settle-pvp-season');
+
+select cron.schedule(
+  'settle-pvp-season',
+  '15 0 * * *',
+  $job$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/settle-pvp-season',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $job$
+);
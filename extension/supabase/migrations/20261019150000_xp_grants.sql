@@ -0,0 +1,117 @@
+-- XP shared with friends credited as co-authors. Grants are only written and
+-- claimed through these functions: the server works out each grant from the
+-- commit's XP and caps it, and only friends can be granted XP.
+
+create table if not exists public.xp_grants (
+  id uuid primary key default gen_random_uuid(),
+  grantor_id uuid not null references public.users (id) on delete cascade,
+  recipient_id uuid not null references public.users (id) on delete cascade,
+  commit_hash text not null,
+  commit_message text not null default '',
+  xp integer not null check (xp > 0),
+  created_at timestamp with time zone not null default now(),
+  claimed_at timestamp with time zone
+);
+
+create unique index if not exists xp_grants_grantor_recipient_commit
+  on public.xp_grants (grantor_id, recipient_id, commit_hash);
+create index if not exists idx_xp_grants_recipient_unclaimed
+  on public.xp_grants (recipient_id) where claimed_at is null;
+
+-- Recipients read their own grants; nobody writes them directly
+alter table public.xp_grants enable row level security;
+
+drop policy if exists "Recipients read their XP grants" on public.xp_grants;
+create policy "Recipients read their XP grants" on public.xp_grants for select using (auth.uid() = recipient_id);
+
+revoke insert, update, delete on public.xp_grants from authenticated;
+
+-- Grants a friend the co-author share of a commit that earned the caller
+-- p_commit_xp. Share and cap match CO_AUTHOR_GRANT_CONFIG in
+-- src/config/classConfig.ts. A day's grants to one friend can't add up to
+-- more than that share of the XP the server credited the caller that day.
+-- Answers the XP granted, 0 if the commit was already shared.
+create or replace function public.grant_co_author_xp(
+  p_recipient_id uuid,
+  p_commit_hash text,
+  p_commit_message text,
+  p_commit_xp integer
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_user uuid := auth.uid();
+  v_credited integer;
+  v_shared integer;
+  v_xp integer;
+begin
+  if v_user is null then
+    raise exception 'Not authenticated';
+  end if;
+  if p_recipient_id = v_user then
+    raise exception 'Cannot share XP with yourself';
+  end if;
+
+  perform 1 from public.friendships f
+  where f.status = 'accepted'
+    and ((f.requester_id = v_user and f.addressee_id = p_recipient_id)
+      or (f.requester_id = p_recipient_id and f.addressee_id = v_user));
+  if not found then
+    raise exception 'Not friends';
+  end if;
+
+  -- Grants by the same player are worked out one at a time
+  perform pg_advisory_xact_lock(hashtext('xp_grants:' || v_user));
+
+  select w.xp into v_credited
+  from public.wallet_daily_gains w
+  where w.user_id = v_user and w.day = current_date;
+
+  select coalesce(sum(g.xp), 0) into v_shared
+  from public.xp_grants g
+  where g.grantor_id = v_user and g.recipient_id = p_recipient_id and g.created_at >= current_date;
+
+  v_xp := least(100, floor(greatest(p_commit_xp, 0) * 0.5)::integer);
+  v_xp := least(v_xp, floor(coalesce(v_credited, 0) * 0.5)::integer - v_shared);
+  if v_xp <= 0 then
+    return 0;
+  end if;
+
+  insert into public.xp_grants (grantor_id, recipient_id, commit_hash, commit_message, xp)
+  values (v_user, p_recipient_id, p_commit_hash, coalesce(p_commit_message, ''), v_xp)
+  on conflict (grantor_id, recipient_id, commit_hash) do nothing;
+  if not found then
+    return 0;
+  end if;
+  return v_xp;
+end;
+$$;
+
+-- Marks the caller's unclaimed grants claimed and answers them, so another
+-- window can't claim them twice
+create or replace function public.claim_xp_grants()
+returns setof public.xp_grants
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated';
+  end if;
+
+  return query
+  update public.xp_grants g
+  set claimed_at = now()
+  where g.recipient_id = auth.uid() and g.claimed_at is null
+  returning g.*;
+end;
+$$;
+
+revoke all on function public.grant_co_author_xp(uuid, text, text, integer) from public;
+revoke all on function public.claim_xp_grants() from public;
+grant execute on function public.grant_co_author_xp(uuid, text, text, integer) to authenticated;
+grant execute on function public.claim_xp_grants() to authenticated;
@@ -0,0 +1,9 @@
+-- Challenges are fought when the challenged player accepts, so the
+-- challenger's extension counts the result the next time it sees it and
+-- stamps challenger_seen_at. Results from before this column count as seen.
+
+alter table public.battles add column if not exists challenger_seen_at timestamp with time zone;
+
+update public.battles
+set challenger_seen_at = completed_at
+where status = 'completed' and challenger_seen_at is null;
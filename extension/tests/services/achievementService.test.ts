@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  collectAchievementMetrics,
+  emptyAchievementState,
+  findNewAchievements
+} from '../../src/services/achievementService';
+import { ACHIEVEMENTS, CLASS_MASTERY_LEVEL } from '../../src/config/classConfig';
+
+describe('achievementService', () => {
+  it('should have unique achievement ids', () => {
+    const ids = ACHIEVEMENTS.map(a => a.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should count classes that reached the mastery level', () => {
+    const stats = {
+      ...emptyAchievementState().stats,
+      classLevels: { Warrior: CLASS_MASTERY_LEVEL + 2, Mage: CLASS_MASTERY_LEVEL, Rogue: 3 }
+    };
+    const metrics = collectAchievementMetrics({ lifetimeCommits: 0, level: 1, longestStreak: 0, stats });
+    expect(metrics.classes_mastered).toBe(2);
+  });
+
+  it('should unlock achievements whose targets are met', () => {
+    const metrics = collectAchievementMetrics({
+      lifetimeCommits: 150,
+      level: 4,
+      longestStreak: 10,
+      stats: { bossKills: 1, pvpWins: 0, higherLevelPvpWins: 0, classXp: {}, classLevels: {} }
+    });
+
+    const ids = findNewAchievements(metrics, {}).map(a => a.id);
+    expect(ids).toEqual(['first_commit', 'commits_100', 'streak_10', 'first_boss_kill']);
+  });
+
+  it('should not unlock the same achievement twice', () => {
+    const metrics = collectAchievementMetrics({
+      lifetimeCommits: 1,
+      level: 1,
+      longestStreak: 0,
+      stats: emptyAchievementState().stats
+    });
+
+    expect(findNewAchievements(metrics, { first_commit: '2025-03-01T00:00:00.000Z' })).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ActivityLedger, ActivityLedgerEntry, LEDGER_FILE } from '../../src/services/activityLedger';
+
+function entry(hash: string, overrides: Partial<ActivityLedgerEntry> = {}): ActivityLedgerEntry {
+  return {
+    hash,
+    repo: '/code/app',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    recordedAt: '2025-01-01T00:00:00.000Z',
+    linesAdded: 10,
+    linesRemoved: 2,
+    filesChanged: 1,
+    xpAwarded: 17,
+    source: 'commit',
+    ...overrides
+  };
+}
+
+describe('ActivityLedger', () => {
+  let storageDir: string;
+
+  beforeEach(() => {
+    storageDir = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'gitrpg-ledger-')), 'globalStorage');
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(storageDir), { recursive: true, force: true });
+  });
+
+  it('should create the storage dir and persist entries across instances', async () => {
+    const ledger = new ActivityLedger(storageDir);
+    await ledger.append([entry('a'), entry('b')]);
+
+    const reloaded = new ActivityLedger(storageDir);
+    expect(reloaded.size).toBe(2);
+    expect(reloaded.has('a')).toBe(true);
+    expect(reloaded.get('b')?.xpAwarded).toBe(17);
+  });
+
+  it('should ignore hashes that are already recorded', async () => {
+    const ledger = new ActivityLedger(storageDir);
+    await ledger.append([entry('a')]);
+    const added = await ledger.append([entry('a', { xpAwarded: 99 }), entry('c')]);
+
+    expect(added.map(e => e.hash)).toEqual(['c']);
+    expect(ledger.get('a')?.xpAwarded).toBe(17);
+    expect(fs.readFileSync(path.join(storageDir, LEDGER_FILE), 'utf-8').trim().split('\n')).toHaveLength(2);
+  });
+
+  it('should ignore rebased or cherry-picked copies by patch id', async () => {
+    const ledger = new ActivityLedger(storageDir);
+    await ledger.append([entry('a', { patchId: 'p1' })]);
+    const added = await ledger.append([entry('a2', { patchId: 'p1' }), entry('b', { patchId: 'p2' }), entry('b2', { patchId: 'p2' })]);
+
+    expect(added.map(e => e.hash)).toEqual(['b']);
+    expect(ledger.isRecorded({ hash: 'a3', patchId: 'p1' })).toBe(true);
+    expect(ledger.isRecorded({ hash: 'c' })).toBe(false);
+    expect(new ActivityLedger(storageDir).isRecorded({ hash: 'b3', patchId: 'p2' })).toBe(true);
+  });
+
+  it('should skip a torn trailing line', () => {
+    fs.mkdirSync(storageDir, { recursive: true });
+    fs.writeFileSync(path.join(storageDir, LEDGER_FILE), `${JSON.stringify(entry('a'))}\n{"hash":"b","re`);
+
+    const ledger = new ActivityLedger(storageDir);
+    expect(ledger.size).toBe(1);
+    expect(ledger.has('b')).toBe(false);
+  });
+
+  it('should append after a torn trailing line without joining onto it', async () => {
+    fs.mkdirSync(storageDir, { recursive: true });
+    fs.writeFileSync(path.join(storageDir, LEDGER_FILE), `${JSON.stringify(entry('a'))}\n{"hash":"b","re`);
+
+    await new ActivityLedger(storageDir).append([entry('c')]);
+
+    const reloaded = new ActivityLedger(storageDir);
+    expect(reloaded.size).toBe(2);
+    expect(reloaded.has('c')).toBe(true);
+  });
+
+  it('should query newest first with filters', async () => {
+    const ledger = new ActivityLedger(storageDir);
+    await ledger.append([
+      entry('old', { recordedAt: '2025-01-01T00:00:00.000Z' }),
+      entry('other', { repo: '/code/other', recordedAt: '2025-01-02T00:00:00.000Z' }),
+      entry('new', { recordedAt: '2025-01-03T00:00:00.000Z', source: 'history' })
+    ]);
+
+    expect(ledger.query().map(e => e.hash)).toEqual(['new', 'other', 'old']);
+    expect(ledger.query({ repo: '/code/app' }).map(e => e.hash)).toEqual(['new', 'old']);
+    expect(ledger.query({ since: new Date('2025-01-02T00:00:00.000Z') }).map(e => e.hash)).toEqual(['new', 'other']);
+    expect(ledger.query({ source: 'history' }).map(e => e.hash)).toEqual(['new']);
+    expect(ledger.query({ limit: 1 }).map(e => e.hash)).toEqual(['new']);
+  });
+});
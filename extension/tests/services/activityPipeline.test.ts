@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const settings: Record<string, boolean> = {};
+
+vi.mock('vscode', () => ({
+  workspace: {
+    getConfiguration: vi.fn(() => ({
+      get: (key: string, fallback: boolean) => settings[key] ?? fallback
+    })),
+    asRelativePath: (p: string) => p
+  },
+  window: {
+    showInformationMessage: vi.fn(),
+    setStatusBarMessage: vi.fn()
+  },
+  DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 }
+}));
+
+import { ActivityPipeline } from '../../src/services/activityPipeline';
+import { isTestCommand, countErrors, countLintProblems, newReviewEvents } from '../../src/services/activitySources';
+import { ACTIVITY_EVENT_CONFIG } from '../../src/config/classConfig';
+import type { LocalStateManager } from '../../src/services/localStateManager';
+import type { ActivityEventCounts } from '../../src/types';
+
+function fakeStateManager() {
+  const events: ActivityEventCounts = { test_run: 0, diagnostics_cleared: 0, lint_fix: 0, review_given: 0 };
+  const addActivity = vi.fn(async (
+    _c: number, _a: number, _r: number, _f: number, _m: number,
+    options: { bonusXp?: number; events?: Partial<ActivityEventCounts> }
+  ) => {
+    for (const [kind, count] of Object.entries(options.events ?? {})) {
+      events[kind as keyof ActivityEventCounts] += count ?? 0;
+    }
+    return { xpEarned: options.bonusXp ?? 0, leveledUp: false, newLevel: 1 };
+  });
+  const manager = {
+    addActivity,
+    getTodayStats: () => ({ commits: 0, linesAdded: 0, filesChanged: 0, events: { ...events } }),
+    getCharacter: () => ({ name: 'Hero' })
+  } as unknown as LocalStateManager;
+  return { manager, addActivity };
+}
+
+describe('ActivityPipeline', () => {
+  beforeEach(() => {
+    for (const key of Object.keys(settings)) delete settings[key];
+  });
+
+  it('should award event XP through addActivity and count the event', async () => {
+    const { manager, addActivity } = fakeStateManager();
+    const pipeline = new ActivityPipeline(manager);
+
+    const result = await pipeline.emit({ kind: 'diagnostics_cleared', source: 'diagnostics', file: '/a.ts', errorsCleared: 3 });
+
+    expect(result?.xpEarned).toBe(5); // 2 base + 1 per error
+    expect(addActivity).toHaveBeenCalledWith(0, 0, 0, 0, 1, { bonusXp: 5, events: { diagnostics_cleared: 1 } });
+  });
+
+  it('should apply cooldowns per file', async () => {
+    const { manager } = fakeStateManager();
+    const pipeline = new ActivityPipeline(manager);
+    const fix = (file: string) => ({ kind: 'lint_fix' as const, source: 'lint', file, warningsFixed: 2 });
+
+    expect(await pipeline.emit(fix('/a.ts'), 0)).not.toBeNull();
+    expect(await pipeline.emit(fix('/a.ts'), 60000)).toBeNull();
+    expect(await pipeline.emit(fix('/b.ts'), 60000)).not.toBeNull();
+    expect(await pipeline.emit(fix('/a.ts'), ACTIVITY_EVENT_CONFIG.lint_fix.cooldownMinutes * 60000)).not.toBeNull();
+  });
+
+  it('should stop awarding after the daily limit', async () => {
+    const { manager } = fakeStateManager();
+    const pipeline = new ActivityPipeline(manager);
+    const cooldown = ACTIVITY_EVENT_CONFIG.test_run.cooldownMinutes * 60000;
+
+    const results = [];
+    for (let i = 0; i <= ACTIVITY_EVENT_CONFIG.test_run.dailyLimit; i++) {
+      results.push(await pipeline.emit({ kind: 'test_run', source: 'tests', label: 'npm test' }, i * cooldown));
+    }
+
+    expect(results.filter(r => r !== null)).toHaveLength(ACTIVITY_EVENT_CONFIG.test_run.dailyLimit);
+    expect(results[results.length - 1]).toBeNull();
+  });
+
+  it('should ignore kinds disabled in settings', async () => {
+    settings.tests = false;
+    const { manager, addActivity } = fakeStateManager();
+
+    expect(await new ActivityPipeline(manager).emit({ kind: 'test_run', source: 'tests', label: 'test' })).toBeNull();
+    expect(addActivity).not.toHaveBeenCalled();
+  });
+
+  it('should only award reviews when enabled', async () => {
+    const { manager } = fakeStateManager();
+    const pipeline = new ActivityPipeline(manager);
+    const review = { kind: 'review_given' as const, source: 'github-reviews', pullRequest: 'acme/app#7', title: 'Fix login' };
+
+    expect(await pipeline.emit(review)).toBeNull();
+
+    settings.reviews = true;
+    expect((await pipeline.emit(review))?.xpEarned).toBe(ACTIVITY_EVENT_CONFIG.review_given.baseXp);
+  });
+});
+
+describe('activitySources', () => {
+  it('should recognise common test commands', () => {
+    expect(isTestCommand('npm test')).toBe(true);
+    expect(isTestCommand('pnpm run test -- --watch=false')).toBe(true);
+    expect(isTestCommand('npx vitest run')).toBe(true);
+    expect(isTestCommand('cargo test --all')).toBe(true);
+    expect(isTestCommand('./gradlew clean test')).toBe(true);
+    expect(isTestCommand('npm run build')).toBe(false);
+    expect(isTestCommand('git commit -m "add tests"')).toBe(false);
+  });
+
+  it('should separate compiler errors from linter problems', () => {
+    const diagnostics = [
+      { severity: 0, source: 'ts' },
+      { severity: 0, source: 'eslint' },
+      { severity: 1, source: 'ESLint' },
+      { severity: 1, source: 'ts' }
+    ];
+
+    expect(countErrors(diagnostics)).toBe(1);
+    expect(countLintProblems(diagnostics)).toBe(2);
+  });
+
+  it('should report each reviewed pull request once', () => {
+    const seen = new Set<number>([1]);
+    const items = [
+      { id: 1, number: 4, title: 'Old review', repository_url: 'https://api.github.com/repos/acme/app' },
+      { id: 2, number: 9, title: 'Add search', repository_url: 'https://api.github.com/repos/acme/app' }
+    ];
+
+    expect(newReviewEvents(items, seen, 'github-reviews')).toEqual([
+      { kind: 'review_given', source: 'github-reviews', pullRequest: 'acme/app#9', title: 'Add search' }
+    ]);
+    expect(newReviewEvents(items, seen, 'github-reviews')).toEqual([]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  matchesAuthor,
+  githubUsernameFromEmail,
+  normalizeIdentity,
+  emptyIdentities
+} from '../../src/services/authorIdentity';
+
+describe('authorIdentity', () => {
+  const identities = {
+    ...emptyIdentities(),
+    emails: ['dev@work.example.com', 'Dev@Home.example.com'],
+    names: ['Sam Coder'],
+    githubUsernames: ['samcodes']
+  };
+
+  it('should match any configured email case-insensitively', () => {
+    expect(matchesAuthor({ name: 'x', email: 'dev@home.example.com' }, identities)).toBe(true);
+    expect(matchesAuthor({ name: 'x', email: 'DEV@work.example.com' }, identities)).toBe(true);
+  });
+
+  it('should match by author name', () => {
+    expect(matchesAuthor({ name: 'sam coder', email: 'laptop@localhost' }, identities)).toBe(true);
+  });
+
+  it('should match both GitHub noreply address formats', () => {
+    expect(matchesAuthor({ name: 'x', email: 'samcodes@users.noreply.github.com' }, identities)).toBe(true);
+    expect(matchesAuthor({ name: 'x', email: '1234567+samcodes@users.noreply.github.com' }, identities)).toBe(true);
+  });
+
+  it('should not match teammates', () => {
+    expect(matchesAuthor({ name: 'Teammate', email: 'mate@work.example.com' }, identities)).toBe(false);
+    expect(matchesAuthor({ name: 'x', email: '99+other@users.noreply.github.com' }, identities)).toBe(false);
+  });
+
+  it('should extract usernames from noreply emails', () => {
+    expect(githubUsernameFromEmail('42+octo@users.noreply.github.com')).toBe('octo');
+    expect(githubUsernameFromEmail('octo@example.com')).toBeNull();
+  });
+
+  it('should strip a leading @ from GitHub usernames', () => {
+    expect(normalizeIdentity('githubUsernames', ' @octo ')).toBe('octo');
+    expect(normalizeIdentity('emails', ' a@b.c ')).toBe('a@b.c');
+  });
+});
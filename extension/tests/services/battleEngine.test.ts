@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { BattleEngine, chooseAction, initialCombatantState } from '../../src/services/battleEngine';
+import { BATTLE_RESOURCES, CLASS_ABILITIES, CLASS_BASE_STATS } from '../../src/config/classConfig';
+import type { BattleFighter, CharacterClass } from '../../src/types';
+
+function fighter(id: string, characterClass: CharacterClass, currentHp?: number): BattleFighter {
+  const stats = { ...CLASS_BASE_STATS[characterClass] };
+  return { id, name: id, class: characterClass, level: 1, stats, currentHp: currentHp ?? stats.maxHp };
+}
+
+describe('battleEngine', () => {
+  it('should start fighters with a full pool and a ready ability', () => {
+    expect(initialCombatantState(fighter('m', 'Mage'))).toEqual({
+      resource: BATTLE_RESOURCES.Mage.max,
+      cooldown: 0,
+      blockFraction: 0,
+      effects: []
+    });
+  });
+
+  it('should only use abilities that are off cooldown and affordable', () => {
+    const mage = fighter('m', 'Mage');
+    const ready = initialCombatantState(mage);
+
+    expect(chooseAction(mage, ready)).toBe('ability');
+    expect(chooseAction(mage, { ...ready, cooldown: 1 })).toBe('attack');
+    expect(chooseAction(mage, { ...ready, resource: CLASS_ABILITIES.Mage.cost - 1 })).toBe('attack');
+  });
+
+  it('should save a block for when the warrior is hurt and unshielded', () => {
+    const state = initialCombatantState(fighter('w', 'Warrior'));
+
+    expect(chooseAction(fighter('w', 'Warrior'), state)).toBe('attack');
+    expect(chooseAction(fighter('w', 'Warrior', 50), state)).toBe('ability');
+    expect(chooseAction(fighter('w', 'Warrior', 50), { ...state, blockFraction: 0.6 })).toBe('attack');
+  });
+
+  it('should record abilities, cooldowns and blocks in the action log', () => {
+    const mage = fighter('mage', 'Mage');
+    const warrior = fighter('warrior', 'Warrior', 60);
+
+    const { actions } = new BattleEngine(mage, warrior, 42).runBattle();
+    const mageActions = actions.filter(a => a.actorId === 'mage');
+
+    // Fireball, then attacks while it cools down
+    expect(mageActions.slice(0, 4).map(a => a.abilityId ?? a.actionType))
+      .toEqual(['fireball', 'attack', 'attack', 'fireball']);
+
+    const block = actions.find(a => a.actionType === 'defend');
+    expect(block).toMatchObject({ actorId: 'warrior', targetId: 'warrior', abilityName: 'Shield Block', damage: 0 });
+
+    const hitAfterBlock = actions[actions.indexOf(block!) + 1];
+    expect(hitAfterBlock.actorId).toBe('mage');
+    expect(hitAfterBlock.blocked).toBeGreaterThan(0);
+  });
+
+  it('should fire every volley arrow and guarantee backstab crits', () => {
+    const { actions } = new BattleEngine(fighter('archer', 'Archer'), fighter('rogue', 'Rogue'), 7).runBattle();
+
+    expect(actions.find(a => a.abilityId === 'volley')?.hits).toBe(3);
+    expect(actions.find(a => a.abilityId === 'backstab')?.isCrit).toBe(true);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom } from '../../src/services/battleRng';
+import {
+  BATTLE_ENGINE_VERSION,
+  BattleEngine,
+  calculateDamage,
+  replayBattle,
+  verifyReplay
+} from '../../src/services/battleEngine';
+import { CLASS_BASE_STATS } from '../../src/config/classConfig';
+import type { BattleFighter, CharacterClass } from '../../src/types';
+
+function fighter(id: string, characterClass: CharacterClass): BattleFighter {
+  const stats = { ...CLASS_BASE_STATS[characterClass] };
+  return {
+    id,
+    name: id,
+    class: characterClass,
+    level: 5,
+    stats,
+    currentHp: stats.maxHp,
+    skills: [{ id: 'stab', name: 'Stab', chance: 0.3, damageMultiplier: 1.5, effects: [{ type: 'poison', target: 'target', duration: 3, potency: 0.1 }] }]
+  };
+}
+
+describe('battleRng', () => {
+  it('should repeat a sequence for the same seed and stay in [0, 1)', () => {
+    const a = createSeededRandom(1234);
+    const b = createSeededRandom(1234);
+    const rolls = Array.from({ length: 100 }, () => a());
+
+    expect(rolls).toEqual(Array.from({ length: 100 }, () => b()));
+    expect(rolls.every(r => r >= 0 && r < 1)).toBe(true);
+    expect(createSeededRandom(1235)()).not.toBe(rolls[0]);
+  });
+
+  it('should make damage exact for a given roll', () => {
+    const attacker = fighter('a', 'Warrior');
+    const defender = fighter('d', 'Mage');
+    expect(calculateDamage(attacker, defender, false, () => 0.5))
+      .toEqual(calculateDamage(attacker, defender, false, () => 0.5));
+  });
+
+  it('should record the seed and replay the identical action list', () => {
+    const warrior = fighter('w', 'Warrior');
+    const rogue = fighter('r', 'Rogue');
+    const result = new BattleEngine(warrior, rogue, 99).runBattle();
+
+    expect(result.seed).toBe(99);
+    expect(result.engineVersion).toBe(BATTLE_ENGINE_VERSION);
+
+    const replay = { seed: 99, engineVersion: BATTLE_ENGINE_VERSION, fighter1: warrior, fighter2: rogue };
+    expect(replayBattle(replay).actions.map(({ timestamp, ...a }) => a))
+      .toEqual(result.actions.map(({ timestamp, ...a }) => a));
+
+    // Stored logs come back with keys reordered and the original timestamps
+    const stored = JSON.parse(JSON.stringify(result.actions)).map((a: object) =>
+      Object.fromEntries(Object.entries(a).reverse())
+    );
+    expect(verifyReplay(replay, stored)).toBe(true);
+  });
+
+  it('should reject tampered logs and other engine versions', () => {
+    const fighter1 = fighter('a', 'Archer');
+    const fighter2 = fighter('m', 'Mage');
+    const replay = { seed: 5, engineVersion: BATTLE_ENGINE_VERSION, fighter1, fighter2 };
+    const actions = replayBattle(replay).actions;
+
+    const tampered = actions.map((a, i) => (i === 0 ? { ...a, damage: a.damage + 1 } : a));
+    expect(verifyReplay(replay, tampered)).toBe(false);
+    expect(verifyReplay(replay, actions.slice(1))).toBe(false);
+    expect(() => replayBattle({ ...replay, engineVersion: BATTLE_ENGINE_VERSION + 1 })).toThrow(/engine v/);
+  });
+});
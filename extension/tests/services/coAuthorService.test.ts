@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import { matchCoAuthorsToFriends, calculateGrantXp } from '../../src/services/coAuthorService';
+import type { Friend } from '../../src/services/friendsService';
+import { CO_AUTHOR_GRANT_CONFIG } from '../../src/config/classConfig';
+
+function friend(id: string, username: string, emails: string[] = [], status: Friend['status'] = 'accepted'): Friend {
+  return {
+    id,
+    username,
+    displayName: username,
+    avatarUrl: '',
+    characterClass: 'Mage',
+    level: 3,
+    friendCode: 'ABC123',
+    emails,
+    status,
+    isRequester: false
+  };
+}
+
+describe('coAuthorService', () => {
+  const friends = [
+    friend('1', 'octocat', ['octo@work.example']),
+    friend('2', 'hubot'),
+    friend('3', 'pending-pal', ['pal@example.com'], 'pending')
+  ];
+
+  it('should match co-authors by synced email', () => {
+    const matched = matchCoAuthorsToFriends([{ name: 'The Octocat', email: 'OCTO@work.example' }], friends);
+    expect(matched.map(f => f.id)).toEqual(['1']);
+  });
+
+  it('should match co-authors by GitHub noreply address or username', () => {
+    expect(matchCoAuthorsToFriends([{ name: 'Someone', email: '123+hubot@users.noreply.github.com' }], friends)
+      .map(f => f.id)).toEqual(['2']);
+    expect(matchCoAuthorsToFriends([{ name: 'octocat', email: 'other@example.com' }], friends)
+      .map(f => f.id)).toEqual(['1']);
+  });
+
+  it('should ignore strangers and pending friend requests', () => {
+    expect(matchCoAuthorsToFriends([{ name: 'Pal', email: 'pal@example.com' }], friends)).toEqual([]);
+    expect(matchCoAuthorsToFriends([{ name: 'Nobody', email: 'nobody@example.com' }], friends)).toEqual([]);
+  });
+
+  it('should share a capped fraction of the commit XP', () => {
+    expect(calculateGrantXp(40)).toBe(Math.floor(40 * CO_AUTHOR_GRANT_CONFIG.xpShare));
+    expect(calculateGrantXp(10000)).toBe(CO_AUTHOR_GRANT_CONFIG.maxGrantXp);
+    expect(calculateGrantXp(0)).toBe(0);
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  analyzeCommits,
+  applySoftCap,
+  countNonWhitespaceChanges
+} from '../../src/services/commitHeuristics';
+import type { GitCommit } from '../../src/services/gitTrackingService';
+import type { ActivityLedgerEntry } from '../../src/types';
+
+const base = new Date('2025-03-01T12:00:00Z').getTime();
+
+function commit(hash: string, minutes: number, message: string, lines = 20): GitCommit {
+  return {
+    hash,
+    author: 'Dev',
+    email: 'dev@example.com',
+    date: new Date(base + minutes * 60000),
+    message,
+    filesChanged: lines > 0 ? 1 : 0,
+    insertions: lines,
+    deletions: 0
+  };
+}
+
+function awarded(hash: string, minutes: number, message: string, lines = 20): ActivityLedgerEntry {
+  return {
+    hash,
+    repo: '/code/app',
+    timestamp: new Date(base + minutes * 60000).toISOString(),
+    recordedAt: new Date(base + minutes * 60000).toISOString(),
+    linesAdded: lines,
+    linesRemoved: 0,
+    filesChanged: 1,
+    xpAwarded: 20,
+    source: 'commit',
+    message
+  };
+}
+
+describe('commitHeuristics', () => {
+  it('should leave ordinary commits alone', () => {
+    const verdicts = analyzeCommits([commit('a', 0, 'feat: add login'), commit('b', 30, 'fix: typo in header')], []);
+    expect(verdicts.size).toBe(0);
+  });
+
+  it('should zero out empty and whitespace-only commits', () => {
+    const verdicts = analyzeCommits(
+      [commit('empty', 0, 'bump', 0), commit('ws', 1, 'format')],
+      [],
+      new Set(['ws'])
+    );
+    expect(verdicts.get('empty')?.weight).toBe(0);
+    expect(verdicts.get('ws')?.flags).toEqual(['whitespace']);
+  });
+
+  it('should cancel a commit and its revert in the same batch', () => {
+    const verdicts = analyzeCommits([commit('orig', 0, 'add feature'), commit('rev', 5, 'Revert "add feature"')], []);
+    expect(verdicts.get('orig')?.weight).toBe(0);
+    expect(verdicts.get('rev')?.weight).toBe(0);
+  });
+
+  it('should detect amends by matching author date and subject', () => {
+    const verdicts = analyzeCommits([commit('new-hash', 0, 'add feature')], [awarded('old-hash', 0, 'add feature')]);
+    expect(verdicts.get('new-hash')?.flags).toEqual(['amend']);
+    expect(verdicts.get('new-hash')?.weight).toBe(0);
+  });
+
+  it('should halve commits that repeat a recent message', () => {
+    const verdicts = analyzeCommits([commit('b', 60, 'wip')], [awarded('a', 0, 'wip')]);
+    expect(verdicts.get('b')?.flags).toEqual(['duplicate-message']);
+    expect(verdicts.get('b')?.weight).toBe(0.5);
+  });
+
+  it('should down-weight bursts of tiny commits past the threshold', () => {
+    const burst = Array.from({ length: 7 }, (_, i) => commit(`t${i}`, i, `tweak ${i}`, 1));
+    const verdicts = analyzeCommits(burst, []);
+
+    expect([...verdicts.keys()]).toEqual(['t5', 't6']);
+    expect(verdicts.get('t5')?.weight).toBe(0.25);
+  });
+
+  it('should count only real changes in a -w diff', () => {
+    const diff = [
+      'diff --git a/a.ts b/a.ts',
+      '--- a/a.ts',
+      '+++ b/a.ts',
+      '@@ -1 +1 @@',
+      '-const a = 1',
+      '+const a = 2'
+    ].join('\n');
+    expect(countNonWhitespaceChanges(diff)).toBe(2);
+    expect(countNonWhitespaceChanges('diff --git a/a.ts b/a.ts\nindex 1..2 100644\n')).toBe(0);
+  });
+
+  it('should reduce XP above the soft cap', () => {
+    expect(applySoftCap(0, 100, 1500)).toBe(100);
+    expect(applySoftCap(1450, 100, 1500)).toBe(62); // 50 full + 50 * 0.25
+    expect(applySoftCap(2000, 100, 1500)).toBe(25);
+    expect(applySoftCap(2000, 100, 0)).toBe(100);
+  });
+});
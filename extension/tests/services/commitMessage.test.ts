@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { parseCommitMessage, parseCoAuthor } from '../../src/services/commitMessage';
+import { calculateCommitBonusXp, COMMIT_CATEGORY_BONUS, CO_AUTHOR_BONUS_XP } from '../../src/config/classConfig';
+
+describe('commitMessage', () => {
+  it('should parse type, scope and breaking marker', () => {
+    const parsed = parseCommitMessage('feat(auth)!: drop legacy tokens');
+
+    expect(parsed.type).toBe('feat');
+    expect(parsed.category).toBe('feat');
+    expect(parsed.scope).toBe('auth');
+    expect(parsed.breaking).toBe(true);
+  });
+
+  it('should map common aliases onto rewarded categories', () => {
+    expect(parseCommitMessage('bugfix: null check').category).toBe('fix');
+    expect(parseCommitMessage('Tests: cover parser').category).toBe('test');
+    expect(parseCommitMessage('doc: typo').category).toBe('docs');
+  });
+
+  it('should not reward untyped or other types', () => {
+    expect(parseCommitMessage('update stuff').category).toBeNull();
+    expect(parseCommitMessage('chore: bump deps')).toMatchObject({ type: 'chore', category: null });
+    expect(parseCommitMessage('fix:').category).toBeNull();
+  });
+
+  it('should parse Co-authored-by trailer values', () => {
+    const parsed = parseCommitMessage('fix: race', ['Sam Coder <sam@example.com>', 'not a trailer']);
+
+    expect(parsed.coAuthors).toEqual([{ name: 'Sam Coder', email: 'sam@example.com' }]);
+    expect(parseCoAuthor('<bot@example.com>')).toEqual({ name: '', email: 'bot@example.com' });
+  });
+
+  it('should award distinct bonuses per category', () => {
+    expect(calculateCommitBonusXp('feat', false)).toBe(COMMIT_CATEGORY_BONUS.feat);
+    expect(calculateCommitBonusXp('docs', true)).toBe(COMMIT_CATEGORY_BONUS.docs + CO_AUTHOR_BONUS_XP);
+    expect(calculateCommitBonusXp(null, false)).toBe(0);
+  });
+});
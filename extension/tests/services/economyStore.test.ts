@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  emptyLocalEconomy,
+  LocalEconomyStore,
+  LOCAL_USER_ID,
+  matchesQuestFilter,
+  selectQuestsToMigrate,
+  type LocalEconomyState,
+  type QuestSchedule
+} from '../../src/services/economyStore';
+import type { LocalStateManager } from '../../src/services/localStateManager';
+import type { Quest } from '../../src/types';
+
+function quest(overrides: Partial<Quest>): Quest {
+  return {
+    id: 'q1',
+    user_id: LOCAL_USER_ID,
+    quest_type: 'daily',
+    title: 'Commit Champion',
+    description: 'Make 5 commits today',
+    requirement_type: 'commits',
+    requirement_target: 5,
+    requirement_current: 0,
+    reward_xp: 50,
+    reward_gold: 25,
+    status: 'active',
+    expires_at: null,
+    created_at: '2025-03-05T00:00:00.000Z',
+    completed_at: null,
+    chain_id: null,
+    chain_step: null,
+    ...overrides
+  };
+}
+
+function schedule(overrides: Partial<QuestSchedule> = {}): QuestSchedule {
+  return { ...emptyLocalEconomy().questSchedule, ...overrides };
+}
+
+function fakeStateManager() {
+  let economy: LocalEconomyState = emptyLocalEconomy();
+  let gold = 120;
+  return {
+    getLocalEconomy: () => structuredClone(economy),
+    saveLocalEconomy: vi.fn(async (next: LocalEconomyState) => { economy = structuredClone(next); }),
+    getCharacter: () => ({ gold }),
+    addGold: vi.fn(async (amount: number) => { gold += amount; })
+  };
+}
+
+describe('economyStore', () => {
+  it('should match quests against every filter field', () => {
+    const q = quest({ quest_type: 'chain', chain_id: 'bug_hunter', chain_step: 1 });
+    expect(matchesQuestFilter(q, {})).toBe(true);
+    expect(matchesQuestFilter(q, { chainId: 'bug_hunter', chainStep: 1, status: ['active'] })).toBe(true);
+    expect(matchesQuestFilter(q, { chainStep: 0 })).toBe(false);
+    expect(matchesQuestFilter(q, { status: ['completed', 'claimed'] })).toBe(false);
+  });
+
+  it('should keep quests, workers and the schedule in local state', async () => {
+    const stateManager = fakeStateManager();
+    const store = new LocalEconomyStore(stateManager as unknown as LocalStateManager);
+
+    const [inserted] = await store.insertQuests([quest({})]);
+    expect(inserted!.user_id).toBe(LOCAL_USER_ID);
+    expect(await store.updateQuest(inserted!.id, { requirement_current: 3 })).toBe(true);
+    expect((await store.listQuests({ status: ['active'] }))[0]!.requirement_current).toBe(3);
+
+    await store.insertWorkers([{ level: 1, gold_per_hour: 10 }]);
+    expect(await store.listWorkers()).toHaveLength(1);
+
+    await store.updateQuestSchedule({ daily: '2025-03-05' });
+    expect((await store.getQuestSchedule()).daily).toBe('2025-03-05');
+    expect((await store.getWallet()).gold).toBe(120);
+  });
+
+  it('should only spend gold the character has', async () => {
+    const stateManager = fakeStateManager();
+    const store = new LocalEconomyStore(stateManager as unknown as LocalStateManager);
+
+    expect(await store.spendGold(200)).toBeNull();
+    expect(await store.spendGold(100)).toEqual({ gold: 20, totalXp: 0 });
+    expect(stateManager.addGold).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not save when the schedule patch is empty', async () => {
+    const stateManager = fakeStateManager();
+    const store = new LocalEconomyStore(stateManager as unknown as LocalStateManager);
+
+    await store.updateQuestSchedule({});
+    expect(stateManager.saveLocalEconomy).not.toHaveBeenCalled();
+  });
+
+  it('should migrate tier quests only for periods newer than the account', () => {
+    const local = [
+      quest({ id: 'daily', quest_type: 'daily' }),
+      quest({ id: 'weekly', quest_type: 'weekly' })
+    ];
+    const { quests, schedule: patch } = selectQuestsToMigrate(
+      local,
+      schedule({ daily: '2025-03-05', weekly: '2025-W10' }),
+      [],
+      schedule({ daily: '2025-03-04', weekly: '2025-W10' })
+    );
+
+    expect(quests.map(q => q.id)).toEqual(['daily']);
+    expect(patch).toEqual({ daily: '2025-03-05' });
+  });
+
+  it('should always migrate completed quests but leave chains the account has started', () => {
+    const local = [
+      quest({ id: 'done', status: 'completed' }),
+      quest({ id: 'expired', status: 'expired' }),
+      quest({ id: 'started', quest_type: 'chain', chain_id: 'bug_hunter', chain_step: 0 }),
+      quest({ id: 'fresh', quest_type: 'chain', chain_id: 'shipwright', chain_step: 1 })
+    ];
+    const cloud = [quest({ id: 'cloud', quest_type: 'chain', chain_id: 'bug_hunter', chain_step: 2 })];
+
+    const { quests } = selectQuestsToMigrate(local, schedule(), cloud, schedule());
+    expect(quests.map(q => q.id)).toEqual(['done', 'fresh']);
+  });
+
+  it('should only migrate the streak quest when the account has none', () => {
+    const local = [quest({ id: 'streak', quest_type: 'streak' })];
+
+    expect(selectQuestsToMigrate(local, schedule(), [], schedule()).quests).toHaveLength(1);
+    expect(selectQuestsToMigrate(local, schedule(), [quest({ quest_type: 'streak' })], schedule()).quests)
+      .toHaveLength(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+
+// historyImport reads its settings through vscode; only the pure helpers are tested here
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  decayFactor,
+  projectLevel,
+  buildHistoryImportPreview
+} from '../../src/services/historyImport';
+import type { GitCommit } from '../../src/services/gitTrackingService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2025-06-01T00:00:00Z');
+
+function commit(daysAgo: number, insertions = 0): GitCommit {
+  return {
+    hash: `h${daysAgo}-${insertions}`,
+    author: 'Dev',
+    email: 'dev@example.com',
+    date: new Date(now.getTime() - daysAgo * DAY_MS),
+    message: 'work',
+    filesChanged: 0,
+    insertions,
+    deletions: 0
+  };
+}
+
+const freshCharacter = { level: 1, xp: 0, xpToNextLevel: 100 };
+
+describe('historyImport', () => {
+  it('should halve XP every half-life and allow disabling decay', () => {
+    expect(decayFactor(0, 180)).toBe(1);
+    expect(decayFactor(180, 180)).toBeCloseTo(0.5);
+    expect(decayFactor(360, 180)).toBeCloseTo(0.25);
+    expect(decayFactor(1000, 0)).toBe(1);
+  });
+
+  it('should project level-ups and gold like addXp', () => {
+    // 100 XP reaches level 2 (100 gold), then 225 more reaches level 3 (150 gold)
+    const projected = projectLevel(freshCharacter, 335);
+    expect(projected.level).toBe(3);
+    expect(projected.xp).toBe(10);
+    expect(projected.goldEarned).toBe(250);
+  });
+
+  it('should apply decay, age limit and repo multiplier', () => {
+    const preview = buildHistoryImportPreview(
+      [
+        { repoPath: '/code/app', commits: [commit(0), commit(180), commit(400)], xpMultiplier: 1 },
+        { repoPath: '/code/side', commits: [commit(0)], xpMultiplier: 2 }
+      ],
+      freshCharacter,
+      { halfLifeDays: 180, maxAgeDays: 365, maxTotalXp: 0 },
+      now
+    );
+
+    // 10 XP per commit: app = 10 + 5 (one half-life), 400-day commit skipped; side = 10 * 2
+    expect(preview.totalCommits).toBe(3);
+    expect(preview.rawXp).toBe(40);
+    expect(preview.totalXp).toBe(35);
+    expect(preview.repos.map(r => r.repoPath)).toEqual(['/code/side', '/code/app']);
+    expect(preview.capped).toBe(false);
+  });
+
+  it('should cap total XP and project the capped level', () => {
+    const preview = buildHistoryImportPreview(
+      [{ repoPath: '/code/app', commits: [commit(0, 500), commit(1, 500)], xpMultiplier: 1 }],
+      freshCharacter,
+      { halfLifeDays: 0, maxAgeDays: 0, maxTotalXp: 120 },
+      now
+    );
+
+    expect(preview.capped).toBe(true);
+    expect(preview.totalXp).toBe(120);
+    expect(preview.projectedLevel).toBe(2);
+    expect(preview.oldestCommitDate).toBe(new Date(now.getTime() - DAY_MS).toISOString());
+  });
+});
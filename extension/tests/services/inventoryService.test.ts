@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import { describeModifiers, lootSourceForQuest, rollLoot } from '../../src/services/inventoryService';
+import { applyEquipment } from '../../src/services/statModifiers';
+import { dbUserToBattleFighter } from '../../src/services/battleFighters';
+import type { DbUser } from '../../src/services/supabaseClient';
+import { ITEMS, LOOT_TABLES } from '../../src/config/classConfig';
+import type { CharacterStats, ItemDefinition } from '../../src/types';
+
+const BASE_STATS: CharacterStats = { maxHp: 100, attack: 10, defense: 5, speed: 8, critChance: 0.05, critDamage: 1.5 };
+
+function sequence(...values: number[]): () => number {
+  return () => values.shift() ?? 0;
+}
+
+describe('inventoryService', () => {
+  it('should add equipped item modifiers and skip unknown items', () => {
+    const stats = applyEquipment(BASE_STATS, ['linter_blade', 'type_mail', 'missing', null]);
+    expect(stats.attack).toBe(14);
+    expect(stats.defense).toBe(8);
+    expect(stats.maxHp).toBe(115);
+    expect(stats.critChance).toBeCloseTo(0.07);
+    expect(BASE_STATS.attack).toBe(10);
+  });
+
+  it('should drop nothing when the drop chance roll fails', () => {
+    expect(rollLoot('daily_quest', sequence(0.5))).toBeNull();
+  });
+
+  it('should pick rarities by weight and never roll empty tiers', () => {
+    const catalog: ItemDefinition[] = [
+      { id: 'a', name: 'A', slot: 'weapon', rarity: 'common', icon: '', description: '', modifiers: {} },
+      { id: 'b', name: 'B', slot: 'armor', rarity: 'rare', icon: '', description: '', modifiers: {} }
+    ];
+    // boss weights: common 30, rare 22 once empty tiers are dropped
+    expect(rollLoot('boss', sequence(0, 0.1, 0), catalog)?.id).toBe('a');
+    expect(rollLoot('boss', sequence(0, 0.99, 0), catalog)?.id).toBe('b');
+  });
+
+  it('should give every loot table something to drop', () => {
+    for (const table of Object.values(LOOT_TABLES)) {
+      const rarities = Object.entries(table.rarityWeights).filter(([, weight]) => weight > 0).map(([r]) => r);
+      expect(ITEMS.some(item => rarities.includes(item.rarity))).toBe(true);
+    }
+  });
+
+  it('should map quest types to loot tables', () => {
+    expect(lootSourceForQuest('daily')).toBe('daily_quest');
+    expect(lootSourceForQuest('streak')).toBe('daily_quest');
+    expect(lootSourceForQuest('monthly')).toBe('monthly_quest');
+    expect(lootSourceForQuest('chain')).toBe('chain_quest');
+  });
+
+  it('should apply equipment when building a fighter from a user row', () => {
+    const user = {
+      id: 'u1',
+      display_name: 'Friend',
+      character_class: 'Warrior',
+      level: 3,
+      stats_max_hp: 120,
+      stats_attack: 15,
+      stats_defense: 12,
+      stats_speed: 8,
+      stats_crit: 0.05,
+      equipped_weapon_id: 'refactor_hammer',
+      equipped_armor_id: 'hoodie'
+    } as DbUser;
+
+    const fighter = dbUserToBattleFighter(user);
+    expect(fighter.stats.attack).toBe(22);
+    expect(fighter.currentHp).toBe(130);
+    expect(describeModifiers({ attack: 4, critChance: 0.02 })).toBe('+4 ATK, +2% crit');
+  });
+});
@@ -0,0 +1,295 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  LocalPvpBattleStore,
+  PVP_LOSER_REWARD_SHARE,
+  resolveGhostBattle,
+  resolvePvpBattle,
+  syncFighter
+} from '../../supabase/functions/_shared/battleResolver';
+import { seasonAt } from '../../src/services/rankedService';
+import { CLASS_BASE_STATS, GHOST_CONFIG, calculateStatsForLevel } from '../../src/config/classConfig';
+import { PvpBattleService } from '../../src/services/pvpBattleService';
+import type { DbBattle, DbUser, SupabaseClientService } from '../../src/services/supabaseClient';
+
+function user(id: string, characterClass: string): DbUser {
+  return {
+    id,
+    display_name: id,
+    character_class: characterClass,
+    level: 4,
+    total_xp: 1000,
+    gold: 100,
+    stats_max_hp: 150,
+    stats_attack: 20,
+    stats_defense: 10,
+    stats_speed: 10,
+    stats_crit: 0.1,
+    equipped_weapon_id: null,
+    equipped_armor_id: null,
+    talents: null
+  } as DbUser;
+}
+
+function pending(id: string, challengerId: string, opponentId: string): DbBattle {
+  return {
+    id,
+    challenger_id: challengerId,
+    opponent_id: opponentId,
+    status: 'pending',
+    mode: 'live',
+    battle_log: null,
+    winner_id: null,
+    rewards: null,
+    seed: null,
+    engine_version: null,
+    fighters: null,
+    defender_seen_at: null,
+    challenger_seen_at: null,
+    created_at: '2025-01-01T00:00:00Z',
+    completed_at: null
+  };
+}
+
+function setup(): LocalPvpBattleStore {
+  return new LocalPvpBattleStore([user('alice', 'Warrior'), user('bob', 'Rogue')], [pending('b1', 'alice', 'bob')]);
+}
+
+describe('pvpResolver', () => {
+  it('should run the battle from stored stats and apply both rewards with the result', async () => {
+    const store = setup();
+    const response = await resolvePvpBattle(store, 'bob', { battleId: 'b1', buffItemId: null }, 11);
+    if (!response.success) throw new Error(response.error);
+
+    const { result } = response;
+    const battle = store.battles.get('b1')!;
+    expect(battle).toMatchObject({ status: 'completed', winner_id: result.winner.id, seed: 11, rewards: result.rewards });
+    expect(battle.fighters?.fighter1.id).toBe('alice');
+
+    const winner = store.users.get(result.winner.id)!;
+    const loser = store.users.get(result.loser.id)!;
+    expect(winner.total_xp).toBe(1000 + result.rewards.xp);
+    expect(winner.gold).toBe(100 + result.rewards.gold);
+    expect(loser.gold).toBe(100 + Math.floor(result.rewards.gold * PVP_LOSER_REWARD_SHARE));
+  });
+
+  it('should only let the challenged player resolve a pending battle once', async () => {
+    const store = setup();
+
+    expect(await resolvePvpBattle(store, 'alice', { battleId: 'b1', buffItemId: null }))
+      .toEqual({ success: false, error: 'Only the challenged player can accept' });
+    expect(await resolvePvpBattle(store, 'bob', { battleId: 'missing', buffItemId: null }))
+      .toEqual({ success: false, error: 'Battle not found' });
+
+    expect((await resolvePvpBattle(store, 'bob', { battleId: 'b1', buffItemId: null })).success).toBe(true);
+    expect(await resolvePvpBattle(store, 'bob', { battleId: 'b1', buffItemId: null }))
+      .toEqual({ success: false, error: 'Battle already resolved' });
+  });
+
+  it('should only take in consumables the player owns and use them up', async () => {
+    const store = new LocalPvpBattleStore(
+      [user('alice', 'Warrior'), user('bob', 'Rogue')],
+      [pending('b1', 'alice', 'bob')],
+      [],
+      [],
+      [{ user_id: 'bob', item_id: 'whetstone', quantity: 1, updated_at: '2025-01-01T00:00:00Z' }]
+    );
+
+    expect(await resolvePvpBattle(store, 'bob', { battleId: 'b1', buffItemId: 'xp_potion_small' }))
+      .toEqual({ success: false, error: 'Unknown battle buff' });
+    expect(await resolvePvpBattle(store, 'bob', { battleId: 'b1', buffItemId: 'iron_skin' }))
+      .toEqual({ success: false, error: 'You have none of that consumable left' });
+    expect(store.battles.get('b1')?.status).toBe('pending');
+
+    const response = await resolvePvpBattle(store, 'bob', { battleId: 'b1', buffItemId: 'whetstone' }, 11);
+    if (!response.success) throw new Error(response.error);
+    expect(store.shopItems[0].quantity).toBe(0);
+    expect(store.battles.get('b1')?.fighters?.fighter2.stats.attack)
+      .toBe(calculateStatsForLevel(CLASS_BASE_STATS.Rogue, 4).attack + 5);
+  });
+
+  it('should build fighters from total XP, earned talents and owned equipment only', async () => {
+    const inflated = {
+      ...user('alice', 'Warrior'),
+      level: 50,
+      stats_max_hp: 9999,
+      stats_attack: 999,
+      talents: { iron_hide: 5 },
+      equipped_weapon_id: 'merge_excalibur',
+      equipped_armor_id: 'hoodie'
+    };
+    const store = new LocalPvpBattleStore(
+      [inflated, user('bob', 'Rogue')],
+      [pending('b1', 'alice', 'bob')],
+      [],
+      [],
+      [],
+      [{ user_id: 'alice', item_id: 'hoodie' }]
+    );
+
+    const response = await resolvePvpBattle(store, 'bob', { battleId: 'b1', buffItemId: null }, 11);
+    if (!response.success) throw new Error(response.error);
+
+    const base = calculateStatsForLevel(CLASS_BASE_STATS.Warrior, 4);
+    const alice = store.battles.get('b1')!.fighters!.fighter1;
+    expect(alice.level).toBe(4);
+    expect(alice.stats).toMatchObject({ maxHp: base.maxHp + 10, attack: base.attack, defense: base.defense });
+  });
+
+  it('should store the fighter the player earned when they sync', async () => {
+    const store = new LocalPvpBattleStore([{ ...user('alice', 'Warrior'), level: 1 }], [], [], [], [], [
+      { user_id: 'alice', item_id: 'rusty_keyboard' }
+    ]);
+
+    expect(await syncFighter(store, 'alice', {
+      talents: { iron_hide: 2 },
+      equippedWeaponId: 'rusty_keyboard',
+      equippedArmorId: 'hoodie'
+    })).toEqual({ success: true, level: 4 });
+    expect(store.users.get('alice')).toMatchObject({
+      level: 4,
+      stats_attack: calculateStatsForLevel(CLASS_BASE_STATS.Warrior, 4).attack,
+      talents: { iron_hide: 2 },
+      equipped_weapon_id: 'rusty_keyboard',
+      equipped_armor_id: null
+    });
+
+    await syncFighter(store, 'alice', { talents: { iron_hide: 5 }, equippedWeaponId: null, equippedArmorId: null });
+    expect(store.users.get('alice')?.talents).toBeNull();
+  });
+
+  it('should accept challenges through the resolver and verify the stored battle', async () => {
+    const store = setup();
+    const supabase = {
+      isAuthenticated: () => true,
+      getCurrentUser: () => ({ id: 'bob' })
+    } as unknown as SupabaseClientService;
+
+    const service = new PvpBattleService(supabase);
+    service.setResolver(request => resolvePvpBattle(store, 'bob', request));
+    const outcomes: boolean[] = [];
+    service.onBattleOutcome(outcome => { outcomes.push(outcome.won); });
+
+    const result = await service.acceptChallenge('b1');
+    expect(result).not.toBeNull();
+    expect(outcomes).toEqual([result!.winner.id === 'bob']);
+    expect(service.verifyBattle(store.battles.get('b1')!)).toBe(true);
+  });
+});
+
+describe('ghost battles', () => {
+  function ghostStore(): LocalPvpBattleStore {
+    return new LocalPvpBattleStore(
+      [user('alice', 'Warrior'), user('bob', 'Rogue'), user('carol', 'Mage'), user('dave', 'Archer')],
+      [],
+      [{ user_id: 'carol', season: seasonAt().id, rating: 1600, deviation: 80, wins: 1, losses: 0, last_played_at: null, reward_gold: null }],
+      [['alice', 'bob']]
+    );
+  }
+
+  it('should only fight ghosts of friends and ladder players', async () => {
+    const store = ghostStore();
+
+    expect((await resolveGhostBattle(store, 'alice', { opponentId: 'bob', buffItemId: null })).success).toBe(true);
+    expect((await resolveGhostBattle(store, 'alice', { opponentId: 'carol', buffItemId: null })).success).toBe(true);
+    expect(await resolveGhostBattle(store, 'alice', { opponentId: 'dave', buffItemId: null }))
+      .toEqual({ success: false, error: 'You can only fight the ghosts of friends and ladder players' });
+    expect(await resolveGhostBattle(store, 'alice', { opponentId: 'alice', buffItemId: null }))
+      .toEqual({ success: false, error: 'Cannot battle yourself' });
+  });
+
+  it('should reward only the attacker and leave a replayable battle for the defender', async () => {
+    const store = ghostStore();
+    const response = await resolveGhostBattle(store, 'alice', { opponentId: 'bob', buffItemId: null }, 21);
+    if (!response.success) throw new Error(response.error);
+
+    const battle = store.battles.get(response.battleId)!;
+    expect(battle).toMatchObject({ mode: 'ghost', status: 'completed', challenger_id: 'alice', opponent_id: 'bob', defender_seen_at: null });
+    expect(store.users.get('bob')).toMatchObject({ total_xp: 1000, gold: 100 });
+    expect(store.users.get('alice')?.gold).toBe(100 + response.earned.gold);
+
+    const full = response.result.winner.id === 'alice'
+      ? response.result.rewards.gold
+      : Math.floor(response.result.rewards.gold * PVP_LOSER_REWARD_SHARE);
+    expect(response.earned.gold).toBe(Math.floor(full * GHOST_CONFIG.rewardShare));
+
+    const service = new PvpBattleService({} as SupabaseClientService);
+    expect(service.verifyBattle(battle)).toBe(true);
+  });
+
+  it('should cap ghost battles per day', async () => {
+    const store = ghostStore();
+    const now = new Date('2026-03-01T10:00:00Z');
+    for (let i = 0; i < GHOST_CONFIG.dailyLimit; i++) {
+      expect((await resolveGhostBattle(store, 'alice', { opponentId: 'bob', buffItemId: null }, i, now)).success).toBe(true);
+    }
+
+    expect(await resolveGhostBattle(store, 'alice', { opponentId: 'bob', buffItemId: null }, 99, now))
+      .toEqual({ success: false, error: 'No ghost battles left today' });
+    expect((await resolveGhostBattle(store, 'alice', { opponentId: 'bob', buffItemId: null }, 99, new Date('2026-03-02T00:01:00Z'))).success)
+      .toBe(true);
+  });
+});
+
+describe('challenge notifications', () => {
+  type Handler = (payload: { new: DbBattle }) => Promise<void>;
+
+  function subscribed(userId: string, from: () => unknown): { handlers: Record<string, Handler>; supabase: SupabaseClientService } {
+    const handlers: Record<string, Handler> = {};
+    const channel = {
+      on: (_event: string, filter: { event: string }, handler: Handler) => { handlers[filter.event] = handler; return channel; },
+      subscribe: () => channel
+    };
+    const supabase = {
+      isAuthenticated: () => true,
+      getCurrentUser: () => ({ id: userId }),
+      getClient: () => ({ channel: () => channel, from })
+    } as unknown as SupabaseClientService;
+    return { handlers, supabase };
+  }
+
+  it('should only prompt for pending live challenges', async () => {
+    const challenger = { display_name: 'alice', character_class: 'Warrior', level: 5 };
+    const { handlers, supabase } = subscribed(
+      'bob',
+      () => ({ select: () => ({ eq: () => ({ single: async () => ({ data: challenger }) }) }) })
+    );
+
+    const prompts: string[] = [];
+    new PvpBattleService(supabase).subscribeToChallenges(challenge => { prompts.push(challenge.id); });
+
+    await handlers.INSERT({ new: pending('b1', 'alice', 'bob') });
+    await handlers.INSERT({ new: { ...pending('g1', 'alice', 'bob'), status: 'completed', mode: 'ghost' } });
+    expect(prompts).toEqual(['b1']);
+  });
+
+  it('should count challenges we sent once they are fought', async () => {
+    const store = setup();
+    const response = await resolvePvpBattle(store, 'bob', { battleId: 'b1', buffItemId: null }, 11);
+    if (!response.success) throw new Error(response.error);
+    const battle = store.battles.get('b1')!;
+
+    // Fetching stamps the results seen, so a second fetch gets nothing
+    const unseen = [battle];
+    const query = {
+      update: () => query,
+      eq: () => query,
+      is: () => query,
+      select: async () => ({ data: unseen.splice(0), error: null })
+    };
+    const { handlers, supabase } = subscribed('alice', () => query);
+
+    const service = new PvpBattleService(supabase);
+    const outcomes: Array<{ won: boolean; opponentLevel?: number }> = [];
+    service.onBattleOutcome(outcome => { outcomes.push({ won: outcome.won, opponentLevel: outcome.opponentLevel }); });
+    service.subscribeToChallenges(() => {});
+
+    await handlers.UPDATE({ new: battle });
+    await handlers.UPDATE({ new: battle });
+    expect(outcomes).toEqual([{ won: response.result.winner.id === 'alice', opponentLevel: 4 }]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  isQuestTier,
+  questPeriodEnd,
+  questPeriodKey,
+  questPeriodStart,
+  WEEKLY_QUEST_COUNT,
+  MONTHLY_QUEST_COUNT
+} from '../../src/services/questService';
+import {
+  DAILY_QUEST_TEMPLATES,
+  WEEKLY_QUEST_TEMPLATES,
+  MONTHLY_QUEST_TEMPLATES,
+  QUEST_CHAINS
+} from '../../src/config/classConfig';
+
+describe('questService', () => {
+  it('should key periods by day, ISO week and month', () => {
+    const moment = new Date('2025-03-05T15:00:00Z'); // Wednesday
+    expect(questPeriodKey('daily', moment)).toBe('2025-03-05');
+    expect(questPeriodKey('weekly', moment)).toBe('2025-W10');
+    expect(questPeriodKey('monthly', moment)).toBe('2025-03');
+  });
+
+  it('should assign year-boundary days to the ISO week year', () => {
+    expect(questPeriodKey('weekly', new Date('2024-12-30T12:00:00Z'))).toBe('2025-W01');
+    expect(questPeriodKey('weekly', new Date('2021-01-03T12:00:00Z'))).toBe('2020-W53');
+  });
+
+  it('should start weeks on Monday and end months on their last day', () => {
+    const sunday = new Date('2025-03-09T23:00:00Z');
+    expect(questPeriodStart('weekly', sunday).toISOString()).toBe('2025-03-03T00:00:00.000Z');
+    expect(questPeriodEnd('weekly', sunday).toISOString()).toBe('2025-03-09T23:59:59.999Z');
+    expect(questPeriodEnd('monthly', new Date('2024-02-10T00:00:00Z')).toISOString())
+      .toBe('2024-02-29T23:59:59.999Z');
+  });
+
+  it('should only treat refreshable tiers as rerollable', () => {
+    expect(isQuestTier('weekly')).toBe(true);
+    expect(isQuestTier('chain')).toBe(false);
+    expect(isQuestTier('streak')).toBe(false);
+  });
+
+  it('should offer longer tiers larger targets and rewards', () => {
+    const maxDailyGold = Math.max(...DAILY_QUEST_TEMPLATES.map(t => t.gold));
+    expect(WEEKLY_QUEST_TEMPLATES.every(t => t.gold > maxDailyGold)).toBe(true);
+
+    const maxWeeklyGold = Math.max(...WEEKLY_QUEST_TEMPLATES.map(t => t.gold));
+    expect(MONTHLY_QUEST_TEMPLATES.every(t => t.gold > maxWeeklyGold)).toBe(true);
+
+    // Rerolls need another template to swap in
+    expect(WEEKLY_QUEST_TEMPLATES.length).toBeGreaterThan(WEEKLY_QUEST_COUNT);
+    expect(MONTHLY_QUEST_TEMPLATES.length).toBeGreaterThan(MONTHLY_QUEST_COUNT);
+  });
+
+  it('should escalate quest chain targets step by step', () => {
+    for (const chain of QUEST_CHAINS) {
+      const targets = chain.steps.map(s => s.target);
+      expect(targets).toEqual([...targets].sort((a, b) => a - b));
+    }
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  decayDeviation,
+  divisionFor,
+  expectedScore,
+  rateBattle,
+  seasonAt,
+  seasonStartRating
+} from '../../src/services/rankedService';
+import { LocalPvpBattleStore, resolvePvpBattle, settlePvpSeason } from '../../supabase/functions/_shared/battleResolver';
+import { RANKED_CONFIG } from '../../src/config/classConfig';
+import type { DbBattle, DbPvpRating, DbUser } from '../../src/services/supabaseClient';
+
+const NEW_PLAYER = { rating: RANKED_CONFIG.initialRating, deviation: RANKED_CONFIG.initialDeviation };
+
+function user(id: string): DbUser {
+  return {
+    id,
+    display_name: id,
+    character_class: 'Warrior',
+    level: 5,
+    total_xp: 0,
+    gold: 0,
+    stats_max_hp: 150,
+    stats_attack: 20,
+    stats_defense: 10,
+    stats_speed: 10,
+    stats_crit: 0.1,
+    equipped_weapon_id: null,
+    equipped_armor_id: null,
+    talents: null
+  } as DbUser;
+}
+
+function rating(userId: string, season: number, value: number, overrides: Partial<DbPvpRating> = {}): DbPvpRating {
+  return { user_id: userId, season, rating: value, deviation: 80, wins: 3, losses: 1, last_played_at: null, reward_gold: null, ...overrides };
+}
+
+function pending(id: string): DbBattle {
+  return {
+    id,
+    challenger_id: 'alice',
+    opponent_id: 'bob',
+    status: 'pending',
+    mode: 'live',
+    battle_log: null,
+    winner_id: null,
+    rewards: null,
+    seed: null,
+    engine_version: null,
+    fighters: null,
+    defender_seen_at: null,
+    challenger_seen_at: null,
+    created_at: '2025-01-01T00:00:00Z',
+    completed_at: null
+  };
+}
+
+describe('rankedService', () => {
+  it('should move uncertain ratings further and favour upsets', () => {
+    const even = rateBattle(NEW_PLAYER, NEW_PLAYER);
+    expect(even.winner.rating).toBeGreaterThan(1500);
+    expect(even.loser.rating).toBe(3000 - even.winner.rating);
+    expect(even.winner.deviation).toBeLessThan(NEW_PLAYER.deviation);
+
+    const veteran = { rating: 1500, deviation: 60 };
+    expect(rateBattle(veteran, veteran).winner.rating - 1500).toBeLessThan(even.winner.rating - 1500);
+
+    const strong = { rating: 1800, deviation: 60 };
+    expect(expectedScore(strong, veteran)).toBeGreaterThan(0.8);
+    expect(rateBattle(veteran, strong).winner.rating - 1500)
+      .toBeGreaterThan(rateBattle(strong, veteran).winner.rating - 1800);
+  });
+
+  it('should place ratings in divisions and regain deviation while inactive', () => {
+    expect(divisionFor(900).id).toBe('bronze');
+    expect(divisionFor(1550).id).toBe('gold');
+    expect(divisionFor(2400).id).toBe('master');
+
+    const decayed = decayDeviation({ rating: 1600, deviation: 60 }, '2025-03-01T00:00:00Z', new Date('2025-03-11T00:00:00Z'));
+    expect(decayed.rating).toBe(1600);
+    expect(decayed.deviation).toBeCloseTo(Math.sqrt(60 ** 2 + RANKED_CONFIG.deviationGrowthPerDay ** 2 * 10));
+  });
+
+  it('should number seasons from the epoch and soft-reset between them', () => {
+    const first = seasonAt(new Date(`${RANKED_CONFIG.seasonEpoch}T12:00:00Z`));
+    expect(first.id).toBe(1);
+    expect(seasonAt(new Date(first.endsAt)).id).toBe(2);
+
+    expect(seasonStartRating(null)).toEqual(NEW_PLAYER);
+    expect(seasonStartRating({ rating: 1900, deviation: 60 }))
+      .toEqual({ rating: 1700, deviation: RANKED_CONFIG.seasonDeviation });
+  });
+
+  it('should rate both players when a battle resolves, carrying ratings into a new season', async () => {
+    const now = seasonAt();
+    const store = new LocalPvpBattleStore(
+      [user('alice'), user('bob')],
+      [pending('b1')],
+      [rating('alice', now.id, 1620), rating('bob', now.id - 1, 1900)]
+    );
+
+    const response = await resolvePvpBattle(store, 'bob', { battleId: 'b1', buffItemId: null }, 3);
+    if (!response.success) throw new Error(response.error);
+
+    const winnerId = response.result.winner.id;
+    const alice = store.ratings.find(r => r.user_id === 'alice' && r.season === now.id)!;
+    const bob = store.ratings.find(r => r.user_id === 'bob' && r.season === now.id)!;
+    expect(alice.wins + alice.losses).toBe(5);
+    expect(bob.wins + bob.losses).toBe(1);
+
+    const changes = store.ratingChanges;
+    expect(changes.map(c => c.rating_before).sort()).toEqual([1620, 1700]);
+    for (const change of changes) {
+      expect(change.battle_id).toBe('b1');
+      expect(change.rating_after > change.rating_before).toBe(change.user_id === winnerId);
+    }
+  });
+
+  it('should rate again when another battle moved a rating first', async () => {
+    const now = seasonAt();
+    const store = new LocalPvpBattleStore(
+      [user('alice'), user('bob')],
+      [pending('b1'), pending('b2')],
+      [rating('alice', now.id, 1500), rating('bob', now.id, 1500)]
+    );
+
+    // b2 finishes while b1 is between reading and writing the ratings
+    const completeBattle = store.completeBattle.bind(store);
+    let raced = false;
+    store.completeBattle = async completion => {
+      if (!raced) {
+        raced = true;
+        await resolvePvpBattle(store, 'bob', { battleId: 'b2', buffItemId: null }, 5);
+      }
+      return completeBattle(completion);
+    };
+
+    expect((await resolvePvpBattle(store, 'bob', { battleId: 'b1', buffItemId: null }, 3)).success).toBe(true);
+    for (const row of store.ratings) {
+      expect(row.wins + row.losses).toBe(6);
+    }
+    const changes = store.ratingChanges.filter(c => c.user_id === 'alice');
+    expect(changes[1].rating_before).toBe(changes[0].rating_after);
+  });
+
+  it('should pay each finished season once, by final division', async () => {
+    const store = new LocalPvpBattleStore(
+      [user('alice'), user('bob')],
+      [],
+      [rating('alice', 1, 1560), rating('bob', 1, 1300)]
+    );
+    const during = new Date(`${RANKED_CONFIG.seasonEpoch}T12:00:00Z`);
+    const after = new Date('2030-01-01T00:00:00Z');
+
+    expect((await settlePvpSeason(store, 1, during)).success).toBe(false);
+    expect(await settlePvpSeason(store, 1, after)).toEqual({ success: true, settled: 2 });
+    expect(await settlePvpSeason(store, 1, after)).toEqual({ success: true, settled: 0 });
+
+    expect(store.users.get('alice')?.gold).toBe(200);
+    expect(store.users.get('bob')?.gold).toBe(50);
+    expect(store.ratings.every(r => r.reward_gold !== null)).toBe(true);
+  });
+});
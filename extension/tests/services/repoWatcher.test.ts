@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  resolveGitDir,
+  resolveCommonDir,
+  installPostCommitHook,
+  uninstallPostCommitHook,
+  COMMIT_MARKER_FILE
+} from '../../src/services/repoWatcher';
+
+describe('repoWatcher', () => {
+  let repoPath: string;
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'gitrpg-repo-'));
+    fs.mkdirSync(path.join(repoPath, '.git', 'refs', 'heads'), { recursive: true });
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  describe('resolveGitDir', () => {
+    it('should return the .git directory for a normal repo', () => {
+      expect(resolveGitDir(repoPath)).toBe(path.join(repoPath, '.git'));
+    });
+
+    it('should follow gitdir pointers used by worktrees', () => {
+      const worktree = fs.mkdtempSync(path.join(os.tmpdir(), 'gitrpg-wt-'));
+      fs.writeFileSync(path.join(worktree, '.git'), `gitdir: ${path.join(repoPath, '.git')}\n`);
+
+      expect(resolveGitDir(worktree)).toBe(path.join(repoPath, '.git'));
+      fs.rmSync(worktree, { recursive: true, force: true });
+    });
+
+    it('should return null when there is no .git entry', () => {
+      fs.rmSync(path.join(repoPath, '.git'), { recursive: true });
+      expect(resolveGitDir(repoPath)).toBeNull();
+    });
+  });
+
+  describe('resolveCommonDir', () => {
+    it('should follow commondir from a linked worktree to the main git dir', () => {
+      const worktreeGitDir = path.join(repoPath, '.git', 'worktrees', 'wt');
+      fs.mkdirSync(worktreeGitDir, { recursive: true });
+      fs.writeFileSync(path.join(worktreeGitDir, 'commondir'), '../..\n');
+
+      expect(resolveCommonDir(worktreeGitDir)).toBe(path.join(repoPath, '.git'));
+      expect(resolveCommonDir(path.join(repoPath, '.git'))).toBe(path.join(repoPath, '.git'));
+    });
+
+    it('should install hooks for a linked worktree in the main git dir', () => {
+      const worktreeGitDir = path.join(repoPath, '.git', 'worktrees', 'wt');
+      const worktree = path.join(repoPath, 'wt');
+      fs.mkdirSync(worktreeGitDir, { recursive: true });
+      fs.mkdirSync(worktree);
+      fs.writeFileSync(path.join(worktreeGitDir, 'commondir'), '../..\n');
+      fs.writeFileSync(path.join(worktree, '.git'), `gitdir: ${worktreeGitDir}\n`);
+
+      expect(installPostCommitHook(worktree)).toBe(true);
+      expect(fs.existsSync(path.join(repoPath, '.git', 'hooks', 'post-commit'))).toBe(true);
+    });
+  });
+
+  describe('post-commit hook', () => {
+    const hookPath = () => path.join(repoPath, '.git', 'hooks', 'post-commit');
+
+    it('should create a hook that touches the marker file', () => {
+      expect(installPostCommitHook(repoPath)).toBe(true);
+
+      const hook = fs.readFileSync(hookPath(), 'utf-8');
+      expect(hook.startsWith('#!/bin/sh')).toBe(true);
+      expect(hook).toContain(COMMIT_MARKER_FILE);
+    });
+
+    it('should append to an existing hook without clobbering it', () => {
+      fs.mkdirSync(path.dirname(hookPath()), { recursive: true });
+      fs.writeFileSync(hookPath(), '#!/bin/sh\necho existing\n');
+
+      installPostCommitHook(repoPath);
+      installPostCommitHook(repoPath);
+
+      const hook = fs.readFileSync(hookPath(), 'utf-8');
+      expect(hook).toContain('echo existing');
+      expect(hook.split(COMMIT_MARKER_FILE)).toHaveLength(2);
+    });
+
+    it('should remove only its own line on uninstall', () => {
+      fs.mkdirSync(path.dirname(hookPath()), { recursive: true });
+      fs.writeFileSync(hookPath(), '#!/bin/sh\necho existing\n');
+      installPostCommitHook(repoPath);
+
+      expect(uninstallPostCommitHook(repoPath)).toBe(true);
+
+      const hook = fs.readFileSync(hookPath(), 'utf-8');
+      expect(hook).toContain('echo existing');
+      expect(hook).not.toContain(COMMIT_MARKER_FILE);
+    });
+
+    it('should delete a hook it created entirely', () => {
+      installPostCommitHook(repoPath);
+      uninstallPostCommitHook(repoPath);
+
+      expect(fs.existsSync(hookPath())).toBe(false);
+    });
+  });
+});
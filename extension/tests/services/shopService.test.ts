@@ -0,0 +1,81 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  activeXpBoostMultiplier,
+  appliedCosmetics,
+  emptyShopState,
+  getShopItem,
+  purchaseBlocker,
+  useShopItem
+} from '../../src/services/shopService';
+import { applyBattleBuff } from '../../src/services/statModifiers';
+import type { BattleFighter, ShopState } from '../../src/types';
+
+const NOW = new Date('2025-03-05T12:00:00Z');
+
+function owning(owned: Record<string, number>, overrides: Partial<ShopState> = {}): ShopState {
+  return { ...emptyShopState(), owned, ...overrides };
+}
+
+describe('shopService', () => {
+  it('should only sell cosmetics once and never beyond the gold on hand', () => {
+    const potion = getShopItem('xp_potion_small')!;
+    const badge = getShopItem('badge_ship_it')!;
+
+    expect(purchaseBlocker(potion, 3, 1000)).toBeNull();
+    expect(purchaseBlocker(badge, 1, 1000)).toMatch(/already own/);
+    expect(purchaseBlocker(badge, 0, badge.price - 1)).toMatch(/Not enough gold/);
+  });
+
+  it('should start an XP boost from a potion and refuse a second while it runs', () => {
+    const used = useShopItem(owning({ xp_potion_small: 2 }), getShopItem('xp_potion_small')!, NOW);
+    expect(used.state?.owned.xp_potion_small).toBe(1);
+    expect(used.state?.xpBoost?.expiresAt).toBe('2025-03-05T13:00:00.000Z');
+    expect(activeXpBoostMultiplier(used.state!.xpBoost, NOW)).toBe(1.25);
+    expect(activeXpBoostMultiplier(used.state!.xpBoost, new Date('2025-03-05T13:00:01Z'))).toBe(1);
+
+    const again = useShopItem(used.state!, getShopItem('xp_potion_small')!, NOW);
+    expect(again.error).toMatch(/already active/);
+  });
+
+  it('should ready one consumable at a time', () => {
+    const whetstone = getShopItem('whetstone')!;
+    const readied = useShopItem(owning({ whetstone: 1, health_tonic: 1 }), whetstone, NOW);
+    expect(readied.state?.battleBuff).toBe('whetstone');
+    expect(readied.state?.owned.whetstone).toBe(1);
+
+    expect(useShopItem(readied.state!, getShopItem('health_tonic')!, NOW).error).toMatch(/already readied/);
+    expect(useShopItem(owning({}), whetstone, NOW).error).toMatch(/don't own/);
+  });
+
+  it('should toggle cosmetics without using them up', () => {
+    const dye = getShopItem('recolor_azure')!;
+    const applied = useShopItem(owning({ recolor_azure: 1, badge_10x: 1 }, { badge: 'badge_10x' }), dye, NOW);
+    expect(applied.state?.recolor).toBe('recolor_azure');
+    expect(applied.state?.owned.recolor_azure).toBe(1);
+    expect(appliedCosmetics(applied.state!)).toEqual({ badge: '10x Developer', recolorHue: 180 });
+
+    expect(useShopItem(applied.state!, dye, NOW).state?.recolor).toBeNull();
+  });
+
+  it('should add a consumable bonus to a fighter and heal extra max HP', () => {
+    const fighter: BattleFighter = {
+      id: 'me',
+      name: 'Hero',
+      class: 'Warrior',
+      level: 1,
+      stats: { maxHp: 100, attack: 10, defense: 5, speed: 8, critChance: 0.05, critDamage: 1.5 },
+      currentHp: 80
+    };
+
+    const buffed = applyBattleBuff(fighter, { maxHp: 30, attack: 5 });
+    expect(buffed.stats.maxHp).toBe(130);
+    expect(buffed.stats.attack).toBe(15);
+    expect(buffed.currentHp).toBe(110);
+    expect(applyBattleBuff(fighter, null)).toBe(fighter);
+  });
+});
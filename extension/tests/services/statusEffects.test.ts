@@ -0,0 +1,105 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  absorbWithShield,
+  applyStatusEffect,
+  enragedAttack,
+  tickStatusEffects
+} from '../../src/services/statusEffects';
+import { BattleEngine } from '../../src/services/battleEngine';
+import { CoopBattleService } from '../../src/services/coopBattleService';
+import { createBossInstance } from '../../src/services/bossService';
+import type { SupabaseClientService } from '../../src/services/supabaseClient';
+import type { BattleFighter, StatusEffect, StatusEffectApplication } from '../../src/types';
+
+const POISON: StatusEffectApplication = { type: 'poison', target: 'target', duration: 3, potency: 0.1 };
+
+function fighter(id: string, overrides: Partial<BattleFighter> = {}): BattleFighter {
+  return {
+    id,
+    name: id,
+    class: 'Warrior',
+    level: 1,
+    stats: { maxHp: 100, attack: 20, defense: 5, speed: 8, critChance: 0, critDamage: 1.5 },
+    currentHp: 100,
+    ...overrides
+  };
+}
+
+describe('statusEffects', () => {
+  it('should stack poison intensity up to the cap and refresh burns', () => {
+    let effects: StatusEffect[] = [];
+    for (let i = 0; i < 7; i++) {
+      effects = applyStatusEffect(effects, POISON, 50, 100);
+    }
+    expect(effects).toEqual([{ type: 'poison', turnsLeft: 3, stacks: 5, amount: 5 }]);
+
+    const burn: StatusEffectApplication = { type: 'burn', target: 'target', duration: 2, potency: 0.2 };
+    const burning = applyStatusEffect(applyStatusEffect([], burn, 10, 100), { ...burn, duration: 4 }, 30, 100);
+    expect(burning).toEqual([{ type: 'burn', turnsLeft: 4, stacks: 1, amount: 6 }]);
+  });
+
+  it('should extend regen, never restack stuns and respect the chance roll', () => {
+    const regen: StatusEffectApplication = { type: 'regen', target: 'self', duration: 2, potency: 0.05 };
+    expect(applyStatusEffect(applyStatusEffect([], regen, 0, 100), regen, 0, 100)[0].turnsLeft).toBe(4);
+
+    const stun: StatusEffectApplication = { type: 'stun', target: 'target', duration: 1, potency: 0, chance: 0.5 };
+    const stunned = applyStatusEffect([], stun, 0, 100, () => 0.1);
+    expect(applyStatusEffect(stunned, stun, 0, 100, () => 0.1)).toBe(stunned);
+    expect(applyStatusEffect([], stun, 0, 100, () => 0.9)).toEqual([]);
+  });
+
+  it('should tick damage, healing and stuns and drop expired effects', () => {
+    const { effects, events, stunned } = tickStatusEffects([
+      { type: 'poison', turnsLeft: 2, stacks: 3, amount: 4 },
+      { type: 'regen', turnsLeft: 1, stacks: 1, amount: 5 },
+      { type: 'stun', turnsLeft: 1, stacks: 1, amount: 0 }
+    ]);
+
+    expect(events).toEqual([
+      { type: 'poison', amount: 12 },
+      { type: 'regen', amount: 5 },
+      { type: 'stun', amount: 0 }
+    ]);
+    expect(stunned).toBe(true);
+    expect(effects).toEqual([{ type: 'poison', turnsLeft: 1, stacks: 3, amount: 4 }]);
+  });
+
+  it('should soak damage with shields and boost attack while enraged', () => {
+    const shield: StatusEffect = { type: 'shield', turnsLeft: 2, stacks: 1, amount: 10 };
+    expect(absorbWithShield([shield], 4)).toEqual({ effects: [{ ...shield, amount: 6 }], damage: 0, absorbed: 4 });
+    expect(absorbWithShield([shield], 25)).toEqual({ effects: [], damage: 15, absorbed: 10 });
+    expect(enragedAttack(20, [{ type: 'enrage', turnsLeft: 1, stacks: 1, amount: 0.5 }])).toBe(30);
+  });
+
+  it('should log effect ticks and effect snapshots in the battle engine', () => {
+    const poisoner = fighter('rogue', {
+      skills: [{ id: 'stab', name: 'Stab', chance: 1, damageMultiplier: 1, effects: [POISON] }]
+    });
+    const { actions } = new BattleEngine(poisoner, fighter('dummy', { currentHp: 1000 })).runBattle();
+
+    const hit = actions.find(a => a.actorId === 'rogue' && a.appliedEffects?.includes('poison'));
+    expect(hit?.statusEffects?.dummy?.[0]).toMatchObject({ type: 'poison' });
+
+    const tick = actions.find(a => a.actionType === 'status');
+    expect(tick).toMatchObject({ actorId: 'dummy', targetId: 'dummy', statusEffect: 'poison' });
+  });
+
+  it('should apply boss traits in co-op turns', async () => {
+    const service = new CoopBattleService({} as SupabaseClientService);
+    const player = fighter('p1', { stats: { ...fighter('p1').stats, maxHp: 500 }, currentHp: 500 });
+
+    const guardian = createBossInstance('forest_guardian', 1);
+    const first = await service.executeBattleTurn('lobby', player, null, guardian, 1);
+    expect(first[0]).toMatchObject({ actorType: 'boss', appliedEffects: ['regen'] });
+
+    const slime = createBossInstance('slime_king', 1);
+    const turn = await service.executeBattleTurn('lobby', player, null, slime, 2);
+    expect(turn.find(e => e.actorType === 'boss')?.appliedEffects).toEqual(['poison']);
+    expect(player.statusEffects?.[0]).toMatchObject({ type: 'poison', stacks: 1 });
+  });
+});
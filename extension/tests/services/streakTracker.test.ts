@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  advanceStreak,
+  currentStreak,
+  emptyStreak,
+  localDateKey,
+  missedDays,
+  nextMilestone
+} from '../../src/services/streakTracker';
+import type { StreakSettings, StreakState } from '../../src/types';
+
+const everyDay: StreakSettings = { workdaysOnly: false, timeZone: '' };
+const workdays: StreakSettings = { workdaysOnly: true, timeZone: '' };
+
+function streak(overrides: Partial<StreakState>): StreakState {
+  return { ...emptyStreak(), ...overrides };
+}
+
+describe('streakTracker', () => {
+  it('should use the configured time zone for the day boundary', () => {
+    const moment = new Date('2025-03-01T23:30:00Z');
+    expect(localDateKey(moment, 'UTC')).toBe('2025-03-01');
+    expect(localDateKey(moment, 'Asia/Tokyo')).toBe('2025-03-02');
+    expect(localDateKey(moment, 'America/Los_Angeles')).toBe('2025-03-01');
+  });
+
+  it('should start and extend a streak once per day', () => {
+    const first = advanceStreak(emptyStreak(), '2025-03-03', everyDay);
+    expect(first.streak.current).toBe(1);
+
+    const sameDay = advanceStreak(first.streak, '2025-03-03', everyDay);
+    expect(sameDay.update.extended).toBe(false);
+
+    const nextDay = advanceStreak(first.streak, '2025-03-04', everyDay);
+    expect(nextDay.streak).toMatchObject({ current: 2, longest: 2, lastActiveDate: '2025-03-04' });
+  });
+
+  it('should break after a missed day without freezes', () => {
+    const { streak: next, update } = advanceStreak(
+      streak({ current: 5, longest: 5, lastActiveDate: '2025-03-03', milestonesClaimed: [3] }),
+      '2025-03-05',
+      everyDay
+    );
+    expect(update.broken).toBe(true);
+    expect(next).toMatchObject({ current: 1, longest: 5, milestonesClaimed: [] });
+  });
+
+  it('should spend a freeze to cover one missed day', () => {
+    const { streak: next, update } = advanceStreak(
+      streak({ current: 5, lastActiveDate: '2025-03-03', freezes: 1 }),
+      '2025-03-05',
+      everyDay
+    );
+    expect(update.freezesUsed).toBe(1);
+    expect(next).toMatchObject({ current: 6, freezes: 0, frozenDates: ['2025-03-04'] });
+  });
+
+  it('should skip weekends in workdays-only mode', () => {
+    // Friday to Monday
+    expect(missedDays('2025-03-07', '2025-03-10', workdays)).toEqual([]);
+    expect(missedDays('2025-03-07', '2025-03-10', everyDay)).toEqual(['2025-03-08', '2025-03-09']);
+    expect(advanceStreak(streak({ current: 4, lastActiveDate: '2025-03-07' }), '2025-03-10', workdays).streak.current)
+      .toBe(5);
+  });
+
+  it('should award milestone gold once per streak', () => {
+    const { streak: next, update } = advanceStreak(streak({ current: 2, lastActiveDate: '2025-03-03' }), '2025-03-04', everyDay);
+    expect(update.milestone).toBe(3);
+    expect(update.milestoneGold).toBeGreaterThan(0);
+    expect(next.milestonesClaimed).toEqual([3]);
+    expect(nextMilestone(3)).toBe(7);
+  });
+
+  it('should report a lapsed streak as zero', () => {
+    const active = streak({ current: 4, lastActiveDate: '2025-03-03' });
+    expect(currentStreak(active, '2025-03-04', everyDay)).toBe(4);
+    expect(currentStreak(active, '2025-03-05', everyDay)).toBe(0);
+    expect(currentStreak({ ...active, freezes: 1 }, '2025-03-05', everyDay)).toBe(4);
+  });
+});
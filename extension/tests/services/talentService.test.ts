@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  applyTalents,
+  getTalent,
+  learnBlocker,
+  ranksEarned,
+  respecCost,
+  spentPoints,
+  talentPoints,
+  talentSkills
+} from '../../src/services/talentService';
+import { BattleEngine, rollSkill } from '../../src/services/battleEngine';
+import { dbUserToBattleFighter } from '../../src/services/battleFighters';
+import type { DbUser } from '../../src/services/supabaseClient';
+import { TALENT_CONFIG, TALENT_TREES } from '../../src/config/classConfig';
+import type { BattleFighter, CharacterStats } from '../../src/types';
+
+const BASE_STATS: CharacterStats = { maxHp: 100, attack: 10, defense: 5, speed: 8, critChance: 0.05, critDamage: 1.5 };
+
+describe('talentService', () => {
+  it('should award points per level after the first', () => {
+    expect(talentPoints(1)).toBe(0);
+    expect(talentPoints(20)).toBe(19 * TALENT_CONFIG.pointsPerLevel);
+  });
+
+  it('should block talents by level, prerequisite, max rank and points', () => {
+    const heavyBlow = getTalent('Warrior', 'heavy_blow')!;
+    const whirlwind = getTalent('Warrior', 'whirlwind')!;
+
+    expect(learnBlocker('Warrior', heavyBlow, {}, 4)).toBe('Requires level 5');
+    expect(learnBlocker('Warrior', heavyBlow, {}, 5)).toBeNull();
+    expect(learnBlocker('Warrior', whirlwind, {}, 20)).toBe('Requires Heavy Blow');
+    expect(learnBlocker('Warrior', heavyBlow, { heavy_blow: 3 }, 20)).toMatch(/max rank/);
+    expect(learnBlocker('Warrior', heavyBlow, { iron_hide: 4 }, 5)).toBe('No talent points left');
+  });
+
+  it('should add passive talents once per rank and ignore other trees', () => {
+    const stats = applyTalents(BASE_STATS, 'Warrior', { iron_hide: 3, vitality: 1, steady_aim: 5 });
+    expect(stats.defense).toBe(11);
+    expect(stats.maxHp).toBe(110);
+    expect(stats.attack).toBe(10);
+  });
+
+  it('should scale skill chance with rank and charge more to respec bigger trees', () => {
+    expect(talentSkills('Rogue', { quick_stab: 2, agility: 3 })).toEqual([
+      {
+        id: 'quick_stab',
+        name: 'Quick Stab',
+        chance: 0.2,
+        damageMultiplier: 1.5,
+        effects: [{ type: 'poison', target: 'target', duration: 3, potency: 0.08 }]
+      }
+    ]);
+    expect(respecCost('Warrior', { iron_hide: 2, vitality: 2 }))
+      .toBe(TALENT_CONFIG.respecBaseCost + 4 * TALENT_CONFIG.respecCostPerPoint);
+  });
+
+  it('should only accept ranks the level has earned', () => {
+    expect(ranksEarned('Warrior', { iron_hide: 2, vitality: 2 }, 5)).toBe(true);
+    expect(ranksEarned('Warrior', { iron_hide: 5 }, 5)).toBe(false);
+    expect(ranksEarned('Warrior', { iron_hide: 6 }, 20)).toBe(false);
+    expect(ranksEarned('Warrior', { iron_hide: 1.5 }, 5)).toBe(false);
+    expect(ranksEarned('Warrior', { iron_hide: 1 }, 1)).toBe(false);
+    expect(ranksEarned('Warrior', { fireball: 9 }, 1)).toBe(true);
+  });
+
+  it('should only count points spent in the class tree', () => {
+    const ranks = { iron_hide: 2, quick_stab: 3 };
+    expect(spentPoints('Warrior', ranks)).toBe(2);
+    expect(spentPoints('Rogue', ranks)).toBe(3);
+    expect(learnBlocker('Warrior', getTalent('Warrior', 'vitality')!, ranks, 4)).toBeNull();
+  });
+
+  it('should give every class a tree whose prerequisites exist', () => {
+    for (const [characterClass, tree] of Object.entries(TALENT_TREES)) {
+      expect(tree.length).toBeGreaterThan(0);
+      for (const talent of tree) {
+        if (talent.requires) {
+          expect(tree.some(t => t.id === talent.requires), `${characterClass} ${talent.id}`).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('should apply synced talents to fighters and use skills in battle', () => {
+    const user = {
+      id: 'u1',
+      display_name: 'Friend',
+      character_class: 'Warrior',
+      level: 10,
+      stats_max_hp: 120,
+      stats_attack: 15,
+      stats_defense: 12,
+      stats_speed: 8,
+      stats_crit: 0,
+      equipped_weapon_id: null,
+      equipped_armor_id: null,
+      talents: { brute_force: 2, whirlwind: 1 }
+    } as DbUser;
+
+    const fighter = dbUserToBattleFighter(user) as BattleFighter;
+    expect(fighter.stats.attack).toBe(19);
+    expect(fighter.skills?.map(s => s.name)).toEqual(['Whirlwind']);
+    expect(rollSkill(fighter.skills, () => 0.1)?.id).toBe('whirlwind');
+    expect(rollSkill(fighter.skills, () => 0.5)).toBeNull();
+
+    const alwaysSkill = { ...fighter, skills: [{ id: 'x', name: 'Smash', chance: 1, damageMultiplier: 2 }] };
+    const dummy: BattleFighter = { id: 'd', name: 'Dummy', class: 'Mage', level: 1, stats: BASE_STATS, currentHp: 1000 };
+    const first = new BattleEngine(alwaysSkill, dummy).runBattle().actions
+      .find(a => a.actorId === 'u1' && a.actionType !== 'status')!;
+    expect(first.actionType).toBe('spell');
+    expect(first.skillName).toBe('Smash');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('vscode', () => ({
+  workspace: { getConfiguration: vi.fn() }
+}));
+
+import {
+  bracketSeedOrder,
+  championOf,
+  createBracket,
+  playTournamentRound,
+  readyMatches,
+  settleBracket,
+  tournamentStandings,
+  verifyTournamentMatch
+} from '../../src/services/tournamentService';
+import { BATTLE_ENGINE_VERSION } from '../../src/services/battleEngine';
+import { createSeededRandom } from '../../src/services/battleRng';
+import { CLASS_BASE_STATS } from '../../src/config/classConfig';
+import type { BattleFighter, CharacterClass, Tournament, TournamentFormat, TournamentMatch } from '../../src/types';
+
+const CLASSES: CharacterClass[] = ['Warrior', 'Mage', 'Rogue', 'Archer'];
+
+function tournament(format: TournamentFormat, count: number): Tournament {
+  const playerIds = Array.from({ length: count }, (_, i) => `p${i + 1}`);
+  const snapshots: Record<string, BattleFighter> = {};
+  playerIds.forEach((id, i) => {
+    const characterClass = CLASSES[i % CLASSES.length];
+    const stats = { ...CLASS_BASE_STATS[characterClass] };
+    snapshots[id] = { id, name: id, class: characterClass, level: 5, stats, currentHp: stats.maxHp };
+  });
+
+  return {
+    id: 't1',
+    name: 'Friday Cup',
+    format,
+    organizerId: 'p1',
+    playerIds,
+    snapshots,
+    engineVersion: BATTLE_ENGINE_VERSION,
+    matches: createBracket(format, playerIds),
+    championId: null,
+    createdAt: '2025-03-01T00:00:00Z'
+  };
+}
+
+function playOut(start: Tournament): { finished: Tournament; rounds: number } {
+  const seeds = createSeededRandom(11);
+  const nextSeed = () => Math.floor(seeds() * 2 ** 31);
+  let current = start;
+  let rounds = 0;
+  while (!current.championId && rounds < 50) {
+    current = playTournamentRound(current, nextSeed);
+    rounds++;
+  }
+  return { finished: current, rounds };
+}
+
+function battled(matches: TournamentMatch[]): TournamentMatch[] {
+  return matches.filter(m => m.seed !== null);
+}
+
+describe('tournamentService', () => {
+  it('should keep the top seeds apart until the final', () => {
+    expect(bracketSeedOrder(4)).toEqual([0, 3, 1, 2]);
+    expect(bracketSeedOrder(8)).toEqual([0, 7, 3, 4, 1, 6, 2, 5]);
+  });
+
+  it('should give byes to the top seeds and advance them straight away', () => {
+    const matches = createBracket('single_elimination', ['a', 'b', 'c', 'd', 'e']);
+
+    expect(matches).toHaveLength(7);
+    const byes = matches.filter(m => m.round === 1 && m.done);
+    expect(byes.map(m => m.winnerId)).toEqual(['a', 'b', 'c']);
+    expect(readyMatches({ format: 'single_elimination', matches }).map(m => m.playerIds))
+      .toEqual([['d', 'e'], ['b', 'c']]);
+  });
+
+  it('should play a single elimination bracket down to one champion', () => {
+    const { finished, rounds } = playOut(tournament('single_elimination', 6));
+
+    expect(rounds).toBe(3);
+    expect(battled(finished.matches)).toHaveLength(5);
+    expect(finished.championId).toBe(finished.matches[finished.matches.length - 1].winnerId);
+    expect(finished.matches.every(m => verifyTournamentMatch(finished, m))).toBe(true);
+  });
+
+  it('should knock players out of double elimination after two losses', () => {
+    const { finished } = playOut(tournament('double_elimination', 7));
+    const losses = new Map<string, number>();
+    for (const match of battled(finished.matches)) {
+      losses.set(match.loserId!, (losses.get(match.loserId!) ?? 0) + 1);
+    }
+
+    expect(finished.championId).not.toBeNull();
+    expect(losses.get(finished.championId!) ?? 0).toBeLessThan(2);
+    for (const id of finished.playerIds.filter(p => p !== finished.championId)) {
+      expect(losses.get(id), id).toBe(2);
+    }
+  });
+
+  it('should only replay the grand final when the losers bracket player wins it', () => {
+    const matches = createBracket('double_elimination', ['a', 'b']);
+    const finish = (winnerId: string, loserId: string) => settleBracket(matches.map(m =>
+      m.id === 'W1-1' ? { ...m, done: true, winnerId: 'a', loserId: 'b', seed: 1 } :
+      m.id === 'GF-1' ? { ...m, done: true, winnerId, loserId, seed: 2 } : m
+    ));
+
+    const kept = finish('a', 'b');
+    expect(kept[kept.length - 1]).toMatchObject({ done: true, skipped: true, winnerId: 'a' });
+
+    const reset = finish('b', 'a');
+    expect(reset[reset.length - 1]).toMatchObject({ done: false, playerIds: ['b', 'a'] });
+  });
+
+  it('should pair everyone once in round robin and rank by wins', () => {
+    const start = tournament('round_robin', 5);
+    const pairs = start.matches.map(m => [...m.playerIds].sort().join('-'));
+
+    expect(new Set(pairs).size).toBe(10);
+    expect(readyMatches(start).every(m => m.round === 1)).toBe(true);
+
+    const { finished, rounds } = playOut(start);
+    const table = tournamentStandings(finished.matches, finished.playerIds);
+
+    expect(rounds).toBe(5);
+    expect(table.reduce((sum, row) => sum + row.wins, 0)).toBe(10);
+    expect(table[0].wins).toBeGreaterThanOrEqual(table[1].wins);
+    expect(championOf(finished)).toBe(table[0].playerId);
+  });
+
+  it('should catch results that do not match their replay', () => {
+    const { finished } = playOut(tournament('single_elimination', 4));
+    const match = battled(finished.matches)[0];
+
+    expect(verifyTournamentMatch(finished, { ...match, winnerId: match.loserId })).toBe(false);
+    expect(verifyTournamentMatch({ ...finished, engineVersion: BATTLE_ENGINE_VERSION + 1 }, match)).toBe(false);
+  });
+});
@@ -22,7 +22,10 @@ export type {
   BattleStatus,
   BattleParticipant,
   BattleAction,
-  BattleRewards
+  BattleRewards,
+  StatusEffect,
+  StatusEffectApplication,
+  StatusEffectType
 } from './types/battle';
 
 export type {
@@ -52,6 +55,8 @@ export * from './services/characterService';
 
 // Battle system
 export * from './services/battleEngine';
+export * from './services/battleRng';
+export * from './services/statusEffects';
 export * from './services/battleService';
 
 // Quest system
@@ -62,6 +67,8 @@ export * from './services/workerService';
 
 // Git tracking
 export * from './services/gitWatcher';
+export * from './services/repoFilter';
+export * from './services/fileClassifier';
 export * from './services/activityTracker';
 
 // GitHub integration
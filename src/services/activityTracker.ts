@@ -1,6 +1,13 @@
 import { getRepoStats, GitRepoStats, findGitReposInWorkspace } from './gitWatcher';
 import { addXpToCharacter } from './characterService';
 import { updateUserGold } from './userService';
+import { RepoTrackingRules, evaluateRepo } from './repoFilter';
+import {
+  FileScoringOptions,
+  DEFAULT_FILE_SCORING,
+  loadGitAttributes,
+  scoreFiles
+} from './fileClassifier';
 
 export interface ActivityStats {
   commits: number;
@@ -26,21 +33,28 @@ export const DEFAULT_XP_CONFIG: XpConfig = {
   maxLinesPerCommit: 500 // Lines beyond this don't count
 };
 
+/**
+ * XP for a repo's commits. When per-file stats are available, lockfiles,
+ * generated and vendored files (and anything in scoring.ignore) don't count.
+ */
 export function calculateXpFromStats(
   stats: GitRepoStats,
-  config: XpConfig = DEFAULT_XP_CONFIG
+  config: XpConfig = DEFAULT_XP_CONFIG,
+  scoring: FileScoringOptions = DEFAULT_FILE_SCORING
 ): number {
   let totalXp = 0;
 
   for (const commit of stats.commits) {
+    const counted = commit.files ? scoreFiles(commit.files, scoring) : commit;
+
     // Cap lines per commit to prevent gaming
-    const cappedInsertions = Math.min(commit.insertions, config.maxLinesPerCommit);
-    const cappedDeletions = Math.min(commit.deletions, config.maxLinesPerCommit);
+    const cappedInsertions = Math.min(counted.insertions, config.maxLinesPerCommit);
+    const cappedDeletions = Math.min(counted.deletions, config.maxLinesPerCommit);
 
     totalXp += config.perCommit;
     totalXp += cappedInsertions * config.perLineAdded;
     totalXp += cappedDeletions * config.perLineRemoved;
-    totalXp += commit.filesChanged * config.perFileChanged;
+    totalXp += counted.filesChanged * config.perFileChanged;
   }
 
   return Math.floor(totalXp);
@@ -58,7 +72,9 @@ export async function trackActivityForUser(
   characterId: string,
   workspacePaths: string[],
   authorEmail: string,
-  lastCheckedAt: Date
+  lastCheckedAt: Date,
+  rules?: RepoTrackingRules,
+  scoring: Omit<FileScoringOptions, 'attributes'> = DEFAULT_FILE_SCORING
 ): Promise<ActivityStats> {
   const now = new Date();
   const stats: ActivityStats = {
@@ -72,7 +88,7 @@ export async function trackActivityForUser(
   // Find all git repos in workspaces
   const allRepos: string[] = [];
   for (const workspace of workspacePaths) {
-    const repos = await findGitReposInWorkspace(workspace);
+    const repos = await findGitReposInWorkspace(workspace, rules);
     allRepos.push(...repos);
   }
 
@@ -85,8 +101,12 @@ export async function trackActivityForUser(
     stats.linesRemoved += repoStats.totalDeletions;
     stats.filesChanged += repoStats.totalFilesChanged;
 
-    const xp = calculateXpFromStats(repoStats);
-    stats.xpEarned += xp;
+    const xp = calculateXpFromStats(repoStats, DEFAULT_XP_CONFIG, {
+      ...scoring,
+      attributes: loadGitAttributes(repoPath)
+    });
+    const multiplier = rules ? evaluateRepo(repoPath, rules).xpMultiplier : 1;
+    stats.xpEarned += Math.floor(xp * multiplier);
   }
 
   // Award XP to character if any was earned
@@ -1,4 +1,15 @@
-import type { CharacterClass, CharacterStats, BattleAction } from '../types';
+import type { CharacterClass, CharacterStats, BattleAction, StatusEffect, StatusEffectType } from '../types';
+import {
+  CLASS_CRIT_EFFECTS,
+  absorbWithShield,
+  applyStatusEffect,
+  enragedAttack,
+  tickStatusEffects
+} from './statusEffects';
+import { createSeededRandom, generateBattleSeed, type RandomSource } from './battleRng';
+
+// Bump whenever an engine change would alter the actions a seed produces
+export const BATTLE_ENGINE_VERSION = 1;
 
 export interface BattleFighter {
   id: string;
@@ -20,16 +31,27 @@ export interface BattleResult {
   actions: BattleAction[];
   totalTurns: number;
   duration: number; // estimated duration in ms for animation
+  seed: number;
+  engineVersion: number;
+}
+
+// Everything needed to re-run a battle: seed, engine version and the fighters as they entered
+export interface BattleReplay {
+  seed: number;
+  engineVersion: number;
+  fighter1: BattleFighter;
+  fighter2: BattleFighter;
 }
 
 // Damage formula: base = attack - (defense/2), with 10% variance
 export function calculateDamage(
   attacker: BattleFighter,
   defender: BattleFighter,
-  isCrit: boolean
+  isCrit: boolean,
+  random: RandomSource = Math.random
 ): DamageResult {
   const baseDamage = attacker.stats.attack - (defender.stats.defense / 2);
-  const variance = 0.9 + Math.random() * 0.2; // 90% to 110%
+  const variance = 0.9 + random() * 0.2; // 90% to 110%
   let damage = Math.floor(baseDamage * variance);
 
   if (isCrit) {
@@ -42,17 +64,18 @@ export function calculateDamage(
   return { damage, isCrit };
 }
 
-export function rollCrit(critChance: number): boolean {
-  return Math.random() < critChance;
+export function rollCrit(critChance: number, random: RandomSource = Math.random): boolean {
+  return random() < critChance;
 }
 
 export function determineTurnOrder(
   fighter1: BattleFighter,
-  fighter2: BattleFighter
+  fighter2: BattleFighter,
+  random: RandomSource = Math.random
 ): [BattleFighter, BattleFighter] {
   // Higher speed goes first, with small random factor
-  const speed1 = fighter1.stats.speed + Math.random() * 2;
-  const speed2 = fighter2.stats.speed + Math.random() * 2;
+  const speed1 = fighter1.stats.speed + random() * 2;
+  const speed2 = fighter2.stats.speed + random() * 2;
 
   return speed1 >= speed2 ? [fighter1, fighter2] : [fighter2, fighter1];
 }
@@ -62,11 +85,19 @@ export class BattleEngine {
   private fighter2: BattleFighter;
   private actions: BattleAction[] = [];
   private turn: number = 0;
+  private effects = new Map<BattleFighter, StatusEffect[]>();
+  private seed: number;
+  private random: RandomSource;
 
-  constructor(fighter1: BattleFighter, fighter2: BattleFighter) {
+  // Every roll comes from the seed, so the same seed and fighters replay identically
+  constructor(fighter1: BattleFighter, fighter2: BattleFighter, seed: number = generateBattleSeed()) {
+    this.seed = seed;
+    this.random = createSeededRandom(seed);
     // Clone fighters to avoid mutating originals
     this.fighter1 = { ...fighter1, stats: { ...fighter1.stats } };
     this.fighter2 = { ...fighter2, stats: { ...fighter2.stats } };
+    this.effects.set(this.fighter1, []);
+    this.effects.set(this.fighter2, []);
   }
 
   runBattle(): BattleResult {
@@ -91,28 +122,78 @@ export class BattleEngine {
       loser,
       actions: this.actions,
       totalTurns: this.turn,
-      duration
+      duration,
+      seed: this.seed,
+      engineVersion: BATTLE_ENGINE_VERSION
     };
   }
 
   private executeTurn(): void {
-    const [first, second] = determineTurnOrder(this.fighter1, this.fighter2);
+    const [first, second] = determineTurnOrder(this.fighter1, this.fighter2, this.random);
 
     // First fighter attacks
-    this.executeAttack(first, second);
+    this.takeTurn(first, second);
 
-    // Check if battle is over
-    if (second.currentHp <= 0) return;
+    // Check if battle is over (damage over time can finish either fighter)
+    if (first.currentHp <= 0 || second.currentHp <= 0) return;
 
     // Second fighter attacks
-    this.executeAttack(second, first);
+    this.takeTurn(second, first);
+  }
+
+  private takeTurn(attacker: BattleFighter, defender: BattleFighter): void {
+    const { effects, events, stunned } = tickStatusEffects(this.effects.get(attacker) ?? []);
+    this.effects.set(attacker, effects);
+
+    for (const event of events) {
+      attacker.currentHp =
+        event.type === 'regen'
+          ? Math.min(attacker.stats.maxHp, attacker.currentHp + event.amount)
+          : Math.max(0, attacker.currentHp - event.amount);
+
+      this.actions.push({
+        turn: this.turn,
+        timestamp: new Date(),
+        actorId: attacker.id,
+        actionType: 'status',
+        targetId: attacker.id,
+        damage: event.amount,
+        isCrit: false,
+        resultingHp: attacker.currentHp,
+        statusEffect: event.type,
+        ...(event.type === 'regen' ? { isHeal: true } : {})
+      });
+
+      if (attacker.currentHp <= 0) return;
+    }
+
+    if (!stunned) {
+      this.executeAttack(attacker, defender);
+    }
   }
 
   private executeAttack(attacker: BattleFighter, defender: BattleFighter): void {
-    const isCrit = rollCrit(attacker.stats.critChance);
-    const { damage } = calculateDamage(attacker, defender, isCrit);
+    const attack = enragedAttack(attacker.stats.attack, this.effects.get(attacker) ?? []);
+    const striker = { ...attacker, stats: { ...attacker.stats, attack } };
+    const isCrit = rollCrit(attacker.stats.critChance, this.random);
+    const shielded = absorbWithShield(
+      this.effects.get(defender) ?? [],
+      calculateDamage(striker, defender, isCrit, this.random).damage
+    );
+    this.effects.set(defender, shielded.effects);
+
+    defender.currentHp = Math.max(0, defender.currentHp - shielded.damage);
 
-    defender.currentHp = Math.max(0, defender.currentHp - damage);
+    // Crits land the attacker's class signature effect
+    const appliedEffects: StatusEffectType[] = [];
+    const signature = CLASS_CRIT_EFFECTS[attacker.class];
+    const bearer = signature.target === 'self' ? attacker : defender;
+    if (isCrit && bearer.currentHp > 0) {
+      const before = this.effects.get(bearer) ?? [];
+      const after = applyStatusEffect(before, signature, attacker.stats.attack, bearer.stats.maxHp, this.random);
+      this.effects.set(bearer, after);
+      if (after !== before) appliedEffects.push(signature.type);
+    }
 
     this.actions.push({
       turn: this.turn,
@@ -120,9 +201,10 @@ export class BattleEngine {
       actorId: attacker.id,
       actionType: 'attack',
       targetId: defender.id,
-      damage,
+      damage: shielded.damage,
       isCrit,
-      resultingHp: defender.currentHp
+      resultingHp: defender.currentHp,
+      ...(appliedEffects.length > 0 ? { appliedEffects } : {})
     });
   }
 
@@ -131,6 +213,35 @@ export class BattleEngine {
   }
 }
 
+// Re-run a stored battle; a seed only reproduces the battle on the engine version that ran it
+export function replayBattle(replay: BattleReplay): BattleResult {
+  if (replay.engineVersion !== BATTLE_ENGINE_VERSION) {
+    throw new Error(
+      `Battle was run on engine v${replay.engineVersion}; this is v${BATTLE_ENGINE_VERSION}`
+    );
+  }
+  return new BattleEngine(replay.fighter1, replay.fighter2, replay.seed).runBattle();
+}
+
+// Actions without their wall-clock timestamp and with sorted keys, so stored
+// logs compare equal to freshly replayed ones
+function canonicalAction(action: BattleAction): string {
+  const { timestamp, ...rest } = action;
+  return JSON.stringify(rest, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value
+  );
+}
+
+export function verifyReplay(replay: BattleReplay, actions: BattleAction[]): boolean {
+  const replayed = replayBattle(replay).actions;
+  return (
+    replayed.length === actions.length &&
+    replayed.every((action, i) => canonicalAction(action) === canonicalAction(actions[i]!))
+  );
+}
+
 // Convert character to battle fighter
 export function characterToBattleFighter(
   userId: string,
@@ -0,0 +1,19 @@
+// Source of numbers in [0, 1), shaped like Math.random
+export type RandomSource = () => number;
+
+export function generateBattleSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// Deterministic PRNG (mulberry32): the same seed always yields the same
+// sequence, so a battle can be re-run from its seed
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,7 +1,14 @@
 import { doc, setDoc, getDoc, updateDoc, serverTimestamp, collection, query, where, getDocs } from 'firebase/firestore';
 import { getDb } from './firebase';
 import type { Battle, BattleStatus, BattleParticipant, BattleRewards, BattleAction } from '../types';
-import { BattleEngine, characterToBattleFighter, BattleResult } from './battleEngine';
+import {
+  BATTLE_ENGINE_VERSION,
+  BattleEngine,
+  characterToBattleFighter,
+  verifyReplay,
+  type BattleFighter,
+  type BattleResult
+} from './battleEngine';
 import { getCharacter, addXpToCharacter } from './characterService';
 import { getUser, updateUserGold } from './userService';
 import { v4 as uuidv4 } from 'uuid';
@@ -93,7 +100,9 @@ export async function createBattleChallenge(
     winnerId: null,
     createdAt: new Date(),
     completedAt: null,
-    rewards: null
+    rewards: null,
+    seed: null,
+    engineVersion: null
   };
 
   const battleRef = doc(db, BATTLES_COLLECTION, battleId);
@@ -105,6 +114,35 @@ export async function createBattleChallenge(
   return battleId;
 }
 
+function participantToFighter(participant: BattleParticipant): BattleFighter {
+  return characterToBattleFighter(
+    participant.userId,
+    participant.characterId,
+    participant.characterName,
+    participant.characterClass,
+    participant.characterLevel,
+    participant.stats
+  );
+}
+
+// Re-run a completed battle from its seed and check it reproduces the stored actions.
+// Battles completed before seeds were stored, or on another engine version, can't be verified.
+export function verifyBattle(battle: Battle): boolean {
+  if (battle.status !== 'completed' || battle.seed == null || battle.engineVersion !== BATTLE_ENGINE_VERSION) {
+    return false;
+  }
+
+  return verifyReplay(
+    {
+      seed: battle.seed,
+      engineVersion: BATTLE_ENGINE_VERSION,
+      fighter1: participantToFighter(battle.player1),
+      fighter2: participantToFighter(battle.player2)
+    },
+    battle.actions
+  );
+}
+
 export async function executeBattle(battleId: string): Promise<BattleResult> {
   const db = getDb();
   const battleRef = doc(db, BATTLES_COLLECTION, battleId);
@@ -124,23 +162,8 @@ export async function executeBattle(battleId: string): Promise<BattleResult> {
   await updateDoc(battleRef, { status: 'in_progress' });
 
   // Create battle fighters
-  const fighter1 = characterToBattleFighter(
-    battle.player1.userId,
-    battle.player1.characterId,
-    battle.player1.characterName,
-    battle.player1.characterClass,
-    battle.player1.characterLevel,
-    battle.player1.stats
-  );
-
-  const fighter2 = characterToBattleFighter(
-    battle.player2.userId,
-    battle.player2.characterId,
-    battle.player2.characterName,
-    battle.player2.characterClass,
-    battle.player2.characterLevel,
-    battle.player2.stats
-  );
+  const fighter1 = participantToFighter(battle.player1);
+  const fighter2 = participantToFighter(battle.player2);
 
   // Run battle
   const engine = new BattleEngine(fighter1, fighter2);
@@ -162,6 +185,8 @@ export async function executeBattle(battleId: string): Promise<BattleResult> {
     status: 'completed',
     actions: result.actions,
     winnerId,
+    seed: result.seed,
+    engineVersion: result.engineVersion,
     completedAt: serverTimestamp(),
     rewards: {
       userId: winnerId,
@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { matchesPattern } from './repoFilter';
+
+/**
+ * Per-file line counts from `git log --numstat`
+ */
+export interface FileChange {
+  path: string;
+  insertions: number;
+  deletions: number;
+}
+
+export type FileClass = 'source' | 'ignored' | 'lockfile' | 'generated' | 'vendored';
+
+/**
+ * A `.gitattributes` line reduced to the linguist attributes we care about.
+ * `true`/`false` are explicit; absent means the line doesn't say.
+ */
+export interface GitAttributeRule {
+  pattern: string;
+  generated?: boolean;
+  vendored?: boolean;
+}
+
+export interface FileScoringOptions {
+  detectGenerated: boolean;   // apply the built-in lockfile/generated/vendored lists
+  ignore: string[];           // extra globs that never earn XP
+  attributes: GitAttributeRule[];
+}
+
+export const DEFAULT_FILE_SCORING: FileScoringOptions = {
+  detectGenerated: true,
+  ignore: [],
+  attributes: []
+};
+
+export const LOCKFILE_NAMES = [
+  'package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lockb',
+  'Cargo.lock', 'Gemfile.lock', 'composer.lock', 'poetry.lock', 'Pipfile.lock', 'uv.lock',
+  'go.sum', 'Podfile.lock', 'mix.lock', 'pubspec.lock', 'flake.lock', 'packages.lock.json',
+  'gradle.lockfile'
+];
+
+// Loosely follows github-linguist's generated.rb / vendor.yml
+export const GENERATED_PATTERNS = [
+  '*.min.js', '*.min.css', '*.map', '*.snap', '**/__snapshots__/**',
+  '*.pb.go', '*.pb.cc', '*.pb.h', '*_pb2.py', '*_pb2_grpc.py',
+  '*.g.dart', '*.freezed.dart', '*.designer.cs', '*.generated.*'
+];
+
+export const VENDORED_PATTERNS = [
+  '**/node_modules/**', '**/vendor/**', '**/vendors/**', '**/third_party/**', '**/third-party/**',
+  '**/bower_components/**', '**/Pods/**', '**/Carthage/**', '**/.yarn/releases/**', '**/dist/**'
+];
+
+/**
+ * Parse `.gitattributes` content, keeping only lines that set linguist-generated
+ * or linguist-vendored.
+ */
+export function parseGitAttributes(content: string): GitAttributeRule[] {
+  const rules: GitAttributeRule[] = [];
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const [pattern, ...attrs] = line.split(/\s+/);
+    if (!pattern) continue;
+
+    const rule: GitAttributeRule = { pattern: pattern.replace(/^\//, '') };
+    for (const attr of attrs) {
+      const match = attr.match(/^(-|!)?linguist-(generated|vendored)(?:=(\w+))?$/);
+      if (!match) continue;
+
+      // `!attr` means unspecified, so it doesn't override anything
+      if (match[1] === '!') continue;
+      const value = match[1] === '-' ? false : match[3] === undefined || match[3] === 'true';
+      if (match[2] === 'generated') {
+        rule.generated = value;
+      } else {
+        rule.vendored = value;
+      }
+    }
+
+    if (rule.generated !== undefined || rule.vendored !== undefined) {
+      rules.push(rule);
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Read linguist rules from the repo's root `.gitattributes` and `.git/info/attributes`.
+ * Nested `.gitattributes` files are not consulted.
+ */
+export function loadGitAttributes(repoPath: string): GitAttributeRule[] {
+  const rules: GitAttributeRule[] = [];
+  for (const file of [path.join(repoPath, '.gitattributes'), path.join(repoPath, '.git', 'info', 'attributes')]) {
+    try {
+      rules.push(...parseGitAttributes(fs.readFileSync(file, 'utf-8')));
+    } catch {
+      // File doesn't exist
+    }
+  }
+  return rules;
+}
+
+/**
+ * Resolve numstat rename notation (`src/{old => new}.ts`, `old => new`) to the new path
+ */
+export function resolveRenamedPath(filePath: string): string {
+  if (filePath.includes('{') && filePath.includes(' => ')) {
+    return filePath.replace(/\{[^{}]* => ([^{}]*)\}/g, '$1').replace(/\/\//g, '/');
+  }
+  const arrow = filePath.indexOf(' => ');
+  return arrow >= 0 ? filePath.slice(arrow + 4) : filePath;
+}
+
+/**
+ * Decide whether a changed file counts towards XP.
+ * Order: ignore list, then .gitattributes (which can also force a file back to source),
+ * then the built-in lists.
+ */
+export function classifyFile(filePath: string, options: FileScoringOptions = DEFAULT_FILE_SCORING): FileClass {
+  const normalized = filePath.replace(/\\/g, '/');
+
+  if (options.ignore.some(pattern => matchesPattern(normalized, pattern))) {
+    return 'ignored';
+  }
+
+  let generated: boolean | undefined;
+  let vendored: boolean | undefined;
+  for (const rule of options.attributes) {
+    if (!matchesPattern(normalized, rule.pattern)) continue;
+    // Later lines win, as in git
+    if (rule.generated !== undefined) generated = rule.generated;
+    if (rule.vendored !== undefined) vendored = rule.vendored;
+  }
+  if (generated) return 'generated';
+  if (vendored) return 'vendored';
+  if (generated === false || vendored === false) return 'source';
+
+  if (!options.detectGenerated) {
+    return 'source';
+  }
+
+  if (LOCKFILE_NAMES.includes(path.posix.basename(normalized))) return 'lockfile';
+  if (GENERATED_PATTERNS.some(pattern => matchesPattern(normalized, pattern))) return 'generated';
+  if (VENDORED_PATTERNS.some(pattern => matchesPattern(normalized, pattern))) return 'vendored';
+
+  return 'source';
+}
+
+/**
+ * Line and file totals for a commit counting only source files
+ */
+export function scoreFiles(
+  files: FileChange[],
+  options: FileScoringOptions = DEFAULT_FILE_SCORING
+): { insertions: number; deletions: number; filesChanged: number; excluded: number } {
+  let insertions = 0;
+  let deletions = 0;
+  let filesChanged = 0;
+
+  for (const file of files) {
+    if (classifyFile(resolveRenamedPath(file.path), options) !== 'source') continue;
+    insertions += file.insertions;
+    deletions += file.deletions;
+    filesChanged++;
+  }
+
+  return { insertions, deletions, filesChanged, excluded: files.length - filesChanged };
+}
@@ -2,6 +2,8 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import * as fs from 'fs';
 import * as path from 'path';
+import { RepoTrackingRules, evaluateRepo } from './repoFilter';
+import type { FileChange } from './fileClassifier';
 
 const execAsync = promisify(exec);
 
@@ -14,8 +16,12 @@ export interface GitCommit {
   filesChanged: number;
   insertions: number;
   deletions: number;
+  files?: FileChange[]; // Present when the log was read with --numstat
 }
 
+// `<added>\t<deleted>\t<path>`; binary files report `-` for both counts
+const NUMSTAT_LINE = /^(\d+|-)\t(\d+|-)\t(.+)$/;
+
 export interface GitRepoStats {
   repoPath: string;
   totalCommits: number;
@@ -42,7 +48,7 @@ export async function getRepoCommitsSince(
   const sinceStr = since.toISOString();
   const authorFilter = authorEmail ? `--author=${authorEmail}` : '';
 
-  const command = `git log --since="${sinceStr}" ${authorFilter} --pretty=format:"%H|%an|%ae|%aI|%s" --shortstat`;
+  const command = `git log --since="${sinceStr}" ${authorFilter} --pretty=format:"%H|%an|%ae|%aI|%s" --numstat`;
 
   try {
     const { stdout } = await execAsync(command, { cwd: repoPath });
@@ -92,7 +98,26 @@ export function parseGitLog(logOutput: string): GitCommit[] {
       }
     }
 
-    commits.push({
+    // Per-file stats from --numstat
+    const files: FileChange[] = [];
+    let numstat = lines[i + 1]?.match(NUMSTAT_LINE);
+    while (numstat) {
+      files.push({
+        path: numstat[3] ?? '',
+        insertions: numstat[1] === '-' ? 0 : parseInt(numstat[1] ?? '0', 10),
+        deletions: numstat[2] === '-' ? 0 : parseInt(numstat[2] ?? '0', 10)
+      });
+      i++;
+      numstat = lines[i + 1]?.match(NUMSTAT_LINE);
+    }
+
+    if (files.length > 0) {
+      filesChanged = files.length;
+      insertions = files.reduce((sum, f) => sum + f.insertions, 0);
+      deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+    }
+
+    const commit: GitCommit = {
       hash,
       author,
       email,
@@ -101,7 +126,11 @@ export function parseGitLog(logOutput: string): GitCommit[] {
       filesChanged,
       insertions,
       deletions
-    });
+    };
+    if (files.length > 0) {
+      commit.files = files;
+    }
+    commits.push(commit);
 
     i++;
   }
@@ -126,14 +155,19 @@ export async function getRepoStats(
   };
 }
 
-export async function findGitReposInWorkspace(workspacePath: string): Promise<string[]> {
+export async function findGitReposInWorkspace(
+  workspacePath: string,
+  rules?: RepoTrackingRules
+): Promise<string[]> {
   const repos: string[] = [];
 
   async function search(dir: string, depth: number = 0): Promise<void> {
     if (depth > 3) return; // Don't search too deep
 
     if (await isGitRepo(dir)) {
-      repos.push(dir);
+      if (!rules || evaluateRepo(dir, rules).tracked) {
+        repos.push(dir);
+      }
       return; // Don't search inside git repos
     }
 
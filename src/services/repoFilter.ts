@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Rules deciding which repositories earn XP.
+ * Path patterns are globs (`*`, `**`, `?`, leading `~`); a pattern with no `/`
+ * is matched against the repo folder name only.
+ */
+export interface RepoTrackingRules {
+  include: string[];          // empty = every repo is a candidate
+  exclude: string[];
+  includeRemotes: string[];   // empty = remotes don't restrict tracking
+  excludeRemotes: string[];
+  xpMultipliers: Record<string, number>; // pattern (path or remote) -> multiplier
+}
+
+export const DEFAULT_TRACKING_RULES: RepoTrackingRules = {
+  include: [],
+  exclude: [],
+  includeRemotes: [],
+  excludeRemotes: [],
+  xpMultipliers: {}
+};
+
+export interface RepoTrackingDecision {
+  tracked: boolean;
+  reason: string;
+  xpMultiplier: number;
+}
+
+function normalizePath(p: string): string {
+  return p.replace(/\\/g, '/').replace(/\/+$/, '');
+}
+
+/**
+ * Convert a glob pattern to a RegExp.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let expanded = pattern.startsWith('~') ? os.homedir() + pattern.slice(1) : pattern;
+  expanded = normalizePath(expanded);
+
+  let regex = '';
+  for (let i = 0; i < expanded.length; i++) {
+    const char = expanded[i] ?? '';
+    if (char === '*') {
+      if (expanded[i + 1] === '*') {
+        // `**/` matches zero or more directories
+        if (expanded[i + 2] === '/') {
+          regex += '(?:.*/)?';
+          i += 2;
+        } else {
+          regex += '.*';
+          i++;
+        }
+      } else {
+        regex += '[^/]*';
+      }
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${regex}$`, 'i');
+}
+
+/**
+ * Match a repo path against a glob pattern.
+ * Patterns without a slash match the last path segment only.
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  const normalized = normalizePath(value);
+  const target = pattern.includes('/') ? normalized : path.posix.basename(normalized);
+  return globToRegExp(pattern).test(target);
+}
+
+/**
+ * Match a remote URL against a glob pattern. Unlike paths, the whole URL is always used.
+ */
+export function matchesRemote(url: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(url);
+}
+
+function firstMatch(values: string[], patterns: string[], matcher: (value: string, pattern: string) => boolean): string | null {
+  for (const pattern of patterns) {
+    if (values.some(v => matcher(v, pattern))) {
+      return pattern;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read remote URLs from a repo's git config without spawning git.
+ */
+export function getRepoRemoteUrls(repoPath: string): string[] {
+  let gitDir = path.join(repoPath, '.git');
+
+  try {
+    if (fs.statSync(gitDir).isFile()) {
+      const pointer = fs.readFileSync(gitDir, 'utf-8').match(/^gitdir:\s*(.+)$/m);
+      if (!pointer?.[1]) return [];
+      gitDir = path.resolve(repoPath, pointer[1].trim());
+    }
+
+    // Worktrees keep their config in the common dir
+    const commonDirFile = path.join(gitDir, 'commondir');
+    if (fs.existsSync(commonDirFile)) {
+      gitDir = path.resolve(gitDir, fs.readFileSync(commonDirFile, 'utf-8').trim());
+    }
+
+    const config = fs.readFileSync(path.join(gitDir, 'config'), 'utf-8');
+    const urls: string[] = [];
+    for (const match of config.matchAll(/^\s*url\s*=\s*(.+)$/gm)) {
+      if (match[1]) urls.push(match[1].trim());
+    }
+    return urls;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Decide whether a repo is tracked and with which XP multiplier.
+ * Exclusions always win over inclusions.
+ */
+export function evaluateRepo(
+  repoPath: string,
+  rules: RepoTrackingRules,
+  remoteUrls: string[] = getRepoRemoteUrls(repoPath)
+): RepoTrackingDecision {
+  const multiplierPattern = Object.keys(rules.xpMultipliers)
+    .find(pattern => matchesPattern(repoPath, pattern) || remoteUrls.some(url => matchesRemote(url, pattern)));
+  const xpMultiplier = multiplierPattern !== undefined ? (rules.xpMultipliers[multiplierPattern] ?? 1) : 1;
+
+  const excludedBy = firstMatch([repoPath], rules.exclude, matchesPattern);
+  if (excludedBy) {
+    return { tracked: false, reason: `excluded by "${excludedBy}"`, xpMultiplier };
+  }
+
+  const excludedRemote = firstMatch(remoteUrls, rules.excludeRemotes, matchesRemote);
+  if (excludedRemote) {
+    return { tracked: false, reason: `remote excluded by "${excludedRemote}"`, xpMultiplier };
+  }
+
+  if (rules.include.length > 0 && !firstMatch([repoPath], rules.include, matchesPattern)) {
+    return { tracked: false, reason: 'not in include list', xpMultiplier };
+  }
+
+  if (rules.includeRemotes.length > 0 && !firstMatch(remoteUrls, rules.includeRemotes, matchesRemote)) {
+    return { tracked: false, reason: 'no remote matches include list', xpMultiplier };
+  }
+
+  return { tracked: true, reason: 'tracked', xpMultiplier };
+}
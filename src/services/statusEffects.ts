@@ -0,0 +1,141 @@
+import type { CharacterClass } from '../types/character';
+import type { StatusEffect, StatusEffectApplication, StatusEffectType } from '../types/battle';
+
+// How reapplying an effect stacks: 'intensity' adds a stack, 'refresh' resets
+// the duration, 'extend' adds durations, 'ignore' leaves the running one alone
+export type StatusStacking = 'intensity' | 'refresh' | 'extend' | 'ignore';
+
+export const STATUS_EFFECTS: Record<StatusEffectType, { stacking: StatusStacking; maxStacks: number }> = {
+  poison: { stacking: 'intensity', maxStacks: 5 },
+  burn: { stacking: 'refresh', maxStacks: 1 },
+  stun: { stacking: 'ignore', maxStacks: 1 },
+  shield: { stacking: 'refresh', maxStacks: 1 },
+  enrage: { stacking: 'refresh', maxStacks: 1 },
+  regen: { stacking: 'extend', maxStacks: 1 }
+};
+
+// Signature effect each class lands on a critical hit
+export const CLASS_CRIT_EFFECTS: Record<CharacterClass, StatusEffectApplication> = {
+  warrior: { type: 'enrage', target: 'self', duration: 3, potency: 0.25 },
+  mage: { type: 'burn', target: 'target', duration: 3, potency: 0.2 },
+  rogue: { type: 'poison', target: 'target', duration: 3, potency: 0.1 },
+  archer: { type: 'stun', target: 'target', duration: 1, potency: 0, chance: 0.5 }
+};
+
+export interface StatusTickEvent {
+  type: StatusEffectType;
+  amount: number; // damage for poison/burn, healing for regen, 0 for stun
+}
+
+export function resolveAmount(
+  application: StatusEffectApplication,
+  sourceAttack: number,
+  bearerMaxHp: number
+): number {
+  switch (application.type) {
+    case 'poison':
+    case 'burn':
+      return Math.max(1, Math.round(application.potency * sourceAttack));
+    case 'regen':
+    case 'shield':
+      return Math.max(1, Math.round(application.potency * bearerMaxHp));
+    case 'enrage':
+      return application.potency;
+    case 'stun':
+      return 0;
+  }
+}
+
+// Returns the same array when nothing changed (failed chance roll or 'ignore')
+export function applyStatusEffect(
+  effects: StatusEffect[],
+  application: StatusEffectApplication,
+  sourceAttack: number,
+  bearerMaxHp: number,
+  random: () => number = Math.random
+): StatusEffect[] {
+  if (application.chance !== undefined && random() >= application.chance) {
+    return effects;
+  }
+
+  const amount = resolveAmount(application, sourceAttack, bearerMaxHp);
+  const existing = effects.find(e => e.type === application.type);
+  if (!existing) {
+    return [...effects, { type: application.type, turnsLeft: application.duration, stacks: 1, amount }];
+  }
+
+  const { stacking, maxStacks } = STATUS_EFFECTS[application.type];
+  let updated: StatusEffect;
+  switch (stacking) {
+    case 'intensity':
+      updated = {
+        ...existing,
+        stacks: Math.min(maxStacks, existing.stacks + 1),
+        turnsLeft: Math.max(existing.turnsLeft, application.duration),
+        amount: Math.max(existing.amount, amount)
+      };
+      break;
+    case 'refresh':
+      updated = {
+        ...existing,
+        turnsLeft: Math.max(existing.turnsLeft, application.duration),
+        amount: Math.max(existing.amount, amount)
+      };
+      break;
+    case 'extend':
+      updated = { ...existing, turnsLeft: existing.turnsLeft + application.duration };
+      break;
+    case 'ignore':
+      return effects;
+  }
+  return effects.map(e => (e === existing ? updated : e));
+}
+
+// Start of the bearer's turn: damage/healing over time fires, stuns cost the
+// turn, and every effect loses a turn
+export function tickStatusEffects(effects: StatusEffect[]): {
+  effects: StatusEffect[];
+  events: StatusTickEvent[];
+  stunned: boolean;
+} {
+  const events: StatusTickEvent[] = [];
+  for (const effect of effects) {
+    if (effect.type === 'poison' || effect.type === 'burn' || effect.type === 'regen') {
+      events.push({ type: effect.type, amount: effect.amount * effect.stacks });
+    } else if (effect.type === 'stun') {
+      events.push({ type: 'stun', amount: 0 });
+    }
+  }
+
+  return {
+    effects: effects.map(e => ({ ...e, turnsLeft: e.turnsLeft - 1 })).filter(e => e.turnsLeft > 0),
+    events,
+    stunned: events.some(e => e.type === 'stun')
+  };
+}
+
+export function absorbWithShield(
+  effects: StatusEffect[],
+  damage: number
+): { effects: StatusEffect[]; damage: number; absorbed: number } {
+  const shield = effects.find(e => e.type === 'shield');
+  if (!shield || damage <= 0) {
+    return { effects, damage, absorbed: 0 };
+  }
+
+  const absorbed = Math.min(shield.amount, damage);
+  const remaining = shield.amount - absorbed;
+  return {
+    effects:
+      remaining > 0
+        ? effects.map(e => (e === shield ? { ...e, amount: remaining } : e))
+        : effects.filter(e => e !== shield),
+    damage: damage - absorbed,
+    absorbed
+  };
+}
+
+export function enragedAttack(attack: number, effects: StatusEffect[]): number {
+  const enrage = effects.find(e => e.type === 'enrage');
+  return enrage ? Math.floor(attack * (1 + enrage.amount)) : attack;
+}
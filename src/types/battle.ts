@@ -13,15 +13,35 @@ export interface BattleParticipant {
   currentHp: number;
 }
 
+export type StatusEffectType = 'poison' | 'burn' | 'stun' | 'shield' | 'enrage' | 'regen';
+
+export interface StatusEffectApplication {
+  type: StatusEffectType;
+  target: 'self' | 'target';
+  duration: number; // bearer's turns
+  potency: number; // share of source attack (poison, burn), bearer max HP (regen, shield) or attack bonus (enrage)
+  chance?: number;
+}
+
+export interface StatusEffect {
+  type: StatusEffectType;
+  turnsLeft: number;
+  stacks: number;
+  amount: number;
+}
+
 export interface BattleAction {
   turn: number;
   timestamp: Date;
   actorId: string;
-  actionType: 'attack' | 'spell' | 'defend';
+  actionType: 'attack' | 'spell' | 'defend' | 'status';
   targetId: string;
   damage: number;
   isCrit: boolean;
   resultingHp: number;
+  statusEffect?: StatusEffectType; // effect that ticked, for 'status' actions
+  isHeal?: boolean;
+  appliedEffects?: StatusEffectType[];
 }
 
 export interface Battle {
@@ -34,6 +54,8 @@ export interface Battle {
   createdAt: Date;
   completedAt: Date | null;
   rewards: BattleRewards | null;
+  seed: number | null; // set on completion; with engineVersion and the participants it replays the actions
+  engineVersion: number | null;
 }
 
 export interface BattleRewards {
@@ -3,6 +3,9 @@ import {
   BattleEngine,
   calculateDamage,
   determineTurnOrder,
+  replayBattle,
+  verifyReplay,
+  BATTLE_ENGINE_VERSION,
   BattleFighter
 } from '../../src/services/battleEngine';
 import type { CharacterStats } from '../../src/types';
@@ -121,4 +124,30 @@ describe('battleEngine', () => {
       expect(result.duration).toBe(result.actions.length * 500);
     });
   });
+
+  describe('seeded battles', () => {
+    it('should give exact damage for a fixed roll', () => {
+      const attacker = createFighter({ stats: { ...createFighter().stats, attack: 20 } });
+      const defender = createFighter({ stats: { ...createFighter().stats, defense: 10 } });
+
+      // 15 base damage at the 90% end of the variance
+      expect(calculateDamage(attacker, defender, false, () => 0).damage).toBe(13);
+    });
+
+    it('should replay the same actions from the seed', () => {
+      const fighter1 = createFighter({ id: 'p1', class: 'rogue', stats: { ...createFighter().stats, critChance: 0.5 } });
+      const fighter2 = createFighter({ id: 'p2', class: 'mage', stats: { ...createFighter().stats, critChance: 0.5 } });
+
+      const result = new BattleEngine(fighter1, fighter2, 2024).runBattle();
+      const replay = { seed: result.seed, engineVersion: result.engineVersion, fighter1, fighter2 };
+
+      expect(result.seed).toBe(2024);
+      expect(replayBattle(replay).winner.id).toBe(result.winner.id);
+      expect(verifyReplay(replay, result.actions)).toBe(true);
+
+      const tampered = result.actions.map((a, i) => (i === 0 ? { ...a, damage: a.damage + 1 } : a));
+      expect(verifyReplay(replay, tampered)).toBe(false);
+      expect(() => replayBattle({ ...replay, engineVersion: BATTLE_ENGINE_VERSION + 1 })).toThrow();
+    });
+  });
 });
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  classifyFile,
+  parseGitAttributes,
+  resolveRenamedPath,
+  scoreFiles,
+  DEFAULT_FILE_SCORING,
+  FileScoringOptions
+} from '../../src/services/fileClassifier';
+
+describe('fileClassifier', () => {
+  const options = (overrides: Partial<FileScoringOptions> = {}): FileScoringOptions => ({
+    ...DEFAULT_FILE_SCORING,
+    ...overrides
+  });
+
+  describe('classifyFile', () => {
+    it('should treat regular code as source', () => {
+      expect(classifyFile('src/index.ts')).toBe('source');
+      expect(classifyFile('README.md')).toBe('source');
+    });
+
+    it('should detect lockfiles, generated and vendored files', () => {
+      expect(classifyFile('package-lock.json')).toBe('lockfile');
+      expect(classifyFile('services/api/go.sum')).toBe('lockfile');
+      expect(classifyFile('public/app.min.js')).toBe('generated');
+      expect(classifyFile('src/__snapshots__/App.test.tsx.snap')).toBe('generated');
+      expect(classifyFile('vendor/github.com/pkg/errors/errors.go')).toBe('vendored');
+      expect(classifyFile('packages/web/dist/bundle.js')).toBe('vendored');
+    });
+
+    it('should apply the ignore list first', () => {
+      expect(classifyFile('docs/api.md', options({ ignore: ['docs/**'] }))).toBe('ignored');
+      expect(classifyFile('src/schema.json', options({ ignore: ['*.json'] }))).toBe('ignored');
+    });
+
+    it('should honor .gitattributes overrides in both directions', () => {
+      const attributes = parseGitAttributes([
+        '# generated clients',
+        'src/client/** linguist-generated=true',
+        '/dist/** -linguist-vendored',
+        '*.ts text eol=lf'
+      ].join('\n'));
+
+      expect(attributes).toHaveLength(2);
+      expect(classifyFile('src/client/api.ts', options({ attributes }))).toBe('generated');
+      expect(classifyFile('dist/handwritten.js', options({ attributes }))).toBe('source');
+    });
+
+    it('should skip built-in detection when disabled', () => {
+      expect(classifyFile('yarn.lock', options({ detectGenerated: false }))).toBe('source');
+    });
+  });
+
+  describe('resolveRenamedPath', () => {
+    it('should resolve numstat rename notation', () => {
+      expect(resolveRenamedPath('src/{old => new}/file.ts')).toBe('src/new/file.ts');
+      expect(resolveRenamedPath('src/{ => nested}/file.ts')).toBe('src/nested/file.ts');
+      expect(resolveRenamedPath('old.ts => new.ts')).toBe('new.ts');
+    });
+  });
+
+  describe('scoreFiles', () => {
+    it('should only count source files', () => {
+      const score = scoreFiles([
+        { path: 'src/app.ts', insertions: 40, deletions: 5 },
+        { path: 'package-lock.json', insertions: 3000, deletions: 1200 },
+        { path: 'src/app.test.ts', insertions: 20, deletions: 0 }
+      ]);
+
+      expect(score).toEqual({ insertions: 60, deletions: 5, filesChanged: 2, excluded: 1 });
+    });
+  });
+});
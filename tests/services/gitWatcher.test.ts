@@ -67,6 +67,25 @@ def456|John|john@example.com|2024-01-01T11:00:00Z|second commit
       expect(commits[0].insertions).toBe(10);
       expect(commits[1].insertions).toBe(20);
     });
+
+    it('should parse per-file numstat output', () => {
+      const log = `abc123|John|john@example.com|2024-01-01T10:00:00Z|bump deps
+
+12	3	src/index.ts
+2000	900	package-lock.json
+-	-	assets/logo.png
+def456|John|john@example.com|2024-01-01T11:00:00Z|docs
+4	0	README.md`;
+
+      const commits = parseGitLog(log);
+
+      expect(commits).toHaveLength(2);
+      expect(commits[0].filesChanged).toBe(3);
+      expect(commits[0].insertions).toBe(2012);
+      expect(commits[0].deletions).toBe(903);
+      expect(commits[0].files?.map(f => f.path)).toEqual(['src/index.ts', 'package-lock.json', 'assets/logo.png']);
+      expect(commits[1].files).toEqual([{ path: 'README.md', insertions: 4, deletions: 0 }]);
+    });
   });
 });
 
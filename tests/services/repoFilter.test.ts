@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  matchesPattern,
+  matchesRemote,
+  evaluateRepo,
+  getRepoRemoteUrls,
+  DEFAULT_TRACKING_RULES,
+  RepoTrackingRules
+} from '../../src/services/repoFilter';
+import { findGitReposInWorkspace } from '../../src/services/gitWatcher';
+
+describe('repoFilter', () => {
+  const rules = (overrides: Partial<RepoTrackingRules> = {}): RepoTrackingRules => ({
+    ...DEFAULT_TRACKING_RULES,
+    ...overrides
+  });
+
+  describe('matchesPattern', () => {
+    it('should match single-segment wildcards', () => {
+      expect(matchesPattern('/home/dev/work/api', '/home/dev/work/*')).toBe(true);
+      expect(matchesPattern('/home/dev/work/nested/api', '/home/dev/work/*')).toBe(false);
+    });
+
+    it('should match any depth with **', () => {
+      expect(matchesPattern('/home/dev/work/nested/api', '/home/dev/**/api')).toBe(true);
+      expect(matchesPattern('/home/dev/api', '/home/dev/**/api')).toBe(true);
+    });
+
+    it('should match folder name when pattern has no slash', () => {
+      expect(matchesPattern('/home/dev/scratch-2024', 'scratch-*')).toBe(true);
+      expect(matchesPattern('/home/scratch/project', 'scratch-*')).toBe(false);
+    });
+
+    it('should match whole remote URLs', () => {
+      expect(matchesRemote('git@github.com:acme/secret.git', '*github.com:acme/*')).toBe(true);
+      expect(matchesRemote('https://github.com/acme/secret', '**github.com/acme/**')).toBe(true);
+      expect(matchesRemote('https://github.com/acme/secret', 'secret')).toBe(false);
+    });
+  });
+
+  describe('evaluateRepo', () => {
+    it('should track everything with default rules', () => {
+      const decision = evaluateRepo('/code/app', DEFAULT_TRACKING_RULES, []);
+      expect(decision.tracked).toBe(true);
+      expect(decision.xpMultiplier).toBe(1);
+    });
+
+    it('should let exclusions win over inclusions', () => {
+      const decision = evaluateRepo('/code/vendor-fork', rules({
+        include: ['/code/*'],
+        exclude: ['vendor-*']
+      }), []);
+      expect(decision.tracked).toBe(false);
+    });
+
+    it('should skip repos outside a non-empty include list', () => {
+      expect(evaluateRepo('/other/app', rules({ include: ['/code/**'] }), []).tracked).toBe(false);
+    });
+
+    it('should exclude by remote URL', () => {
+      const decision = evaluateRepo('/code/app', rules({
+        excludeRemotes: ['**corp.example.com**']
+      }), ['https://git.corp.example.com/team/app.git']);
+      expect(decision.tracked).toBe(false);
+    });
+
+    it('should apply the first matching XP multiplier', () => {
+      const decision = evaluateRepo('/code/side-project', rules({
+        xpMultipliers: { 'side-*': 0.5, '/code/*': 2 }
+      }), []);
+      expect(decision.xpMultiplier).toBe(0.5);
+    });
+  });
+
+  describe('with repos on disk', () => {
+    it('should read remotes and filter findGitReposInWorkspace', async () => {
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'gitrpg-ws-'));
+      for (const name of ['keep', 'drop']) {
+        fs.mkdirSync(path.join(root, name, '.git'), { recursive: true });
+        fs.writeFileSync(
+          path.join(root, name, '.git', 'config'),
+          `[remote "origin"]\n\turl = https://github.com/acme/${name}.git\n`
+        );
+      }
+
+      expect(getRepoRemoteUrls(path.join(root, 'keep'))).toEqual(['https://github.com/acme/keep.git']);
+
+      const repos = await findGitReposInWorkspace(root, rules({ excludeRemotes: ['**/drop.git'] }));
+      expect(repos.map(r => path.basename(r))).toEqual(['keep']);
+
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import {
+  absorbWithShield,
+  applyStatusEffect,
+  tickStatusEffects
+} from '../../src/services/statusEffects';
+import { BattleEngine, BattleFighter } from '../../src/services/battleEngine';
+import type { StatusEffect, StatusEffectApplication } from '../../src/types';
+
+describe('statusEffects', () => {
+  const poison: StatusEffectApplication = { type: 'poison', target: 'target', duration: 3, potency: 0.1 };
+
+  it('should stack poison up to five and ignore repeated stuns', () => {
+    let effects: StatusEffect[] = [];
+    for (let i = 0; i < 7; i++) {
+      effects = applyStatusEffect(effects, poison, 50, 100);
+    }
+    expect(effects).toEqual([{ type: 'poison', turnsLeft: 3, stacks: 5, amount: 5 }]);
+
+    const stun: StatusEffectApplication = { type: 'stun', target: 'target', duration: 1, potency: 0 };
+    const stunned = applyStatusEffect([], stun, 0, 100);
+    expect(applyStatusEffect(stunned, stun, 0, 100)).toBe(stunned);
+  });
+
+  it('should tick damage over time and expire effects', () => {
+    const result = tickStatusEffects([
+      { type: 'burn', turnsLeft: 1, stacks: 1, amount: 6 },
+      { type: 'shield', turnsLeft: 2, stacks: 1, amount: 10 }
+    ]);
+
+    expect(result.events).toEqual([{ type: 'burn', amount: 6 }]);
+    expect(result.stunned).toBe(false);
+    expect(result.effects).toEqual([{ type: 'shield', turnsLeft: 1, stacks: 1, amount: 10 }]);
+    expect(absorbWithShield(result.effects, 14)).toEqual({ effects: [], damage: 4, absorbed: 10 });
+  });
+
+  it('should apply class crit effects during battle', () => {
+    const mage: BattleFighter = {
+      id: 'mage',
+      name: 'Mage',
+      class: 'mage',
+      level: 5,
+      stats: { maxHp: 100, attack: 20, defense: 5, speed: 20, critChance: 1, critDamage: 1.5 },
+      currentHp: 100
+    };
+    const target: BattleFighter = { ...mage, id: 'target', class: 'warrior', stats: { ...mage.stats, speed: 1, critChance: 0 }, currentHp: 500 };
+
+    const { actions } = new BattleEngine(mage, target).runBattle();
+
+    expect(actions.find(a => a.actorId === 'mage')?.appliedEffects).toEqual(['burn']);
+    expect(actions.some(a => a.actionType === 'status' && a.statusEffect === 'burn' && a.actorId === 'target')).toBe(true);
+  });
+});